@@ -0,0 +1,349 @@
+-- =====================================================
+-- 묶음 상품 (시리즈 자료를 묶음 가격으로 판매)
+-- Supabase SQL Editor에서 실행하세요
+-- add-coupons.sql 이후에 실행 (purchase_orders / purchases.discount 사용)
+-- =====================================================
+
+-- =====================================================
+-- 1. 묶음 테이블
+-- price: 묶음 가격 (포함 자료 정가 합계보다 낮아야 함, 개별 자료의 100~500P 제한 없음)
+-- status: approved(판매 중) / hidden(판매 중지)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.bundles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    seller_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (length(title) BETWEEN 2 AND 100),
+    description TEXT NOT NULL DEFAULT '',
+    price INTEGER NOT NULL CHECK (price > 0),
+    status TEXT NOT NULL DEFAULT 'approved' CHECK (status IN ('approved', 'hidden')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.bundle_items (
+    bundle_id UUID NOT NULL REFERENCES public.bundles(id) ON DELETE CASCADE,
+    worksheet_id UUID NOT NULL REFERENCES public.worksheets(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (bundle_id, worksheet_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bundles_seller ON public.bundles(seller_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_items_worksheet ON public.bundle_items(worksheet_id);
+
+ALTER TABLE public.bundles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bundle_items ENABLE ROW LEVEL SECURITY;
+
+-- 생성은 create_bundle(SECURITY DEFINER)에서만 (자료 소유/가격 검증)
+DROP POLICY IF EXISTS "Anyone can view approved bundles" ON public.bundles;
+DROP POLICY IF EXISTS "Sellers can update own bundles" ON public.bundles;
+DROP POLICY IF EXISTS "Anyone can view bundle items" ON public.bundle_items;
+
+CREATE POLICY "Anyone can view approved bundles" ON public.bundles
+    FOR SELECT USING (status = 'approved' OR auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can update own bundles" ON public.bundles
+    FOR UPDATE USING (auth.uid() = seller_id) WITH CHECK (auth.uid() = seller_id);
+
+-- 판매자가 직접 바꿀 수 있는 건 표시 정보와 판매 상태뿐 (가격은 create_bundle 검증을 거쳐야 함)
+REVOKE UPDATE ON public.bundles FROM anon, authenticated;
+GRANT UPDATE (title, description, status, updated_at) ON public.bundles TO authenticated;
+
+CREATE POLICY "Anyone can view bundle items" ON public.bundle_items
+    FOR SELECT USING (true);
+
+-- =====================================================
+-- 2. 구매 내역에 묶음 연결
+-- 묶음 구매도 자료별 purchases 행을 만들므로 다운로드는 기존 방식 그대로 동작
+-- =====================================================
+ALTER TABLE public.purchase_orders
+ADD COLUMN IF NOT EXISTS bundle_id UUID REFERENCES public.bundles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.purchases
+ADD COLUMN IF NOT EXISTS bundle_id UUID REFERENCES public.bundles(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- 3. VIEW: bundle_cards (판매자 정보 + 정가 합계)
+-- original_price / item_count 는 판매 중인 자료만 집계
+-- preview_image: 첫 번째 자료의 미리보기
+-- =====================================================
+DROP VIEW IF EXISTS public.bundle_cards;
+
+CREATE VIEW public.bundle_cards
+WITH (security_invoker = true)
+AS
+SELECT
+    b.id,
+    b.seller_id,
+    p.nickname AS seller_nickname,
+    b.title,
+    b.description,
+    b.price,
+    b.status,
+    COALESCE(agg.item_count, 0) AS item_count,
+    COALESCE(agg.original_price, 0) AS original_price,
+    COALESCE(agg.grades, '{}') AS grades,
+    COALESCE(agg.subjects, '{}') AS subjects,
+    COALESCE(agg.preview_image, '') AS preview_image,
+    b.created_at,
+    b.updated_at
+FROM public.bundles b
+JOIN public.profiles p ON b.seller_id = p.id
+LEFT JOIN LATERAL (
+    SELECT
+        COUNT(*)::INTEGER AS item_count,
+        SUM(w.price)::INTEGER AS original_price,
+        array_agg(DISTINCT w.grade) AS grades,
+        array_agg(DISTINCT w.subject) AS subjects,
+        (array_agg(w.preview_image ORDER BY bi.position))[1] AS preview_image
+    FROM public.bundle_items bi
+    JOIN public.worksheets w ON w.id = bi.worksheet_id
+    WHERE bi.bundle_id = b.id AND w.status = 'approved'
+) agg ON true;
+
+-- =====================================================
+-- 4. 묶음 생성
+-- 본인 소유의 판매 중인 자료 2개 이상, 묶음 가격은 정가 합계보다 낮아야 함
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_bundle(
+    p_title TEXT,
+    p_description TEXT,
+    p_price INTEGER,
+    p_worksheet_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_count INTEGER;
+    v_original_price INTEGER;
+    v_bundle_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    SELECT COUNT(*), COALESCE(SUM(w.price), 0)
+    INTO v_count, v_original_price
+    FROM public.worksheets w
+    WHERE w.id IN (SELECT DISTINCT unnest(p_worksheet_ids))
+      AND w.seller_id = v_user_id
+      AND w.status = 'approved';
+
+    IF v_count <> (SELECT COUNT(DISTINCT id) FROM unnest(p_worksheet_ids) AS id) THEN
+        RAISE EXCEPTION '본인의 판매 중인 자료만 묶을 수 있습니다.';
+    END IF;
+
+    IF v_count < 2 THEN
+        RAISE EXCEPTION '묶음에는 자료가 2개 이상 필요합니다.';
+    END IF;
+
+    IF p_price IS NULL OR p_price <= 0 OR p_price >= v_original_price THEN
+        RAISE EXCEPTION '묶음 가격은 정가 합계(%P)보다 낮아야 합니다.', v_original_price;
+    END IF;
+
+    INSERT INTO public.bundles (seller_id, title, description, price)
+    VALUES (v_user_id, trim(p_title), trim(COALESCE(p_description, '')), p_price)
+    RETURNING id INTO v_bundle_id;
+
+    INSERT INTO public.bundle_items (bundle_id, worksheet_id, position)
+    SELECT v_bundle_id, ids.id, MIN(ids.ord)
+    FROM unnest(p_worksheet_ids) WITH ORDINALITY AS ids(id, ord)
+    GROUP BY ids.id;
+
+    RETURN v_bundle_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bundle(TEXT, TEXT, INTEGER, UUID[]) TO authenticated;
+
+-- =====================================================
+-- 5. 묶음 구매
+-- 이미 구매한 자료는 건너뛰고, 남은 자료의 정가 비율만큼 묶음 가격을 청구
+--   청구액 = 묶음 가격 × (남은 자료 정가 합계 / 전체 정가 합계)  (내림)
+-- 청구액은 자료 정가 비율로 배분해 자료별 purchases 행에 기록 (누적합 기준 내림)
+-- purchase_worksheets 와 같은 idempotency_key 규칙 사용
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purchase_bundle(
+    p_user_id UUID,
+    p_bundle_id UUID,
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_bundle RECORD;
+    v_item RECORD;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_seller_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_full_price INTEGER;
+    v_subtotal INTEGER;
+    v_charge INTEGER;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_skipped JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    SELECT * INTO v_bundle FROM public.bundles WHERE id = p_bundle_id;
+
+    IF NOT FOUND OR v_bundle.status <> 'approved' THEN
+        RAISE EXCEPTION '현재 판매 중이 아닌 묶음입니다.';
+    END IF;
+
+    IF v_bundle.seller_id = p_user_id THEN
+        RAISE EXCEPTION '본인의 묶음은 구매할 수 없습니다.';
+    END IF;
+
+    -- 판매 중인 자료만 대상 (판매 중지된 자료는 정가 합계에서도 제외)
+    CREATE TEMP TABLE IF NOT EXISTS _bundle_items (
+        worksheet_id UUID PRIMARY KEY,
+        title TEXT,
+        price INTEGER,
+        position INTEGER,
+        owned BOOLEAN
+    ) ON COMMIT DROP;
+    TRUNCATE _bundle_items;
+
+    INSERT INTO _bundle_items
+    SELECT w.id, w.title, w.price, bi.position,
+           EXISTS (
+               SELECT 1 FROM public.purchases p
+               WHERE p.buyer_id = p_user_id AND p.worksheet_id = w.id
+           )
+    FROM public.bundle_items bi
+    JOIN public.worksheets w ON w.id = bi.worksheet_id
+    WHERE bi.bundle_id = p_bundle_id AND w.status = 'approved';
+
+    SELECT COALESCE(SUM(price), 0) INTO v_full_price FROM _bundle_items;
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM _bundle_items WHERE NOT owned;
+
+    SELECT COALESCE(array_agg(json_build_object(
+        'worksheetId', worksheet_id,
+        'title', title,
+        'reason', 'ALREADY_PURCHASED',
+        'message', '이미 구매한 자료입니다.'
+    )), ARRAY[]::JSON[])
+    INTO v_skipped
+    FROM _bundle_items WHERE owned;
+
+    IF v_subtotal = 0 THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'subtotal', 0,
+            'discount', 0,
+            'couponCode', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_skipped
+        );
+    END IF;
+
+    -- 묶음 가격이 정가 합계 이상이 된 경우(자료 가격 인하 등)에는 정가로 판매
+    v_charge := LEAST(v_subtotal, FLOOR(v_bundle.price::NUMERIC * v_subtotal / v_full_price)::INTEGER);
+
+    IF v_user_points < v_charge THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_charge, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, bundle_id)
+    VALUES (p_user_id, p_idempotency_key, p_bundle_id)
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN
+        SELECT worksheet_id, title, price,
+               -- 누적 정가 비율로 청구액을 배분 (합계가 정확히 v_charge)
+               FLOOR(v_charge::NUMERIC * SUM(price) OVER w / v_subtotal)::INTEGER
+             - FLOOR(v_charge::NUMERIC * (SUM(price) OVER w - price) / v_subtotal)::INTEGER AS paid
+        FROM _bundle_items
+        WHERE NOT owned
+        WINDOW w AS (ORDER BY position, worksheet_id)
+    LOOP
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, discount, order_id, bundle_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.paid, v_item.price - v_item.paid, v_order_id, p_bundle_id)
+        RETURNING id INTO v_purchase_id;
+
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        UPDATE public.profiles
+        SET points = points + v_item.paid
+        WHERE id = v_bundle.seller_id
+        RETURNING points INTO v_seller_balance;
+
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (
+            v_bundle.seller_id,
+            'sale',
+            v_item.paid,
+            v_seller_balance,
+            v_item.title || ' 판매 (묶음: ' || v_bundle.title || ')',
+            v_purchase_id
+        );
+
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.paid,
+            'discount', v_item.price - v_item.paid
+        )::JSON;
+    END LOOP;
+
+    v_new_balance := v_user_points - v_charge;
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (p_user_id, 'purchase', -v_charge, v_new_balance, '묶음 구매: ' || v_bundle.title, v_order_id);
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'subtotal', v_subtotal,
+        'discount', v_subtotal - v_charge,
+        'couponCode', NULL,
+        'totalSpent', v_charge,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_skipped
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_charge,
+        subtotal = v_subtotal,
+        discount = v_subtotal - v_charge,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_bundle(UUID, UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,466 @@
+-- =====================================================
+-- 할인 쿠폰 / 프로모션 코드
+-- Supabase SQL Editor에서 실행하세요
+-- add-purchase-orders.sql 이후에 실행 (purchase_worksheets 재정의)
+-- =====================================================
+
+-- =====================================================
+-- 1. 쿠폰 테이블
+-- discount_type: percent(정률, discount_value = %) / fixed(정액, discount_value = P)
+-- subject / grade: NULL 이면 전체 자료에 적용
+-- usage_limit: 전체 사용 횟수 제한 (NULL = 무제한)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND length(code) BETWEEN 3 AND 30),
+    description TEXT NOT NULL DEFAULT '',
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+    discount_value INTEGER NOT NULL CHECK (discount_value > 0),
+    max_discount INTEGER CHECK (max_discount IS NULL OR max_discount > 0),
+    min_spend INTEGER NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+    subject TEXT,
+    grade TEXT,
+    usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0),
+    per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+    used_count INTEGER NOT NULL DEFAULT 0,
+    starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES public.profiles(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (discount_type <> 'percent' OR discount_value <= 100)
+);
+
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL,
+    discount INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_user ON public.coupon_redemptions(coupon_id, user_id);
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- 쿠폰 관리는 관리자만 (구매자는 preview_coupon / purchase_worksheets 로만 접근)
+DROP POLICY IF EXISTS "Admins can manage coupons" ON public.coupons;
+CREATE POLICY "Admins can manage coupons" ON public.coupons
+    FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS "Users can view own redemptions" ON public.coupon_redemptions;
+CREATE POLICY "Users can view own redemptions" ON public.coupon_redemptions
+    FOR SELECT USING (auth.uid() = user_id OR public.is_admin());
+
+-- =====================================================
+-- 2. 주문/구매 내역에 할인 금액 기록
+-- purchases.price 는 실제 결제 금액 (할인 후), discount 는 해당 항목에 배분된 할인
+-- =====================================================
+ALTER TABLE public.purchase_orders
+ADD COLUMN IF NOT EXISTS subtotal INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS discount INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL;
+
+ALTER TABLE public.purchases
+ADD COLUMN IF NOT EXISTS discount INTEGER NOT NULL DEFAULT 0;
+
+-- =====================================================
+-- 3. 포인트 거래 유형에 쿠폰 할인 추가
+-- (기존 데이터 검사는 생략 — NOT VALID)
+-- =====================================================
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount'
+)) NOT VALID;
+
+-- =====================================================
+-- 4. 쿠폰 평가 (미리보기와 결제에서 공통 사용)
+-- 구매 가능한 자료(승인됨, 본인 자료 아님, 미구매) 중 쿠폰 대상만 할인
+-- allocations: 할인액을 대상 항목 가격 비율로 배분 (합계가 정확히 discount 가 되도록 누적합 기준 내림)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.evaluate_coupon(
+    p_user_id UUID,
+    p_code TEXT,
+    p_worksheet_ids UUID[]
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_coupon RECORD;
+    v_user_uses INTEGER;
+    v_items JSON;
+    v_subtotal INTEGER;
+    v_discount INTEGER;
+    v_allocations JSON;
+BEGIN
+    SELECT * INTO v_coupon FROM public.coupons WHERE code = upper(trim(p_code));
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('valid', false, 'error', '존재하지 않는 쿠폰입니다.');
+    END IF;
+
+    IF NOT v_coupon.is_active THEN
+        RETURN json_build_object('valid', false, 'error', '사용할 수 없는 쿠폰입니다.');
+    END IF;
+
+    IF v_coupon.starts_at > NOW() THEN
+        RETURN json_build_object('valid', false, 'error', '아직 사용 기간이 아닌 쿠폰입니다.');
+    END IF;
+
+    IF v_coupon.expires_at IS NOT NULL AND v_coupon.expires_at < NOW() THEN
+        RETURN json_build_object('valid', false, 'error', '만료된 쿠폰입니다.');
+    END IF;
+
+    IF v_coupon.usage_limit IS NOT NULL AND v_coupon.used_count >= v_coupon.usage_limit THEN
+        RETURN json_build_object('valid', false, 'error', '선착순 사용 수량이 모두 소진된 쿠폰입니다.');
+    END IF;
+
+    SELECT COUNT(*) INTO v_user_uses
+    FROM public.coupon_redemptions
+    WHERE coupon_id = v_coupon.id AND user_id = p_user_id;
+
+    IF v_user_uses >= v_coupon.per_user_limit THEN
+        RETURN json_build_object('valid', false, 'error', '이미 사용한 쿠폰입니다.');
+    END IF;
+
+    SELECT COALESCE(json_agg(json_build_object('worksheet_id', w.id, 'price', w.price)), '[]'::JSON),
+           COALESCE(SUM(w.price), 0)
+    INTO v_items, v_subtotal
+    FROM public.worksheets w
+    WHERE w.id = ANY(p_worksheet_ids)
+      AND w.status = 'approved'
+      AND w.seller_id <> p_user_id
+      AND (v_coupon.subject IS NULL OR w.subject = v_coupon.subject)
+      AND (v_coupon.grade IS NULL OR w.grade = v_coupon.grade)
+      AND NOT EXISTS (
+          SELECT 1 FROM public.purchases p
+          WHERE p.buyer_id = p_user_id AND p.worksheet_id = w.id
+      );
+
+    IF v_subtotal = 0 THEN
+        RETURN json_build_object('valid', false, 'error', '쿠폰을 적용할 수 있는 자료가 없습니다.');
+    END IF;
+
+    IF v_subtotal < v_coupon.min_spend THEN
+        RETURN json_build_object(
+            'valid', false,
+            'error', '쿠폰 대상 자료를 ' || v_coupon.min_spend || 'P 이상 구매해야 사용할 수 있습니다.'
+        );
+    END IF;
+
+    IF v_coupon.discount_type = 'percent' THEN
+        v_discount := (v_subtotal * v_coupon.discount_value) / 100;
+        IF v_coupon.max_discount IS NOT NULL THEN
+            v_discount := LEAST(v_discount, v_coupon.max_discount);
+        END IF;
+    ELSE
+        v_discount := LEAST(v_coupon.discount_value, v_subtotal);
+    END IF;
+
+    SELECT json_agg(json_build_object('worksheetId', worksheet_id, 'discount', allocated))
+    INTO v_allocations
+    FROM (
+        SELECT
+            worksheet_id,
+            (v_discount * running) / v_subtotal - (v_discount * (running - price)) / v_subtotal AS allocated
+        FROM (
+            SELECT worksheet_id, price, SUM(price) OVER (ORDER BY worksheet_id) AS running
+            FROM json_to_recordset(v_items) AS i(worksheet_id UUID, price INTEGER)
+        ) t
+    ) a;
+
+    RETURN json_build_object(
+        'valid', true,
+        'couponId', v_coupon.id,
+        'code', v_coupon.code,
+        'description', v_coupon.description,
+        'eligibleSubtotal', v_subtotal,
+        'discount', v_discount,
+        'allocations', COALESCE(v_allocations, '[]'::JSON)
+    );
+END;
+$$;
+
+-- 장바구니에서 쿠폰 적용 미리보기
+CREATE OR REPLACE FUNCTION public.preview_coupon(p_code TEXT, p_worksheet_ids UUID[])
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN json_build_object('valid', false, 'error', '인증이 필요합니다.');
+    END IF;
+
+    RETURN public.evaluate_coupon(auth.uid(), p_code, p_worksheet_ids);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_coupon(UUID, TEXT, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.preview_coupon(TEXT, UUID[]) TO authenticated;
+
+-- =====================================================
+-- 5. 결제 함수 (쿠폰 적용)
+-- 쿠폰 할인은 대상 항목에 배분되어 판매자는 실제 결제된 금액만큼 정산
+-- 구매자 포인트 내역: coupon_discount(+할인) → purchase(-상품 합계) 순으로 기록
+-- =====================================================
+DROP FUNCTION IF EXISTS public.purchase_worksheets(UUID, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.purchase_worksheets(
+    p_user_id UUID,
+    p_worksheet_ids UUID[],
+    p_idempotency_key TEXT,
+    p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_item RECORD;
+    v_total_price INTEGER := 0;
+    v_discount INTEGER := 0;
+    v_coupon JSON;
+    v_coupon_id UUID;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_seller_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_failed JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_worksheet_ids IS NULL OR array_length(p_worksheet_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '구매할 자료를 선택해주세요.';
+    END IF;
+
+    -- Get user's current points (with lock to prevent race condition)
+    -- 같은 구매자의 결제는 이 잠금으로 직렬화되므로, 아래 키 조회는 동시 재시도도 안전
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    -- 1) 항목별 검증 → 구매 가능한 항목만 임시 테이블에 모음
+    CREATE TEMP TABLE IF NOT EXISTS _checkout_items (
+        worksheet_id UUID PRIMARY KEY,
+        seller_id UUID,
+        title TEXT,
+        price INTEGER,
+        discount INTEGER NOT NULL DEFAULT 0
+    ) ON COMMIT DROP;
+    TRUNCATE _checkout_items;
+
+    FOR v_item IN
+        SELECT ids.id AS requested_id, w.id, w.title, w.price, w.seller_id, w.status,
+               EXISTS (
+                   SELECT 1 FROM public.purchases p
+                   WHERE p.buyer_id = p_user_id AND p.worksheet_id = ids.id
+               ) AS already_purchased
+        FROM (SELECT DISTINCT unnest(p_worksheet_ids) AS id) ids
+        LEFT JOIN public.worksheets w ON w.id = ids.id
+    LOOP
+        IF v_item.id IS NULL THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.requested_id,
+                'reason', 'NOT_FOUND',
+                'message', '존재하지 않는 자료입니다.'
+            )::JSON;
+        ELSIF v_item.status <> 'approved' THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'NOT_APPROVED',
+                'message', '현재 판매 중이 아닌 자료입니다.'
+            )::JSON;
+        ELSIF v_item.seller_id = p_user_id THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'OWN_WORKSHEET',
+                'message', '본인의 자료는 구매할 수 없습니다.'
+            )::JSON;
+        ELSIF v_item.already_purchased THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'ALREADY_PURCHASED',
+                'message', '이미 구매한 자료입니다.'
+            )::JSON;
+        ELSE
+            INSERT INTO _checkout_items (worksheet_id, seller_id, title, price)
+            VALUES (v_item.id, v_item.seller_id, v_item.title, v_item.price);
+            v_total_price := v_total_price + v_item.price;
+        END IF;
+    END LOOP;
+
+    -- 구매 가능한 항목이 없으면 결제 없이 실패 목록만 반환 (부작용이 없으므로 저장하지 않음)
+    IF NOT EXISTS (SELECT 1 FROM _checkout_items) THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'subtotal', 0,
+            'discount', 0,
+            'couponCode', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_failed
+        );
+    END IF;
+
+    -- 2) 쿠폰 적용 (쿠폰 행을 잠가 사용 수량 초과를 방지)
+    IF p_coupon_code IS NOT NULL AND length(trim(p_coupon_code)) > 0 THEN
+        PERFORM 1 FROM public.coupons WHERE code = upper(trim(p_coupon_code)) FOR UPDATE;
+
+        v_coupon := public.evaluate_coupon(
+            p_user_id,
+            p_coupon_code,
+            ARRAY(SELECT worksheet_id FROM _checkout_items)
+        );
+
+        IF NOT (v_coupon->>'valid')::BOOLEAN THEN
+            RAISE EXCEPTION '%', v_coupon->>'error';
+        END IF;
+
+        v_coupon_id := (v_coupon->>'couponId')::UUID;
+        v_discount := (v_coupon->>'discount')::INTEGER;
+
+        UPDATE _checkout_items ci
+        SET discount = (a->>'discount')::INTEGER
+        FROM json_array_elements(v_coupon->'allocations') a
+        WHERE ci.worksheet_id = (a->>'worksheetId')::UUID;
+    END IF;
+
+    -- Check if user has enough points (할인 후 결제 금액 기준)
+    IF v_user_points < v_total_price - v_discount THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_total_price - v_discount, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, coupon_id)
+    VALUES (p_user_id, p_idempotency_key, v_coupon_id)
+    RETURNING id INTO v_order_id;
+
+    -- 3) 구매 처리
+    FOR v_item IN SELECT * FROM _checkout_items LOOP
+        -- Create purchase record (price = 실제 결제 금액)
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, discount, order_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.price - v_item.discount, v_item.discount, v_order_id)
+        RETURNING id INTO v_purchase_id;
+
+        -- Update worksheet sales count
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        -- Add points to seller (할인 배분 후 금액)
+        UPDATE public.profiles
+        SET points = points + (v_item.price - v_item.discount)
+        WHERE id = v_item.seller_id
+        RETURNING points INTO v_seller_balance;
+
+        -- Record seller transaction
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (
+            v_item.seller_id,
+            'sale',
+            v_item.price - v_item.discount,
+            v_seller_balance,
+            v_item.title || ' 판매' || CASE WHEN v_item.discount > 0 THEN ' (쿠폰 할인 ' || v_item.discount || 'P)' ELSE '' END,
+            v_purchase_id
+        );
+
+        -- Remove from cart (선택하지 않은 항목은 장바구니에 그대로 남음)
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.price - v_item.discount,
+            'discount', v_item.discount
+        )::JSON;
+    END LOOP;
+
+    -- Deduct points from buyer
+    v_new_balance := v_user_points - v_total_price + v_discount;
+
+    IF v_discount > 0 THEN
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (
+            p_user_id,
+            'coupon_discount',
+            v_discount,
+            v_user_points + v_discount,
+            '쿠폰 할인 (' || (v_coupon->>'code') || ')',
+            v_order_id
+        );
+
+        INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount)
+        VALUES (v_coupon_id, p_user_id, v_order_id, v_discount);
+
+        UPDATE public.coupons SET used_count = used_count + 1 WHERE id = v_coupon_id;
+    END IF;
+
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    -- Record buyer transaction (주문 단위)
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (p_user_id, 'purchase', -v_total_price, v_new_balance, '워크시트 구매', v_order_id);
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'subtotal', v_total_price,
+        'discount', v_discount,
+        'couponCode', v_coupon->>'code',
+        'totalSpent', v_total_price - v_discount,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_failed
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_total_price - v_discount,
+        subtotal = v_total_price,
+        discount = v_discount,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_worksheets(UUID, UUID[], TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,356 @@
+-- =====================================================
+-- 이벤트 자동 시작 / 종료
+-- Supabase SQL Editor에서 실행하세요
+-- add-quiz-scoring.sql 이후에 실행 (participate_first_come, submit_quiz, get_quiz_questions 를 다시 정의)
+--
+-- 상태 전환 (start_at / end_at 기준, 서버 시각)
+--   scheduled → active: start_at 이 지나면
+--   scheduled/active → ended: end_at 이 지나면
+-- pg_cron 이 1분마다 sync_event_status() 로 상태 컬럼을 맞추고,
+-- 참여 RPC 는 상태 컬럼이 아직 바뀌기 전이라도 시각으로 판단 (event_phase)
+-- =====================================================
+
+-- =====================================================
+-- 1. 현재 시각 기준 이벤트 단계
+-- draft: 임시저장 / upcoming: 시작 전 / active: 진행 중 / ended: 종료
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.event_phase(
+    p_status TEXT,
+    p_start_at TIMESTAMPTZ,
+    p_end_at TIMESTAMPTZ
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_status = 'draft' THEN 'draft'
+        WHEN p_status = 'ended' THEN 'ended'
+        WHEN p_end_at IS NOT NULL AND NOW() >= p_end_at THEN 'ended'
+        WHEN p_start_at IS NOT NULL AND NOW() < p_start_at THEN 'upcoming'
+        WHEN p_status = 'scheduled' AND p_start_at IS NULL THEN 'upcoming'
+        ELSE 'active'
+    END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.event_phase(TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO anon, authenticated;
+
+-- =====================================================
+-- 2. 참여 가능 여부 (내부용)
+-- 참여할 수 없으면 사유, 가능하면 NULL
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.event_window_error(
+    p_status TEXT,
+    p_start_at TIMESTAMPTZ,
+    p_end_at TIMESTAMPTZ
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE public.event_phase(p_status, p_start_at, p_end_at)
+        WHEN 'active' THEN NULL
+        WHEN 'upcoming' THEN '아직 시작되지 않은 이벤트입니다.'
+        WHEN 'ended' THEN '종료된 이벤트입니다.'
+        ELSE '진행 중인 이벤트가 아닙니다.'
+    END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_window_error(TEXT, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. 상태 컬럼 동기화 (pg_cron 에서 호출)
+-- 바뀐 이벤트 수를 반환
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.sync_event_status()
+RETURNS INTEGER AS $$
+DECLARE
+    v_started INTEGER;
+    v_ended INTEGER;
+BEGIN
+    UPDATE public.events
+    SET status = 'ended'
+    WHERE status IN ('scheduled', 'active')
+      AND end_at IS NOT NULL
+      AND end_at <= NOW();
+    GET DIAGNOSTICS v_ended = ROW_COUNT;
+
+    UPDATE public.events
+    SET status = 'active'
+    WHERE status = 'scheduled'
+      AND start_at IS NOT NULL
+      AND start_at <= NOW();
+    GET DIAGNOSTICS v_started = ROW_COUNT;
+
+    RETURN v_started + v_ended;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sync_event_status() FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_events_status_start_at ON public.events(status, start_at);
+CREATE INDEX IF NOT EXISTS idx_events_status_end_at ON public.events(status, end_at);
+
+-- =====================================================
+-- 4. 1분마다 실행
+-- Database > Extensions 에서 pg_cron 이 켜져 있어야 함
+-- =====================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule(jobid) FROM cron.job WHERE jobname = 'sync-event-status';
+
+SELECT cron.schedule('sync-event-status', '* * * * *', 'SELECT public.sync_event_status()');
+
+-- =====================================================
+-- 5. 이벤트 활성화 (관리자)
+-- start_at 이 미래면 예약(scheduled), 아니면 바로 진행(active)
+-- 이미 정한 start_at 은 유지하고, 비어 있을 때만 지금으로 채움
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.activate_event(p_event_id UUID)
+RETURNS JSON AS $$
+DECLARE
+    v_event RECORD;
+    v_start_at TIMESTAMPTZ;
+    v_status TEXT;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 이벤트를 활성화할 수 있습니다.';
+    END IF;
+
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '이벤트를 찾을 수 없습니다.';
+    END IF;
+
+    IF v_event.status NOT IN ('draft', 'scheduled') THEN
+        RAISE EXCEPTION '이미 진행 중이거나 종료된 이벤트입니다.';
+    END IF;
+
+    IF v_event.end_at IS NOT NULL AND v_event.end_at <= NOW() THEN
+        RAISE EXCEPTION '종료 시각이 이미 지난 이벤트입니다.';
+    END IF;
+
+    v_start_at := COALESCE(v_event.start_at, NOW());
+    v_status := CASE WHEN v_start_at > NOW() THEN 'scheduled' ELSE 'active' END;
+
+    UPDATE public.events
+    SET status = v_status, start_at = v_start_at
+    WHERE id = p_event_id;
+
+    RETURN json_build_object('success', true, 'status', v_status, 'startAt', v_start_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.activate_event(UUID) TO authenticated;
+
+-- =====================================================
+-- 6. 선착순 / 댓글 이벤트 참여
+-- add-point-ledger.sql 의 participate_first_come 과 동일, 상태 대신 기간(event_window_error)으로 판단
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.participate_first_come(
+    p_event_id UUID,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_window_error TEXT;
+    v_position INTEGER;
+    v_points_earned INTEGER;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error', '인증이 필요합니다.');
+    END IF;
+
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', '이벤트를 찾을 수 없습니다.');
+    END IF;
+
+    IF v_event.type NOT IN ('first_come', 'comment') THEN
+        RETURN json_build_object('success', false, 'error', '참여할 수 없는 이벤트입니다.');
+    END IF;
+
+    v_window_error := public.event_window_error(v_event.status, v_event.start_at, v_event.end_at);
+    IF v_window_error IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error', v_window_error);
+    END IF;
+
+    IF v_event.type = 'first_come' AND v_event.max_participants IS NOT NULL
+       AND v_event.current_participants >= v_event.max_participants THEN
+        RETURN json_build_object('success', false, 'error', '이미 마감되었습니다.');
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RETURN json_build_object('success', false, 'error', '이미 참여하셨습니다.');
+    END IF;
+
+    IF v_event.mission_type = 'comment_required' AND (p_comment IS NULL OR length(trim(p_comment)) < 1) THEN
+        RETURN json_build_object('success', false, 'error', '댓글을 입력해주세요.');
+    END IF;
+
+    IF v_event.type = 'comment' AND v_event.min_length IS NOT NULL
+       AND (p_comment IS NULL OR length(trim(p_comment)) < v_event.min_length) THEN
+        RETURN json_build_object('success', false, 'error', '최소 ' || v_event.min_length || '자 이상 작성해주세요.');
+    END IF;
+
+    v_position := v_event.current_participants + 1;
+    v_points_earned := CASE WHEN v_event.type = 'comment' THEN 0 ELSE v_event.points_reward END;
+
+    INSERT INTO public.event_participations (event_id, user_id, comment_text, points_earned)
+    VALUES (p_event_id, v_user_id, p_comment, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'first_come', v_points_earned, '선착순 이벤트: ' || v_event.title, p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'position', v_position,
+        'points_earned', v_points_earned,
+        'new_balance', v_new_balance,
+        'awaiting_approval', v_event.type = 'comment'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.participate_first_come(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 7. 퀴즈 제출
+-- add-quiz-scoring.sql 의 submit_quiz 와 동일, 상태 대신 기간(event_window_error)으로 판단
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_quiz(p_event_id UUID, p_answers JSONB)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_window_error TEXT;
+    v_answers JSONB := COALESCE(p_answers, '{}'::JSONB);
+    v_grade JSON;
+    v_total INTEGER;
+    v_correct INTEGER;
+    v_is_correct BOOLEAN;
+    v_points_earned INTEGER := 0;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF jsonb_typeof(v_answers) <> 'object' THEN
+        RAISE EXCEPTION '답안 형식이 올바르지 않습니다.';
+    END IF;
+
+    -- 이벤트 행 잠금으로 정원 확인과 참여자 수 증가를 직렬화
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND OR v_event.type <> 'quiz' THEN
+        RAISE EXCEPTION '이벤트를 찾을 수 없습니다.';
+    END IF;
+
+    v_window_error := public.event_window_error(v_event.status, v_event.start_at, v_event.end_at);
+    IF v_window_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', v_window_error;
+    END IF;
+
+    IF v_event.max_participants IS NOT NULL AND v_event.current_participants >= v_event.max_participants THEN
+        RAISE EXCEPTION '참여 인원이 마감되었습니다.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION '이미 참여했습니다.';
+    END IF;
+
+    v_grade := public.grade_quiz(p_event_id, v_answers);
+    v_total := (v_grade->>'total')::INTEGER;
+    v_correct := (v_grade->>'correct')::INTEGER;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION '문제가 등록되지 않은 이벤트입니다.';
+    END IF;
+
+    v_is_correct := CASE v_event.scoring_mode
+        WHEN 'per_question' THEN v_correct > 0
+        WHEN 'threshold' THEN v_correct * 100 >= v_event.pass_threshold * v_total
+        ELSE v_correct = v_total
+    END;
+
+    v_points_earned := CASE
+        WHEN v_event.scoring_mode = 'per_question' THEN FLOOR(v_event.points_reward * v_correct::NUMERIC / v_total)::INTEGER
+        WHEN v_is_correct THEN v_event.points_reward
+        ELSE 0
+    END;
+
+    INSERT INTO public.event_participations (event_id, user_id, answers, correct_count, is_correct, points_earned)
+    VALUES (p_event_id, v_user_id, v_answers, v_correct, v_is_correct, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'quiz', v_points_earned,
+            '퀴즈 이벤트: ' || v_event.title || ' (' || v_correct || '/' || v_total || ')', p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'isCorrect', v_is_correct,
+        'correctCount', v_correct,
+        'totalQuestions', v_total,
+        'pointsEarned', v_points_earned,
+        'scoringMode', v_event.scoring_mode,
+        'passThreshold', v_event.pass_threshold,
+        'newBalance', v_new_balance,
+        'results', v_grade->'results'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- 8. 퀴즈 문제 조회
+-- add-quiz-grading.sql 의 get_quiz_questions 와 동일, 시작 시각이 지났으면 상태 전환 전이라도 조회 가능
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(p_event_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(json_agg(json_build_object(
+        'id', q.id,
+        'question', q.question,
+        'questionType', q.question_type,
+        'choices', q.choices,
+        'orderNum', q.order_num
+    ) ORDER BY q.order_num, q.created_at), '[]'::JSON)
+    FROM public.quiz_questions q
+    JOIN public.events e ON e.id = q.event_id
+    WHERE q.event_id = p_event_id
+      AND e.type = 'quiz'
+      AND public.event_phase(e.status, e.start_at, e.end_at) IN ('active', 'ended');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_questions(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
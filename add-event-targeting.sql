@@ -0,0 +1,336 @@
+-- =====================================================
+-- 이벤트 대상 학년 (target_grades) 적용
+-- Supabase SQL Editor에서 실행하세요
+-- add-event-schedule.sql 이후에 실행 (participate_first_come, submit_quiz, get_quiz_questions 를 다시 정의)
+--
+-- target_grades 가 비어 있으면 전체 대상
+-- 값이 있으면 user_interests.grade_group 이 하나라도 겹치는 회원만 조회 / 참여 가능
+-- =====================================================
+
+-- =====================================================
+-- 1. target_grades 는 관심 학년(grade_group)과 같은 값만
+-- 기존 데이터는 검사하지 않음 (NOT VALID)
+-- =====================================================
+ALTER TABLE public.events
+DROP CONSTRAINT IF EXISTS events_target_grades_check;
+
+ALTER TABLE public.events
+ADD CONSTRAINT events_target_grades_check
+CHECK (
+    target_grades IS NULL
+    OR target_grades <@ ARRAY['elementary_1_2', 'elementary_3_4', 'elementary_5_6', 'middle', 'high']::TEXT[]
+) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_user_interests_grade_group ON public.user_interests(grade_group);
+
+-- =====================================================
+-- 2. 대상 여부 (내부용)
+-- 참여할 수 없으면 사유, 가능하면 NULL
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.event_audience_error(p_target_grades TEXT[], p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN COALESCE(cardinality(p_target_grades), 0) = 0 THEN NULL
+        WHEN EXISTS (
+            SELECT 1 FROM public.user_interests
+            WHERE user_id = p_user_id AND grade_group = ANY(p_target_grades)
+        ) THEN NULL
+        ELSE '이벤트 대상 학년이 아닙니다. 관심 학년을 확인해주세요.'
+    END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_audience_error(TEXT[], UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. 예상 대상 인원 (관리자)
+-- 관심 학년 중 하나라도 겹치는 회원 수, 비어 있으면 전체 회원 수
+-- 결과: {audience, totalUsers, byGrade: {grade_group: 회원 수}}
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_event_audience_size(p_target_grades TEXT[] DEFAULT NULL)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_total INTEGER;
+    v_audience INTEGER;
+    v_by_grade JSON;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 조회할 수 있습니다.';
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO v_total FROM public.profiles;
+
+    IF COALESCE(cardinality(p_target_grades), 0) = 0 THEN
+        v_audience := v_total;
+    ELSE
+        SELECT COUNT(DISTINCT user_id)::INTEGER INTO v_audience
+        FROM public.user_interests
+        WHERE grade_group = ANY(p_target_grades);
+    END IF;
+
+    SELECT COALESCE(json_object_agg(g.grade_group, g.user_count), '{}'::JSON)
+    INTO v_by_grade
+    FROM (
+        SELECT grade_group, COUNT(*)::INTEGER AS user_count
+        FROM public.user_interests
+        GROUP BY grade_group
+    ) g;
+
+    RETURN json_build_object(
+        'audience', v_audience,
+        'totalUsers', v_total,
+        'byGrade', v_by_grade
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_audience_size(TEXT[]) TO authenticated;
+
+-- =====================================================
+-- 4. 선착순 / 댓글 이벤트 참여
+-- add-event-schedule.sql 의 participate_first_come 과 동일, 대상 학년 확인 추가
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.participate_first_come(
+    p_event_id UUID,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_window_error TEXT;
+    v_audience_error TEXT;
+    v_position INTEGER;
+    v_points_earned INTEGER;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error', '인증이 필요합니다.');
+    END IF;
+
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', '이벤트를 찾을 수 없습니다.');
+    END IF;
+
+    IF v_event.type NOT IN ('first_come', 'comment') THEN
+        RETURN json_build_object('success', false, 'error', '참여할 수 없는 이벤트입니다.');
+    END IF;
+
+    v_window_error := public.event_window_error(v_event.status, v_event.start_at, v_event.end_at);
+    IF v_window_error IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error', v_window_error);
+    END IF;
+
+    v_audience_error := public.event_audience_error(v_event.target_grades, v_user_id);
+    IF v_audience_error IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error', v_audience_error);
+    END IF;
+
+    IF v_event.type = 'first_come' AND v_event.max_participants IS NOT NULL
+       AND v_event.current_participants >= v_event.max_participants THEN
+        RETURN json_build_object('success', false, 'error', '이미 마감되었습니다.');
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RETURN json_build_object('success', false, 'error', '이미 참여하셨습니다.');
+    END IF;
+
+    IF v_event.mission_type = 'comment_required' AND (p_comment IS NULL OR length(trim(p_comment)) < 1) THEN
+        RETURN json_build_object('success', false, 'error', '댓글을 입력해주세요.');
+    END IF;
+
+    IF v_event.type = 'comment' AND v_event.min_length IS NOT NULL
+       AND (p_comment IS NULL OR length(trim(p_comment)) < v_event.min_length) THEN
+        RETURN json_build_object('success', false, 'error', '최소 ' || v_event.min_length || '자 이상 작성해주세요.');
+    END IF;
+
+    v_position := v_event.current_participants + 1;
+    v_points_earned := CASE WHEN v_event.type = 'comment' THEN 0 ELSE v_event.points_reward END;
+
+    INSERT INTO public.event_participations (event_id, user_id, comment_text, points_earned)
+    VALUES (p_event_id, v_user_id, p_comment, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'first_come', v_points_earned, '선착순 이벤트: ' || v_event.title, p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'position', v_position,
+        'points_earned', v_points_earned,
+        'new_balance', v_new_balance,
+        'awaiting_approval', v_event.type = 'comment'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.participate_first_come(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. 퀴즈 제출
+-- add-event-schedule.sql 의 submit_quiz 와 동일, 대상 학년 확인 추가
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_quiz(p_event_id UUID, p_answers JSONB)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_window_error TEXT;
+    v_audience_error TEXT;
+    v_answers JSONB := COALESCE(p_answers, '{}'::JSONB);
+    v_grade JSON;
+    v_total INTEGER;
+    v_correct INTEGER;
+    v_is_correct BOOLEAN;
+    v_points_earned INTEGER := 0;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF jsonb_typeof(v_answers) <> 'object' THEN
+        RAISE EXCEPTION '답안 형식이 올바르지 않습니다.';
+    END IF;
+
+    -- 이벤트 행 잠금으로 정원 확인과 참여자 수 증가를 직렬화
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND OR v_event.type <> 'quiz' THEN
+        RAISE EXCEPTION '이벤트를 찾을 수 없습니다.';
+    END IF;
+
+    v_window_error := public.event_window_error(v_event.status, v_event.start_at, v_event.end_at);
+    IF v_window_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', v_window_error;
+    END IF;
+
+    v_audience_error := public.event_audience_error(v_event.target_grades, v_user_id);
+    IF v_audience_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', v_audience_error;
+    END IF;
+
+    IF v_event.max_participants IS NOT NULL AND v_event.current_participants >= v_event.max_participants THEN
+        RAISE EXCEPTION '참여 인원이 마감되었습니다.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION '이미 참여했습니다.';
+    END IF;
+
+    v_grade := public.grade_quiz(p_event_id, v_answers);
+    v_total := (v_grade->>'total')::INTEGER;
+    v_correct := (v_grade->>'correct')::INTEGER;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION '문제가 등록되지 않은 이벤트입니다.';
+    END IF;
+
+    v_is_correct := CASE v_event.scoring_mode
+        WHEN 'per_question' THEN v_correct > 0
+        WHEN 'threshold' THEN v_correct * 100 >= v_event.pass_threshold * v_total
+        ELSE v_correct = v_total
+    END;
+
+    v_points_earned := CASE
+        WHEN v_event.scoring_mode = 'per_question' THEN FLOOR(v_event.points_reward * v_correct::NUMERIC / v_total)::INTEGER
+        WHEN v_is_correct THEN v_event.points_reward
+        ELSE 0
+    END;
+
+    INSERT INTO public.event_participations (event_id, user_id, answers, correct_count, is_correct, points_earned)
+    VALUES (p_event_id, v_user_id, v_answers, v_correct, v_is_correct, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'quiz', v_points_earned,
+            '퀴즈 이벤트: ' || v_event.title || ' (' || v_correct || '/' || v_total || ')', p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'isCorrect', v_is_correct,
+        'correctCount', v_correct,
+        'totalQuestions', v_total,
+        'pointsEarned', v_points_earned,
+        'scoringMode', v_event.scoring_mode,
+        'passThreshold', v_event.pass_threshold,
+        'newBalance', v_new_balance,
+        'results', v_grade->'results'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- 6. 이벤트 조회도 대상 학년만
+-- 화면에서만 거르면 PostgREST 로 직접 조회할 수 있으므로 RLS 로 제한
+-- (관리자는 "Admin can manage all events" 정책으로 전체 조회)
+-- =====================================================
+DROP POLICY IF EXISTS "Anyone can view active events" ON public.events;
+CREATE POLICY "Anyone can view active events" ON public.events
+    FOR SELECT USING (
+        (status IN ('active', 'ended', 'scheduled') OR auth.uid() = created_by)
+        AND (
+            COALESCE(cardinality(target_grades), 0) = 0
+            OR EXISTS (
+                SELECT 1 FROM public.user_interests ui
+                WHERE ui.user_id = auth.uid() AND ui.grade_group = ANY(target_grades)
+            )
+        )
+    );
+
+-- =====================================================
+-- 7. 퀴즈 문제 조회
+-- add-event-schedule.sql 의 get_quiz_questions 와 동일, 대상 학년 확인 추가
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(p_event_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(json_agg(json_build_object(
+        'id', q.id,
+        'question', q.question,
+        'questionType', q.question_type,
+        'choices', q.choices,
+        'orderNum', q.order_num
+    ) ORDER BY q.order_num, q.created_at), '[]'::JSON)
+    FROM public.quiz_questions q
+    JOIN public.events e ON e.id = q.event_id
+    WHERE q.event_id = p_event_id
+      AND e.type = 'quiz'
+      AND public.event_phase(e.status, e.start_at, e.end_at) IN ('active', 'ended')
+      AND public.event_audience_error(e.target_grades, auth.uid()) IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_questions(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,294 @@
+-- =====================================================
+-- 자료 선물하기
+-- Supabase SQL Editor에서 실행하세요
+-- add-bundles.sql 이후에 실행 (purchase_orders / purchases 컬럼 사용)
+-- =====================================================
+
+-- =====================================================
+-- 1. 선물 구매 기록
+-- 받는 사람이 purchases.buyer_id (다운로드/후기는 기존 방식 그대로)
+-- gift_from: 보낸 사람, gift_message: 함께 보낸 메시지
+-- =====================================================
+ALTER TABLE public.purchases
+ADD COLUMN IF NOT EXISTS gift_from UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS gift_message TEXT;
+
+-- 보낸 사람도 자신이 보낸 선물 내역을 볼 수 있음
+DROP POLICY IF EXISTS "Gift senders can view sent gifts" ON public.purchases;
+CREATE POLICY "Gift senders can view sent gifts" ON public.purchases
+    FOR SELECT USING (auth.uid() = gift_from);
+
+-- =====================================================
+-- 2. 포인트 거래 유형 / 쪽지 유형에 선물 추가
+-- gift_sent: 보낸 사람 차감, gift_received: 받은 사람 기록 (0P)
+-- =====================================================
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount', 'gift_sent', 'gift_received'
+)) NOT VALID;
+
+ALTER TABLE public.messages
+DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE public.messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('general', 'notice', 'inquiry', 'inquiry_reply', 'system', 'gift')) NOT VALID;
+
+-- =====================================================
+-- 3. 받는 사람 찾기
+-- '@' 가 있으면 로그인 이메일(auth.users, 본인이 바꿀 수 없음), 없으면 닉네임 정확히 일치
+-- 닉네임은 중복될 수 있으므로 여러 명이면 오류 (이메일로 다시 검색)
+-- 이메일은 가려서 반환 (ab***@example.com) - 결제 전에 받는 사람을 구분하는 용도
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.find_gift_recipient(p_query TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_query TEXT := trim(COALESCE(p_query, ''));
+    v_profile RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF position('@' IN v_query) > 0 THEN
+        SELECT p.id, p.nickname, u.email INTO v_profile
+        FROM auth.users u
+        JOIN public.profiles p ON p.id = u.id
+        WHERE lower(u.email) = lower(v_query);
+    ELSE
+        IF (SELECT COUNT(*) FROM public.profiles WHERE nickname = v_query) > 1 THEN
+            RAISE EXCEPTION '같은 닉네임의 회원이 여러 명입니다. 이메일로 검색해주세요.';
+        END IF;
+
+        SELECT p.id, p.nickname, u.email INTO v_profile
+        FROM public.profiles p
+        JOIN auth.users u ON u.id = p.id
+        WHERE p.nickname = v_query;
+    END IF;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('found', false);
+    END IF;
+
+    RETURN json_build_object(
+        'found', true,
+        'id', v_profile.id,
+        'nickname', v_profile.nickname,
+        'maskedEmail', regexp_replace(v_profile.email, '^([^@]{1,2})[^@]*', '\1***')
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_gift_recipient(TEXT) TO authenticated;
+
+-- =====================================================
+-- 4. 선물 결제
+-- api.cart.add 와 같은 규칙: 판매자에게 선물 불가, 받는 사람이 이미 보유한 자료 불가
+-- 보낸 사람이 판매자인 경우도 불가 (본인 자료 구매 불가와 동일)
+-- purchase_worksheets 와 같은 idempotency_key 규칙 사용 (주문은 보낸 사람 기준)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.gift_worksheet(
+    p_user_id UUID,
+    p_recipient_id UUID,
+    p_worksheet_id UUID,
+    p_message TEXT,
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_worksheet RECORD;
+    v_sender_nickname TEXT;
+    v_recipient_nickname TEXT;
+    v_recipient_points INTEGER;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_seller_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_message TEXT := NULLIF(trim(COALESCE(p_message, '')), '');
+    v_response JSON;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_recipient_id = p_user_id THEN
+        RAISE EXCEPTION '본인에게는 선물할 수 없습니다.';
+    END IF;
+
+    IF length(COALESCE(v_message, '')) > 200 THEN
+        RAISE EXCEPTION '메시지는 200자 이하로 입력해주세요.';
+    END IF;
+
+    -- 보낸 사람 / 받는 사람 행을 id 순서로 함께 잠금
+    -- 서로에게 동시에 선물해도 교착되지 않고, 같은 자료가 동시에 두 번 선물되지 않음
+    PERFORM 1 FROM public.profiles
+    WHERE id IN (p_user_id, p_recipient_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT points, nickname INTO v_user_points, v_sender_nickname
+    FROM public.profiles WHERE id = p_user_id;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    SELECT nickname, points INTO v_recipient_nickname, v_recipient_points
+    FROM public.profiles WHERE id = p_recipient_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '받는 사람을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT id, title, price, seller_id, status INTO v_worksheet
+    FROM public.worksheets WHERE id = p_worksheet_id;
+
+    IF NOT FOUND OR v_worksheet.status <> 'approved' THEN
+        RAISE EXCEPTION '현재 판매 중이 아닌 자료입니다.';
+    END IF;
+
+    IF v_worksheet.seller_id = p_user_id THEN
+        RAISE EXCEPTION '본인의 자료는 선물할 수 없습니다.';
+    END IF;
+
+    IF v_worksheet.seller_id = p_recipient_id THEN
+        RAISE EXCEPTION '판매자에게는 선물할 수 없습니다.';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.purchases
+        WHERE buyer_id = p_recipient_id AND worksheet_id = p_worksheet_id
+    ) THEN
+        RAISE EXCEPTION '받는 사람이 이미 보유한 자료입니다.';
+    END IF;
+
+    IF v_user_points < v_worksheet.price THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_worksheet.price, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, subtotal)
+    VALUES (p_user_id, p_idempotency_key, v_worksheet.price)
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO public.purchases (buyer_id, worksheet_id, price, order_id, gift_from, gift_message)
+    VALUES (p_recipient_id, p_worksheet_id, v_worksheet.price, v_order_id, p_user_id, v_message)
+    RETURNING id INTO v_purchase_id;
+
+    UPDATE public.worksheets
+    SET sales_count = sales_count + 1, download_count = download_count + 1
+    WHERE id = p_worksheet_id;
+
+    -- 판매자 정산
+    UPDATE public.profiles
+    SET points = points + v_worksheet.price
+    WHERE id = v_worksheet.seller_id
+    RETURNING points INTO v_seller_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        v_worksheet.seller_id,
+        'sale',
+        v_worksheet.price,
+        v_seller_balance,
+        v_worksheet.title || ' 판매 (선물)',
+        v_purchase_id
+    );
+
+    -- 보낸 사람 차감
+    v_new_balance := v_user_points - v_worksheet.price;
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        p_user_id,
+        'gift_sent',
+        -v_worksheet.price,
+        v_new_balance,
+        v_recipient_nickname || '님에게 선물: ' || v_worksheet.title,
+        v_purchase_id
+    );
+
+    -- 받는 사람 기록 (포인트 변동 없음)
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        p_recipient_id,
+        'gift_received',
+        0,
+        v_recipient_points,
+        v_sender_nickname || '님에게 받은 선물: ' || v_worksheet.title,
+        v_purchase_id
+    );
+
+    -- 받는 사람 장바구니/찜 목록에서 제거
+    DELETE FROM public.cart_items
+    WHERE user_id = p_recipient_id AND worksheet_id = p_worksheet_id;
+    DELETE FROM public.wishlist_items
+    WHERE user_id = p_recipient_id AND worksheet_id = p_worksheet_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES (
+        p_recipient_id,
+        'gift',
+        '선물이 도착했습니다',
+        v_sender_nickname || '님이 「' || v_worksheet.title || '」을(를) 선물했습니다.',
+        p_worksheet_id
+    );
+
+    INSERT INTO public.messages (sender_id, recipient_id, recipient_type, message_type, title, content)
+    VALUES (
+        p_user_id,
+        p_recipient_id,
+        'individual',
+        'gift',
+        '🎁 「' || v_worksheet.title || '」 선물',
+        COALESCE(v_message, v_sender_nickname || '님이 자료를 선물했습니다.')
+            || E'\n\n구매 내역에서 바로 다운로드할 수 있습니다.'
+    );
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'purchaseId', v_purchase_id,
+        'recipientNickname', v_recipient_nickname,
+        'totalSpent', v_worksheet.price,
+        'newBalance', v_new_balance
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_worksheet.price,
+        item_count = 1,
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.gift_worksheet(UUID, UUID, UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
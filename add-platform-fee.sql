@@ -0,0 +1,963 @@
+-- =====================================================
+-- 플랫폼 판매 수수료
+-- Supabase SQL Editor에서 실행하세요
+-- add-withdrawals.sql 이후에 실행 (point_transactions 유형 목록)
+--
+-- 수수료율 결정 순서: 판매자 등급 규칙 → 카테고리 규칙 → 기본 수수료율
+-- 판매 시 판매자 내역에 sale(+결제 금액) 과 platform_fee(-수수료) 를 따로 기록
+-- 판매 정산 코드는 credit_seller_sale 하나로 모음 (결제/묶음/선물 함수에서 사용)
+-- =====================================================
+
+-- =====================================================
+-- 1. 판매자 등급
+-- =====================================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS seller_tier TEXT NOT NULL DEFAULT 'standard';
+
+ALTER TABLE public.profiles
+DROP CONSTRAINT IF EXISTS profiles_seller_tier_check;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_seller_tier_check
+CHECK (seller_tier IN ('standard', 'pro', 'partner'));
+
+-- "Users can update own profile" 정책으로 본인 등급을 올리지 못하도록 관리자만 변경 허용
+CREATE OR REPLACE FUNCTION public.guard_seller_tier()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '판매자 등급은 관리자만 변경할 수 있습니다.';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_seller_tier_change ON public.profiles;
+CREATE TRIGGER on_seller_tier_change
+    BEFORE UPDATE OF seller_tier ON public.profiles
+    FOR EACH ROW
+    WHEN (OLD.seller_tier IS DISTINCT FROM NEW.seller_tier)
+    EXECUTE FUNCTION public.guard_seller_tier();
+
+-- =====================================================
+-- 2. 수수료 규칙
+-- scope = default (target 없음) / tier (target = 등급) / category (target = 카테고리)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.platform_fee_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope TEXT NOT NULL CHECK (scope IN ('default', 'tier', 'category')),
+    target TEXT,
+    rate NUMERIC(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+    updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK ((scope = 'default') = (target IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_platform_fee_rules_scope_target
+    ON public.platform_fee_rules(scope, COALESCE(target, ''));
+
+ALTER TABLE public.platform_fee_rules ENABLE ROW LEVEL SECURITY;
+
+-- 판매자도 수수료율을 확인할 수 있도록 공개, 변경은 관리자만
+DROP POLICY IF EXISTS "Fee rules are viewable by everyone" ON public.platform_fee_rules;
+CREATE POLICY "Fee rules are viewable by everyone" ON public.platform_fee_rules
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage fee rules" ON public.platform_fee_rules;
+CREATE POLICY "Admins can manage fee rules" ON public.platform_fee_rules
+    FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+INSERT INTO public.platform_fee_rules (scope, target, rate)
+VALUES ('default', NULL, 10)
+ON CONFLICT DO NOTHING;
+
+-- =====================================================
+-- 3. 구매 내역에 수수료 기록 / 포인트 거래 유형 추가
+-- platform_fee: 판매 시 차감(-), 환불 시 비율만큼 반환(+)
+-- =====================================================
+ALTER TABLE public.purchases
+ADD COLUMN IF NOT EXISTS platform_fee INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount', 'gift_sent', 'gift_received',
+  'purchase_refund', 'sale_refund', 'point_charge',
+  'withdrawal_hold', 'withdrawal_release', 'platform_fee'
+)) NOT VALID;
+
+-- =====================================================
+-- 4. 수수료율 조회
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.platform_fee_rate(p_seller_id UUID, p_category TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT r.rate FROM public.platform_fee_rules r
+         JOIN public.profiles p ON p.id = p_seller_id
+         WHERE r.scope = 'tier' AND r.target = p.seller_tier),
+        (SELECT rate FROM public.platform_fee_rules WHERE scope = 'category' AND target = p_category),
+        (SELECT rate FROM public.platform_fee_rules WHERE scope = 'default'),
+        0
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.platform_fee_rate(UUID, TEXT) TO authenticated;
+
+-- 정산 중복 확인용 (purchase 별 sale 내역)
+CREATE INDEX IF NOT EXISTS idx_point_transactions_related ON public.point_transactions(related_id);
+
+-- =====================================================
+-- 5. 판매 정산 (내부용 - 직접 호출 불가)
+-- purchases.price (실제 결제 금액) 를 판매자에게 적립하고 수수료를 차감
+-- 수수료는 내림 처리 (판매자에게 유리하게)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.credit_seller_sale(p_purchase_id UUID, p_description TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_sale RECORD;
+    v_rate NUMERIC;
+    v_fee INTEGER;
+    v_balance INTEGER;
+BEGIN
+    SELECT p.price, p.platform_fee, w.seller_id, w.category INTO v_sale
+    FROM public.purchases p
+    JOIN public.worksheets w ON w.id = p.worksheet_id
+    WHERE p.id = p_purchase_id
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    -- 구매 1건당 한 번만 정산
+    IF EXISTS (
+        SELECT 1 FROM public.point_transactions
+        WHERE related_id = p_purchase_id AND type = 'sale' AND user_id = v_sale.seller_id
+    ) THEN
+        RETURN COALESCE(v_sale.platform_fee, 0);
+    END IF;
+
+    v_rate := public.platform_fee_rate(v_sale.seller_id, v_sale.category);
+    v_fee := FLOOR(v_sale.price * v_rate / 100)::INTEGER;
+
+    UPDATE public.profiles
+    SET points = points + v_sale.price
+    WHERE id = v_sale.seller_id
+    RETURNING points INTO v_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (v_sale.seller_id, 'sale', v_sale.price, v_balance, p_description, p_purchase_id);
+
+    IF v_fee > 0 THEN
+        UPDATE public.profiles
+        SET points = points - v_fee
+        WHERE id = v_sale.seller_id
+        RETURNING points INTO v_balance;
+
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (
+            v_sale.seller_id,
+            'platform_fee',
+            -v_fee,
+            v_balance,
+            '판매 수수료 ' || trim(to_char(v_rate, 'FM990.##')) || '%',
+            p_purchase_id
+        );
+
+        UPDATE public.purchases SET platform_fee = v_fee WHERE id = p_purchase_id;
+    END IF;
+
+    RETURN v_fee;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.credit_seller_sale(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 6. 관리자: 수수료 규칙 / 판매자 등급 변경
+-- rate 가 NULL 이면 해당 규칙 삭제 (기본 수수료율은 삭제 불가)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.set_platform_fee_rule(p_scope TEXT, p_target TEXT, p_rate NUMERIC)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 변경할 수 있습니다.';
+    END IF;
+
+    IF p_scope = 'default' THEN
+        IF p_rate IS NULL THEN
+            RAISE EXCEPTION '기본 수수료율은 삭제할 수 없습니다.';
+        END IF;
+        p_target := NULL;
+    ELSIF p_scope NOT IN ('tier', 'category') OR NULLIF(trim(COALESCE(p_target, '')), '') IS NULL THEN
+        RAISE EXCEPTION '수수료 규칙 대상을 확인해주세요.';
+    END IF;
+
+    IF p_rate IS NOT NULL AND (p_rate < 0 OR p_rate > 100) THEN
+        RAISE EXCEPTION '수수료율은 0~100%% 사이여야 합니다.';
+    END IF;
+
+    IF p_rate IS NULL THEN
+        DELETE FROM public.platform_fee_rules WHERE scope = p_scope AND target = p_target;
+        RETURN;
+    END IF;
+
+    INSERT INTO public.platform_fee_rules (scope, target, rate, updated_by)
+    VALUES (p_scope, p_target, p_rate, auth.uid())
+    ON CONFLICT (scope, (COALESCE(target, ''))) DO UPDATE
+    SET rate = EXCLUDED.rate, updated_by = EXCLUDED.updated_by, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_platform_fee_rule(TEXT, TEXT, NUMERIC) TO authenticated;
+
+-- 닉네임은 중복될 수 있으므로 회원 id 로 지정 (관리자 화면에서 검색 후 선택)
+DROP FUNCTION IF EXISTS public.set_seller_tier(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_seller_tier(p_user_id UUID, p_tier TEXT)
+RETURNS UUID AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 변경할 수 있습니다.';
+    END IF;
+
+    IF p_tier NOT IN ('standard', 'pro', 'partner') THEN
+        RAISE EXCEPTION '알 수 없는 판매자 등급입니다.';
+    END IF;
+
+    UPDATE public.profiles
+    SET seller_tier = p_tier
+    WHERE id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '사용자를 찾을 수 없습니다.';
+    END IF;
+
+    RETURN p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_seller_tier(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 7. 결제 함수 (수수료 적용)
+-- add-coupons.sql 의 purchase_worksheets 와 동일, 판매자 정산만 credit_seller_sale 로 변경
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purchase_worksheets(
+    p_user_id UUID,
+    p_worksheet_ids UUID[],
+    p_idempotency_key TEXT,
+    p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_item RECORD;
+    v_total_price INTEGER := 0;
+    v_discount INTEGER := 0;
+    v_coupon JSON;
+    v_coupon_id UUID;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_failed JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_worksheet_ids IS NULL OR array_length(p_worksheet_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '구매할 자료를 선택해주세요.';
+    END IF;
+
+    -- Get user's current points (with lock to prevent race condition)
+    -- 같은 구매자의 결제는 이 잠금으로 직렬화되므로, 아래 키 조회는 동시 재시도도 안전
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    -- 1) 항목별 검증 → 구매 가능한 항목만 임시 테이블에 모음
+    CREATE TEMP TABLE IF NOT EXISTS _checkout_items (
+        worksheet_id UUID PRIMARY KEY,
+        seller_id UUID,
+        title TEXT,
+        price INTEGER,
+        discount INTEGER NOT NULL DEFAULT 0
+    ) ON COMMIT DROP;
+    TRUNCATE _checkout_items;
+
+    FOR v_item IN
+        SELECT ids.id AS requested_id, w.id, w.title, w.price, w.seller_id, w.status,
+               EXISTS (
+                   SELECT 1 FROM public.purchases p
+                   WHERE p.buyer_id = p_user_id AND p.worksheet_id = ids.id
+               ) AS already_purchased
+        FROM (SELECT DISTINCT unnest(p_worksheet_ids) AS id) ids
+        LEFT JOIN public.worksheets w ON w.id = ids.id
+    LOOP
+        IF v_item.id IS NULL THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.requested_id,
+                'reason', 'NOT_FOUND',
+                'message', '존재하지 않는 자료입니다.'
+            )::JSON;
+        ELSIF v_item.status <> 'approved' THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'NOT_APPROVED',
+                'message', '현재 판매 중이 아닌 자료입니다.'
+            )::JSON;
+        ELSIF v_item.seller_id = p_user_id THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'OWN_WORKSHEET',
+                'message', '본인의 자료는 구매할 수 없습니다.'
+            )::JSON;
+        ELSIF v_item.already_purchased THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'ALREADY_PURCHASED',
+                'message', '이미 구매한 자료입니다.'
+            )::JSON;
+        ELSE
+            INSERT INTO _checkout_items (worksheet_id, seller_id, title, price)
+            VALUES (v_item.id, v_item.seller_id, v_item.title, v_item.price);
+            v_total_price := v_total_price + v_item.price;
+        END IF;
+    END LOOP;
+
+    -- 구매 가능한 항목이 없으면 결제 없이 실패 목록만 반환 (부작용이 없으므로 저장하지 않음)
+    IF NOT EXISTS (SELECT 1 FROM _checkout_items) THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'subtotal', 0,
+            'discount', 0,
+            'couponCode', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_failed
+        );
+    END IF;
+
+    -- 2) 쿠폰 적용 (쿠폰 행을 잠가 사용 수량 초과를 방지)
+    IF p_coupon_code IS NOT NULL AND length(trim(p_coupon_code)) > 0 THEN
+        PERFORM 1 FROM public.coupons WHERE code = upper(trim(p_coupon_code)) FOR UPDATE;
+
+        v_coupon := public.evaluate_coupon(
+            p_user_id,
+            p_coupon_code,
+            ARRAY(SELECT worksheet_id FROM _checkout_items)
+        );
+
+        IF NOT (v_coupon->>'valid')::BOOLEAN THEN
+            RAISE EXCEPTION '%', v_coupon->>'error';
+        END IF;
+
+        v_coupon_id := (v_coupon->>'couponId')::UUID;
+        v_discount := (v_coupon->>'discount')::INTEGER;
+
+        UPDATE _checkout_items ci
+        SET discount = (a->>'discount')::INTEGER
+        FROM json_array_elements(v_coupon->'allocations') a
+        WHERE ci.worksheet_id = (a->>'worksheetId')::UUID;
+    END IF;
+
+    -- Check if user has enough points (할인 후 결제 금액 기준)
+    IF v_user_points < v_total_price - v_discount THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_total_price - v_discount, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, coupon_id)
+    VALUES (p_user_id, p_idempotency_key, v_coupon_id)
+    RETURNING id INTO v_order_id;
+
+    -- 3) 구매 처리
+    FOR v_item IN SELECT * FROM _checkout_items LOOP
+        -- Create purchase record (price = 실제 결제 금액)
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, discount, order_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.price - v_item.discount, v_item.discount, v_order_id)
+        RETURNING id INTO v_purchase_id;
+
+        -- Update worksheet sales count
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        -- 판매자 정산 (할인 배분 후 금액, 수수료 차감)
+        PERFORM public.credit_seller_sale(
+            v_purchase_id,
+            v_item.title || ' 판매' || CASE WHEN v_item.discount > 0 THEN ' (쿠폰 할인 ' || v_item.discount || 'P)' ELSE '' END
+        );
+
+        -- Remove from cart (선택하지 않은 항목은 장바구니에 그대로 남음)
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.price - v_item.discount,
+            'discount', v_item.discount
+        )::JSON;
+    END LOOP;
+
+    -- Deduct points from buyer
+    v_new_balance := v_user_points - v_total_price + v_discount;
+
+    IF v_discount > 0 THEN
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (
+            p_user_id,
+            'coupon_discount',
+            v_discount,
+            v_user_points + v_discount,
+            '쿠폰 할인 (' || (v_coupon->>'code') || ')',
+            v_order_id
+        );
+
+        INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount)
+        VALUES (v_coupon_id, p_user_id, v_order_id, v_discount);
+
+        UPDATE public.coupons SET used_count = used_count + 1 WHERE id = v_coupon_id;
+    END IF;
+
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    -- Record buyer transaction (주문 단위)
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (p_user_id, 'purchase', -v_total_price, v_new_balance, '워크시트 구매', v_order_id);
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'subtotal', v_total_price,
+        'discount', v_discount,
+        'couponCode', v_coupon->>'code',
+        'totalSpent', v_total_price - v_discount,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_failed
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_total_price - v_discount,
+        subtotal = v_total_price,
+        discount = v_discount,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_worksheets(UUID, UUID[], TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 8. 묶음 구매 (수수료 적용)
+-- add-bundles.sql 의 purchase_bundle 와 동일, 판매자 정산만 credit_seller_sale 로 변경
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purchase_bundle(
+    p_user_id UUID,
+    p_bundle_id UUID,
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_bundle RECORD;
+    v_item RECORD;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_full_price INTEGER;
+    v_subtotal INTEGER;
+    v_charge INTEGER;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_skipped JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    SELECT * INTO v_bundle FROM public.bundles WHERE id = p_bundle_id;
+
+    IF NOT FOUND OR v_bundle.status <> 'approved' THEN
+        RAISE EXCEPTION '현재 판매 중이 아닌 묶음입니다.';
+    END IF;
+
+    IF v_bundle.seller_id = p_user_id THEN
+        RAISE EXCEPTION '본인의 묶음은 구매할 수 없습니다.';
+    END IF;
+
+    -- 판매 중인 자료만 대상 (판매 중지된 자료는 정가 합계에서도 제외)
+    CREATE TEMP TABLE IF NOT EXISTS _bundle_items (
+        worksheet_id UUID PRIMARY KEY,
+        title TEXT,
+        price INTEGER,
+        position INTEGER,
+        owned BOOLEAN
+    ) ON COMMIT DROP;
+    TRUNCATE _bundle_items;
+
+    INSERT INTO _bundle_items
+    SELECT w.id, w.title, w.price, bi.position,
+           EXISTS (
+               SELECT 1 FROM public.purchases p
+               WHERE p.buyer_id = p_user_id AND p.worksheet_id = w.id
+           )
+    FROM public.bundle_items bi
+    JOIN public.worksheets w ON w.id = bi.worksheet_id
+    WHERE bi.bundle_id = p_bundle_id AND w.status = 'approved';
+
+    SELECT COALESCE(SUM(price), 0) INTO v_full_price FROM _bundle_items;
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM _bundle_items WHERE NOT owned;
+
+    SELECT COALESCE(array_agg(json_build_object(
+        'worksheetId', worksheet_id,
+        'title', title,
+        'reason', 'ALREADY_PURCHASED',
+        'message', '이미 구매한 자료입니다.'
+    )), ARRAY[]::JSON[])
+    INTO v_skipped
+    FROM _bundle_items WHERE owned;
+
+    IF v_subtotal = 0 THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'subtotal', 0,
+            'discount', 0,
+            'couponCode', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_skipped
+        );
+    END IF;
+
+    -- 묶음 가격이 정가 합계 이상이 된 경우(자료 가격 인하 등)에는 정가로 판매
+    v_charge := LEAST(v_subtotal, FLOOR(v_bundle.price::NUMERIC * v_subtotal / v_full_price)::INTEGER);
+
+    IF v_user_points < v_charge THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_charge, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, bundle_id)
+    VALUES (p_user_id, p_idempotency_key, p_bundle_id)
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN
+        SELECT worksheet_id, title, price,
+               -- 누적 정가 비율로 청구액을 배분 (합계가 정확히 v_charge)
+               FLOOR(v_charge::NUMERIC * SUM(price) OVER w / v_subtotal)::INTEGER
+             - FLOOR(v_charge::NUMERIC * (SUM(price) OVER w - price) / v_subtotal)::INTEGER AS paid
+        FROM _bundle_items
+        WHERE NOT owned
+        WINDOW w AS (ORDER BY position, worksheet_id)
+    LOOP
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, discount, order_id, bundle_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.paid, v_item.price - v_item.paid, v_order_id, p_bundle_id)
+        RETURNING id INTO v_purchase_id;
+
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        PERFORM public.credit_seller_sale(
+            v_purchase_id,
+            v_item.title || ' 판매 (묶음: ' || v_bundle.title || ')'
+        );
+
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.paid,
+            'discount', v_item.price - v_item.paid
+        )::JSON;
+    END LOOP;
+
+    v_new_balance := v_user_points - v_charge;
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (p_user_id, 'purchase', -v_charge, v_new_balance, '묶음 구매: ' || v_bundle.title, v_order_id);
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'subtotal', v_subtotal,
+        'discount', v_subtotal - v_charge,
+        'couponCode', NULL,
+        'totalSpent', v_charge,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_skipped
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_charge,
+        subtotal = v_subtotal,
+        discount = v_subtotal - v_charge,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_bundle(UUID, UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 9. 선물 결제 (수수료 적용)
+-- add-gifts.sql 의 gift_worksheet 와 동일, 판매자 정산만 credit_seller_sale 로 변경
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.gift_worksheet(
+    p_user_id UUID,
+    p_recipient_id UUID,
+    p_worksheet_id UUID,
+    p_message TEXT,
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_worksheet RECORD;
+    v_sender_nickname TEXT;
+    v_recipient_nickname TEXT;
+    v_recipient_points INTEGER;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_message TEXT := NULLIF(trim(COALESCE(p_message, '')), '');
+    v_response JSON;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_recipient_id = p_user_id THEN
+        RAISE EXCEPTION '본인에게는 선물할 수 없습니다.';
+    END IF;
+
+    IF length(COALESCE(v_message, '')) > 200 THEN
+        RAISE EXCEPTION '메시지는 200자 이하로 입력해주세요.';
+    END IF;
+
+    -- 보낸 사람 / 받는 사람 행을 id 순서로 함께 잠금
+    -- 서로에게 동시에 선물해도 교착되지 않고, 같은 자료가 동시에 두 번 선물되지 않음
+    PERFORM 1 FROM public.profiles
+    WHERE id IN (p_user_id, p_recipient_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT points, nickname INTO v_user_points, v_sender_nickname
+    FROM public.profiles WHERE id = p_user_id;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    SELECT nickname, points INTO v_recipient_nickname, v_recipient_points
+    FROM public.profiles WHERE id = p_recipient_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '받는 사람을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT id, title, price, seller_id, status INTO v_worksheet
+    FROM public.worksheets WHERE id = p_worksheet_id;
+
+    IF NOT FOUND OR v_worksheet.status <> 'approved' THEN
+        RAISE EXCEPTION '현재 판매 중이 아닌 자료입니다.';
+    END IF;
+
+    IF v_worksheet.seller_id = p_user_id THEN
+        RAISE EXCEPTION '본인의 자료는 선물할 수 없습니다.';
+    END IF;
+
+    IF v_worksheet.seller_id = p_recipient_id THEN
+        RAISE EXCEPTION '판매자에게는 선물할 수 없습니다.';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.purchases
+        WHERE buyer_id = p_recipient_id AND worksheet_id = p_worksheet_id
+    ) THEN
+        RAISE EXCEPTION '받는 사람이 이미 보유한 자료입니다.';
+    END IF;
+
+    IF v_user_points < v_worksheet.price THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_worksheet.price, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, subtotal)
+    VALUES (p_user_id, p_idempotency_key, v_worksheet.price)
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO public.purchases (buyer_id, worksheet_id, price, order_id, gift_from, gift_message)
+    VALUES (p_recipient_id, p_worksheet_id, v_worksheet.price, v_order_id, p_user_id, v_message)
+    RETURNING id INTO v_purchase_id;
+
+    UPDATE public.worksheets
+    SET sales_count = sales_count + 1, download_count = download_count + 1
+    WHERE id = p_worksheet_id;
+
+    -- 판매자 정산 (수수료 차감)
+    PERFORM public.credit_seller_sale(v_purchase_id, v_worksheet.title || ' 판매 (선물)');
+
+    -- 보낸 사람 차감
+    v_new_balance := v_user_points - v_worksheet.price;
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        p_user_id,
+        'gift_sent',
+        -v_worksheet.price,
+        v_new_balance,
+        v_recipient_nickname || '님에게 선물: ' || v_worksheet.title,
+        v_purchase_id
+    );
+
+    -- 받는 사람 기록 (포인트 변동 없음)
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        p_recipient_id,
+        'gift_received',
+        0,
+        v_recipient_points,
+        v_sender_nickname || '님에게 받은 선물: ' || v_worksheet.title,
+        v_purchase_id
+    );
+
+    -- 받는 사람 장바구니/찜 목록에서 제거
+    DELETE FROM public.cart_items
+    WHERE user_id = p_recipient_id AND worksheet_id = p_worksheet_id;
+    DELETE FROM public.wishlist_items
+    WHERE user_id = p_recipient_id AND worksheet_id = p_worksheet_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES (
+        p_recipient_id,
+        'gift',
+        '선물이 도착했습니다',
+        v_sender_nickname || '님이 「' || v_worksheet.title || '」을(를) 선물했습니다.',
+        p_worksheet_id
+    );
+
+    INSERT INTO public.messages (sender_id, recipient_id, recipient_type, message_type, title, content)
+    VALUES (
+        p_user_id,
+        p_recipient_id,
+        'individual',
+        'gift',
+        '🎁 「' || v_worksheet.title || '」 선물',
+        COALESCE(v_message, v_sender_nickname || '님이 자료를 선물했습니다.')
+            || E'\n\n구매 내역에서 바로 다운로드할 수 있습니다.'
+    );
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'purchaseId', v_purchase_id,
+        'recipientNickname', v_recipient_nickname,
+        'totalSpent', v_worksheet.price,
+        'newBalance', v_new_balance
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_worksheet.price,
+        item_count = 1,
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.gift_worksheet(UUID, UUID, UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 10. 환불 실행 (수수료 반환)
+-- add-refunds.sql 의 execute_refund 에 수수료 반환 추가
+-- 판매자 회수액 = 환불 금액 - 반환 수수료
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.execute_refund(p_request_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_request RECORD;
+    v_purchase RECORD;
+    v_payer_id UUID;
+    v_amount INTEGER;
+    v_fee_refund INTEGER;
+    v_balance INTEGER;
+BEGIN
+    SELECT * INTO v_request FROM public.refund_requests WHERE id = p_request_id FOR UPDATE;
+
+    -- 종결되지 않은 요청만 (판매자 수락 / 관리자 중재에서 호출)
+    IF NOT FOUND OR v_request.status NOT IN ('pending', 'seller_rejected', 'disputed') THEN
+        RAISE EXCEPTION '환불할 수 없는 요청입니다.';
+    END IF;
+
+    SELECT * INTO v_purchase FROM public.purchases WHERE id = v_request.purchase_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    v_payer_id := COALESCE(v_purchase.gift_from, v_purchase.buyer_id);
+    v_amount := GREATEST(v_purchase.price - CASE WHEN v_purchase.has_feedback THEN 30 ELSE 0 END, 0);
+
+    -- 결제한 사람 환불
+    UPDATE public.profiles SET points = points + v_amount
+    WHERE id = v_payer_id
+    RETURNING points INTO v_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (v_payer_id, 'purchase_refund', v_amount, v_balance, v_request.worksheet_title || ' 환불', p_request_id);
+
+    -- 판매자 회수 (잔액이 부족하면 음수가 될 수 있음)
+    UPDATE public.profiles SET points = points - v_amount
+    WHERE id = v_request.seller_id
+    RETURNING points INTO v_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (v_request.seller_id, 'sale_refund', -v_amount, v_balance, v_request.worksheet_title || ' 환불 회수', p_request_id);
+
+    -- 판매 시 떼어간 수수료는 환불 금액 비율만큼 판매자에게 돌려줌
+    v_fee_refund := CASE WHEN v_purchase.price > 0
+        THEN ROUND(v_purchase.platform_fee::NUMERIC * v_amount / v_purchase.price)::INTEGER
+        ELSE 0 END;
+
+    IF v_fee_refund > 0 THEN
+        UPDATE public.profiles SET points = points + v_fee_refund
+        WHERE id = v_request.seller_id
+        RETURNING points INTO v_balance;
+
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (v_request.seller_id, 'platform_fee', v_fee_refund, v_balance, v_request.worksheet_title || ' 환불 수수료 반환', p_request_id);
+    END IF;
+
+    DELETE FROM public.purchases WHERE id = v_purchase.id;
+
+    UPDATE public.worksheets w
+    SET sales_count = GREATEST(w.sales_count - 1, 0),
+        average_rating = COALESCE(r.avg_rating, 0),
+        review_count = COALESCE(r.cnt, 0)
+    FROM (
+        SELECT ROUND(AVG(rating)::numeric, 1) AS avg_rating, COUNT(*)::INTEGER AS cnt
+        FROM public.feedbacks WHERE worksheet_id = v_purchase.worksheet_id
+    ) r
+    WHERE w.id = v_purchase.worksheet_id;
+
+    UPDATE public.refund_requests
+    SET status = 'refunded', refunded_amount = v_amount, updated_at = NOW()
+    WHERE id = p_request_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES
+        (v_payer_id, 'refund', '환불 완료',
+         '「' || v_request.worksheet_title || '」 환불이 완료되었습니다. (' || v_amount || 'P)', v_request.worksheet_id),
+        (v_request.seller_id, 'refund', '환불 처리',
+         '「' || v_request.worksheet_title || '」 판매가 환불 처리되었습니다. (-' || (v_amount - v_fee_refund) || 'P)', v_request.worksheet_id);
+
+    -- 선물받은 자료는 포인트가 보낸 사람에게 돌아가므로 받은 사람에게는 따로 알림
+    IF v_payer_id <> v_request.buyer_id THEN
+        INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+        VALUES (v_request.buyer_id, 'refund', '환불 완료',
+                '「' || v_request.worksheet_title || '」 환불이 완료되어 선물한 분께 포인트가 반환되었습니다.', v_request.worksheet_id);
+    END IF;
+
+    RETURN v_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.execute_refund(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 11. 출금 가능 금액에 수수료 반영
+-- add-withdrawals.sql 의 withdrawable_points 에 platform_fee 추가 (판매 수익은 수수료 차감 후 기준)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.withdrawable_points(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT GREATEST(LEAST(
+        (SELECT points FROM public.profiles WHERE id = p_user_id),
+        COALESCE((
+            SELECT SUM(amount)
+            FROM public.point_transactions
+            WHERE user_id = p_user_id
+              AND type IN ('sale', 'platform_fee', 'sale_refund', 'withdrawal_hold', 'withdrawal_release')
+        ), 0)
+    ), 0)::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.withdrawable_points(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
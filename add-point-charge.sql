@@ -0,0 +1,251 @@
+-- =====================================================
+-- 포인트 충전 (결제)
+-- Supabase SQL Editor에서 실행하세요
+-- add-refunds.sql 이후에 실행 (point_transactions 유형 목록)
+--
+-- 흐름
+--   create_point_payment: 패키지 기준으로 결제 건 생성 (pending, 금액은 서버에서 결정)
+--   결제사 승인/거절 → 웹훅 → confirm_point_payment (service_role 전용)
+--     → paid: 포인트 적립 (point_charge) / failed: 사유 기록
+--   로컬 개발용 가짜 결제사(fake)는 confirm_fake_point_payment 로 웹훅을 흉내냄
+--     ALTER DATABASE postgres SET app.fake_payments = 'on'; 설정 시에만 동작
+-- =====================================================
+
+-- =====================================================
+-- 1. 충전 패키지
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.point_packages (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    points INTEGER NOT NULL CHECK (points > 0),
+    bonus_points INTEGER NOT NULL DEFAULT 0 CHECK (bonus_points >= 0),
+    price INTEGER NOT NULL CHECK (price > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.point_packages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active point packages" ON public.point_packages;
+CREATE POLICY "Anyone can view active point packages" ON public.point_packages
+    FOR SELECT USING (is_active OR public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage point packages" ON public.point_packages;
+CREATE POLICY "Admins can manage point packages" ON public.point_packages
+    FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin());
+
+-- price: 결제 금액 (원)
+INSERT INTO public.point_packages (id, name, points, bonus_points, price, sort_order) VALUES
+    ('p1000', '1,000P', 1000, 0, 1000, 1),
+    ('p5000', '5,000P', 5000, 250, 5000, 2),
+    ('p10000', '10,000P', 10000, 700, 10000, 3),
+    ('p30000', '30,000P', 30000, 3000, 30000, 4)
+ON CONFLICT (id) DO NOTHING;
+
+-- =====================================================
+-- 2. 결제 건
+-- 패키지가 바뀌어도 결제 당시 금액/포인트가 남도록 복사해 둠
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.point_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    package_id TEXT REFERENCES public.point_packages(id) ON DELETE SET NULL,
+    provider TEXT NOT NULL,
+    provider_payment_id TEXT,
+    amount INTEGER NOT NULL,
+    points INTEGER NOT NULL,
+    bonus_points INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+    failure_reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_point_payments_provider_payment
+    ON public.point_payments(provider, provider_payment_id) WHERE provider_payment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_point_payments_user ON public.point_payments(user_id, created_at DESC);
+
+ALTER TABLE public.point_payments ENABLE ROW LEVEL SECURITY;
+
+-- 생성/상태 변경은 아래 함수(SECURITY DEFINER)에서만
+DROP POLICY IF EXISTS "Users can view own point payments" ON public.point_payments;
+CREATE POLICY "Users can view own point payments" ON public.point_payments
+    FOR SELECT USING (auth.uid() = user_id OR public.is_admin());
+
+-- =====================================================
+-- 3. 포인트 거래 유형에 충전 추가
+-- =====================================================
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount', 'gift_sent', 'gift_received',
+  'purchase_refund', 'sale_refund', 'point_charge'
+)) NOT VALID;
+
+-- =====================================================
+-- 4. 결제 건 생성
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.create_point_payment(p_package_id TEXT, p_provider TEXT)
+RETURNS JSON AS $$
+DECLARE
+    v_package RECORD;
+    v_payment_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF p_provider IS NULL OR length(trim(p_provider)) = 0 THEN
+        RAISE EXCEPTION '결제 수단을 선택해주세요.';
+    END IF;
+
+    SELECT * INTO v_package
+    FROM public.point_packages
+    WHERE id = p_package_id AND is_active;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '판매 중인 충전 상품이 아닙니다.';
+    END IF;
+
+    INSERT INTO public.point_payments (user_id, package_id, provider, amount, points, bonus_points)
+    VALUES (auth.uid(), v_package.id, p_provider, v_package.price, v_package.points, v_package.bonus_points)
+    RETURNING id INTO v_payment_id;
+
+    RETURN json_build_object(
+        'paymentId', v_payment_id,
+        'amount', v_package.price,
+        'points', v_package.points + v_package.bonus_points,
+        'orderName', '포인트 ' || v_package.name
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_point_payment(TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. 결제 확정 (웹훅)
+-- 같은 웹훅이 여러 번 와도 한 번만 적립 (pending 이 아니면 현재 상태만 반환)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_point_payment(
+    p_payment_id UUID,
+    p_provider_payment_id TEXT,
+    p_approved BOOLEAN,
+    p_amount INTEGER,
+    p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_payment RECORD;
+    v_total INTEGER;
+    v_new_balance INTEGER;
+BEGIN
+    SELECT * INTO v_payment
+    FROM public.point_payments
+    WHERE id = p_payment_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '결제 건을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_payment.status <> 'pending' THEN
+        RETURN json_build_object('status', v_payment.status, 'replayed', true);
+    END IF;
+
+    -- 결제사가 승인한 금액이 주문 금액과 다르면 적립하지 않음
+    IF p_approved AND p_amount IS DISTINCT FROM v_payment.amount THEN
+        p_approved := false;
+        p_failure_reason := '결제 금액이 일치하지 않습니다.';
+    END IF;
+
+    IF NOT p_approved THEN
+        UPDATE public.point_payments
+        SET status = 'failed',
+            provider_payment_id = p_provider_payment_id,
+            failure_reason = COALESCE(NULLIF(trim(COALESCE(p_failure_reason, '')), ''), '결제가 거절되었습니다.'),
+            completed_at = NOW()
+        WHERE id = p_payment_id;
+
+        RETURN json_build_object('status', 'failed', 'replayed', false);
+    END IF;
+
+    v_total := v_payment.points + v_payment.bonus_points;
+
+    UPDATE public.profiles
+    SET points = points + v_total
+    WHERE id = v_payment.user_id
+    RETURNING points INTO v_new_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        v_payment.user_id,
+        'point_charge',
+        v_total,
+        v_new_balance,
+        '포인트 충전 ' || to_char(v_payment.amount, 'FM999,999,999') || '원'
+            || CASE WHEN v_payment.bonus_points > 0 THEN ' (보너스 ' || v_payment.bonus_points || 'P)' ELSE '' END,
+        p_payment_id
+    );
+
+    UPDATE public.point_payments
+    SET status = 'paid',
+        provider_payment_id = p_provider_payment_id,
+        completed_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN json_build_object('status', 'paid', 'replayed', false, 'newBalance', v_new_balance);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 실제 결제사 웹훅은 서명을 검증한 서버(service_role)에서만 호출
+REVOKE EXECUTE ON FUNCTION public.confirm_point_payment(UUID, TEXT, BOOLEAN, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_point_payment(UUID, TEXT, BOOLEAN, INTEGER, TEXT) TO service_role;
+
+-- =====================================================
+-- 6. 가짜 결제사 웹훅 (로컬 개발용)
+-- app.fake_payments = 'on' 인 DB 에서만, 본인의 fake 결제 건만 확정 가능
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_fake_point_payment(
+    p_payment_id UUID,
+    p_approved BOOLEAN,
+    p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_payment RECORD;
+BEGIN
+    IF COALESCE(current_setting('app.fake_payments', true), 'off') <> 'on' THEN
+        RAISE EXCEPTION '테스트 결제가 비활성화되어 있습니다.';
+    END IF;
+
+    SELECT user_id, provider, amount INTO v_payment
+    FROM public.point_payments
+    WHERE id = p_payment_id;
+
+    IF NOT FOUND OR v_payment.user_id IS DISTINCT FROM auth.uid() OR v_payment.provider <> 'fake' THEN
+        RAISE EXCEPTION '결제 건을 찾을 수 없습니다.';
+    END IF;
+
+    RETURN public.confirm_point_payment(
+        p_payment_id,
+        'fake_' || replace(p_payment_id::TEXT, '-', ''),
+        p_approved,
+        v_payment.amount,
+        p_failure_reason
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.confirm_fake_point_payment(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
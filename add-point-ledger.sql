@@ -0,0 +1,1518 @@
+-- =====================================================
+-- 포인트 원장 통합
+-- Supabase SQL Editor에서 실행하세요
+-- add-receipts.sql 이후에 실행 (add-platform-fee.sql 의 결제/환불 함수를 다시 정의)
+--
+-- 모든 포인트 변동은 apply_point_change 하나로 처리
+--   profiles.points 변경과 point_transactions 기록(변동 후 잔액 포함)을 같은 잠금 안에서 수행
+--   profiles.points 를 직접 UPDATE 하면 트리거가 막음 (클라이언트에서 포인트를 고치던 퀴즈/댓글 승인도 서버 함수로 이동)
+-- 관리자용 정합성 리포트: profiles.points 와 원장 합계를 사용자별로 비교
+-- =====================================================
+
+-- =====================================================
+-- 1. 포인트 거래 유형 (전체 목록)
+-- src/types/index.ts 의 PointTransactionType 과 같은 목록으로 유지
+-- =====================================================
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount', 'gift_sent', 'gift_received',
+  'purchase_refund', 'sale_refund', 'point_charge',
+  'withdrawal_hold', 'withdrawal_release', 'platform_fee'
+)) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_point_transactions_user_created
+ON public.point_transactions(user_id, created_at);
+
+-- =====================================================
+-- 2. 포인트 변동 (내부용 - 직접 호출 불가)
+-- 변동 후 잔액을 반환, 잔액이 음수가 되면 p_allow_negative 일 때만 허용
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.apply_point_change(
+    p_user_id UUID,
+    p_type TEXT,
+    p_amount INTEGER,
+    p_description TEXT,
+    p_related_id UUID DEFAULT NULL,
+    p_allow_negative BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_balance INTEGER;
+BEGIN
+    SELECT points INTO v_balance FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '사용자를 찾을 수 없습니다.';
+    END IF;
+
+    IF p_amount < 0 AND v_balance + p_amount < 0 AND NOT p_allow_negative THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', -p_amount, v_balance;
+    END IF;
+
+    v_balance := v_balance + p_amount;
+
+    -- guard_profile_points 가 이 UPDATE 만 통과시키도록 트랜잭션 범위 플래그 사용
+    PERFORM set_config('app.point_change', 'on', true);
+    UPDATE public.profiles SET points = v_balance WHERE id = p_user_id;
+    PERFORM set_config('app.point_change', 'off', true);
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (p_user_id, p_type, p_amount, v_balance, p_description, p_related_id);
+
+    RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_point_change(UUID, TEXT, INTEGER, TEXT, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. profiles.points 직접 변경 차단
+-- "Users can update own profile" 정책으로 본인 포인트를 고치거나, 원장 없이 포인트가 바뀌는 것을 막음
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.guard_profile_points()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('app.point_change', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION '포인트는 직접 변경할 수 없습니다.';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_profile_points_change ON public.profiles;
+CREATE TRIGGER on_profile_points_change
+    BEFORE UPDATE OF points ON public.profiles
+    FOR EACH ROW
+    WHEN (OLD.points IS DISTINCT FROM NEW.points)
+    EXECUTE FUNCTION public.guard_profile_points();
+
+-- =====================================================
+-- 4. 회원가입 포인트
+-- supabase-schema.sql 의 handle_new_user 와 동일, 가입 포인트를 원장으로 지급
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.profiles (id, email, nickname, role, points)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(NEW.raw_user_meta_data->>'nickname', split_part(NEW.email, '@', 1)),
+        COALESCE(NEW.raw_user_meta_data->>'role', 'teacher'),
+        0
+    );
+
+    PERFORM public.apply_point_change(NEW.id, 'signup_bonus', 1000, '회원가입 축하 포인트');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- 5. 후기 작성 보상
+-- supabase-schema.sql 의 submit_feedback 과 동일
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_feedback(
+    p_user_id UUID,
+    p_worksheet_id UUID,
+    p_rating INTEGER,
+    p_comment TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_purchase RECORD;
+    v_new_balance INTEGER;
+    v_refund_amount INTEGER := 30;
+    v_feedback_id UUID;
+    v_new_avg DECIMAL(2,1);
+    v_new_count INTEGER;
+BEGIN
+    SELECT * INTO v_purchase
+    FROM public.purchases
+    WHERE buyer_id = p_user_id AND worksheet_id = p_worksheet_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_purchase.has_feedback THEN
+        RAISE EXCEPTION '이미 후기를 작성했습니다.';
+    END IF;
+
+    INSERT INTO public.feedbacks (purchase_id, worksheet_id, buyer_id, rating, comment)
+    VALUES (v_purchase.id, p_worksheet_id, p_user_id, p_rating, p_comment)
+    RETURNING id INTO v_feedback_id;
+
+    UPDATE public.purchases SET has_feedback = TRUE WHERE id = v_purchase.id;
+
+    SELECT
+        ROUND(AVG(rating)::numeric, 1),
+        COUNT(*)
+    INTO v_new_avg, v_new_count
+    FROM public.feedbacks
+    WHERE worksheet_id = p_worksheet_id;
+
+    UPDATE public.worksheets
+    SET average_rating = v_new_avg, review_count = v_new_count
+    WHERE id = p_worksheet_id;
+
+    v_new_balance := public.apply_point_change(
+        p_user_id, 'feedback_refund', v_refund_amount, '후기 작성 보상', v_feedback_id
+    );
+
+    RETURN json_build_object(
+        'success', true,
+        'feedbackId', v_feedback_id,
+        'pointsRefunded', v_refund_amount,
+        'newBalance', v_new_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- 6. 출석 체크
+-- admin-event-schema.sql 의 check_attendance 와 동일 (기본 10P, 7일/30일 연속 보너스)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.check_attendance()
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_today DATE := CURRENT_DATE;
+    v_streak INTEGER := 1;
+    v_base_points INTEGER := 10;
+    v_bonus INTEGER := 0;
+    v_existing RECORD;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error', '로그인이 필요합니다');
+    END IF;
+
+    -- 같은 사용자의 동시 출석 요청을 직렬화
+    PERFORM 1 FROM public.profiles WHERE id = v_user_id FOR UPDATE;
+
+    SELECT * INTO v_existing FROM public.attendance WHERE user_id = v_user_id AND check_date = v_today;
+    IF FOUND THEN
+        RETURN json_build_object(
+            'success', false,
+            'error', '오늘은 이미 출석했습니다',
+            'streak', v_existing.streak_days,
+            'points_earned', v_existing.points_earned + COALESCE(v_existing.bonus_points, 0)
+        );
+    END IF;
+
+    SELECT streak_days + 1 INTO v_streak
+    FROM public.attendance
+    WHERE user_id = v_user_id AND check_date = v_today - 1;
+
+    v_streak := COALESCE(v_streak, 1);
+
+    IF v_streak = 7 THEN
+        v_bonus := 30;
+    ELSIF v_streak >= 30 AND v_streak % 30 = 0 THEN
+        v_bonus := 100;
+    END IF;
+
+    INSERT INTO public.attendance (user_id, check_date, points_earned, streak_days, bonus_points)
+    VALUES (v_user_id, v_today, v_base_points, v_streak, v_bonus);
+
+    v_new_balance := public.apply_point_change(
+        v_user_id, 'attendance', v_base_points, '출석 체크 (' || v_streak || '일차)'
+    );
+
+    IF v_bonus > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'attendance_bonus', v_bonus, v_streak || '일 연속 출석 보너스'
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'streak', v_streak,
+        'base_points', v_base_points,
+        'bonus_points', v_bonus,
+        'total_points', v_base_points + v_bonus,
+        'new_balance', v_new_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.check_attendance() TO authenticated;
+
+-- =====================================================
+-- 7. 룰렛
+-- admin-event-schema-fix.sql 의 spin_roulette 는 잔액 없이 기록해 실패하던 것을 수정
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.spin_roulette()
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_today DATE := CURRENT_DATE;
+    v_prizes INTEGER[] := ARRAY[5, 10, 15, 20, 30, 50];
+    v_weights INTEGER[] := ARRAY[30, 25, 20, 15, 7, 3]; -- 합계 100
+    v_random INTEGER;
+    v_cumulative INTEGER := 0;
+    v_points_won INTEGER := 5;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error', '인증이 필요합니다.');
+    END IF;
+
+    PERFORM 1 FROM public.profiles WHERE id = v_user_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.roulette_history WHERE user_id = v_user_id AND spin_date = v_today
+    ) THEN
+        RETURN json_build_object('success', false, 'error', '오늘은 이미 룰렛을 돌리셨습니다.');
+    END IF;
+
+    v_random := floor(random() * 100)::INTEGER;
+    FOR i IN 1..array_length(v_prizes, 1) LOOP
+        v_cumulative := v_cumulative + v_weights[i];
+        IF v_random < v_cumulative THEN
+            v_points_won := v_prizes[i];
+            EXIT;
+        END IF;
+    END LOOP;
+
+    INSERT INTO public.roulette_history (user_id, spin_date, points_won)
+    VALUES (v_user_id, v_today, v_points_won);
+
+    v_new_balance := public.apply_point_change(
+        v_user_id, 'roulette', v_points_won, '일일 룰렛 ' || v_points_won || 'P 당첨'
+    );
+
+    RETURN json_build_object(
+        'success', true,
+        'points_won', v_points_won,
+        'new_balance', v_new_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.spin_roulette() TO authenticated;
+
+-- =====================================================
+-- 8. 선착순 / 댓글 이벤트 참여
+-- fix-events.sql 의 participate_first_come 과 동일 (댓글 이벤트는 승인 후 지급)
+-- 선착순 지급 유형은 first_come 으로 통일
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.participate_first_come(
+    p_event_id UUID,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_position INTEGER;
+    v_points_earned INTEGER;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error', '인증이 필요합니다.');
+    END IF;
+
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', '이벤트를 찾을 수 없습니다.');
+    END IF;
+
+    IF v_event.type NOT IN ('first_come', 'comment') THEN
+        RETURN json_build_object('success', false, 'error', '참여할 수 없는 이벤트입니다.');
+    END IF;
+
+    IF v_event.status <> 'active' THEN
+        RETURN json_build_object('success', false, 'error', '진행 중인 이벤트가 아닙니다.');
+    END IF;
+
+    IF v_event.type = 'first_come' AND v_event.max_participants IS NOT NULL
+       AND v_event.current_participants >= v_event.max_participants THEN
+        RETURN json_build_object('success', false, 'error', '이미 마감되었습니다.');
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RETURN json_build_object('success', false, 'error', '이미 참여하셨습니다.');
+    END IF;
+
+    IF v_event.mission_type = 'comment_required' AND (p_comment IS NULL OR length(trim(p_comment)) < 1) THEN
+        RETURN json_build_object('success', false, 'error', '댓글을 입력해주세요.');
+    END IF;
+
+    IF v_event.type = 'comment' AND v_event.min_length IS NOT NULL
+       AND (p_comment IS NULL OR length(trim(p_comment)) < v_event.min_length) THEN
+        RETURN json_build_object('success', false, 'error', '최소 ' || v_event.min_length || '자 이상 작성해주세요.');
+    END IF;
+
+    v_position := v_event.current_participants + 1;
+    v_points_earned := CASE WHEN v_event.type = 'comment' THEN 0 ELSE v_event.points_reward END;
+
+    INSERT INTO public.event_participations (event_id, user_id, comment_text, points_earned)
+    VALUES (p_event_id, v_user_id, p_comment, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'first_come', v_points_earned, '선착순 이벤트: ' || v_event.title, p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'position', v_position,
+        'points_earned', v_points_earned,
+        'new_balance', v_new_balance,
+        'awaiting_approval', v_event.type = 'comment'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.participate_first_come(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 9. 퀴즈 제출
+-- 채점과 지급을 서버에서 처리 (p_answers: {"<문제 id>": "<답>"})
+-- 모든 문제를 맞혀야 points_reward 지급
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_quiz(p_event_id UUID, p_answers JSONB)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_total INTEGER;
+    v_correct INTEGER;
+    v_is_correct BOOLEAN;
+    v_points_earned INTEGER := 0;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND OR v_event.type <> 'quiz' THEN
+        RAISE EXCEPTION '이벤트를 찾을 수 없습니다.';
+    END IF;
+
+    IF v_event.status <> 'active' THEN
+        RAISE EXCEPTION '진행 중인 이벤트가 아닙니다.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION '이미 참여했습니다.';
+    END IF;
+
+    SELECT COUNT(*)::INTEGER,
+           COUNT(*) FILTER (WHERE q.correct_answer = COALESCE(p_answers, '{}'::JSONB)->>q.id::TEXT)::INTEGER
+    INTO v_total, v_correct
+    FROM public.quiz_questions q
+    WHERE q.event_id = p_event_id;
+
+    v_is_correct := v_total > 0 AND v_correct = v_total;
+    IF v_is_correct THEN
+        v_points_earned := v_event.points_reward;
+    END IF;
+
+    INSERT INTO public.event_participations (event_id, user_id, is_correct, submitted_answer, points_earned)
+    VALUES (p_event_id, v_user_id, v_is_correct, COALESCE(p_answers, '{}'::JSONB)::TEXT, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'quiz', v_points_earned, '퀴즈 이벤트 정답: ' || v_event.title, p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'isCorrect', v_is_correct,
+        'correctCount', v_correct,
+        'totalQuestions', v_total,
+        'pointsEarned', v_points_earned,
+        'newBalance', v_new_balance
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- 10. 관리자: 댓글 이벤트 승인 / 반려
+-- 지급 포인트 = min_points + (점수 / 100) × (max_points - min_points)
+-- 이미 승인된 참여는 다시 지급하지 않음
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.approve_comment_participation(
+    p_participation_id UUID,
+    p_approved BOOLEAN,
+    p_adjusted_score INTEGER DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_participation RECORD;
+    v_min INTEGER;
+    v_max INTEGER;
+    v_points INTEGER := 0;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 처리할 수 있습니다.';
+    END IF;
+
+    IF p_adjusted_score IS NOT NULL AND (p_adjusted_score < 0 OR p_adjusted_score > 100) THEN
+        RAISE EXCEPTION '점수는 0~100 사이로 입력해주세요.';
+    END IF;
+
+    SELECT ep.*, e.title AS event_title, e.min_points, e.max_points
+    INTO v_participation
+    FROM public.event_participations ep
+    JOIN public.events e ON e.id = ep.event_id
+    WHERE ep.id = p_participation_id
+    FOR UPDATE OF ep;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '참여 기록을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_participation.admin_approved THEN
+        RAISE EXCEPTION '이미 승인된 참여입니다.';
+    END IF;
+
+    IF p_approved THEN
+        v_min := COALESCE(NULLIF(v_participation.min_points, 0), 10);
+        v_max := COALESCE(NULLIF(v_participation.max_points, 0), 50);
+        v_points := ROUND(
+            COALESCE(p_adjusted_score, v_participation.ai_score, 0)::NUMERIC / 100 * (v_max - v_min) + v_min
+        )::INTEGER;
+    END IF;
+
+    UPDATE public.event_participations
+    SET admin_approved = p_approved,
+        admin_adjusted_score = p_adjusted_score,
+        points_earned = v_points
+    WHERE id = p_participation_id;
+
+    IF v_points > 0 THEN
+        PERFORM public.apply_point_change(
+            v_participation.user_id, 'comment_event', v_points,
+            '댓글 이벤트: ' || v_participation.event_title, v_participation.event_id
+        );
+    END IF;
+
+    RETURN json_build_object('success', true, 'pointsEarned', v_points);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.approve_comment_participation(UUID, BOOLEAN, INTEGER) TO authenticated;
+
+-- =====================================================
+-- 11. 판매 정산 (내부용 - 직접 호출 불가)
+-- add-platform-fee.sql 의 credit_seller_sale 과 동일 (구매 1건당 한 번만 정산)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.credit_seller_sale(p_purchase_id UUID, p_description TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+    v_sale RECORD;
+    v_rate NUMERIC;
+    v_fee INTEGER;
+BEGIN
+    SELECT p.price, p.platform_fee, w.seller_id, w.category INTO v_sale
+    FROM public.purchases p
+    JOIN public.worksheets w ON w.id = p.worksheet_id
+    WHERE p.id = p_purchase_id
+    FOR UPDATE OF p;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    -- 구매 1건당 한 번만 정산
+    IF EXISTS (
+        SELECT 1 FROM public.point_transactions
+        WHERE related_id = p_purchase_id AND type = 'sale' AND user_id = v_sale.seller_id
+    ) THEN
+        RETURN COALESCE(v_sale.platform_fee, 0);
+    END IF;
+
+    v_rate := public.platform_fee_rate(v_sale.seller_id, v_sale.category);
+    v_fee := FLOOR(v_sale.price * v_rate / 100)::INTEGER;
+
+    PERFORM public.apply_point_change(v_sale.seller_id, 'sale', v_sale.price, p_description, p_purchase_id);
+
+    IF v_fee > 0 THEN
+        PERFORM public.apply_point_change(
+            v_sale.seller_id,
+            'platform_fee',
+            -v_fee,
+            '판매 수수료 ' || trim(to_char(v_rate, 'FM990.##')) || '%',
+            p_purchase_id
+        );
+
+        UPDATE public.purchases SET platform_fee = v_fee WHERE id = p_purchase_id;
+    END IF;
+
+    RETURN v_fee;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.credit_seller_sale(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 12. 결제 함수
+-- add-platform-fee.sql 의 purchase_worksheets 와 동일, 구매자 차감만 apply_point_change 로 변경
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purchase_worksheets(
+    p_user_id UUID,
+    p_worksheet_ids UUID[],
+    p_idempotency_key TEXT,
+    p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_item RECORD;
+    v_total_price INTEGER := 0;
+    v_discount INTEGER := 0;
+    v_coupon JSON;
+    v_coupon_id UUID;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_failed JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_worksheet_ids IS NULL OR array_length(p_worksheet_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '구매할 자료를 선택해주세요.';
+    END IF;
+
+    -- Get user's current points (with lock to prevent race condition)
+    -- 같은 구매자의 결제는 이 잠금으로 직렬화되므로, 아래 키 조회는 동시 재시도도 안전
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    -- 1) 항목별 검증 → 구매 가능한 항목만 임시 테이블에 모음
+    CREATE TEMP TABLE IF NOT EXISTS _checkout_items (
+        worksheet_id UUID PRIMARY KEY,
+        seller_id UUID,
+        title TEXT,
+        price INTEGER,
+        discount INTEGER NOT NULL DEFAULT 0
+    ) ON COMMIT DROP;
+    TRUNCATE _checkout_items;
+
+    FOR v_item IN
+        SELECT ids.id AS requested_id, w.id, w.title, w.price, w.seller_id, w.status,
+               EXISTS (
+                   SELECT 1 FROM public.purchases p
+                   WHERE p.buyer_id = p_user_id AND p.worksheet_id = ids.id
+               ) AS already_purchased
+        FROM (SELECT DISTINCT unnest(p_worksheet_ids) AS id) ids
+        LEFT JOIN public.worksheets w ON w.id = ids.id
+    LOOP
+        IF v_item.id IS NULL THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.requested_id,
+                'reason', 'NOT_FOUND',
+                'message', '존재하지 않는 자료입니다.'
+            )::JSON;
+        ELSIF v_item.status <> 'approved' THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'NOT_APPROVED',
+                'message', '현재 판매 중이 아닌 자료입니다.'
+            )::JSON;
+        ELSIF v_item.seller_id = p_user_id THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'OWN_WORKSHEET',
+                'message', '본인의 자료는 구매할 수 없습니다.'
+            )::JSON;
+        ELSIF v_item.already_purchased THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'ALREADY_PURCHASED',
+                'message', '이미 구매한 자료입니다.'
+            )::JSON;
+        ELSE
+            INSERT INTO _checkout_items (worksheet_id, seller_id, title, price)
+            VALUES (v_item.id, v_item.seller_id, v_item.title, v_item.price);
+            v_total_price := v_total_price + v_item.price;
+        END IF;
+    END LOOP;
+
+    -- 구매 가능한 항목이 없으면 결제 없이 실패 목록만 반환 (부작용이 없으므로 저장하지 않음)
+    IF NOT EXISTS (SELECT 1 FROM _checkout_items) THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'subtotal', 0,
+            'discount', 0,
+            'couponCode', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_failed
+        );
+    END IF;
+
+    -- 2) 쿠폰 적용 (쿠폰 행을 잠가 사용 수량 초과를 방지)
+    IF p_coupon_code IS NOT NULL AND length(trim(p_coupon_code)) > 0 THEN
+        PERFORM 1 FROM public.coupons WHERE code = upper(trim(p_coupon_code)) FOR UPDATE;
+
+        v_coupon := public.evaluate_coupon(
+            p_user_id,
+            p_coupon_code,
+            ARRAY(SELECT worksheet_id FROM _checkout_items)
+        );
+
+        IF NOT (v_coupon->>'valid')::BOOLEAN THEN
+            RAISE EXCEPTION '%', v_coupon->>'error';
+        END IF;
+
+        v_coupon_id := (v_coupon->>'couponId')::UUID;
+        v_discount := (v_coupon->>'discount')::INTEGER;
+
+        UPDATE _checkout_items ci
+        SET discount = (a->>'discount')::INTEGER
+        FROM json_array_elements(v_coupon->'allocations') a
+        WHERE ci.worksheet_id = (a->>'worksheetId')::UUID;
+    END IF;
+
+    -- Check if user has enough points (할인 후 결제 금액 기준)
+    IF v_user_points < v_total_price - v_discount THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_total_price - v_discount, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, coupon_id)
+    VALUES (p_user_id, p_idempotency_key, v_coupon_id)
+    RETURNING id INTO v_order_id;
+
+    -- 3) 구매 처리
+    FOR v_item IN SELECT * FROM _checkout_items LOOP
+        -- Create purchase record (price = 실제 결제 금액)
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, discount, order_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.price - v_item.discount, v_item.discount, v_order_id)
+        RETURNING id INTO v_purchase_id;
+
+        -- Update worksheet sales count
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        -- 판매자 정산 (할인 배분 후 금액, 수수료 차감)
+        PERFORM public.credit_seller_sale(
+            v_purchase_id,
+            v_item.title || ' 판매' || CASE WHEN v_item.discount > 0 THEN ' (쿠폰 할인 ' || v_item.discount || 'P)' ELSE '' END
+        );
+
+        -- Remove from cart (선택하지 않은 항목은 장바구니에 그대로 남음)
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.price - v_item.discount,
+            'discount', v_item.discount
+        )::JSON;
+    END LOOP;
+
+    IF v_discount > 0 THEN
+        PERFORM public.apply_point_change(
+            p_user_id, 'coupon_discount', v_discount, '쿠폰 할인 (' || (v_coupon->>'code') || ')', v_order_id
+        );
+
+        INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount)
+        VALUES (v_coupon_id, p_user_id, v_order_id, v_discount);
+
+        UPDATE public.coupons SET used_count = used_count + 1 WHERE id = v_coupon_id;
+    END IF;
+
+    -- Deduct points from buyer (주문 단위)
+    v_new_balance := public.apply_point_change(p_user_id, 'purchase', -v_total_price, '워크시트 구매', v_order_id);
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'subtotal', v_total_price,
+        'discount', v_discount,
+        'couponCode', v_coupon->>'code',
+        'totalSpent', v_total_price - v_discount,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_failed
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_total_price - v_discount,
+        subtotal = v_total_price,
+        discount = v_discount,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_worksheets(UUID, UUID[], TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 13. 묶음 구매
+-- add-platform-fee.sql 의 purchase_bundle 과 동일
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.purchase_bundle(
+    p_user_id UUID,
+    p_bundle_id UUID,
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_bundle RECORD;
+    v_item RECORD;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_full_price INTEGER;
+    v_subtotal INTEGER;
+    v_charge INTEGER;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_skipped JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    SELECT * INTO v_bundle FROM public.bundles WHERE id = p_bundle_id;
+
+    IF NOT FOUND OR v_bundle.status <> 'approved' THEN
+        RAISE EXCEPTION '현재 판매 중이 아닌 묶음입니다.';
+    END IF;
+
+    IF v_bundle.seller_id = p_user_id THEN
+        RAISE EXCEPTION '본인의 묶음은 구매할 수 없습니다.';
+    END IF;
+
+    -- 판매 중인 자료만 대상 (판매 중지된 자료는 정가 합계에서도 제외)
+    CREATE TEMP TABLE IF NOT EXISTS _bundle_items (
+        worksheet_id UUID PRIMARY KEY,
+        title TEXT,
+        price INTEGER,
+        position INTEGER,
+        owned BOOLEAN
+    ) ON COMMIT DROP;
+    TRUNCATE _bundle_items;
+
+    INSERT INTO _bundle_items
+    SELECT w.id, w.title, w.price, bi.position,
+           EXISTS (
+               SELECT 1 FROM public.purchases p
+               WHERE p.buyer_id = p_user_id AND p.worksheet_id = w.id
+           )
+    FROM public.bundle_items bi
+    JOIN public.worksheets w ON w.id = bi.worksheet_id
+    WHERE bi.bundle_id = p_bundle_id AND w.status = 'approved';
+
+    SELECT COALESCE(SUM(price), 0) INTO v_full_price FROM _bundle_items;
+    SELECT COALESCE(SUM(price), 0) INTO v_subtotal FROM _bundle_items WHERE NOT owned;
+
+    SELECT COALESCE(array_agg(json_build_object(
+        'worksheetId', worksheet_id,
+        'title', title,
+        'reason', 'ALREADY_PURCHASED',
+        'message', '이미 구매한 자료입니다.'
+    )), ARRAY[]::JSON[])
+    INTO v_skipped
+    FROM _bundle_items WHERE owned;
+
+    IF v_subtotal = 0 THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'subtotal', 0,
+            'discount', 0,
+            'couponCode', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_skipped
+        );
+    END IF;
+
+    -- 묶음 가격이 정가 합계 이상이 된 경우(자료 가격 인하 등)에는 정가로 판매
+    v_charge := LEAST(v_subtotal, FLOOR(v_bundle.price::NUMERIC * v_subtotal / v_full_price)::INTEGER);
+
+    IF v_user_points < v_charge THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_charge, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, bundle_id)
+    VALUES (p_user_id, p_idempotency_key, p_bundle_id)
+    RETURNING id INTO v_order_id;
+
+    FOR v_item IN
+        SELECT worksheet_id, title, price,
+               -- 누적 정가 비율로 청구액을 배분 (합계가 정확히 v_charge)
+               FLOOR(v_charge::NUMERIC * SUM(price) OVER w / v_subtotal)::INTEGER
+             - FLOOR(v_charge::NUMERIC * (SUM(price) OVER w - price) / v_subtotal)::INTEGER AS paid
+        FROM _bundle_items
+        WHERE NOT owned
+        WINDOW w AS (ORDER BY position, worksheet_id)
+    LOOP
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, discount, order_id, bundle_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.paid, v_item.price - v_item.paid, v_order_id, p_bundle_id)
+        RETURNING id INTO v_purchase_id;
+
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        PERFORM public.credit_seller_sale(
+            v_purchase_id,
+            v_item.title || ' 판매 (묶음: ' || v_bundle.title || ')'
+        );
+
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.paid,
+            'discount', v_item.price - v_item.paid
+        )::JSON;
+    END LOOP;
+
+    v_new_balance := public.apply_point_change(
+        p_user_id, 'purchase', -v_charge, '묶음 구매: ' || v_bundle.title, v_order_id
+    );
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'subtotal', v_subtotal,
+        'discount', v_subtotal - v_charge,
+        'couponCode', NULL,
+        'totalSpent', v_charge,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_skipped
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_charge,
+        subtotal = v_subtotal,
+        discount = v_subtotal - v_charge,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_bundle(UUID, UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 14. 선물 결제
+-- add-platform-fee.sql 의 gift_worksheet 와 동일
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.gift_worksheet(
+    p_user_id UUID,
+    p_recipient_id UUID,
+    p_worksheet_id UUID,
+    p_message TEXT,
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_worksheet RECORD;
+    v_sender_nickname TEXT;
+    v_recipient_nickname TEXT;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_message TEXT := NULLIF(trim(COALESCE(p_message, '')), '');
+    v_response JSON;
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_recipient_id = p_user_id THEN
+        RAISE EXCEPTION '본인에게는 선물할 수 없습니다.';
+    END IF;
+
+    IF length(COALESCE(v_message, '')) > 200 THEN
+        RAISE EXCEPTION '메시지는 200자 이하로 입력해주세요.';
+    END IF;
+
+    -- 보낸 사람 / 받는 사람 행을 id 순서로 함께 잠금
+    -- 서로에게 동시에 선물해도 교착되지 않고, 같은 자료가 동시에 두 번 선물되지 않음
+    PERFORM 1 FROM public.profiles
+    WHERE id IN (p_user_id, p_recipient_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT points, nickname INTO v_user_points, v_sender_nickname
+    FROM public.profiles WHERE id = p_user_id;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    SELECT nickname INTO v_recipient_nickname
+    FROM public.profiles WHERE id = p_recipient_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '받는 사람을 찾을 수 없습니다.';
+    END IF;
+
+    SELECT id, title, price, seller_id, status INTO v_worksheet
+    FROM public.worksheets WHERE id = p_worksheet_id;
+
+    IF NOT FOUND OR v_worksheet.status <> 'approved' THEN
+        RAISE EXCEPTION '현재 판매 중이 아닌 자료입니다.';
+    END IF;
+
+    IF v_worksheet.seller_id = p_user_id THEN
+        RAISE EXCEPTION '본인의 자료는 선물할 수 없습니다.';
+    END IF;
+
+    IF v_worksheet.seller_id = p_recipient_id THEN
+        RAISE EXCEPTION '판매자에게는 선물할 수 없습니다.';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.purchases
+        WHERE buyer_id = p_recipient_id AND worksheet_id = p_worksheet_id
+    ) THEN
+        RAISE EXCEPTION '받는 사람이 이미 보유한 자료입니다.';
+    END IF;
+
+    IF v_user_points < v_worksheet.price THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_worksheet.price, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key, subtotal)
+    VALUES (p_user_id, p_idempotency_key, v_worksheet.price)
+    RETURNING id INTO v_order_id;
+
+    INSERT INTO public.purchases (buyer_id, worksheet_id, price, order_id, gift_from, gift_message)
+    VALUES (p_recipient_id, p_worksheet_id, v_worksheet.price, v_order_id, p_user_id, v_message)
+    RETURNING id INTO v_purchase_id;
+
+    UPDATE public.worksheets
+    SET sales_count = sales_count + 1, download_count = download_count + 1
+    WHERE id = p_worksheet_id;
+
+    -- 판매자 정산 (수수료 차감)
+    PERFORM public.credit_seller_sale(v_purchase_id, v_worksheet.title || ' 판매 (선물)');
+
+    -- 보낸 사람 차감
+    v_new_balance := public.apply_point_change(
+        p_user_id, 'gift_sent', -v_worksheet.price,
+        v_recipient_nickname || '님에게 선물: ' || v_worksheet.title, v_purchase_id
+    );
+
+    -- 받는 사람 기록 (포인트 변동 없음)
+    PERFORM public.apply_point_change(
+        p_recipient_id, 'gift_received', 0,
+        v_sender_nickname || '님에게 받은 선물: ' || v_worksheet.title, v_purchase_id
+    );
+
+    -- 받는 사람 장바구니/찜 목록에서 제거
+    DELETE FROM public.cart_items
+    WHERE user_id = p_recipient_id AND worksheet_id = p_worksheet_id;
+    DELETE FROM public.wishlist_items
+    WHERE user_id = p_recipient_id AND worksheet_id = p_worksheet_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES (
+        p_recipient_id,
+        'gift',
+        '선물이 도착했습니다',
+        v_sender_nickname || '님이 「' || v_worksheet.title || '」을(를) 선물했습니다.',
+        p_worksheet_id
+    );
+
+    INSERT INTO public.messages (sender_id, recipient_id, recipient_type, message_type, title, content)
+    VALUES (
+        p_user_id,
+        p_recipient_id,
+        'individual',
+        'gift',
+        '🎁 「' || v_worksheet.title || '」 선물',
+        COALESCE(v_message, v_sender_nickname || '님이 자료를 선물했습니다.')
+            || E'\n\n구매 내역에서 바로 다운로드할 수 있습니다.'
+    );
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'purchaseId', v_purchase_id,
+        'recipientNickname', v_recipient_nickname,
+        'totalSpent', v_worksheet.price,
+        'newBalance', v_new_balance
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_worksheet.price,
+        item_count = 1,
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.gift_worksheet(UUID, UUID, UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 15. 환불 실행
+-- add-platform-fee.sql 의 execute_refund 와 동일 (판매자 회수는 잔액이 부족하면 음수 허용)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.execute_refund(p_request_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_request RECORD;
+    v_purchase RECORD;
+    v_payer_id UUID;
+    v_amount INTEGER;
+    v_fee_refund INTEGER;
+BEGIN
+    SELECT * INTO v_request FROM public.refund_requests WHERE id = p_request_id FOR UPDATE;
+
+    -- 종결되지 않은 요청만 (판매자 수락 / 관리자 중재에서 호출)
+    IF NOT FOUND OR v_request.status NOT IN ('pending', 'seller_rejected', 'disputed') THEN
+        RAISE EXCEPTION '환불할 수 없는 요청입니다.';
+    END IF;
+
+    SELECT * INTO v_purchase FROM public.purchases WHERE id = v_request.purchase_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    v_payer_id := COALESCE(v_purchase.gift_from, v_purchase.buyer_id);
+    v_amount := GREATEST(v_purchase.price - CASE WHEN v_purchase.has_feedback THEN 30 ELSE 0 END, 0);
+
+    -- 결제한 사람 환불
+    PERFORM public.apply_point_change(
+        v_payer_id, 'purchase_refund', v_amount, v_request.worksheet_title || ' 환불', p_request_id
+    );
+
+    -- 판매자 회수 (잔액이 부족하면 음수가 될 수 있음)
+    PERFORM public.apply_point_change(
+        v_request.seller_id, 'sale_refund', -v_amount, v_request.worksheet_title || ' 환불 회수', p_request_id, TRUE
+    );
+
+    -- 판매 시 떼어간 수수료는 환불 금액 비율만큼 판매자에게 돌려줌
+    v_fee_refund := CASE WHEN v_purchase.price > 0
+        THEN ROUND(v_purchase.platform_fee::NUMERIC * v_amount / v_purchase.price)::INTEGER
+        ELSE 0 END;
+
+    IF v_fee_refund > 0 THEN
+        PERFORM public.apply_point_change(
+            v_request.seller_id, 'platform_fee', v_fee_refund, v_request.worksheet_title || ' 환불 수수료 반환', p_request_id
+        );
+    END IF;
+
+    DELETE FROM public.purchases WHERE id = v_purchase.id;
+
+    UPDATE public.worksheets w
+    SET sales_count = GREATEST(w.sales_count - 1, 0),
+        average_rating = COALESCE(r.avg_rating, 0),
+        review_count = COALESCE(r.cnt, 0)
+    FROM (
+        SELECT ROUND(AVG(rating)::numeric, 1) AS avg_rating, COUNT(*)::INTEGER AS cnt
+        FROM public.feedbacks WHERE worksheet_id = v_purchase.worksheet_id
+    ) r
+    WHERE w.id = v_purchase.worksheet_id;
+
+    UPDATE public.refund_requests
+    SET status = 'refunded', refunded_amount = v_amount, updated_at = NOW()
+    WHERE id = p_request_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES
+        (v_payer_id, 'refund', '환불 완료',
+         '「' || v_request.worksheet_title || '」 환불이 완료되었습니다. (' || v_amount || 'P)', v_request.worksheet_id),
+        (v_request.seller_id, 'refund', '환불 처리',
+         '「' || v_request.worksheet_title || '」 판매가 환불 처리되었습니다. (-' || (v_amount - v_fee_refund) || 'P)', v_request.worksheet_id);
+
+    -- 선물받은 자료는 포인트가 보낸 사람에게 돌아가므로 받은 사람에게는 따로 알림
+    IF v_payer_id <> v_request.buyer_id THEN
+        INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+        VALUES (v_request.buyer_id, 'refund', '환불 완료',
+                '「' || v_request.worksheet_title || '」 환불이 완료되어 선물한 분께 포인트가 반환되었습니다.', v_request.worksheet_id);
+    END IF;
+
+    RETURN v_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.execute_refund(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 16. 포인트 충전 확정 (웹훅)
+-- add-point-charge.sql 의 confirm_point_payment 와 동일
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.confirm_point_payment(
+    p_payment_id UUID,
+    p_provider_payment_id TEXT,
+    p_approved BOOLEAN,
+    p_amount INTEGER,
+    p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_payment RECORD;
+    v_total INTEGER;
+    v_new_balance INTEGER;
+BEGIN
+    SELECT * INTO v_payment
+    FROM public.point_payments
+    WHERE id = p_payment_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '결제 건을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_payment.status <> 'pending' THEN
+        RETURN json_build_object('status', v_payment.status, 'replayed', true);
+    END IF;
+
+    -- 결제사가 승인한 금액이 주문 금액과 다르면 적립하지 않음
+    IF p_approved AND p_amount IS DISTINCT FROM v_payment.amount THEN
+        p_approved := false;
+        p_failure_reason := '결제 금액이 일치하지 않습니다.';
+    END IF;
+
+    IF NOT p_approved THEN
+        UPDATE public.point_payments
+        SET status = 'failed',
+            provider_payment_id = p_provider_payment_id,
+            failure_reason = COALESCE(NULLIF(trim(COALESCE(p_failure_reason, '')), ''), '결제가 거절되었습니다.'),
+            completed_at = NOW()
+        WHERE id = p_payment_id;
+
+        RETURN json_build_object('status', 'failed', 'replayed', false);
+    END IF;
+
+    v_total := v_payment.points + v_payment.bonus_points;
+
+    v_new_balance := public.apply_point_change(
+        v_payment.user_id,
+        'point_charge',
+        v_total,
+        '포인트 충전 ' || to_char(v_payment.amount, 'FM999,999,999') || '원'
+            || CASE WHEN v_payment.bonus_points > 0 THEN ' (보너스 ' || v_payment.bonus_points || 'P)' ELSE '' END,
+        p_payment_id
+    );
+
+    UPDATE public.point_payments
+    SET status = 'paid',
+        provider_payment_id = p_provider_payment_id,
+        completed_at = NOW()
+    WHERE id = p_payment_id;
+
+    RETURN json_build_object('status', 'paid', 'replayed', false, 'newBalance', v_new_balance);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 실제 결제사 웹훅은 서명을 검증한 서버(service_role)에서만 호출
+REVOKE EXECUTE ON FUNCTION public.confirm_point_payment(UUID, TEXT, BOOLEAN, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_point_payment(UUID, TEXT, BOOLEAN, INTEGER, TEXT) TO service_role;
+
+-- =====================================================
+-- 17. 출금 신청 / 관리자 검토
+-- add-withdrawals.sql 의 request_withdrawal, review_withdrawals 와 동일
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.request_withdrawal(p_amount INTEGER)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_account RECORD;
+    v_withdrawable INTEGER;
+    v_request_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < 10000 THEN
+        RAISE EXCEPTION '최소 출금 금액은 10,000P 입니다.';
+    END IF;
+
+    -- 같은 포인트로 동시에 두 번 신청하지 못하도록 잠금
+    PERFORM 1 FROM public.profiles WHERE id = v_user_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.withdrawal_requests
+        WHERE user_id = v_user_id AND status IN ('pending', 'approved')
+    ) THEN
+        RAISE EXCEPTION '처리 중인 출금 신청이 있습니다.';
+    END IF;
+
+    SELECT * INTO v_account FROM public.payout_accounts WHERE user_id = v_user_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '정산 계좌를 먼저 등록해주세요.';
+    END IF;
+
+    v_withdrawable := public.withdrawable_points(v_user_id);
+    IF p_amount > v_withdrawable THEN
+        RAISE EXCEPTION '출금 가능한 포인트가 부족합니다. (출금 가능: %P)', v_withdrawable;
+    END IF;
+
+    INSERT INTO public.withdrawal_requests (
+        user_id, amount, bank_name, account_holder, account_number_encrypted, account_last4
+    )
+    VALUES (
+        v_user_id, p_amount, v_account.bank_name, v_account.account_holder,
+        v_account.account_number_encrypted, v_account.account_last4
+    )
+    RETURNING id INTO v_request_id;
+
+    PERFORM public.apply_point_change(
+        v_user_id,
+        'withdrawal_hold',
+        -p_amount,
+        '출금 신청 (' || v_account.bank_name || ' ****' || v_account.account_last4 || ')',
+        v_request_id
+    );
+
+    RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.request_withdrawal(INTEGER) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.review_withdrawals(
+    p_request_ids UUID[],
+    p_action TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_request RECORD;
+    v_note TEXT := NULLIF(trim(COALESCE(p_note, '')), '');
+    v_processed INTEGER := 0;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 처리할 수 있습니다.';
+    END IF;
+
+    IF p_action NOT IN ('approve', 'pay', 'reject') THEN
+        RAISE EXCEPTION '알 수 없는 처리입니다.';
+    END IF;
+
+    IF p_action = 'reject' AND v_note IS NULL THEN
+        RAISE EXCEPTION '반려 사유를 입력해주세요.';
+    END IF;
+
+    FOR v_request IN
+        SELECT * FROM public.withdrawal_requests
+        WHERE id = ANY(p_request_ids)
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        IF p_action = 'approve' AND v_request.status = 'pending' THEN
+            UPDATE public.withdrawal_requests
+            SET status = 'approved', admin_note = COALESCE(v_note, admin_note),
+                reviewed_by = auth.uid(), reviewed_at = NOW()
+            WHERE id = v_request.id;
+
+        ELSIF p_action = 'pay' AND v_request.status = 'approved' THEN
+            UPDATE public.withdrawal_requests
+            SET status = 'paid', admin_note = COALESCE(v_note, admin_note), paid_at = NOW()
+            WHERE id = v_request.id;
+
+            INSERT INTO public.notifications (user_id, type, title, message)
+            VALUES (
+                v_request.user_id,
+                'withdrawal',
+                '출금 완료',
+                to_char(v_request.amount, 'FM999,999,999') || 'P 출금이 ' || v_request.bank_name
+                    || ' ****' || v_request.account_last4 || ' 계좌로 지급되었습니다.'
+            );
+
+        ELSIF p_action = 'reject' AND v_request.status IN ('pending', 'approved') THEN
+            UPDATE public.withdrawal_requests
+            SET status = 'rejected', admin_note = v_note,
+                reviewed_by = auth.uid(), reviewed_at = NOW()
+            WHERE id = v_request.id;
+
+            PERFORM public.apply_point_change(
+                v_request.user_id, 'withdrawal_release', v_request.amount, '출금 반려: ' || v_note, v_request.id
+            );
+
+            INSERT INTO public.notifications (user_id, type, title, message)
+            VALUES (
+                v_request.user_id,
+                'withdrawal',
+                '출금 신청 반려',
+                '출금 신청이 반려되어 포인트가 반환되었습니다. 사유: ' || v_note
+            );
+
+        ELSE
+            CONTINUE;
+        END IF;
+
+        v_processed := v_processed + 1;
+    END LOOP;
+
+    RETURN json_build_object('processed', v_processed);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.review_withdrawals(UUID[], TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 18. 관리자: 포인트 정합성 리포트
+-- drift = profiles.points - 원장 합계 (0 이 아니면 원장 밖에서 포인트가 바뀐 것)
+-- balanceMismatch: 마지막 거래의 balance 가 현재 포인트와 다름
+-- p_only_drift: 문제가 있는 사용자만 (차이가 큰 순, 최대 500명)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_point_reconciliation(p_only_drift BOOLEAN DEFAULT TRUE)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 조회할 수 있습니다.';
+    END IF;
+
+    RETURN (
+        WITH ledger AS (
+            SELECT
+                p.id AS user_id,
+                p.nickname,
+                p.email,
+                p.points,
+                COALESCE(l.ledger_sum, 0)::INTEGER AS ledger_sum,
+                COALESCE(l.tx_count, 0)::INTEGER AS tx_count,
+                l.last_balance,
+                l.last_at,
+                p.points - COALESCE(l.ledger_sum, 0)::INTEGER AS drift,
+                l.last_balance IS DISTINCT FROM p.points AS balance_mismatch
+            FROM public.profiles p
+            LEFT JOIN LATERAL (
+                SELECT
+                    SUM(t.amount) AS ledger_sum,
+                    COUNT(*) AS tx_count,
+                    (ARRAY_AGG(t.balance ORDER BY t.created_at DESC, t.id DESC))[1] AS last_balance,
+                    MAX(t.created_at) AS last_at
+                FROM public.point_transactions t
+                WHERE t.user_id = p.id
+            ) l ON TRUE
+        )
+        SELECT json_build_object(
+            'checkedAt', NOW(),
+            'summary', (
+                SELECT json_build_object(
+                    'userCount', COUNT(*),
+                    'driftCount', COUNT(*) FILTER (WHERE drift <> 0),
+                    'mismatchCount', COUNT(*) FILTER (WHERE balance_mismatch),
+                    'totalPoints', COALESCE(SUM(points), 0),
+                    'totalLedger', COALESCE(SUM(ledger_sum), 0),
+                    'totalDrift', COALESCE(SUM(drift), 0)
+                )
+                FROM ledger
+            ),
+            'users', (
+                SELECT COALESCE(json_agg(json_build_object(
+                    'userId', r.user_id,
+                    'nickname', r.nickname,
+                    'email', r.email,
+                    'points', r.points,
+                    'ledgerSum', r.ledger_sum,
+                    'drift', r.drift,
+                    'lastBalance', r.last_balance,
+                    'balanceMismatch', r.balance_mismatch,
+                    'transactionCount', r.tx_count,
+                    'lastTransactionAt', r.last_at
+                ) ORDER BY abs(r.drift) DESC, r.balance_mismatch DESC, r.nickname), '[]'::JSON)
+                FROM (
+                    SELECT * FROM ledger
+                    WHERE NOT p_only_drift OR drift <> 0 OR balance_mismatch
+                    ORDER BY abs(drift) DESC, balance_mismatch DESC, nickname
+                    LIMIT 500
+                ) r
+            )
+        )
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_point_reconciliation(BOOLEAN) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
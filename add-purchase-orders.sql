@@ -0,0 +1,233 @@
+-- =====================================================
+-- 주문(구매 묶음) + 멱등 결제
+-- Supabase SQL Editor에서 실행하세요
+-- add-partial-checkout.sql 이후에 실행 (purchase_worksheets 재정의)
+-- =====================================================
+
+-- =====================================================
+-- 1. 주문 테이블
+-- idempotency_key: 클라이언트가 결제 시도마다 생성하는 키
+-- response: 최초 실행 결과 (같은 키로 재요청 시 그대로 반환)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    buyer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    idempotency_key TEXT NOT NULL,
+    total_spent INTEGER NOT NULL DEFAULT 0,
+    item_count INTEGER NOT NULL DEFAULT 0,
+    response JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(buyer_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_buyer ON public.purchase_orders(buyer_id, created_at DESC);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+
+-- 주문 생성은 purchase_worksheets(SECURITY DEFINER)에서만
+DROP POLICY IF EXISTS "Users can view own orders" ON public.purchase_orders;
+CREATE POLICY "Users can view own orders" ON public.purchase_orders
+    FOR SELECT USING (auth.uid() = buyer_id);
+
+-- =====================================================
+-- 2. 구매 내역에 주문 연결 (기존 구매는 NULL)
+-- =====================================================
+ALTER TABLE public.purchases
+ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_order ON public.purchases(order_id);
+
+-- =====================================================
+-- 3. 멱등 결제 함수
+-- 같은 (구매자, 키)로 다시 호출되면 재실행하지 않고 최초 결과를 반환
+-- =====================================================
+DROP FUNCTION IF EXISTS public.purchase_worksheets(UUID);
+DROP FUNCTION IF EXISTS public.purchase_worksheets(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.purchase_worksheets(
+    p_user_id UUID,
+    p_worksheet_ids UUID[],
+    p_idempotency_key TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_item RECORD;
+    v_total_price INTEGER := 0;
+    v_user_points INTEGER;
+    v_new_balance INTEGER;
+    v_seller_balance INTEGER;
+    v_order_id UUID;
+    v_purchase_id UUID;
+    v_existing JSONB;
+    v_response JSON;
+    v_results JSON[] := ARRAY[]::JSON[];
+    v_failed JSON[] := ARRAY[]::JSON[];
+BEGIN
+    IF p_user_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+        RAISE EXCEPTION '결제 요청 키가 필요합니다.';
+    END IF;
+
+    IF p_worksheet_ids IS NULL OR array_length(p_worksheet_ids, 1) IS NULL THEN
+        RAISE EXCEPTION '구매할 자료를 선택해주세요.';
+    END IF;
+
+    -- Get user's current points (with lock to prevent race condition)
+    -- 같은 구매자의 결제는 이 잠금으로 직렬화되므로, 아래 키 조회는 동시 재시도도 안전
+    SELECT points INTO v_user_points FROM public.profiles WHERE id = p_user_id FOR UPDATE;
+
+    SELECT response INTO v_existing
+    FROM public.purchase_orders
+    WHERE buyer_id = p_user_id AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        RETURN (v_existing || jsonb_build_object('replayed', true))::JSON;
+    END IF;
+
+    -- 1) 항목별 검증 → 구매 가능한 항목만 임시 테이블에 모음
+    CREATE TEMP TABLE IF NOT EXISTS _checkout_items (
+        worksheet_id UUID PRIMARY KEY,
+        seller_id UUID,
+        title TEXT,
+        price INTEGER
+    ) ON COMMIT DROP;
+    TRUNCATE _checkout_items;
+
+    FOR v_item IN
+        SELECT ids.id AS requested_id, w.id, w.title, w.price, w.seller_id, w.status,
+               EXISTS (
+                   SELECT 1 FROM public.purchases p
+                   WHERE p.buyer_id = p_user_id AND p.worksheet_id = ids.id
+               ) AS already_purchased
+        FROM (SELECT DISTINCT unnest(p_worksheet_ids) AS id) ids
+        LEFT JOIN public.worksheets w ON w.id = ids.id
+    LOOP
+        IF v_item.id IS NULL THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.requested_id,
+                'reason', 'NOT_FOUND',
+                'message', '존재하지 않는 자료입니다.'
+            )::JSON;
+        ELSIF v_item.status <> 'approved' THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'NOT_APPROVED',
+                'message', '현재 판매 중이 아닌 자료입니다.'
+            )::JSON;
+        ELSIF v_item.seller_id = p_user_id THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'OWN_WORKSHEET',
+                'message', '본인의 자료는 구매할 수 없습니다.'
+            )::JSON;
+        ELSIF v_item.already_purchased THEN
+            v_failed := v_failed || json_build_object(
+                'worksheetId', v_item.id,
+                'title', v_item.title,
+                'reason', 'ALREADY_PURCHASED',
+                'message', '이미 구매한 자료입니다.'
+            )::JSON;
+        ELSE
+            INSERT INTO _checkout_items VALUES (v_item.id, v_item.seller_id, v_item.title, v_item.price);
+            v_total_price := v_total_price + v_item.price;
+        END IF;
+    END LOOP;
+
+    -- 구매 가능한 항목이 없으면 결제 없이 실패 목록만 반환 (부작용이 없으므로 저장하지 않음)
+    IF NOT EXISTS (SELECT 1 FROM _checkout_items) THEN
+        RETURN json_build_object(
+            'success', true,
+            'orderId', NULL,
+            'totalSpent', 0,
+            'newBalance', v_user_points,
+            'purchases', v_results,
+            'failed', v_failed
+        );
+    END IF;
+
+    -- Check if user has enough points (선택한 항목 합계 기준)
+    IF v_user_points < v_total_price THEN
+        RAISE EXCEPTION '포인트가 부족합니다. (필요: %, 보유: %)', v_total_price, v_user_points;
+    END IF;
+
+    INSERT INTO public.purchase_orders (buyer_id, idempotency_key)
+    VALUES (p_user_id, p_idempotency_key)
+    RETURNING id INTO v_order_id;
+
+    -- 2) 구매 처리
+    FOR v_item IN SELECT * FROM _checkout_items LOOP
+        -- Create purchase record
+        INSERT INTO public.purchases (buyer_id, worksheet_id, price, order_id)
+        VALUES (p_user_id, v_item.worksheet_id, v_item.price, v_order_id)
+        RETURNING id INTO v_purchase_id;
+
+        -- Update worksheet sales count
+        UPDATE public.worksheets
+        SET sales_count = sales_count + 1, download_count = download_count + 1
+        WHERE id = v_item.worksheet_id;
+
+        -- Add points to seller
+        UPDATE public.profiles
+        SET points = points + v_item.price
+        WHERE id = v_item.seller_id
+        RETURNING points INTO v_seller_balance;
+
+        -- Record seller transaction
+        INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+        VALUES (
+            v_item.seller_id,
+            'sale',
+            v_item.price,
+            v_seller_balance,
+            v_item.title || ' 판매',
+            v_purchase_id
+        );
+
+        -- Remove from cart (선택하지 않은 항목은 장바구니에 그대로 남음)
+        DELETE FROM public.cart_items
+        WHERE user_id = p_user_id AND worksheet_id = v_item.worksheet_id;
+
+        v_results := v_results || json_build_object(
+            'worksheetId', v_item.worksheet_id,
+            'title', v_item.title,
+            'price', v_item.price
+        )::JSON;
+    END LOOP;
+
+    -- Deduct points from buyer
+    v_new_balance := v_user_points - v_total_price;
+    UPDATE public.profiles SET points = v_new_balance WHERE id = p_user_id;
+
+    -- Record buyer transaction (주문 단위)
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (p_user_id, 'purchase', -v_total_price, v_new_balance, '워크시트 구매', v_order_id);
+
+    v_response := json_build_object(
+        'success', true,
+        'orderId', v_order_id,
+        'totalSpent', v_total_price,
+        'newBalance', v_new_balance,
+        'purchases', v_results,
+        'failed', v_failed
+    );
+
+    UPDATE public.purchase_orders
+    SET total_spent = v_total_price,
+        item_count = array_length(v_results, 1),
+        response = v_response::JSONB
+    WHERE id = v_order_id;
+
+    RETURN v_response;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.purchase_worksheets(UUID, UUID[], TEXT) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
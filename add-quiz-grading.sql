@@ -0,0 +1,172 @@
+-- =====================================================
+-- 퀴즈 서버 채점
+-- Supabase SQL Editor에서 실행하세요
+-- add-point-ledger.sql 이후에 실행 (submit_quiz 를 다시 정의)
+--
+-- 정답/해설은 제출 전에는 내려주지 않음 (quiz_questions 직접 조회는 관리자만)
+-- 문제는 get_quiz_questions 로 조회, 채점·참여 기록·포인트 지급은 submit_quiz 한 번에 처리
+-- =====================================================
+
+-- =====================================================
+-- 1. 참여 기록에 제출 답안 / 맞힌 개수
+-- admin-event-schema.sql 과 admin-event-schema-fix.sql 중 어느 쪽으로 만들었든 같은 컬럼을 갖도록
+-- =====================================================
+ALTER TABLE public.event_participations
+ADD COLUMN IF NOT EXISTS answers JSONB;
+
+ALTER TABLE public.event_participations
+ADD COLUMN IF NOT EXISTS correct_count INTEGER;
+
+ALTER TABLE public.event_participations
+ADD COLUMN IF NOT EXISTS is_correct BOOLEAN;
+
+-- =====================================================
+-- 2. 퀴즈 문제 직접 조회 차단
+-- 기존 조회 정책은 correct_answer 까지 노출하므로 제거 ("Admin can manage quiz questions" 는 유지)
+-- =====================================================
+DROP POLICY IF EXISTS "Users can view quiz questions" ON public.quiz_questions;
+DROP POLICY IF EXISTS "Anyone can view quiz questions for active events" ON public.quiz_questions;
+
+-- =====================================================
+-- 3. 퀴즈 문제 조회 (정답/해설 제외)
+-- 진행 중이거나 종료된 이벤트만
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_quiz_questions(p_event_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(json_agg(json_build_object(
+        'id', q.id,
+        'question', q.question,
+        'questionType', q.question_type,
+        'choices', q.choices,
+        'orderNum', q.order_num
+    ) ORDER BY q.order_num, q.created_at), '[]'::JSON)
+    FROM public.quiz_questions q
+    JOIN public.events e ON e.id = q.event_id
+    WHERE q.event_id = p_event_id
+      AND e.type = 'quiz'
+      AND e.status IN ('active', 'ended');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_questions(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 4. 퀴즈 제출
+-- p_answers: {"<문제 id>": "<답>"} (O/X 는 'O'/'X', 객관식은 보기 번호)
+-- 검증: 진행 중 + 기간 안 + 정원 미달 + 첫 참여
+-- 모든 문제를 맞혀야 points_reward 지급
+-- 결과에 문항별 정답 여부, 정답, 해설 포함
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_quiz(p_event_id UUID, p_answers JSONB)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_answers JSONB := COALESCE(p_answers, '{}'::JSONB);
+    v_total INTEGER;
+    v_correct INTEGER;
+    v_results JSON;
+    v_is_correct BOOLEAN;
+    v_points_earned INTEGER := 0;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF jsonb_typeof(v_answers) <> 'object' THEN
+        RAISE EXCEPTION '답안 형식이 올바르지 않습니다.';
+    END IF;
+
+    -- 이벤트 행 잠금으로 정원 확인과 참여자 수 증가를 직렬화
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND OR v_event.type <> 'quiz' THEN
+        RAISE EXCEPTION '이벤트를 찾을 수 없습니다.';
+    END IF;
+
+    IF v_event.status <> 'active' THEN
+        RAISE EXCEPTION '진행 중인 이벤트가 아닙니다.';
+    END IF;
+
+    IF v_event.start_at IS NOT NULL AND NOW() < v_event.start_at THEN
+        RAISE EXCEPTION '아직 시작되지 않은 이벤트입니다.';
+    END IF;
+
+    IF v_event.end_at IS NOT NULL AND NOW() >= v_event.end_at THEN
+        RAISE EXCEPTION '종료된 이벤트입니다.';
+    END IF;
+
+    IF v_event.max_participants IS NOT NULL AND v_event.current_participants >= v_event.max_participants THEN
+        RAISE EXCEPTION '참여 인원이 마감되었습니다.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION '이미 참여했습니다.';
+    END IF;
+
+    SELECT
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (WHERE g.is_correct)::INTEGER,
+        json_agg(json_build_object(
+            'questionId', g.id,
+            'question', g.question,
+            'questionType', g.question_type,
+            'choices', g.choices,
+            'answer', g.answer,
+            'correctAnswer', g.correct_answer,
+            'isCorrect', g.is_correct,
+            'explanation', g.explanation
+        ) ORDER BY g.order_num, g.created_at)
+    INTO v_total, v_correct, v_results
+    FROM (
+        SELECT q.*,
+               v_answers->>q.id::TEXT AS answer,
+               COALESCE(upper(trim(v_answers->>q.id::TEXT)) = upper(trim(q.correct_answer)), FALSE) AS is_correct
+        FROM public.quiz_questions q
+        WHERE q.event_id = p_event_id
+    ) g;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION '문제가 등록되지 않은 이벤트입니다.';
+    END IF;
+
+    v_is_correct := v_correct = v_total;
+    IF v_is_correct THEN
+        v_points_earned := v_event.points_reward;
+    END IF;
+
+    INSERT INTO public.event_participations (event_id, user_id, answers, correct_count, is_correct, points_earned)
+    VALUES (p_event_id, v_user_id, v_answers, v_correct, v_is_correct, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'quiz', v_points_earned, '퀴즈 이벤트 정답: ' || v_event.title, p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'isCorrect', v_is_correct,
+        'correctCount', v_correct,
+        'totalQuestions', v_total,
+        'pointsEarned', v_points_earned,
+        'newBalance', v_new_balance,
+        'results', v_results
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
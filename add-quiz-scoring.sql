@@ -0,0 +1,227 @@
+-- =====================================================
+-- 퀴즈 부분 점수 / 해설 다시 보기
+-- Supabase SQL Editor에서 실행하세요
+-- add-quiz-grading.sql 이후에 실행 (submit_quiz 를 다시 정의)
+--
+-- 채점 방식 (events.scoring_mode)
+--   all_or_nothing: 모두 맞혀야 points_reward 전액 (기존 방식)
+--   per_question:   맞힌 문항 비율만큼 지급 (내림)
+--   threshold:      정답률이 pass_threshold(%) 이상이면 전액
+-- =====================================================
+
+-- =====================================================
+-- 1. 이벤트 채점 방식
+-- =====================================================
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS scoring_mode TEXT NOT NULL DEFAULT 'all_or_nothing';
+
+ALTER TABLE public.events
+ADD COLUMN IF NOT EXISTS pass_threshold INTEGER;
+
+ALTER TABLE public.events
+DROP CONSTRAINT IF EXISTS events_scoring_mode_check;
+
+ALTER TABLE public.events
+ADD CONSTRAINT events_scoring_mode_check
+CHECK (
+    scoring_mode IN ('all_or_nothing', 'per_question', 'threshold')
+    AND (scoring_mode <> 'threshold' OR pass_threshold BETWEEN 1 AND 100)
+);
+
+-- =====================================================
+-- 2. 채점 (내부용 - 직접 호출 불가)
+-- 문항별 결과와 맞힌 개수를 반환: {total, correct, results[]}
+-- 제출 시(submit_quiz)와 결과 다시 보기(get_quiz_result)에서 같은 기준으로 채점
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.grade_quiz(p_event_id UUID, p_answers JSONB)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT json_build_object(
+        'total', COUNT(*),
+        'correct', COUNT(*) FILTER (WHERE g.is_correct),
+        'results', COALESCE(json_agg(json_build_object(
+            'questionId', g.id,
+            'question', g.question,
+            'questionType', g.question_type,
+            'choices', g.choices,
+            'answer', g.answer,
+            'correctAnswer', g.correct_answer,
+            'isCorrect', g.is_correct,
+            'explanation', g.explanation
+        ) ORDER BY g.order_num, g.created_at), '[]'::JSON)
+    )
+    FROM (
+        SELECT q.*,
+               p_answers->>q.id::TEXT AS answer,
+               COALESCE(upper(trim(p_answers->>q.id::TEXT)) = upper(trim(q.correct_answer)), FALSE) AS is_correct
+        FROM public.quiz_questions q
+        WHERE q.event_id = p_event_id
+    ) g;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_quiz(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. 퀴즈 제출
+-- add-quiz-grading.sql 의 submit_quiz 와 동일, 지급 포인트만 채점 방식에 따라 계산
+-- is_correct 는 "통과" 여부 (all_or_nothing: 만점, threshold: 기준 이상, per_question: 1문제 이상)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.submit_quiz(p_event_id UUID, p_answers JSONB)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_event RECORD;
+    v_answers JSONB := COALESCE(p_answers, '{}'::JSONB);
+    v_grade JSON;
+    v_total INTEGER;
+    v_correct INTEGER;
+    v_is_correct BOOLEAN;
+    v_points_earned INTEGER := 0;
+    v_new_balance INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF jsonb_typeof(v_answers) <> 'object' THEN
+        RAISE EXCEPTION '답안 형식이 올바르지 않습니다.';
+    END IF;
+
+    -- 이벤트 행 잠금으로 정원 확인과 참여자 수 증가를 직렬화
+    SELECT * INTO v_event FROM public.events WHERE id = p_event_id FOR UPDATE;
+
+    IF NOT FOUND OR v_event.type <> 'quiz' THEN
+        RAISE EXCEPTION '이벤트를 찾을 수 없습니다.';
+    END IF;
+
+    IF v_event.status <> 'active' THEN
+        RAISE EXCEPTION '진행 중인 이벤트가 아닙니다.';
+    END IF;
+
+    IF v_event.start_at IS NOT NULL AND NOW() < v_event.start_at THEN
+        RAISE EXCEPTION '아직 시작되지 않은 이벤트입니다.';
+    END IF;
+
+    IF v_event.end_at IS NOT NULL AND NOW() >= v_event.end_at THEN
+        RAISE EXCEPTION '종료된 이벤트입니다.';
+    END IF;
+
+    IF v_event.max_participants IS NOT NULL AND v_event.current_participants >= v_event.max_participants THEN
+        RAISE EXCEPTION '참여 인원이 마감되었습니다.';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.event_participations WHERE event_id = p_event_id AND user_id = v_user_id) THEN
+        RAISE EXCEPTION '이미 참여했습니다.';
+    END IF;
+
+    v_grade := public.grade_quiz(p_event_id, v_answers);
+    v_total := (v_grade->>'total')::INTEGER;
+    v_correct := (v_grade->>'correct')::INTEGER;
+
+    IF v_total = 0 THEN
+        RAISE EXCEPTION '문제가 등록되지 않은 이벤트입니다.';
+    END IF;
+
+    v_is_correct := CASE v_event.scoring_mode
+        WHEN 'per_question' THEN v_correct > 0
+        WHEN 'threshold' THEN v_correct * 100 >= v_event.pass_threshold * v_total
+        ELSE v_correct = v_total
+    END;
+
+    v_points_earned := CASE
+        WHEN v_event.scoring_mode = 'per_question' THEN FLOOR(v_event.points_reward * v_correct::NUMERIC / v_total)::INTEGER
+        WHEN v_is_correct THEN v_event.points_reward
+        ELSE 0
+    END;
+
+    INSERT INTO public.event_participations (event_id, user_id, answers, correct_count, is_correct, points_earned)
+    VALUES (p_event_id, v_user_id, v_answers, v_correct, v_is_correct, v_points_earned);
+
+    UPDATE public.events SET current_participants = current_participants + 1 WHERE id = p_event_id;
+
+    IF v_points_earned > 0 THEN
+        v_new_balance := public.apply_point_change(
+            v_user_id, 'quiz', v_points_earned,
+            '퀴즈 이벤트: ' || v_event.title || ' (' || v_correct || '/' || v_total || ')', p_event_id
+        );
+    ELSE
+        SELECT points INTO v_new_balance FROM public.profiles WHERE id = v_user_id;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'isCorrect', v_is_correct,
+        'correctCount', v_correct,
+        'totalQuestions', v_total,
+        'pointsEarned', v_points_earned,
+        'scoringMode', v_event.scoring_mode,
+        'passThreshold', v_event.pass_threshold,
+        'newBalance', v_new_balance,
+        'results', v_grade->'results'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_quiz(UUID, JSONB) TO authenticated;
+
+-- =====================================================
+-- 4. 내 퀴즈 결과 다시 보기
+-- 참여한 사람만 (정답/해설 포함), 참여 기록이 없으면 NULL
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_quiz_result(p_event_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_participation RECORD;
+    v_grade JSON;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    SELECT ep.answers, ep.correct_count, ep.is_correct, ep.points_earned, e.scoring_mode, e.pass_threshold
+    INTO v_participation
+    FROM public.event_participations ep
+    JOIN public.events e ON e.id = ep.event_id
+    WHERE ep.event_id = p_event_id AND ep.user_id = auth.uid() AND e.type = 'quiz';
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    v_grade := public.grade_quiz(p_event_id, COALESCE(v_participation.answers, '{}'::JSONB));
+
+    RETURN json_build_object(
+        'isCorrect', COALESCE(v_participation.is_correct, FALSE),
+        'correctCount', COALESCE(v_participation.correct_count, (v_grade->>'correct')::INTEGER),
+        'totalQuestions', (v_grade->>'total')::INTEGER,
+        'pointsEarned', COALESCE(v_participation.points_earned, 0),
+        'scoringMode', v_participation.scoring_mode,
+        'passThreshold', v_participation.pass_threshold,
+        'results', v_grade->'results'
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_quiz_result(UUID) TO authenticated;
+
+-- =====================================================
+-- 5. 참여 기록은 서버 함수로만 작성
+-- 클라이언트가 빈 답안으로 참여 행을 직접 넣으면 get_quiz_result 로 정답/해설을 볼 수 있으므로
+-- 직접 INSERT 정책을 제거 (submit_quiz / participate_first_come 이 유일한 작성 경로)
+-- =====================================================
+DROP POLICY IF EXISTS "Users can insert own participation" ON public.event_participations;
+DROP POLICY IF EXISTS "Users can participate" ON public.event_participations;
+REVOKE INSERT ON public.event_participations FROM anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
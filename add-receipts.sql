@@ -0,0 +1,116 @@
+-- =====================================================
+-- 구매 영수증
+-- Supabase SQL Editor에서 실행하세요
+-- add-platform-fee.sql 이후에 실행
+--
+-- 주문 단위 영수증 (주문 이전의 구매는 구매 1건 = 영수증 1장)
+-- 환불된 항목은 purchases 에서 삭제되므로 refundedAmount 로 따로 표시
+-- =====================================================
+
+-- =====================================================
+-- 1. 영수증 조회
+-- p_order_id: purchase_orders.id (주문 이전 구매는 purchases.id)
+-- 결제한 사람: 주문 전체 / 선물 받은 사람: 본인 항목만 (결제 금액 0)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_order_receipt(p_order_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_order RECORD;
+    v_is_payer BOOLEAN;
+    v_created_at TIMESTAMPTZ;
+    v_items JSON;
+    v_items_paid INTEGER;
+    v_points_used INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    SELECT o.*, c.code AS coupon_code, b.title AS bundle_title
+    INTO v_order
+    FROM public.purchase_orders o
+    LEFT JOIN public.coupons c ON c.id = o.coupon_id
+    LEFT JOIN public.bundles b ON b.id = o.bundle_id
+    WHERE o.id = p_order_id;
+
+    IF FOUND THEN
+        v_is_payer := v_order.buyer_id = v_user_id;
+        v_created_at := v_order.created_at;
+
+        IF NOT v_is_payer AND NOT EXISTS (
+            SELECT 1 FROM public.purchases
+            WHERE order_id = p_order_id AND buyer_id = v_user_id
+        ) THEN
+            RAISE EXCEPTION '영수증을 찾을 수 없습니다.';
+        END IF;
+    ELSE
+        -- 주문 이전의 단건 구매
+        SELECT created_at INTO v_created_at
+        FROM public.purchases
+        WHERE id = p_order_id AND buyer_id = v_user_id AND order_id IS NULL;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION '영수증을 찾을 수 없습니다.';
+        END IF;
+
+        v_is_payer := TRUE;
+    END IF;
+
+    SELECT
+        COALESCE(json_agg(json_build_object(
+            'purchaseId', p.id,
+            'worksheetId', p.worksheet_id,
+            'title', COALESCE(w.title, '삭제된 자료'),
+            'sellerNickname', COALESCE(s.nickname, '알 수 없음'),
+            'listPrice', p.price + p.discount,
+            'discount', p.discount,
+            'paid', CASE WHEN p.gift_from IS NOT NULL AND p.buyer_id = v_user_id THEN 0 ELSE p.price END,
+            'recipientNickname', CASE WHEN p.buyer_id <> v_user_id THEN r.nickname END,
+            'giftFromNickname', CASE WHEN p.buyer_id = v_user_id THEN g.nickname END
+        ) ORDER BY w.title), '[]'::JSON),
+        COALESCE(SUM(CASE WHEN p.gift_from IS NOT NULL AND p.buyer_id = v_user_id THEN 0 ELSE p.price END), 0)
+    INTO v_items, v_items_paid
+    FROM public.purchases p
+    LEFT JOIN public.worksheets w ON w.id = p.worksheet_id
+    LEFT JOIN public.profiles s ON s.id = w.seller_id
+    LEFT JOIN public.profiles r ON r.id = p.buyer_id
+    LEFT JOIN public.profiles g ON g.id = p.gift_from
+    WHERE (p.order_id = p_order_id OR (p.id = p_order_id AND p.order_id IS NULL))
+      AND (v_is_payer OR p.buyer_id = v_user_id);
+
+    v_points_used := CASE
+        WHEN v_order.id IS NULL THEN v_items_paid
+        WHEN v_is_payer THEN v_order.total_spent
+        ELSE 0
+    END;
+
+    RETURN json_build_object(
+        'orderId', p_order_id,
+        'orderNumber', 'ORD-' || to_char(v_created_at AT TIME ZONE 'Asia/Seoul', 'YYYYMMDD')
+            || '-' || upper(left(replace(p_order_id::TEXT, '-', ''), 8)),
+        'createdAt', v_created_at,
+        'buyerNickname', (SELECT nickname FROM public.profiles WHERE id = v_user_id),
+        'isPayer', v_is_payer,
+        'bundleTitle', v_order.bundle_title,
+        'couponCode', CASE WHEN v_is_payer THEN v_order.coupon_code END,
+        'subtotal', CASE WHEN v_is_payer AND v_order.id IS NOT NULL THEN v_order.subtotal ELSE v_items_paid END,
+        'discount', CASE WHEN v_is_payer AND v_order.id IS NOT NULL THEN v_order.discount ELSE 0 END,
+        'pointsUsed', v_points_used,
+        'refundedAmount', GREATEST(v_points_used - v_items_paid, 0),
+        'balanceAfter', CASE WHEN v_is_payer THEN (v_order.response->>'newBalance')::INTEGER END,
+        'items', v_items
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_order_receipt(UUID) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,364 @@
+-- =====================================================
+-- 환불 요청 / 분쟁 처리
+-- Supabase SQL Editor에서 실행하세요
+-- add-gifts.sql 이후에 실행 (purchases.gift_from 사용)
+--
+-- 흐름
+--   구매자 요청 (pending)
+--     → 판매자 수락: 즉시 환불 (refunded)
+--     → 판매자 거절 (seller_rejected) → 구매자 이의 제기 (disputed)
+--   관리자는 종결되지 않은 요청을 언제든 중재 (refunded / rejected)
+--   구매자는 종결 전까지 요청 취소 가능 (cancelled)
+-- =====================================================
+
+-- =====================================================
+-- 1. 환불 요청 테이블
+-- 환불되면 purchases 행은 삭제되므로 (다운로드 권한 회수) 필요한 정보는 스냅샷으로 보관
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.refund_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    purchase_id UUID REFERENCES public.purchases(id) ON DELETE SET NULL,
+    buyer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    seller_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    worksheet_id UUID REFERENCES public.worksheets(id) ON DELETE SET NULL,
+    worksheet_title TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    reason_type TEXT NOT NULL CHECK (reason_type IN ('broken_file', 'misdescribed', 'duplicate', 'other')),
+    reason TEXT NOT NULL CHECK (length(reason) BETWEEN 10 AND 1000),
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'seller_rejected', 'disputed', 'refunded', 'rejected', 'cancelled')),
+    seller_response TEXT,
+    seller_responded_at TIMESTAMPTZ,
+    admin_note TEXT,
+    refunded_amount INTEGER,
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 구매 1건당 취소되지 않은 요청은 하나만
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_purchase
+    ON public.refund_requests(purchase_id) WHERE status <> 'cancelled';
+CREATE INDEX IF NOT EXISTS idx_refund_requests_buyer ON public.refund_requests(buyer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_seller ON public.refund_requests(seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_status ON public.refund_requests(status);
+
+ALTER TABLE public.refund_requests ENABLE ROW LEVEL SECURITY;
+
+-- 생성/상태 변경은 아래 함수(SECURITY DEFINER)에서만
+DROP POLICY IF EXISTS "Parties can view refund requests" ON public.refund_requests;
+CREATE POLICY "Parties can view refund requests" ON public.refund_requests
+    FOR SELECT USING (auth.uid() = buyer_id OR auth.uid() = seller_id OR public.is_admin());
+
+-- =====================================================
+-- 2. 포인트 거래 유형에 환불 추가
+-- purchase_refund: 구매자(결제한 사람) 환불, sale_refund: 판매자 회수
+-- =====================================================
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount', 'gift_sent', 'gift_received',
+  'purchase_refund', 'sale_refund'
+)) NOT VALID;
+
+-- =====================================================
+-- 3. 환불 실행 (내부용 - 직접 호출 불가)
+-- 결제 금액(purchases.price, 할인 반영)을 결제한 사람에게 돌려주고 판매자에게서 회수
+-- 선물은 보낸 사람에게 환불, 후기 보상(30P)을 받았다면 환불액에서 차감
+-- purchases 행 삭제 → 다운로드 권한 회수 (후기는 CASCADE 삭제 후 평점 재계산)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.execute_refund(p_request_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_request RECORD;
+    v_purchase RECORD;
+    v_payer_id UUID;
+    v_amount INTEGER;
+    v_balance INTEGER;
+BEGIN
+    SELECT * INTO v_request FROM public.refund_requests WHERE id = p_request_id FOR UPDATE;
+
+    -- 종결되지 않은 요청만 (판매자 수락 / 관리자 중재에서 호출)
+    IF NOT FOUND OR v_request.status NOT IN ('pending', 'seller_rejected', 'disputed') THEN
+        RAISE EXCEPTION '환불할 수 없는 요청입니다.';
+    END IF;
+
+    SELECT * INTO v_purchase FROM public.purchases WHERE id = v_request.purchase_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    v_payer_id := COALESCE(v_purchase.gift_from, v_purchase.buyer_id);
+    v_amount := GREATEST(v_purchase.price - CASE WHEN v_purchase.has_feedback THEN 30 ELSE 0 END, 0);
+
+    -- 결제한 사람 환불
+    UPDATE public.profiles SET points = points + v_amount
+    WHERE id = v_payer_id
+    RETURNING points INTO v_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (v_payer_id, 'purchase_refund', v_amount, v_balance, v_request.worksheet_title || ' 환불', p_request_id);
+
+    -- 판매자 회수 (잔액이 부족하면 음수가 될 수 있음)
+    UPDATE public.profiles SET points = points - v_amount
+    WHERE id = v_request.seller_id
+    RETURNING points INTO v_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (v_request.seller_id, 'sale_refund', -v_amount, v_balance, v_request.worksheet_title || ' 환불 회수', p_request_id);
+
+    DELETE FROM public.purchases WHERE id = v_purchase.id;
+
+    UPDATE public.worksheets w
+    SET sales_count = GREATEST(w.sales_count - 1, 0),
+        average_rating = COALESCE(r.avg_rating, 0),
+        review_count = COALESCE(r.cnt, 0)
+    FROM (
+        SELECT ROUND(AVG(rating)::numeric, 1) AS avg_rating, COUNT(*)::INTEGER AS cnt
+        FROM public.feedbacks WHERE worksheet_id = v_purchase.worksheet_id
+    ) r
+    WHERE w.id = v_purchase.worksheet_id;
+
+    UPDATE public.refund_requests
+    SET status = 'refunded', refunded_amount = v_amount, updated_at = NOW()
+    WHERE id = p_request_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES
+        (v_payer_id, 'refund', '환불 완료',
+         '「' || v_request.worksheet_title || '」 환불이 완료되었습니다. (' || v_amount || 'P)', v_request.worksheet_id),
+        (v_request.seller_id, 'refund', '환불 처리',
+         '「' || v_request.worksheet_title || '」 판매가 환불 처리되었습니다. (-' || v_amount || 'P)', v_request.worksheet_id);
+
+    -- 선물받은 자료는 포인트가 보낸 사람에게 돌아가므로 받은 사람에게는 따로 알림
+    IF v_payer_id <> v_request.buyer_id THEN
+        INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+        VALUES (v_request.buyer_id, 'refund', '환불 완료',
+                '「' || v_request.worksheet_title || '」 환불이 완료되어 선물한 분께 포인트가 반환되었습니다.', v_request.worksheet_id);
+    END IF;
+
+    RETURN v_amount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.execute_refund(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 4. 구매자: 환불 요청
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.request_refund(
+    p_purchase_id UUID,
+    p_reason_type TEXT,
+    p_reason TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    v_purchase RECORD;
+    v_request_id UUID;
+BEGIN
+    SELECT p.id, p.buyer_id, p.price, w.id AS worksheet_id, w.title, w.seller_id
+    INTO v_purchase
+    FROM public.purchases p
+    JOIN public.worksheets w ON w.id = p.worksheet_id
+    WHERE p.id = p_purchase_id;
+
+    IF NOT FOUND OR v_purchase.buyer_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '구매 내역을 찾을 수 없습니다.';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.refund_requests
+        WHERE purchase_id = p_purchase_id AND status <> 'cancelled'
+    ) THEN
+        RAISE EXCEPTION '이미 환불을 요청한 구매입니다.';
+    END IF;
+
+    INSERT INTO public.refund_requests (
+        purchase_id, buyer_id, seller_id, worksheet_id, worksheet_title, amount, reason_type, reason
+    )
+    VALUES (
+        p_purchase_id, auth.uid(), v_purchase.seller_id, v_purchase.worksheet_id, v_purchase.title,
+        v_purchase.price, p_reason_type, trim(p_reason)
+    )
+    RETURNING id INTO v_request_id;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES (
+        v_purchase.seller_id,
+        'refund',
+        '환불 요청',
+        '「' || v_purchase.title || '」에 환불 요청이 접수되었습니다. 판매 현황에서 응답해주세요.',
+        v_purchase.worksheet_id
+    );
+
+    RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.request_refund(UUID, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. 판매자: 수락(즉시 환불) / 거절
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.respond_refund(
+    p_request_id UUID,
+    p_accept BOOLEAN,
+    p_response TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_request RECORD;
+    v_amount INTEGER;
+BEGIN
+    SELECT * INTO v_request FROM public.refund_requests WHERE id = p_request_id FOR UPDATE;
+
+    IF NOT FOUND OR v_request.seller_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '환불 요청을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION '이미 처리된 환불 요청입니다.';
+    END IF;
+
+    IF NOT p_accept AND length(trim(COALESCE(p_response, ''))) = 0 THEN
+        RAISE EXCEPTION '거절 사유를 입력해주세요.';
+    END IF;
+
+    UPDATE public.refund_requests
+    SET seller_response = NULLIF(trim(COALESCE(p_response, '')), ''),
+        seller_responded_at = NOW(),
+        status = CASE WHEN p_accept THEN status ELSE 'seller_rejected' END,
+        updated_at = NOW()
+    WHERE id = p_request_id;
+
+    IF p_accept THEN
+        v_amount := public.execute_refund(p_request_id);
+        UPDATE public.refund_requests
+        SET resolved_by = auth.uid(), resolved_at = NOW()
+        WHERE id = p_request_id;
+
+        RETURN json_build_object('status', 'refunded', 'refundedAmount', v_amount);
+    END IF;
+
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    VALUES (
+        v_request.buyer_id,
+        'refund',
+        '환불 요청 거절',
+        '판매자가 「' || v_request.worksheet_title || '」 환불 요청을 거절했습니다. 구매 내역에서 이의를 제기할 수 있습니다.',
+        v_request.worksheet_id
+    );
+
+    RETURN json_build_object('status', 'seller_rejected', 'refundedAmount', 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.respond_refund(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- =====================================================
+-- 6. 구매자: 이의 제기 / 요청 취소
+-- p_action: 'escalate' (seller_rejected → disputed) / 'cancel'
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.update_refund_request(
+    p_request_id UUID,
+    p_action TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_request RECORD;
+BEGIN
+    SELECT * INTO v_request FROM public.refund_requests WHERE id = p_request_id FOR UPDATE;
+
+    IF NOT FOUND OR v_request.buyer_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION '환불 요청을 찾을 수 없습니다.';
+    END IF;
+
+    IF p_action = 'escalate' THEN
+        IF v_request.status <> 'seller_rejected' THEN
+            RAISE EXCEPTION '판매자가 거절한 요청만 이의를 제기할 수 있습니다.';
+        END IF;
+
+        UPDATE public.refund_requests SET status = 'disputed', updated_at = NOW() WHERE id = p_request_id;
+    ELSIF p_action = 'cancel' THEN
+        IF v_request.status NOT IN ('pending', 'seller_rejected', 'disputed') THEN
+            RAISE EXCEPTION '이미 처리된 환불 요청입니다.';
+        END IF;
+
+        UPDATE public.refund_requests SET status = 'cancelled', updated_at = NOW() WHERE id = p_request_id;
+    ELSE
+        RAISE EXCEPTION '알 수 없는 요청입니다.';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.update_refund_request(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- 7. 관리자: 중재
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.resolve_refund(
+    p_request_id UUID,
+    p_approve BOOLEAN,
+    p_note TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+    v_request RECORD;
+    v_amount INTEGER := 0;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '권한이 없습니다.';
+    END IF;
+
+    SELECT * INTO v_request FROM public.refund_requests WHERE id = p_request_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '환불 요청을 찾을 수 없습니다.';
+    END IF;
+
+    IF v_request.status NOT IN ('pending', 'seller_rejected', 'disputed') THEN
+        RAISE EXCEPTION '이미 처리된 환불 요청입니다.';
+    END IF;
+
+    UPDATE public.refund_requests
+    SET admin_note = NULLIF(trim(COALESCE(p_note, '')), ''),
+        resolved_by = auth.uid(),
+        resolved_at = NOW(),
+        status = CASE WHEN p_approve THEN status ELSE 'rejected' END,
+        updated_at = NOW()
+    WHERE id = p_request_id;
+
+    IF p_approve THEN
+        v_amount := public.execute_refund(p_request_id);
+    ELSE
+        INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+        VALUES (
+            v_request.buyer_id,
+            'refund',
+            '환불 요청 기각',
+            '관리자 검토 결과 「' || v_request.worksheet_title || '」 환불 요청이 기각되었습니다.',
+            v_request.worksheet_id
+        );
+    END IF;
+
+    RETURN json_build_object(
+        'status', CASE WHEN p_approve THEN 'refunded' ELSE 'rejected' END,
+        'refundedAmount', v_amount
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.resolve_refund(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,223 @@
+-- =====================================================
+-- 판매자 분석 (조회 → 장바구니 → 구매 전환)
+-- Supabase SQL Editor에서 실행하세요
+-- add-seller-earnings.sql 이후에 실행
+--
+-- 조회: 상세 페이지 진입 시 track_worksheet_view 호출 (같은 방문자 30분 내 중복 제외)
+-- 장바구니: cart_items INSERT 트리거로 자동 기록
+-- 구매: purchases 기준 (환불된 구매 제외)
+-- 날짜는 한국 시간(Asia/Seoul) 기준
+-- =====================================================
+
+-- =====================================================
+-- 1. 이벤트 테이블
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.worksheet_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    worksheet_id UUID NOT NULL REFERENCES public.worksheets(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('view', 'cart_add')),
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    -- 로그인 사용자는 user_id, 비로그인 방문자는 브라우저 세션 ID
+    viewer_key TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_worksheet_events_worksheet_created
+    ON public.worksheet_events(worksheet_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_worksheet_events_dedupe
+    ON public.worksheet_events(worksheet_id, viewer_key, created_at DESC)
+    WHERE event_type = 'view';
+CREATE INDEX IF NOT EXISTS idx_feedbacks_worksheet_created
+    ON public.feedbacks(worksheet_id, created_at);
+
+-- 직접 조회/작성 불가 (RPC로만 접근)
+ALTER TABLE public.worksheet_events ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 2. 조회 기록
+-- 판매자 본인의 조회는 기록하지 않음
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.track_worksheet_view(
+    p_worksheet_id UUID,
+    p_session_id TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_viewer_key TEXT;
+    v_seller_id UUID;
+BEGIN
+    v_viewer_key := COALESCE(v_user_id::TEXT, 'anon:' || LEFT(NULLIF(TRIM(p_session_id), ''), 64));
+
+    IF v_viewer_key IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT seller_id INTO v_seller_id FROM public.worksheets WHERE id = p_worksheet_id;
+
+    IF NOT FOUND OR v_seller_id = v_user_id THEN
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.worksheet_events
+        WHERE worksheet_id = p_worksheet_id
+          AND viewer_key = v_viewer_key
+          AND event_type = 'view'
+          AND created_at > NOW() - INTERVAL '30 minutes'
+    ) THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.worksheet_events (worksheet_id, event_type, user_id, viewer_key)
+    VALUES (p_worksheet_id, 'view', v_user_id, v_viewer_key);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.track_worksheet_view(UUID, TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- 3. 장바구니 담기 기록 (트리거)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.track_cart_add()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.worksheet_events (worksheet_id, event_type, user_id, viewer_key)
+    VALUES (NEW.worksheet_id, 'cart_add', NEW.user_id, NEW.user_id::TEXT);
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.track_cart_add() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS on_cart_item_added ON public.cart_items;
+CREATE TRIGGER on_cart_item_added
+    AFTER INSERT ON public.cart_items
+    FOR EACH ROW EXECUTE FUNCTION public.track_cart_add();
+
+-- =====================================================
+-- 4. 판매자 분석 조회
+-- 자료별 전환 퍼널 + 일별 추이 (조회/장바구니/구매/후기, 누적 평점)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_seller_analytics(
+    p_from DATE,
+    p_to DATE
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_seller_id UUID := auth.uid();
+    v_start TIMESTAMPTZ;
+    v_end TIMESTAMPTZ;
+    v_result JSON;
+BEGIN
+    IF v_seller_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+        RAISE EXCEPTION '조회 기간을 확인해주세요.';
+    END IF;
+
+    IF p_to - p_from > 366 THEN
+        RAISE EXCEPTION '조회 기간은 최대 1년입니다.';
+    END IF;
+
+    v_start := p_from::TIMESTAMP AT TIME ZONE 'Asia/Seoul';
+    v_end := (p_to + 1)::TIMESTAMP AT TIME ZONE 'Asia/Seoul';
+
+    WITH my_worksheets AS (
+        SELECT id, title FROM public.worksheets WHERE seller_id = v_seller_id
+    ),
+    events AS (
+        SELECT e.worksheet_id, e.event_type, (e.created_at AT TIME ZONE 'Asia/Seoul')::DATE AS day
+        FROM public.worksheet_events e
+        JOIN my_worksheets w ON w.id = e.worksheet_id
+        WHERE e.created_at >= v_start AND e.created_at < v_end
+    ),
+    sales AS (
+        SELECT p.worksheet_id, (p.created_at AT TIME ZONE 'Asia/Seoul')::DATE AS day
+        FROM public.purchases p
+        JOIN my_worksheets w ON w.id = p.worksheet_id
+        WHERE p.created_at >= v_start AND p.created_at < v_end
+    ),
+    -- 누적 평점 계산을 위해 기간 이전 후기도 포함
+    reviews AS (
+        SELECT f.rating, (f.created_at AT TIME ZONE 'Asia/Seoul')::DATE AS day
+        FROM public.feedbacks f
+        JOIN my_worksheets w ON w.id = f.worksheet_id
+        WHERE f.created_at < v_end
+    ),
+    by_worksheet AS (
+        SELECT
+            w.id,
+            w.title,
+            (SELECT COUNT(*) FROM events e WHERE e.worksheet_id = w.id AND e.event_type = 'view')::INTEGER AS views,
+            (SELECT COUNT(*) FROM events e WHERE e.worksheet_id = w.id AND e.event_type = 'cart_add')::INTEGER AS cart_adds,
+            (SELECT COUNT(*) FROM sales s WHERE s.worksheet_id = w.id)::INTEGER AS purchases
+        FROM my_worksheets w
+    ),
+    by_day AS (
+        SELECT
+            d::DATE AS day,
+            (SELECT COUNT(*) FROM events e WHERE e.day = d::DATE AND e.event_type = 'view')::INTEGER AS views,
+            (SELECT COUNT(*) FROM events e WHERE e.day = d::DATE AND e.event_type = 'cart_add')::INTEGER AS cart_adds,
+            (SELECT COUNT(*) FROM sales s WHERE s.day = d::DATE)::INTEGER AS purchases,
+            (SELECT COUNT(*) FROM reviews r WHERE r.day = d::DATE)::INTEGER AS new_reviews,
+            (SELECT COUNT(*) FROM reviews r WHERE r.day <= d::DATE)::INTEGER AS total_reviews,
+            (SELECT ROUND(AVG(r.rating)::NUMERIC, 2) FROM reviews r WHERE r.day <= d::DATE) AS average_rating
+        FROM generate_series(p_from, p_to, INTERVAL '1 day') d
+    )
+    SELECT json_build_object(
+        'from', p_from,
+        'to', p_to,
+        'totals', json_build_object(
+            'views', (SELECT COUNT(*) FROM events WHERE event_type = 'view'),
+            'cartAdds', (SELECT COUNT(*) FROM events WHERE event_type = 'cart_add'),
+            'purchases', (SELECT COUNT(*) FROM sales)
+        ),
+        'worksheets', COALESCE((
+            SELECT json_agg(json_build_object(
+                'worksheetId', id,
+                'title', title,
+                'views', views,
+                'cartAdds', cart_adds,
+                'purchases', purchases
+            ) ORDER BY views DESC, purchases DESC, title)
+            FROM by_worksheet
+        ), '[]'::JSON),
+        'daily', COALESCE((
+            SELECT json_agg(json_build_object(
+                'date', day,
+                'views', views,
+                'cartAdds', cart_adds,
+                'purchases', purchases,
+                'newReviews', new_reviews,
+                'totalReviews', total_reviews,
+                'averageRating', average_rating
+            ) ORDER BY day)
+            FROM by_day
+        ), '[]'::JSON)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_seller_analytics(DATE, DATE) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
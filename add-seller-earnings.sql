@@ -0,0 +1,134 @@
+-- =====================================================
+-- 판매 수익 리포트 (기간별 / 자료별 / 일별)
+-- Supabase SQL Editor에서 실행하세요
+-- add-platform-fee.sql 이후에 실행 (purchases.platform_fee 사용)
+--
+-- 수익은 실제 결제 금액(purchases.price, 할인 반영) 기준
+-- 환불된 판매는 purchases 행이 삭제되므로 자동으로 제외됨
+-- 날짜는 한국 시간(Asia/Seoul) 기준
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_purchases_worksheet_created
+    ON public.purchases(worksheet_id, created_at);
+
+-- =====================================================
+-- 1. 판매 수익 조회
+-- p_from / p_to 가 NULL 이면 전체 기간 (이 경우 일별 데이터는 비어 있음)
+-- 일별 데이터는 판매가 없는 날도 0 으로 채워서 반환
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_seller_earnings(
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_seller_id UUID := auth.uid();
+    v_start TIMESTAMPTZ;
+    v_end TIMESTAMPTZ;
+    v_result JSON;
+BEGIN
+    IF v_seller_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF (p_from IS NULL) <> (p_to IS NULL) THEN
+        RAISE EXCEPTION '조회 기간을 확인해주세요.';
+    END IF;
+
+    IF p_from IS NOT NULL THEN
+        IF p_to < p_from THEN
+            RAISE EXCEPTION '종료일이 시작일보다 빠를 수 없습니다.';
+        END IF;
+
+        IF p_to - p_from > 366 THEN
+            RAISE EXCEPTION '조회 기간은 최대 1년입니다.';
+        END IF;
+
+        v_start := p_from::TIMESTAMP AT TIME ZONE 'Asia/Seoul';
+        v_end := (p_to + 1)::TIMESTAMP AT TIME ZONE 'Asia/Seoul';
+    END IF;
+
+    WITH sales AS (
+        SELECT
+            p.worksheet_id,
+            p.price,
+            p.platform_fee,
+            (p.created_at AT TIME ZONE 'Asia/Seoul')::DATE AS day
+        FROM public.purchases p
+        JOIN public.worksheets w ON w.id = p.worksheet_id
+        WHERE w.seller_id = v_seller_id
+          AND (v_start IS NULL OR (p.created_at >= v_start AND p.created_at < v_end))
+    ),
+    by_worksheet AS (
+        SELECT
+            w.id,
+            w.title,
+            w.price,
+            COUNT(s.worksheet_id)::INTEGER AS sales_count,
+            COALESCE(SUM(s.price), 0)::INTEGER AS gross,
+            COALESCE(SUM(s.platform_fee), 0)::INTEGER AS fees
+        FROM public.worksheets w
+        LEFT JOIN sales s ON s.worksheet_id = w.id
+        WHERE w.seller_id = v_seller_id
+        GROUP BY w.id, w.title, w.price
+    ),
+    by_day AS (
+        SELECT
+            d::DATE AS day,
+            COUNT(s.worksheet_id)::INTEGER AS sales_count,
+            COALESCE(SUM(s.price), 0)::INTEGER AS gross,
+            COALESCE(SUM(s.platform_fee), 0)::INTEGER AS fees
+        FROM generate_series(p_from, p_to, INTERVAL '1 day') d
+        LEFT JOIN sales s ON s.day = d::DATE
+        GROUP BY d
+    )
+    SELECT json_build_object(
+        'from', p_from,
+        'to', p_to,
+        'totals', (
+            SELECT json_build_object(
+                'salesCount', COUNT(*),
+                'grossEarnings', COALESCE(SUM(price), 0),
+                'platformFees', COALESCE(SUM(platform_fee), 0),
+                'netEarnings', COALESCE(SUM(price - platform_fee), 0)
+            )
+            FROM sales
+        ),
+        'worksheets', COALESCE((
+            SELECT json_agg(json_build_object(
+                'worksheetId', id,
+                'title', title,
+                'price', price,
+                'salesCount', sales_count,
+                'grossEarnings', gross,
+                'platformFees', fees,
+                'netEarnings', gross - fees
+            ) ORDER BY gross DESC, title)
+            FROM by_worksheet
+        ), '[]'::JSON),
+        'daily', COALESCE((
+            SELECT json_agg(json_build_object(
+                'date', day,
+                'salesCount', sales_count,
+                'grossEarnings', gross,
+                'platformFees', fees,
+                'netEarnings', gross - fees
+            ) ORDER BY day)
+            FROM by_day
+        ), '[]'::JSON)
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_seller_earnings(DATE, DATE) TO authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,166 @@
+-- =====================================================
+-- 판매자 팔로우 + 새 자료 알림
+-- Supabase SQL Editor에서 실행하세요
+-- add-seller-storefront.sql 이후에 실행 (get_seller_profile 재정의)
+-- =====================================================
+
+-- =====================================================
+-- 1. 팔로우 테이블
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.seller_follows (
+    follower_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    seller_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (follower_id, seller_id),
+    CHECK (follower_id <> seller_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seller_follows_seller ON public.seller_follows(seller_id);
+
+ALTER TABLE public.seller_follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own follows" ON public.seller_follows;
+DROP POLICY IF EXISTS "Users can follow sellers" ON public.seller_follows;
+DROP POLICY IF EXISTS "Users can unfollow sellers" ON public.seller_follows;
+
+-- 팔로우 목록은 본인만 조회 (팔로워 수는 get_seller_profile 로 공개)
+CREATE POLICY "Users can view own follows" ON public.seller_follows
+    FOR SELECT USING (auth.uid() = follower_id);
+
+CREATE POLICY "Users can follow sellers" ON public.seller_follows
+    FOR INSERT WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow sellers" ON public.seller_follows
+    FOR DELETE USING (auth.uid() = follower_id);
+
+-- =====================================================
+-- 2. 알림에 판매자 컬럼 추가 (알림에서 바로 언팔로우)
+-- =====================================================
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS seller_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+-- =====================================================
+-- 3. 새 자료 알림 트리거
+-- 워크시트가 승인 상태로 등록되거나, 승인으로 변경될 때 팔로워에게 알림
+-- =====================================================
+-- 자료 알림 발송 기록 (사용자 / 자료 / 알림 유형당 한 번만 보냄)
+-- 승인 상태를 껐다 켜거나 가격을 반복해서 내려도 같은 알림이 쌓이지 않도록 함
+-- 트리거(SECURITY DEFINER)만 기록하므로 클라이언트 정책 없음
+CREATE TABLE IF NOT EXISTS public.worksheet_alerts_sent (
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    worksheet_id UUID NOT NULL REFERENCES public.worksheets(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, worksheet_id, type)
+);
+
+ALTER TABLE public.worksheet_alerts_sent ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.notify_followers_new_worksheet()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_nickname TEXT;
+BEGIN
+    IF NEW.status <> 'approved' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.status = 'approved' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT nickname INTO v_nickname FROM public.profiles WHERE id = NEW.seller_id;
+
+    -- 이미 이 자료 알림을 받은 팔로워는 건너뜀
+    WITH sent AS (
+        INSERT INTO public.worksheet_alerts_sent (user_id, worksheet_id, type)
+        SELECT f.follower_id, NEW.id, 'new_worksheet'
+        FROM public.seller_follows f
+        WHERE f.seller_id = NEW.seller_id
+        ON CONFLICT DO NOTHING
+        RETURNING user_id
+    )
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id, seller_id)
+    SELECT
+        s.user_id,
+        'new_worksheet',
+        '팔로우한 판매자의 새 자료',
+        v_nickname || '님이 「' || NEW.title || '」 자료를 등록했습니다.',
+        NEW.id,
+        NEW.seller_id
+    FROM sent s;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_worksheet_published ON public.worksheets;
+CREATE TRIGGER on_worksheet_published
+    AFTER INSERT OR UPDATE OF status ON public.worksheets
+    FOR EACH ROW EXECUTE FUNCTION public.notify_followers_new_worksheet();
+
+-- =====================================================
+-- 4. 판매자 프로필에 팔로워 수 추가
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_seller_profile(p_seller_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_profile RECORD;
+    v_worksheet_count INTEGER;
+    v_total_sales INTEGER;
+    v_average_rating NUMERIC;
+    v_review_count INTEGER;
+    v_follower_count INTEGER;
+BEGIN
+    SELECT id, nickname, avatar_url, role, created_at
+    INTO v_profile
+    FROM public.profiles
+    WHERE id = p_seller_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', '판매자를 찾을 수 없습니다.');
+    END IF;
+
+    SELECT COUNT(*), COALESCE(SUM(sales_count), 0)
+    INTO v_worksheet_count, v_total_sales
+    FROM public.worksheets
+    WHERE seller_id = p_seller_id AND status = 'approved';
+
+    SELECT ROUND(AVG(f.rating)::NUMERIC, 1), COUNT(*)
+    INTO v_average_rating, v_review_count
+    FROM public.feedbacks f
+    JOIN public.worksheets w ON f.worksheet_id = w.id
+    WHERE w.seller_id = p_seller_id AND w.status = 'approved';
+
+    SELECT COUNT(*) INTO v_follower_count
+    FROM public.seller_follows
+    WHERE seller_id = p_seller_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'id', v_profile.id,
+        'nickname', v_profile.nickname,
+        'avatarUrl', v_profile.avatar_url,
+        'role', v_profile.role,
+        'joinedAt', v_profile.created_at,
+        'worksheetCount', v_worksheet_count,
+        'totalSales', v_total_sales,
+        'averageRating', COALESCE(v_average_rating, 0),
+        'reviewCount', v_review_count,
+        'followerCount', v_follower_count,
+        'isFollowing', EXISTS (
+            SELECT 1 FROM public.seller_follows
+            WHERE seller_id = p_seller_id AND follower_id = auth.uid()
+        )
+    );
+END;
+$$;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
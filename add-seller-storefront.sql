@@ -0,0 +1,61 @@
+-- =====================================================
+-- 판매자 스토어 페이지 (판매자 통계)
+-- Supabase SQL Editor에서 실행하세요
+-- =====================================================
+
+-- 판매자 프로필 + 승인된 워크시트 기준 집계
+-- (평균 평점은 feedbacks 전체에서 계산 — 워크시트별 평균의 평균이 아님)
+CREATE OR REPLACE FUNCTION public.get_seller_profile(p_seller_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_profile RECORD;
+    v_worksheet_count INTEGER;
+    v_total_sales INTEGER;
+    v_average_rating NUMERIC;
+    v_review_count INTEGER;
+BEGIN
+    SELECT id, nickname, avatar_url, role, created_at
+    INTO v_profile
+    FROM public.profiles
+    WHERE id = p_seller_id;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error', '판매자를 찾을 수 없습니다.');
+    END IF;
+
+    SELECT COUNT(*), COALESCE(SUM(sales_count), 0)
+    INTO v_worksheet_count, v_total_sales
+    FROM public.worksheets
+    WHERE seller_id = p_seller_id AND status = 'approved';
+
+    SELECT ROUND(AVG(f.rating)::NUMERIC, 1), COUNT(*)
+    INTO v_average_rating, v_review_count
+    FROM public.feedbacks f
+    JOIN public.worksheets w ON f.worksheet_id = w.id
+    WHERE w.seller_id = p_seller_id AND w.status = 'approved';
+
+    RETURN json_build_object(
+        'success', true,
+        'id', v_profile.id,
+        'nickname', v_profile.nickname,
+        'avatarUrl', v_profile.avatar_url,
+        'role', v_profile.role,
+        'joinedAt', v_profile.created_at,
+        'worksheetCount', v_worksheet_count,
+        'totalSales', v_total_sales,
+        'averageRating', COALESCE(v_average_rating, 0),
+        'reviewCount', v_review_count
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_seller_profile(UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,96 @@
+-- =====================================================
+-- 찜하기 (위시리스트) + 가격 인하 알림
+-- Supabase SQL Editor에서 실행하세요
+-- 장바구니(cart_items)와 별개로 "나중에 구매" 목록을 저장
+-- =====================================================
+
+-- =====================================================
+-- 1. 위시리스트 테이블
+-- price_at_add: 찜할 당시 가격 (가격 인하 표시용)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.wishlist_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    worksheet_id UUID NOT NULL REFERENCES public.worksheets(id) ON DELETE CASCADE,
+    price_at_add INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(user_id, worksheet_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_user ON public.wishlist_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_wishlist_worksheet ON public.wishlist_items(worksheet_id);
+
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own wishlist" ON public.wishlist_items;
+DROP POLICY IF EXISTS "Users can add to own wishlist" ON public.wishlist_items;
+DROP POLICY IF EXISTS "Users can remove from own wishlist" ON public.wishlist_items;
+
+CREATE POLICY "Users can view own wishlist" ON public.wishlist_items
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to own wishlist" ON public.wishlist_items
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove from own wishlist" ON public.wishlist_items
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- =====================================================
+-- 2. 가격 인하 알림 트리거
+-- api.worksheets.update 로 가격이 내려가면 찜한 사용자에게 알림
+-- (판매자는 RLS 때문에 다른 사용자의 위시리스트를 볼 수 없으므로 SECURITY DEFINER)
+-- 찜한 사용자마다 자료당 한 번만 알림 (가격을 올렸다 내리기를 반복해도 쌓이지 않음)
+-- =====================================================
+-- 자료 알림 발송 기록 (사용자 / 자료 / 알림 유형당 한 번만 보냄)
+-- add-seller-follows.sql 과 같은 테이블 (어느 파일을 먼저 실행해도 되도록 둘 다 생성)
+CREATE TABLE IF NOT EXISTS public.worksheet_alerts_sent (
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    worksheet_id UUID NOT NULL REFERENCES public.worksheets(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, worksheet_id, type)
+);
+
+ALTER TABLE public.worksheet_alerts_sent ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.notify_wishlist_price_drop()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.price >= OLD.price OR NEW.status <> 'approved' THEN
+        RETURN NEW;
+    END IF;
+
+    WITH sent AS (
+        INSERT INTO public.worksheet_alerts_sent (user_id, worksheet_id, type)
+        SELECT wi.user_id, NEW.id, 'price_drop'
+        FROM public.wishlist_items wi
+        WHERE wi.worksheet_id = NEW.id
+          -- 이미 구매한 사용자는 제외
+          AND NOT EXISTS (
+              SELECT 1 FROM public.purchases p
+              WHERE p.buyer_id = wi.user_id AND p.worksheet_id = NEW.id
+          )
+        ON CONFLICT DO NOTHING
+        RETURNING user_id
+    )
+    INSERT INTO public.notifications (user_id, type, title, message, worksheet_id)
+    SELECT
+        s.user_id,
+        'price_drop',
+        '찜한 자료 가격 인하',
+        '「' || NEW.title || '」 가격이 ' || OLD.price || 'P → ' || NEW.price || 'P로 내려갔습니다.',
+        NEW.id
+    FROM sent s;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_worksheet_price_drop ON public.worksheets;
+CREATE TRIGGER on_worksheet_price_drop
+    AFTER UPDATE OF price ON public.worksheets
+    FOR EACH ROW EXECUTE FUNCTION public.notify_wishlist_price_drop();
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,487 @@
+-- =====================================================
+-- 판매 수익 출금 신청
+-- Supabase SQL Editor에서 실행하세요
+-- add-point-charge.sql 이후에 실행 (point_transactions 유형 목록)
+--
+-- 사전 준비: 계좌번호 암호화 키를 Vault 에 등록
+--   SELECT vault.create_secret('<충분히 긴 랜덤 문자열>', 'payout_account_key');
+--
+-- 흐름
+--   판매자 신청 (pending): 신청 금액을 즉시 보유 포인트에서 차감해 묶어둠 (withdrawal_hold)
+--     → 관리자 승인 (approved) → 송금 후 지급 완료 (paid)
+--     → 관리자 반려 (rejected): 묶어둔 포인트 반환 (withdrawal_release)
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- =====================================================
+-- 1. 암호화 키 (내부용 - 직접 호출 불가)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.payout_encryption_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'payout_account_key';
+
+    IF v_key IS NULL THEN
+        RAISE EXCEPTION '계좌 암호화 키가 설정되지 않았습니다. 관리자에게 문의해주세요.';
+    END IF;
+
+    RETURN v_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.payout_encryption_key() FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 2. 정산 계좌
+-- 계좌번호는 암호화해서 저장, 화면에는 끝 4자리만 노출
+-- 직접 조회 불가 (아래 함수로만 접근)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.payout_accounts (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    bank_name TEXT NOT NULL,
+    account_holder TEXT NOT NULL,
+    account_number_encrypted BYTEA NOT NULL,
+    account_last4 TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.payout_accounts ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 3. 출금 신청
+-- 신청 시점의 계좌를 복사해 두어 이후 계좌를 바꿔도 신청 건은 그대로
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.withdrawal_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    amount INTEGER NOT NULL CHECK (amount > 0),
+    bank_name TEXT NOT NULL,
+    account_holder TEXT NOT NULL,
+    account_number_encrypted BYTEA NOT NULL,
+    account_last4 TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'paid', 'rejected')),
+    admin_note TEXT,
+    reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    paid_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_user ON public.withdrawal_requests(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_status ON public.withdrawal_requests(status);
+
+ALTER TABLE public.withdrawal_requests ENABLE ROW LEVEL SECURITY;
+
+-- 생성/상태 변경은 아래 함수(SECURITY DEFINER)에서만
+-- account_number_encrypted 는 조회돼도 키 없이는 복호화 불가
+DROP POLICY IF EXISTS "Users can view own withdrawal requests" ON public.withdrawal_requests;
+CREATE POLICY "Users can view own withdrawal requests" ON public.withdrawal_requests
+    FOR SELECT USING (auth.uid() = user_id OR public.is_admin());
+
+-- =====================================================
+-- 4. 포인트 거래 유형에 출금 추가
+-- withdrawal_hold: 신청 시 차감, withdrawal_release: 반려 시 반환
+-- =====================================================
+ALTER TABLE public.point_transactions
+DROP CONSTRAINT IF EXISTS point_transactions_type_check;
+
+ALTER TABLE public.point_transactions
+ADD CONSTRAINT point_transactions_type_check
+CHECK (type IN (
+  'signup_bonus', 'purchase', 'sale', 'feedback_refund', 'admin_charge',
+  'attendance', 'attendance_bonus', 'roulette',
+  'quiz', 'first_come', 'first_come_event', 'comment_event', 'event',
+  'review', 'upload', 'admin_grant', 'admin_deduct',
+  'coupon_discount', 'gift_sent', 'gift_received',
+  'purchase_refund', 'sale_refund', 'point_charge',
+  'withdrawal_hold', 'withdrawal_release'
+)) NOT VALID;
+
+-- =====================================================
+-- 5. 정산 계좌 조회 / 등록
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_payout_account()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_account RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    SELECT bank_name, account_holder, account_last4, updated_at INTO v_account
+    FROM public.payout_accounts
+    WHERE user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN json_build_object(
+        'bankName', v_account.bank_name,
+        'accountHolder', v_account.account_holder,
+        'accountLast4', v_account.account_last4,
+        'updatedAt', v_account.updated_at
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_payout_account() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.save_payout_account(
+    p_bank_name TEXT,
+    p_account_holder TEXT,
+    p_account_number TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_number TEXT := regexp_replace(COALESCE(p_account_number, ''), '[^0-9]', '', 'g');
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF length(trim(COALESCE(p_bank_name, ''))) = 0 OR length(trim(COALESCE(p_account_holder, ''))) = 0 THEN
+        RAISE EXCEPTION '은행과 예금주를 입력해주세요.';
+    END IF;
+
+    IF length(v_number) NOT BETWEEN 8 AND 20 THEN
+        RAISE EXCEPTION '계좌번호를 확인해주세요.';
+    END IF;
+
+    INSERT INTO public.payout_accounts (user_id, bank_name, account_holder, account_number_encrypted, account_last4)
+    VALUES (
+        auth.uid(),
+        trim(p_bank_name),
+        trim(p_account_holder),
+        pgp_sym_encrypt(v_number, public.payout_encryption_key()),
+        right(v_number, 4)
+    )
+    ON CONFLICT (user_id) DO UPDATE
+    SET bank_name = EXCLUDED.bank_name,
+        account_holder = EXCLUDED.account_holder,
+        account_number_encrypted = EXCLUDED.account_number_encrypted,
+        account_last4 = EXCLUDED.account_last4,
+        updated_at = NOW();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_payout_account(TEXT, TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 6. 출금 가능 금액
+-- 판매로 번 포인트만 출금 가능 (충전/이벤트 포인트 제외)
+-- = 판매 수익 - 판매 환불 회수 - 이미 출금(신청)한 금액, 단 보유 포인트를 넘을 수 없음
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.withdrawable_points(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT GREATEST(LEAST(
+        (SELECT points FROM public.profiles WHERE id = p_user_id),
+        COALESCE((
+            SELECT SUM(amount)
+            FROM public.point_transactions
+            WHERE user_id = p_user_id
+              AND type IN ('sale', 'sale_refund', 'withdrawal_hold', 'withdrawal_release')
+        ), 0)
+    ), 0)::INTEGER;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.withdrawable_points(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_withdrawal_summary()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    RETURN json_build_object(
+        'withdrawable', public.withdrawable_points(auth.uid()),
+        'minimum', 10000,
+        'pendingAmount', COALESCE((
+            SELECT SUM(amount) FROM public.withdrawal_requests
+            WHERE user_id = auth.uid() AND status IN ('pending', 'approved')
+        ), 0)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_withdrawal_summary() TO authenticated;
+
+-- =====================================================
+-- 7. 출금 신청
+-- 진행 중(pending/approved)인 신청은 한 건만
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.request_withdrawal(p_amount INTEGER)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_account RECORD;
+    v_withdrawable INTEGER;
+    v_new_balance INTEGER;
+    v_request_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION '인증이 필요합니다.';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < 10000 THEN
+        RAISE EXCEPTION '최소 출금 금액은 10,000P 입니다.';
+    END IF;
+
+    -- 같은 포인트로 동시에 두 번 신청하지 못하도록 잠금
+    PERFORM 1 FROM public.profiles WHERE id = v_user_id FOR UPDATE;
+
+    IF EXISTS (
+        SELECT 1 FROM public.withdrawal_requests
+        WHERE user_id = v_user_id AND status IN ('pending', 'approved')
+    ) THEN
+        RAISE EXCEPTION '처리 중인 출금 신청이 있습니다.';
+    END IF;
+
+    SELECT * INTO v_account FROM public.payout_accounts WHERE user_id = v_user_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '정산 계좌를 먼저 등록해주세요.';
+    END IF;
+
+    v_withdrawable := public.withdrawable_points(v_user_id);
+    IF p_amount > v_withdrawable THEN
+        RAISE EXCEPTION '출금 가능한 포인트가 부족합니다. (출금 가능: %P)', v_withdrawable;
+    END IF;
+
+    INSERT INTO public.withdrawal_requests (
+        user_id, amount, bank_name, account_holder, account_number_encrypted, account_last4
+    )
+    VALUES (
+        v_user_id, p_amount, v_account.bank_name, v_account.account_holder,
+        v_account.account_number_encrypted, v_account.account_last4
+    )
+    RETURNING id INTO v_request_id;
+
+    UPDATE public.profiles
+    SET points = points - p_amount
+    WHERE id = v_user_id
+    RETURNING points INTO v_new_balance;
+
+    INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+    VALUES (
+        v_user_id,
+        'withdrawal_hold',
+        -p_amount,
+        v_new_balance,
+        '출금 신청 (' || v_account.bank_name || ' ****' || v_account.account_last4 || ')',
+        v_request_id
+    );
+
+    RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.request_withdrawal(INTEGER) TO authenticated;
+
+-- =====================================================
+-- 8. 관리자 검토 (일괄 처리)
+-- approve: pending → approved
+-- pay: approved → paid (송금 완료 표시)
+-- reject: pending/approved → rejected, 묶어둔 포인트 반환
+-- 상태가 맞지 않는 건은 건너뛰고 처리된 건수만 반환
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.review_withdrawals(
+    p_request_ids UUID[],
+    p_action TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_request RECORD;
+    v_new_balance INTEGER;
+    v_note TEXT := NULLIF(trim(COALESCE(p_note, '')), '');
+    v_processed INTEGER := 0;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 처리할 수 있습니다.';
+    END IF;
+
+    IF p_action NOT IN ('approve', 'pay', 'reject') THEN
+        RAISE EXCEPTION '알 수 없는 처리입니다.';
+    END IF;
+
+    IF p_action = 'reject' AND v_note IS NULL THEN
+        RAISE EXCEPTION '반려 사유를 입력해주세요.';
+    END IF;
+
+    FOR v_request IN
+        SELECT * FROM public.withdrawal_requests
+        WHERE id = ANY(p_request_ids)
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        IF p_action = 'approve' AND v_request.status = 'pending' THEN
+            UPDATE public.withdrawal_requests
+            SET status = 'approved', admin_note = COALESCE(v_note, admin_note),
+                reviewed_by = auth.uid(), reviewed_at = NOW()
+            WHERE id = v_request.id;
+
+        ELSIF p_action = 'pay' AND v_request.status = 'approved' THEN
+            UPDATE public.withdrawal_requests
+            SET status = 'paid', admin_note = COALESCE(v_note, admin_note), paid_at = NOW()
+            WHERE id = v_request.id;
+
+            INSERT INTO public.notifications (user_id, type, title, message)
+            VALUES (
+                v_request.user_id,
+                'withdrawal',
+                '출금 완료',
+                to_char(v_request.amount, 'FM999,999,999') || 'P 출금이 ' || v_request.bank_name
+                    || ' ****' || v_request.account_last4 || ' 계좌로 지급되었습니다.'
+            );
+
+        ELSIF p_action = 'reject' AND v_request.status IN ('pending', 'approved') THEN
+            UPDATE public.withdrawal_requests
+            SET status = 'rejected', admin_note = v_note,
+                reviewed_by = auth.uid(), reviewed_at = NOW()
+            WHERE id = v_request.id;
+
+            UPDATE public.profiles
+            SET points = points + v_request.amount
+            WHERE id = v_request.user_id
+            RETURNING points INTO v_new_balance;
+
+            INSERT INTO public.point_transactions (user_id, type, amount, balance, description, related_id)
+            VALUES (
+                v_request.user_id,
+                'withdrawal_release',
+                v_request.amount,
+                v_new_balance,
+                '출금 반려: ' || v_note,
+                v_request.id
+            );
+
+            INSERT INTO public.notifications (user_id, type, title, message)
+            VALUES (
+                v_request.user_id,
+                'withdrawal',
+                '출금 신청 반려',
+                '출금 신청이 반려되어 포인트가 반환되었습니다. 사유: ' || v_note
+            );
+
+        ELSE
+            CONTINUE;
+        END IF;
+
+        v_processed := v_processed + 1;
+    END LOOP;
+
+    RETURN json_build_object('processed', v_processed);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.review_withdrawals(UUID[], TEXT, TEXT) TO authenticated;
+
+-- =====================================================
+-- 9. 송금용 계좌번호 조회 (관리자 전용)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.get_withdrawal_account_number(p_request_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_encrypted BYTEA;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION '관리자만 조회할 수 있습니다.';
+    END IF;
+
+    SELECT account_number_encrypted INTO v_encrypted
+    FROM public.withdrawal_requests
+    WHERE id = p_request_id AND status = 'approved';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION '승인된 출금 신청만 계좌번호를 확인할 수 있습니다.';
+    END IF;
+
+    RETURN pgp_sym_decrypt(v_encrypted, public.payout_encryption_key());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_withdrawal_account_number(UUID) TO authenticated;
+
+-- =====================================================
+-- 10. 관리자 확인
+-- 출금 지급 / 계좌번호 복호화 / 환불 중재 / 쿠폰 / 정합성 리포트가 모두 is_admin() 에 의존
+-- profiles.email 은 "Users can update own profile" 정책으로 본인이 바꿀 수 있으므로
+-- 로그인 이메일(auth.users, 인증된 주소만)로 판별
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM auth.users
+        WHERE id = auth.uid()
+          AND lower(email) = 'skypeople41@gmail.com'
+          AND email_confirmed_at IS NOT NULL
+    );
+$$;
+
+-- profiles.email 은 로그인 이메일과 다르게 바꿀 수 없음 (관리자 문의 수신 등에서 이메일로 회원을 찾음)
+CREATE OR REPLACE FUNCTION public.guard_profile_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.email IS DISTINCT FROM (SELECT email FROM auth.users WHERE id = NEW.id) THEN
+        RAISE EXCEPTION '이메일은 직접 변경할 수 없습니다.';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_profile_email() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS on_profile_email_change ON public.profiles;
+CREATE TRIGGER on_profile_email_change
+    BEFORE UPDATE OF email ON public.profiles
+    FOR EACH ROW
+    WHEN (OLD.email IS DISTINCT FROM NEW.email)
+    EXECUTE FUNCTION public.guard_profile_email();
+
+-- =====================================================
+-- 완료!
+-- =====================================================
@@ -0,0 +1,97 @@
+-- =====================================================
+-- 워크시트 필터 패싯 (학년/과목/유형/가격대별 개수)
+-- Supabase SQL Editor에서 실행하세요
+-- add-worksheet-search.sql 을 먼저 실행해야 합니다 (build_search_query 사용)
+-- =====================================================
+
+-- 각 패싯의 개수는 "자기 자신을 제외한 나머지 필터"를 적용한 결과입니다.
+-- 예) 학년별 개수는 현재 선택된 과목/유형/가격대/태그/검색어 조건에서 계산
+-- 이전 버전(태그/판매자 필터 없음) 제거
+DROP FUNCTION IF EXISTS public.worksheet_facets(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.worksheet_facets(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.worksheet_facets(
+    p_query TEXT DEFAULT NULL,
+    p_grade TEXT DEFAULT NULL,
+    p_subject TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_min_price INTEGER DEFAULT NULL,
+    p_max_price INTEGER DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_tag_mode TEXT DEFAULT 'any',
+    p_seller_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+    v_tsquery TSQUERY := public.build_search_query(p_query);
+    v_result JSON;
+BEGIN
+    WITH base AS (
+        SELECT
+            w.grade,
+            w.subject,
+            w.category,
+            w.price,
+            (p_grade IS NULL OR w.grade = p_grade) AS m_grade,
+            (p_subject IS NULL OR w.subject = p_subject) AS m_subject,
+            (p_category IS NULL OR w.category = p_category) AS m_category,
+            ((p_min_price IS NULL OR w.price >= p_min_price)
+                AND (p_max_price IS NULL OR w.price <= p_max_price)) AS m_price
+        FROM public.worksheets w
+        WHERE w.status = 'approved'
+          AND (p_seller_id IS NULL OR w.seller_id = p_seller_id)
+          AND (
+              COALESCE(cardinality(p_tags), 0) = 0
+              OR (p_tag_mode = 'all' AND w.tags @> p_tags)
+              OR (p_tag_mode <> 'all' AND w.tags && p_tags)
+          )
+          AND (
+              COALESCE(trim(p_query), '') = ''
+              OR (v_tsquery IS NOT NULL AND (w.search_vector @@ v_tsquery OR w.title % p_query))
+          )
+    )
+    SELECT json_build_object(
+        'grade', (
+            SELECT COALESCE(json_object_agg(grade, cnt), '{}'::json)
+            FROM (SELECT grade, COUNT(*) AS cnt FROM base
+                  WHERE m_subject AND m_category AND m_price GROUP BY grade) g
+        ),
+        'subject', (
+            SELECT COALESCE(json_object_agg(subject, cnt), '{}'::json)
+            FROM (SELECT subject, COUNT(*) AS cnt FROM base
+                  WHERE m_grade AND m_category AND m_price GROUP BY subject) s
+        ),
+        'category', (
+            SELECT COALESCE(json_object_agg(category, cnt), '{}'::json)
+            FROM (SELECT category, COUNT(*) AS cnt FROM base
+                  WHERE m_grade AND m_subject AND m_price GROUP BY category) c
+        ),
+        -- 가격대 키는 HomePage FilterPanel 의 옵션 값과 동일 (경계값 포함)
+        'price', (
+            SELECT json_build_object(
+                '0-100', COUNT(*) FILTER (WHERE price BETWEEN 0 AND 100),
+                '100-200', COUNT(*) FILTER (WHERE price BETWEEN 100 AND 200),
+                '200-300', COUNT(*) FILTER (WHERE price BETWEEN 200 AND 300),
+                '300-500', COUNT(*) FILTER (WHERE price BETWEEN 300 AND 500)
+            )
+            FROM base
+            WHERE m_grade AND m_subject AND m_category
+        ),
+        'total', (
+            SELECT COUNT(*) FROM base
+            WHERE m_grade AND m_subject AND m_category AND m_price
+        )
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.worksheet_facets(TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
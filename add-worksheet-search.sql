@@ -0,0 +1,205 @@
+-- =====================================================
+-- 워크시트 검색 (전문 검색 + 관련도 정렬)
+-- Supabase SQL Editor에서 실행하세요
+-- =====================================================
+
+-- 한국어는 형태소 분석기가 없으므로 'simple' 설정 + 접두어 매칭을 사용하고,
+-- 오타/부분 일치는 trigram 유사도로 보완합니다.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- 1. 검색용 tsvector 컬럼 (제목 > 태그 > 설명 순 가중치)
+-- =====================================================
+-- 태그 → lexeme: 검색어처럼 소문자로 맞추고, 빈 문자열은 제외 (array_to_tsvector 가 오류를 냄)
+-- 생성 컬럼 식에는 서브쿼리를 쓸 수 없으므로 IMMUTABLE 함수로 분리
+CREATE OR REPLACE FUNCTION public.tags_to_tsvector(p_tags TEXT[])
+RETURNS TSVECTOR
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT array_to_tsvector(ARRAY(
+        SELECT DISTINCT lower(t) FROM unnest(COALESCE(p_tags, '{}')) AS t WHERE t <> ''
+    ));
+$$;
+
+-- 식이 바뀌었으므로 기존 컬럼을 다시 만듦 (인덱스도 함께 재생성)
+ALTER TABLE public.worksheets DROP COLUMN IF EXISTS search_vector;
+
+ALTER TABLE public.worksheets
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+    setweight(public.tags_to_tsvector(tags), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(description, '')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_worksheets_search ON public.worksheets USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_worksheets_title_trgm ON public.worksheets USING GIN (title gin_trgm_ops);
+
+-- =====================================================
+-- 2. 검색어 → tsquery 변환
+-- "분수 덧셈" → '분수':* & '덧셈':*  ("덧셈과 분수"도 매칭)
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.build_search_query(p_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & '))
+    FROM (
+        SELECT regexp_replace(lower(word), '[&|!():*<>''\\]', '', 'g') AS term
+        FROM regexp_split_to_table(trim(COALESCE(p_query, '')), '\s+') AS word
+    ) terms
+    WHERE term <> '';
+$$;
+
+-- =====================================================
+-- 3. 검색 함수
+-- 하이라이트 구간은 U+E000 / U+E001 문자로 감싸서 반환합니다.
+-- (HTML 태그를 쓰지 않아 클라이언트에서 안전하게 렌더링 가능)
+-- p_tag_mode: 'any' = 태그 중 하나라도 포함, 'all' = 모든 태그 포함
+-- 정렬은 sort_key(정렬 기준을 내림차순 숫자로 변환) DESC, id DESC
+-- 다음 페이지는 마지막 행의 (sort_key, id) 를 p_after_key / p_after_id 로 넘김 (키셋)
+--   페이지 사이에 자료가 추가/삭제되어도 중복이나 누락이 없음
+-- p_offset 은 페이지 번호 이동용 (커서 없이 호출할 때)
+-- =====================================================
+-- 이전 버전(태그/판매자 필터, 커서 없음) 제거
+DROP FUNCTION IF EXISTS public.search_worksheets(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.search_worksheets(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS public.search_worksheets(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_worksheets(
+    p_query TEXT,
+    p_sort TEXT DEFAULT 'relevance',
+    p_grade TEXT DEFAULT NULL,
+    p_subject TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_min_price INTEGER DEFAULT NULL,
+    p_max_price INTEGER DEFAULT NULL,
+    p_tags TEXT[] DEFAULT NULL,
+    p_tag_mode TEXT DEFAULT 'any',
+    p_seller_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 12,
+    p_offset INTEGER DEFAULT 0,
+    p_after_key DOUBLE PRECISION DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    seller_id UUID,
+    seller_nickname TEXT,
+    title TEXT,
+    description TEXT,
+    price INTEGER,
+    grade TEXT,
+    subject TEXT,
+    category TEXT,
+    tags TEXT[],
+    file_url TEXT,
+    preview_image TEXT,
+    page_count INTEGER,
+    download_count INTEGER,
+    sales_count INTEGER,
+    average_rating DECIMAL(2,1),
+    review_count INTEGER,
+    status TEXT,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ,
+    rank REAL,
+    sort_key DOUBLE PRECISION,
+    title_highlight TEXT,
+    description_highlight TEXT,
+    total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_tsquery TSQUERY := public.build_search_query(p_query);
+    v_headline_opts TEXT := 'StartSel=' || chr(57344) || ', StopSel=' || chr(57345)
+        || ', MaxFragments=2, MaxWords=20, MinWords=5, FragmentDelimiter=" … "';
+BEGIN
+    IF v_tsquery IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH matched AS (
+        SELECT
+            w.*,
+            p.nickname AS nickname,
+            (ts_rank_cd(w.search_vector, v_tsquery) + similarity(w.title, p_query))::REAL AS score
+        FROM public.worksheets w
+        JOIN public.profiles p ON w.seller_id = p.id
+        WHERE w.status = 'approved'
+          AND (w.search_vector @@ v_tsquery OR w.title % p_query)
+          AND (p_grade IS NULL OR w.grade = p_grade)
+          AND (p_subject IS NULL OR w.subject = p_subject)
+          AND (p_category IS NULL OR w.category = p_category)
+          AND (p_min_price IS NULL OR w.price >= p_min_price)
+          AND (p_max_price IS NULL OR w.price <= p_max_price)
+          AND (p_seller_id IS NULL OR w.seller_id = p_seller_id)
+          AND (
+              COALESCE(cardinality(p_tags), 0) = 0
+              OR (p_tag_mode = 'all' AND w.tags @> p_tags)
+              OR (p_tag_mode <> 'all' AND w.tags && p_tags)
+          )
+    ),
+    keyed AS (
+        SELECT
+            m.*,
+            (CASE p_sort
+                WHEN 'popular' THEN m.sales_count::DOUBLE PRECISION
+                WHEN 'rating' THEN COALESCE(m.average_rating, 0)::DOUBLE PRECISION
+                WHEN 'price_low' THEN -(m.price::DOUBLE PRECISION)
+                WHEN 'price_high' THEN m.price::DOUBLE PRECISION
+                WHEN 'newest' THEN extract(epoch FROM m.created_at)::DOUBLE PRECISION
+                ELSE m.score::DOUBLE PRECISION
+            END) AS key,
+            -- 커서 조건보다 먼저 세어야 전체 건수가 유지됨
+            COUNT(*) OVER () AS total
+        FROM matched m
+    ),
+    page AS (
+        SELECT k.*
+        FROM keyed k
+        WHERE p_after_id IS NULL OR (k.key, k.id) < (p_after_key, p_after_id)
+        ORDER BY k.key DESC, k.id DESC
+        LIMIT p_limit OFFSET p_offset
+    )
+    SELECT
+        pg.id,
+        pg.seller_id,
+        pg.nickname,
+        pg.title,
+        pg.description,
+        pg.price,
+        pg.grade,
+        pg.subject,
+        pg.category,
+        pg.tags,
+        pg.file_url,
+        pg.preview_image,
+        pg.page_count,
+        pg.download_count,
+        pg.sales_count,
+        pg.average_rating,
+        pg.review_count,
+        pg.status,
+        pg.created_at,
+        pg.updated_at,
+        pg.score,
+        pg.key,
+        ts_headline('simple', pg.title, v_tsquery, v_headline_opts || ', HighlightAll=true'),
+        ts_headline('simple', pg.description, v_tsquery, v_headline_opts),
+        pg.total
+    FROM page pg
+    ORDER BY pg.key DESC, pg.id DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_worksheets(TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT[], TEXT, UUID, INTEGER, INTEGER, DOUBLE PRECISION, UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
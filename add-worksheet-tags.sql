@@ -0,0 +1,35 @@
+-- =====================================================
+-- 워크시트 태그 (태그 필터 + 자동완성)
+-- Supabase SQL Editor에서 실행하세요
+-- =====================================================
+
+-- 1. 태그 필터용 인덱스 (@>, && 연산자)
+CREATE INDEX IF NOT EXISTS idx_worksheets_tags ON public.worksheets USING GIN (tags);
+
+-- =====================================================
+-- 2. 태그 자동완성
+-- 승인된 워크시트에 사용된 태그를 사용 빈도순으로 반환
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.search_tags(
+    p_prefix TEXT DEFAULT '',
+    p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (tag TEXT, usage_count BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT t.tag, COUNT(*) AS usage_count
+    FROM public.worksheets w
+    CROSS JOIN LATERAL unnest(w.tags) AS t(tag)
+    WHERE w.status = 'approved'
+      AND t.tag ILIKE replace(replace(replace(COALESCE(p_prefix, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    GROUP BY t.tag
+    ORDER BY usage_count DESC, t.tag
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tags(TEXT, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- 완료!
+-- =====================================================
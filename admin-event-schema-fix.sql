@@ -528,8 +528,8 @@ SECURITY DEFINER
 AS $$
 BEGIN
   RETURN EXISTS (
-    SELECT 1 FROM public.profiles
-    WHERE id = auth.uid() AND email = 'skypeople41@gmail.com'
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid() AND lower(email) = 'skypeople41@gmail.com' AND email_confirmed_at IS NOT NULL
   );
 END;
 $$;
@@ -461,8 +461,8 @@ SECURITY DEFINER
 STABLE
 AS $$
   SELECT EXISTS (
-    SELECT 1 FROM public.profiles
-    WHERE id = auth.uid() AND email = 'skypeople41@gmail.com'
+    SELECT 1 FROM auth.users
+    WHERE id = auth.uid() AND lower(email) = 'skypeople41@gmail.com' AND email_confirmed_at IS NOT NULL
   );
 $$;
 
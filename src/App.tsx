@@ -10,11 +10,15 @@ import { Skeleton } from '@/components/common';
 
 const HomePage = lazy(() => import('@/pages/HomePage'));
 const WorksheetDetailPage = lazy(() => import('@/pages/WorksheetDetailPage'));
+const BundleDetailPage = lazy(() => import('@/pages/BundleDetailPage'));
 const UploadPage = lazy(() => import('@/pages/UploadPage'));
 const MyPage = lazy(() => import('@/pages/MyPage'));
 const AdminPage = lazy(() => import('@/pages/AdminPage'));
 const InboxPage = lazy(() => import('@/pages/InboxPage'));
 const EventsPage = lazy(() => import('@/pages/EventsPage'));
+const TagPage = lazy(() => import('@/pages/TagPage'));
+const SellerPage = lazy(() => import('@/pages/SellerPage'));
+const ReceiptPage = lazy(() => import('@/pages/ReceiptPage'));
 
 function PageLoader() {
   return (
@@ -74,6 +78,18 @@ function App() {
             }
           />
 
+          {/* Receipt - standalone for printing */}
+          <Route
+            path="/receipt/:orderId"
+            element={
+              <ProtectedRoute>
+                <Suspense fallback={<PageLoader />}>
+                  <ReceiptPage />
+                </Suspense>
+              </ProtectedRoute>
+            }
+          />
+
           {/* Main layout routes */}
           <Route element={<MainLayout />}>
             {/* Public routes */}
@@ -93,6 +109,30 @@ function App() {
                 </Suspense>
               }
             />
+            <Route
+              path="/bundle/:id"
+              element={
+                <Suspense fallback={<PageLoader />}>
+                  <BundleDetailPage />
+                </Suspense>
+              }
+            />
+            <Route
+              path="/tags/:tag"
+              element={
+                <Suspense fallback={<PageLoader />}>
+                  <TagPage />
+                </Suspense>
+              }
+            />
+            <Route
+              path="/seller/:id"
+              element={
+                <Suspense fallback={<PageLoader />}>
+                  <SellerPage />
+                </Suspense>
+              }
+            />
             <Route
               path="/events"
               element={
@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { Plus, Ticket } from 'lucide-react';
+import { Button, Badge } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  Coupon,
+  CouponDiscountType,
+  GRADE_LABELS,
+  SUBJECT_LABELS,
+  formatPoints,
+  formatDate,
+} from '@/types';
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  discountType: 'percent' as CouponDiscountType,
+  discountValue: 10,
+  maxDiscount: 0,
+  minSpend: 0,
+  subject: '',
+  grade: '',
+  usageLimit: 0,
+  perUserLimit: 1,
+  startsAt: '',
+  expiresAt: '',
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const describeDiscount = (coupon: Coupon) =>
+  coupon.discountType === 'percent'
+    ? `${coupon.discountValue}%${coupon.maxDiscount ? ` (최대 ${formatPoints(coupon.maxDiscount)})` : ''}`
+    : formatPoints(coupon.discountValue);
+
+const getCouponStatus = (coupon: Coupon): { label: string; color: 'green' | 'gray' | 'yellow' | 'red' } => {
+  const now = Date.now();
+  if (!coupon.isActive) return { label: '중지', color: 'gray' };
+  if (coupon.expiresAt && new Date(coupon.expiresAt).getTime() < now) return { label: '만료', color: 'gray' };
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) return { label: '소진', color: 'red' };
+  if (new Date(coupon.startsAt).getTime() > now) return { label: '예정', color: 'yellow' };
+  return { label: '사용 가능', color: 'green' };
+};
+
+export function CouponManager() {
+  const toast = useToast();
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const fetchCoupons = async () => {
+    try {
+      setCoupons(await api.admin.getCoupons());
+    } catch (error) {
+      console.error('Failed to fetch coupons:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchCoupons();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!form.code.trim()) {
+      toast.error('쿠폰 코드를 입력해주세요.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await api.admin.createCoupon({
+        code: form.code,
+        description: form.description,
+        discountType: form.discountType,
+        discountValue: form.discountValue,
+        maxDiscount: form.discountType === 'percent' && form.maxDiscount > 0 ? form.maxDiscount : undefined,
+        minSpend: form.minSpend,
+        subject: form.subject || undefined,
+        grade: form.grade || undefined,
+        usageLimit: form.usageLimit > 0 ? form.usageLimit : undefined,
+        perUserLimit: form.perUserLimit,
+        startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+        expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : undefined,
+      });
+
+      toast.success('쿠폰이 생성되었습니다.');
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+      fetchCoupons();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      await api.admin.setCouponActive(coupon.id, !coupon.isActive);
+      toast.success(coupon.isActive ? '쿠폰 사용을 중지했습니다.' : '쿠폰을 다시 사용할 수 있습니다.');
+      fetchCoupons();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">쿠폰 목록</h2>
+        <Button onClick={() => setShowForm(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          새 쿠폰
+        </Button>
+      </div>
+
+      {/* Coupon Form Modal */}
+      {showForm && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={() => setShowForm(false)}
+          />
+          <div className="relative bg-white rounded-2xl p-6 shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">새 쿠폰 생성</h3>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">쿠폰 코드 *</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    className={`${inputClass} uppercase`}
+                    placeholder="WELCOME10"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">할인 방식</label>
+                  <select
+                    value={form.discountType}
+                    onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponDiscountType })}
+                    className={inputClass}
+                  >
+                    <option value="percent">정률 (%)</option>
+                    <option value="fixed">정액 (P)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">설명</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                  placeholder="신규 회원 10% 할인"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.discountType === 'percent' ? '할인율 (%)' : '할인 금액 (P)'}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={form.discountType === 'percent' ? 100 : undefined}
+                    value={form.discountValue}
+                    onChange={(e) => setForm({ ...form, discountValue: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                {form.discountType === 'percent' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      최대 할인 (P, 0 = 제한 없음)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.maxDiscount}
+                      onChange={(e) => setForm({ ...form, maxDiscount: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">대상 과목</label>
+                  <select
+                    value={form.subject}
+                    onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">전체</option>
+                    {Object.entries(SUBJECT_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">대상 학년</label>
+                  <select
+                    value={form.grade}
+                    onChange={(e) => setForm({ ...form, grade: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">전체</option>
+                    {Object.entries(GRADE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">최소 주문 (P)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.minSpend}
+                    onChange={(e) => setForm({ ...form, minSpend: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">총 수량 (0 = 무제한)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.usageLimit}
+                    onChange={(e) => setForm({ ...form, usageLimit: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">1인당 사용</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.perUserLimit}
+                    onChange={(e) => setForm({ ...form, perUserLimit: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">시작일시 (비우면 즉시)</label>
+                  <input
+                    type="datetime-local"
+                    value={form.startsAt}
+                    onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">만료일시 (비우면 무기한)</label>
+                  <input
+                    type="datetime-local"
+                    value={form.expiresAt}
+                    onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <Button variant="outline" onClick={() => setShowForm(false)} fullWidth>
+                취소
+              </Button>
+              <Button onClick={handleCreate} loading={isSaving} fullWidth>
+                생성
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Coupon List */}
+      <div className="space-y-4">
+        {coupons.length === 0 ? (
+          <div className="text-center py-12">
+            <Ticket className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">등록된 쿠폰이 없습니다.</p>
+          </div>
+        ) : (
+          coupons.map((coupon) => {
+            const status = getCouponStatus(coupon);
+            const scope = [
+              coupon.subject && SUBJECT_LABELS[coupon.subject],
+              coupon.grade && GRADE_LABELS[coupon.grade],
+            ].filter(Boolean).join(' · ');
+            return (
+              <div
+                key={coupon.id}
+                className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
+              >
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-primary-100 text-primary-600 shrink-0">
+                    <Ticket className="w-5 h-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-mono font-semibold text-gray-900">{coupon.code}</h4>
+                      <Badge color={status.color} size="sm">{status.label}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {describeDiscount(coupon)}
+                      {coupon.minSpend > 0 && ` | ${formatPoints(coupon.minSpend)} 이상`}
+                      {scope && ` | ${scope}`}
+                      {' | '}사용: {coupon.usedCount}
+                      {coupon.usageLimit !== null && `/${coupon.usageLimit}`}
+                      {coupon.expiresAt && ` | ~${formatDate(coupon.expiresAt)}`}
+                    </p>
+                  </div>
+                </div>
+
+                <Button size="sm" variant="outline" onClick={() => handleToggleActive(coupon)}>
+                  {coupon.isActive ? '중지' : '재개'}
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CouponManager;
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+import { Button } from '@/components/common';
+import { EventCountdown } from '@/components/events';
+import { useNow } from '@/hooks/useNow';
+import { EventPhase, getEventPhase, formatKstDateTime } from '@/types';
+
+interface CalendarEvent {
+  id: string;
+  title: string;
+  type: string;
+  status: string;
+  startAt: string | null;
+  endAt: string | null;
+}
+
+interface EventCalendarProps {
+  events: CalendarEvent[];
+}
+
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+const MAX_PER_DAY = 3;
+
+const PHASE_COLORS: Record<EventPhase, string> = {
+  draft: 'bg-gray-100 text-gray-500',
+  upcoming: 'bg-blue-100 text-blue-700',
+  active: 'bg-green-100 text-green-700',
+  ended: 'bg-gray-100 text-gray-400 line-through',
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const isSameDay = (a: Date, b: Date) => a.getTime() === b.getTime();
+
+// Month grid of scheduled events (start day → end day), with the upcoming ones listed below
+export function EventCalendar({ events }: EventCalendarProps) {
+  const now = useNow();
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+
+  const today = startOfDay(new Date(now));
+  const gridStart = new Date(month.getFullYear(), month.getMonth(), 1 - month.getDay());
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cellCount = Math.ceil((month.getDay() + daysInMonth) / 7) * 7;
+  const days = Array.from({ length: cellCount }, (_, i) =>
+    new Date(gridStart.getFullYear(), gridStart.getMonth(), gridStart.getDate() + i)
+  );
+
+  // Events without a start time can't be placed on the calendar
+  const placed = events
+    .filter((e) => e.startAt && e.status !== 'draft')
+    .map((e) => {
+      const start = startOfDay(new Date(e.startAt!));
+      const end = e.endAt ? startOfDay(new Date(e.endAt)) : start;
+      return { event: e, start, end, phase: getEventPhase(e, now) };
+    })
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const upcoming = placed.filter((p) => p.phase === 'upcoming');
+
+  const moveMonth = (delta: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <Button size="sm" variant="outline" onClick={() => moveMonth(-1)}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <h3 className="font-semibold text-gray-900">
+          {month.getFullYear()}년 {month.getMonth() + 1}월
+        </h3>
+        <Button size="sm" variant="outline" onClick={() => moveMonth(1)}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l border-gray-100 text-sm">
+        {WEEKDAYS.map((weekday, idx) => (
+          <div
+            key={weekday}
+            className={`py-2 text-center font-medium border-r border-b border-gray-100 bg-gray-50 ${
+              idx === 0 ? 'text-red-500' : idx === 6 ? 'text-blue-500' : 'text-gray-600'
+            }`}
+          >
+            {weekday}
+          </div>
+        ))}
+
+        {days.map((day) => {
+          const dayEvents = placed.filter((p) => p.start <= day && day <= p.end);
+          const inMonth = day.getMonth() === month.getMonth();
+
+          return (
+            <div
+              key={day.getTime()}
+              className={`min-h-[88px] p-1 border-r border-b border-gray-100 ${inMonth ? '' : 'bg-gray-50/60'}`}
+            >
+              <div
+                className={`text-xs mb-1 w-6 h-6 flex items-center justify-center rounded-full ${
+                  isSameDay(day, today)
+                    ? 'bg-primary-500 text-white'
+                    : inMonth
+                    ? 'text-gray-700'
+                    : 'text-gray-300'
+                }`}
+              >
+                {day.getDate()}
+              </div>
+              <div className="space-y-0.5">
+                {dayEvents.slice(0, MAX_PER_DAY).map(({ event, phase }) => (
+                  <div
+                    key={event.id}
+                    title={`${event.title}\n${formatKstDateTime(event.startAt!)} ~ ${
+                      event.endAt ? formatKstDateTime(event.endAt) : ''
+                    }`}
+                    className={`truncate rounded px-1 text-xs ${PHASE_COLORS[phase]}`}
+                  >
+                    {event.title}
+                  </div>
+                ))}
+                {dayEvents.length > MAX_PER_DAY && (
+                  <div className="text-xs text-gray-400 px-1">+{dayEvents.length - MAX_PER_DAY}</div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3 mt-3 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-100" />오픈 예정</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100" />진행중</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-100" />종료</span>
+      </div>
+
+      <h3 className="font-semibold text-gray-900 mt-8 mb-3">다가오는 이벤트</h3>
+      {upcoming.length === 0 ? (
+        <div className="text-center py-8">
+          <CalendarDays className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-500 text-sm">예약된 이벤트가 없습니다.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {upcoming.map(({ event }) => (
+            <div key={event.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate">{event.title}</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatKstDateTime(event.startAt!)}
+                  {event.endAt && ` ~ ${formatKstDateTime(event.endAt)}`}
+                </p>
+              </div>
+              <EventCountdown event={event} now={now} className="text-sm flex-shrink-0" />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EventCalendar;
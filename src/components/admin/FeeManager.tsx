@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react';
+import { Percent, Search, Trash2 } from 'lucide-react';
+import { Button, Badge } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  PlatformFeeRule,
+  SellerTier,
+  SellerTierEntry,
+  CATEGORY_LABELS,
+  SELLER_TIER_LABELS,
+  formatDate,
+} from '@/types';
+
+const inputClass =
+  'px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const describeTarget = (rule: PlatformFeeRule) => {
+  if (rule.scope === 'default') return '기본 수수료율';
+  if (rule.scope === 'tier') return `등급: ${SELLER_TIER_LABELS[rule.target as SellerTier] ?? rule.target}`;
+  return `카테고리: ${CATEGORY_LABELS[rule.target ?? ''] ?? rule.target}`;
+};
+
+export function FeeManager() {
+  const toast = useToast();
+  const [rules, setRules] = useState<PlatformFeeRule[]>([]);
+  const [defaultRate, setDefaultRate] = useState('');
+  const [override, setOverride] = useState<{ scope: 'tier' | 'category'; target: string; rate: string }>({
+    scope: 'tier',
+    target: 'pro',
+    rate: '',
+  });
+  const [sellerQuery, setSellerQuery] = useState('');
+  const [sellers, setSellers] = useState<SellerTierEntry[] | null>(null);
+  const [tier, setTier] = useState<SellerTier>('pro');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchRules = async () => {
+    try {
+      const data = await api.admin.getFeeRules();
+      setRules(data);
+      setDefaultRate(String(data.find((r) => r.scope === 'default')?.rate ?? ''));
+    } catch (error) {
+      console.error('Failed to fetch fee rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const saveRule = async (scope: PlatformFeeRule['scope'], target: string | null, rate: number | null) => {
+    setIsSaving(true);
+    try {
+      await api.admin.setFeeRule(scope, target, rate);
+      toast.success(rate === null ? '수수료 규칙을 삭제했습니다.' : '수수료율을 저장했습니다.');
+      fetchRules();
+      return true;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveOverride = async () => {
+    if (await saveRule(override.scope, override.target, Number(override.rate))) {
+      setOverride({ ...override, rate: '' });
+    }
+  };
+
+  const handleSearchSellers = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSellers(await api.admin.searchSellers(sellerQuery));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  const handleSetTier = async (seller: SellerTierEntry) => {
+    setIsSaving(true);
+    try {
+      await api.admin.setSellerTier(seller.id, tier);
+      toast.success(`${seller.nickname}님의 등급을 ${SELLER_TIER_LABELS[tier]}(으)로 변경했습니다.`);
+      setSellers((prev) => prev?.map((s) => (s.id === seller.id ? { ...s, sellerTier: tier } : s)) ?? null);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const overrides = rules.filter((r) => r.scope !== 'default');
+  const targetOptions = override.scope === 'tier' ? SELLER_TIER_LABELS : CATEGORY_LABELS;
+
+  return (
+    <div className="p-6 space-y-8">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">판매 수수료</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          판매자 등급 규칙 → 카테고리 규칙 → 기본 수수료율 순서로 적용됩니다. 변경 사항은 이후 판매부터 반영됩니다.
+        </p>
+
+        <div className="flex items-center gap-2 p-4 bg-gray-50 rounded-xl">
+          <Percent className="w-5 h-5 text-primary-600" />
+          <span className="font-medium text-gray-900 mr-2">기본 수수료율</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={defaultRate}
+            onChange={(e) => setDefaultRate(e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-gray-500">%</span>
+          <Button
+            size="sm"
+            onClick={() => saveRule('default', null, Number(defaultRate))}
+            disabled={isSaving || defaultRate === ''}
+          >
+            저장
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-3">예외 규칙</h3>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <select
+            value={override.scope}
+            onChange={(e) => {
+              const scope = e.target.value as 'tier' | 'category';
+              setOverride({ ...override, scope, target: scope === 'tier' ? 'pro' : 'worksheet' });
+            }}
+            className={inputClass}
+          >
+            <option value="tier">판매자 등급</option>
+            <option value="category">카테고리</option>
+          </select>
+          <select
+            value={override.target}
+            onChange={(e) => setOverride({ ...override, target: e.target.value })}
+            className={inputClass}
+          >
+            {Object.entries(targetOptions).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={override.rate}
+            onChange={(e) => setOverride({ ...override, rate: e.target.value })}
+            placeholder="수수료율"
+            className={`${inputClass} w-28`}
+          />
+          <span className="text-gray-500">%</span>
+          <Button size="sm" onClick={handleSaveOverride} disabled={isSaving || override.rate === ''}>
+            추가/변경
+          </Button>
+        </div>
+
+        {overrides.length === 0 ? (
+          <p className="text-sm text-gray-500">예외 규칙이 없습니다. 모든 판매에 기본 수수료율이 적용됩니다.</p>
+        ) : (
+          <div className="space-y-2">
+            {overrides.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                <div className="flex items-center gap-2">
+                  <Badge color={rule.scope === 'tier' ? 'purple' : 'blue'} size="sm">
+                    {rule.scope === 'tier' ? '등급' : '카테고리'}
+                  </Badge>
+                  <span className="text-gray-900">{describeTarget(rule)}</span>
+                  <span className="font-semibold text-primary-600">{rule.rate}%</span>
+                  <span className="text-xs text-gray-400">{formatDate(rule.updatedAt)}</span>
+                </div>
+                <button
+                  onClick={() => saveRule(rule.scope, rule.target, null)}
+                  disabled={isSaving}
+                  className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  title="삭제"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-900 mb-3">판매자 등급 지정</h3>
+        <form onSubmit={handleSearchSellers} className="flex flex-wrap items-center gap-2 mb-4">
+          <input
+            type="text"
+            value={sellerQuery}
+            onChange={(e) => setSellerQuery(e.target.value)}
+            placeholder="판매자 닉네임 검색"
+            className={`${inputClass} flex-1 min-w-[10rem]`}
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={!sellerQuery.trim()}>
+            <Search className="w-4 h-4" />
+          </Button>
+          <select
+            value={tier}
+            onChange={(e) => setTier(e.target.value as SellerTier)}
+            className={inputClass}
+          >
+            {Object.entries(SELLER_TIER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </form>
+
+        {sellers && sellers.length === 0 && (
+          <p className="text-sm text-gray-500">검색된 회원이 없습니다.</p>
+        )}
+        {sellers && sellers.length > 0 && (
+          <div className="space-y-2">
+            {sellers.map((seller) => (
+              <div key={seller.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium text-gray-900 truncate">{seller.nickname}</span>
+                  <Badge color="purple" size="sm">{SELLER_TIER_LABELS[seller.sellerTier]}</Badge>
+                  <span className="text-xs text-gray-400">
+                    가입 {formatDate(seller.createdAt)} · #{seller.id.slice(0, 8)}
+                  </span>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => handleSetTier(seller)}
+                  disabled={isSaving || seller.sellerTier === tier}
+                >
+                  {SELLER_TIER_LABELS[tier]}(으)로 변경
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FeeManager;
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { Scale, RefreshCw, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Button, Badge } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import { PointReconciliation, formatPoints, formatKstDateTime } from '@/types';
+
+const formatDrift = (drift: number) => `${drift > 0 ? '+' : ''}${drift.toLocaleString()}P`;
+
+export function PointLedgerManager() {
+  const toast = useToast();
+  const [onlyDrift, setOnlyDrift] = useState(true);
+  const [report, setReport] = useState<PointReconciliation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchReport = async () => {
+    setIsLoading(true);
+    try {
+      setReport(await api.admin.getPointReconciliation(onlyDrift));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [onlyDrift]);
+
+  const summary = report?.summary;
+  const isClean = summary !== undefined && summary.driftCount === 0 && summary.mismatchCount === 0;
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">포인트 정합성</h2>
+          <p className="text-sm text-gray-500">보유 포인트와 포인트 내역 합계를 회원별로 비교합니다</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={onlyDrift}
+              onChange={(e) => setOnlyDrift(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            불일치만 보기
+          </label>
+          <Button size="sm" variant="outline" loading={isLoading} onClick={fetchReport}>
+            <RefreshCw className="w-4 h-4 mr-1" />
+            다시 검사
+          </Button>
+        </div>
+      </div>
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          <div className="p-4 bg-gray-50 rounded-xl">
+            <p className="text-xs text-gray-500">검사 회원</p>
+            <p className="text-lg font-semibold text-gray-900">{summary.userCount.toLocaleString()}명</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-xl">
+            <p className="text-xs text-gray-500">보유 포인트 합계</p>
+            <p className="text-lg font-semibold text-gray-900">{formatPoints(summary.totalPoints)}</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-xl">
+            <p className="text-xs text-gray-500">내역 합계</p>
+            <p className="text-lg font-semibold text-gray-900">{formatPoints(summary.totalLedger)}</p>
+          </div>
+          <div className={`p-4 rounded-xl ${isClean ? 'bg-green-50' : 'bg-red-50'}`}>
+            <p className="text-xs text-gray-500">불일치</p>
+            <p className={`text-lg font-semibold ${isClean ? 'text-green-700' : 'text-red-700'}`}>
+              {summary.driftCount}명 ({formatDrift(summary.totalDrift)})
+            </p>
+            {summary.mismatchCount > 0 && (
+              <p className="text-xs text-red-600">잔액 기록 불일치 {summary.mismatchCount}명</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {report && report.users.length === 0 ? (
+          <div className="text-center py-12">
+            {isClean ? (
+              <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-3" />
+            ) : (
+              <Scale className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            )}
+            <p className="text-gray-500">
+              {onlyDrift ? '모든 회원의 포인트가 내역과 일치합니다.' : '회원이 없습니다.'}
+            </p>
+          </div>
+        ) : (
+          report?.users.map((user) => (
+            <div key={user.userId} className="flex items-center gap-4 p-4 bg-gray-50 rounded-xl">
+              {user.drift !== 0 || user.balanceMismatch ? (
+                <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+              ) : (
+                <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold text-gray-900">{user.nickname}</h4>
+                  <span className="text-sm text-gray-500 truncate">{user.email}</span>
+                  {user.balanceMismatch && <Badge color="yellow">잔액 기록 불일치</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  보유 {formatPoints(user.points)}
+                  {' | '}내역 합계 {formatPoints(user.ledgerSum)} ({user.transactionCount}건)
+                  {user.lastBalance !== null && ` | 마지막 기록 잔액 ${formatPoints(user.lastBalance)}`}
+                  {user.lastTransactionAt && ` | ${formatKstDateTime(user.lastTransactionAt)}`}
+                </p>
+              </div>
+              <span className={`font-semibold ${user.drift === 0 ? 'text-gray-400' : 'text-red-600'}`}>
+                {formatDrift(user.drift)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {report && (
+        <p className="text-xs text-gray-400 mt-4">
+          {formatKstDateTime(report.checkedAt)} 기준 · 차이가 큰 순으로 최대 500명까지 표시합니다
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PointLedgerManager;
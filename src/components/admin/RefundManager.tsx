@@ -0,0 +1,152 @@
+import { useState, useEffect } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/common';
+import { RefundStatusBadge } from '@/components/refund';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  RefundRequest,
+  REFUND_REASON_LABELS,
+  formatPoints,
+  formatDate,
+} from '@/types';
+
+const OPEN_STATUSES: RefundRequest['status'][] = ['pending', 'seller_rejected', 'disputed'];
+
+export function RefundManager() {
+  const toast = useToast();
+  const [requests, setRequests] = useState<RefundRequest[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const fetchRequests = async () => {
+    try {
+      setRequests(await api.admin.getRefundRequests());
+    } catch (error) {
+      console.error('Failed to fetch refund requests:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const handleResolve = async (request: RefundRequest, approve: boolean) => {
+    setResolvingId(request.id);
+    try {
+      const result = await api.admin.resolveRefund(request.id, approve, notes[request.id]);
+      toast.success(
+        result.status === 'refunded'
+          ? `${formatPoints(result.refundedAmount)} 환불 처리했습니다.`
+          : '환불 요청을 기각했습니다.'
+      );
+      fetchRequests();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const visible = requests.filter((r) => showResolved || OPEN_STATUSES.includes(r.status));
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">환불 요청</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showResolved}
+            onChange={(e) => setShowResolved(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          처리 완료 포함
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        {visible.length === 0 ? (
+          <div className="text-center py-12">
+            <RotateCcw className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">처리할 환불 요청이 없습니다.</p>
+          </div>
+        ) : (
+          visible.map((request) => {
+            const isOpen = OPEN_STATUSES.includes(request.status);
+            return (
+              <div key={request.id} className="p-4 bg-gray-50 rounded-xl space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-gray-900 truncate">{request.worksheetTitle}</h4>
+                      <RefundStatusBadge status={request.status} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      구매자 {request.buyerNickname} | 판매자 {request.sellerNickname}
+                      {' | '}{formatPoints(request.amount)}
+                      {' | '}{formatDate(request.createdAt)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="text-sm space-y-2">
+                  <p className="bg-white rounded-lg px-3 py-2 whitespace-pre-wrap">
+                    <span className="font-medium text-gray-700">
+                      [{REFUND_REASON_LABELS[request.reasonType]}]
+                    </span>{' '}
+                    {request.reason}
+                  </p>
+                  {request.sellerResponse && (
+                    <p className="bg-white rounded-lg px-3 py-2 whitespace-pre-wrap">
+                      <span className="font-medium text-gray-700">판매자 응답:</span>{' '}
+                      {request.sellerResponse}
+                    </p>
+                  )}
+                  {request.adminNote && (
+                    <p className="bg-white rounded-lg px-3 py-2 whitespace-pre-wrap">
+                      <span className="font-medium text-gray-700">관리자 메모:</span>{' '}
+                      {request.adminNote}
+                    </p>
+                  )}
+                </div>
+
+                {isOpen && (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={notes[request.id] || ''}
+                      onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                      placeholder="처리 메모 (당사자에게 전달됩니다)"
+                      className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={resolvingId === request.id}
+                      onClick={() => handleResolve(request, false)}
+                    >
+                      기각
+                    </Button>
+                    <Button
+                      size="sm"
+                      loading={resolvingId === request.id}
+                      onClick={() => handleResolve(request, true)}
+                    >
+                      환불 승인
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RefundManager;
@@ -0,0 +1,197 @@
+import { useState, useEffect } from 'react';
+import { Wallet, Eye } from 'lucide-react';
+import { Button } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  WithdrawalRequest,
+  WithdrawalStatus,
+  WITHDRAWAL_STATUS_LABELS,
+  formatPoints,
+  formatDate,
+} from '@/types';
+
+const STATUS_TABS: WithdrawalStatus[] = ['pending', 'approved', 'paid', 'rejected'];
+
+export function WithdrawalManager() {
+  const toast = useToast();
+  const [status, setStatus] = useState<WithdrawalStatus>('pending');
+  const [requests, setRequests] = useState<WithdrawalRequest[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [accountNumbers, setAccountNumbers] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const fetchRequests = async () => {
+    try {
+      setRequests(await api.admin.getWithdrawals(status));
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Failed to fetch withdrawals:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, [status]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(selectedIds.length === requests.length ? [] : requests.map((r) => r.id));
+  };
+
+  const handleReview = async (action: 'approve' | 'pay' | 'reject') => {
+    if (selectedIds.length === 0) return;
+    if (action === 'reject' && !note.trim()) {
+      toast.error('반려 사유를 입력해주세요.');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { processed } = await api.admin.reviewWithdrawals(selectedIds, action, note);
+      toast.success(`${processed}건을 처리했습니다.`);
+      setNote('');
+      fetchRequests();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleShowAccount = async (request: WithdrawalRequest) => {
+    try {
+      const number = await api.admin.getWithdrawalAccountNumber(request.id);
+      setAccountNumbers((prev) => ({ ...prev, [request.id]: number }));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  const selectedTotal = requests
+    .filter((r) => selectedIds.includes(r.id))
+    .reduce((sum, r) => sum + r.amount, 0);
+  const canAct = status === 'pending' || status === 'approved';
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold text-gray-900">출금 신청</h2>
+        <div className="flex gap-1">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setStatus(tab)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                status === tab ? 'bg-primary-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {WITHDRAWAL_STATUS_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {canAct && requests.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-gray-50 rounded-xl">
+          <label className="flex items-center gap-2 text-sm text-gray-600 mr-2">
+            <input
+              type="checkbox"
+              checked={selectedIds.length === requests.length}
+              onChange={toggleAll}
+              className="rounded border-gray-300"
+            />
+            {selectedIds.length}건 선택 ({formatPoints(selectedTotal)})
+          </label>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="메모 / 반려 사유"
+            className="flex-1 min-w-[12rem] px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedIds.length === 0 || isProcessing}
+            onClick={() => handleReview('reject')}
+          >
+            반려
+          </Button>
+          {status === 'pending' ? (
+            <Button
+              size="sm"
+              loading={isProcessing}
+              disabled={selectedIds.length === 0}
+              onClick={() => handleReview('approve')}
+            >
+              일괄 승인
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              loading={isProcessing}
+              disabled={selectedIds.length === 0}
+              onClick={() => handleReview('pay')}
+            >
+              지급 완료 처리
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {requests.length === 0 ? (
+          <div className="text-center py-12">
+            <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">{WITHDRAWAL_STATUS_LABELS[status]} 상태의 신청이 없습니다.</p>
+          </div>
+        ) : (
+          requests.map((request) => (
+            <div key={request.id} className="flex items-center gap-4 p-4 bg-gray-50 rounded-xl">
+              {canAct && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(request.id)}
+                  onChange={() => toggleSelected(request.id)}
+                  className="rounded border-gray-300"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-semibold text-gray-900">{formatPoints(request.amount)}</h4>
+                  <span className="text-sm text-gray-500">{request.sellerNickname}</span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {request.bankName} {accountNumbers[request.id] || `****${request.accountLast4}`}
+                  {' | '}{request.accountHolder}
+                  {' | '}신청 {formatDate(request.createdAt)}
+                  {request.paidAt && ` | 지급 ${formatDate(request.paidAt)}`}
+                </p>
+                {request.adminNote && (
+                  <p className="text-sm text-gray-600 mt-1">{request.adminNote}</p>
+                )}
+              </div>
+              {request.status === 'approved' && !accountNumbers[request.id] && (
+                <Button size="sm" variant="ghost" onClick={() => handleShowAccount(request)}>
+                  <Eye className="w-4 h-4 mr-1" />
+                  계좌번호
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default WithdrawalManager;
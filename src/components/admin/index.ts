@@ -1 +1,7 @@
 export { QuizGenerator } from './QuizGenerator';
+export { CouponManager } from './CouponManager';
+export { RefundManager } from './RefundManager';
+export { WithdrawalManager } from './WithdrawalManager';
+export { FeeManager } from './FeeManager';
+export { PointLedgerManager } from './PointLedgerManager';
+export { EventCalendar } from './EventCalendar';
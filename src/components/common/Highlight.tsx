@@ -0,0 +1,30 @@
+import { HIGHLIGHT_START, HIGHLIGHT_END } from '@/types';
+
+export interface HighlightProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search snippets returned by search_worksheets.
+// Matches are delimited by private-use characters instead of HTML,
+// so user content is never injected as markup.
+export function Highlight({ text, className = '' }: HighlightProps) {
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <span className={className}>
+      {parts.map((part, i) => {
+        if (i === 0) return part;
+        const [matched, rest = ''] = part.split(HIGHLIGHT_END);
+        return (
+          <span key={i}>
+            <mark className="bg-yellow-100 text-inherit rounded-sm px-0.5">{matched}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+export default Highlight;
@@ -0,0 +1,156 @@
+import { useState, useEffect, type KeyboardEvent } from 'react';
+import { X, Hash } from 'lucide-react';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '@/types';
+
+export interface TagInputProps {
+  label?: string;
+  hint?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Returns existing tags matching the typed prefix
+  fetchSuggestions?: (prefix: string) => Promise<string[]>;
+  placeholder?: string;
+}
+
+export function TagInput({
+  label,
+  hint,
+  value,
+  onChange,
+  fetchSuggestions,
+  placeholder = '태그 입력 후 Enter',
+}: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const query = input.replace(/^#+/, '').trim();
+
+  // Debounced autocomplete
+  useEffect(() => {
+    if (!fetchSuggestions || !query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isMounted = true;
+    const timer = setTimeout(() => {
+      fetchSuggestions(query)
+        .then((tags) => {
+          if (isMounted) {
+            setSuggestions(tags.filter((tag) => !value.includes(tag)));
+            setActiveIndex(-1);
+          }
+        })
+        .catch(() => {
+          if (isMounted) setSuggestions([]);
+        });
+    }, 200);
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timer);
+    };
+  }, [query, value, fetchSuggestions]);
+
+  const addTag = (raw: string) => {
+    const tag = raw.replace(/^#+/, '').replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    if (tag && !value.includes(tag) && value.length < MAX_TAGS) {
+      onChange([...value, tag]);
+    }
+    setInput('');
+    setSuggestions([]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    // Ignore keys while a Korean IME composition is in progress
+    if (e.nativeEvent.isComposing) return;
+
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(activeIndex >= 0 ? suggestions[activeIndex] : input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'Escape') {
+      setSuggestions([]);
+    }
+  };
+
+  const isFull = value.length >= MAX_TAGS;
+
+  return (
+    <div className="w-full">
+      {label && (
+        <label className="block text-sm font-medium text-foreground mb-1.5">
+          {label}
+        </label>
+      )}
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-1.5 min-h-10 w-full rounded-lg border border-input bg-white px-3 py-2 hover:border-gray-400 focus-within:ring-2 focus-within:ring-ring focus-within:border-transparent transition-all duration-200">
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-primary-50 text-primary-700 text-sm"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="text-primary-400 hover:text-primary-700"
+                aria-label={`${tag} 태그 삭제`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setTimeout(() => setSuggestions([]), 150)}
+            placeholder={isFull ? `최대 ${MAX_TAGS}개` : placeholder}
+            disabled={isFull}
+            maxLength={MAX_TAG_LENGTH + 1}
+            className="flex-1 min-w-[120px] text-sm text-foreground placeholder:text-muted-foreground bg-transparent outline-none disabled:cursor-not-allowed"
+          />
+        </div>
+
+        {suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 max-h-48 overflow-y-auto">
+            {suggestions.map((tag, i) => (
+              <li key={tag}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addTag(tag)}
+                  className={`w-full flex items-center gap-1.5 px-3 py-1.5 text-sm text-left ${
+                    i === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <Hash className="w-3.5 h-3.5 text-gray-400" />
+                  {tag}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {hint && (
+        <p className="mt-1.5 text-sm text-muted-foreground">{hint}</p>
+      )}
+    </div>
+  );
+}
+
+export default TagInput;
@@ -5,4 +5,6 @@ export { Rating } from './Rating';
 export { Badge } from './Badge';
 export { Skeleton } from './Skeleton';
 export { Select } from './Select';
+export { Highlight } from './Highlight';
+export { TagInput } from './TagInput';
 export { ToastProvider, useToast } from './Toast';
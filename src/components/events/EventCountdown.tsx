@@ -0,0 +1,44 @@
+import { Timer } from 'lucide-react';
+import { getEventPhase, formatCountdown } from '@/types';
+
+interface EventCountdownProps {
+  event: { status: string; startAt: string | null; endAt: string | null };
+  now: number;
+  className?: string;
+}
+
+const URGENT_MS = 3600000;
+
+// "시작까지 …" before start, "종료까지 …" while running; nothing when there is no deadline
+export function EventCountdown({ event, now, className = '' }: EventCountdownProps) {
+  const phase = getEventPhase(event, now);
+
+  let label: string;
+  let remaining: number;
+  if (phase === 'upcoming' && event.startAt) {
+    label = '시작까지';
+    remaining = new Date(event.startAt).getTime() - now;
+  } else if (phase === 'active' && event.endAt) {
+    label = '종료까지';
+    remaining = new Date(event.endAt).getTime() - now;
+  } else if (phase === 'ended') {
+    return <span className={`inline-flex items-center gap-1 text-gray-400 ${className}`}>종료됨</span>;
+  } else {
+    return null;
+  }
+
+  const color = phase === 'upcoming'
+    ? 'text-blue-600'
+    : remaining < URGENT_MS
+    ? 'text-red-600'
+    : 'text-orange-600';
+
+  return (
+    <span className={`inline-flex items-center gap-1 font-medium tabular-nums ${color} ${className}`}>
+      <Timer className="w-4 h-4" />
+      {label} {formatCountdown(remaining)}
+    </span>
+  );
+}
+
+export default EventCountdown;
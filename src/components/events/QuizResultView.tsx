@@ -0,0 +1,75 @@
+import { CheckCircle, XCircle, Lightbulb } from 'lucide-react';
+import { Badge } from '@/components/common';
+import { QuizResult, QuizQuestionResult, getQuizScoringLabel } from '@/types';
+
+interface QuizResultViewProps {
+  result: QuizResult;
+}
+
+// "2" → "2. 보기 내용" for multiple choice, O/X as-is
+const formatAnswer = (question: QuizQuestionResult, answer: string | null) => {
+  if (!answer) return '미응답';
+  const choice = question.choices?.[answer];
+  return choice ? `${answer}. ${choice}` : answer;
+};
+
+// Graded answers with the correct answer and explanation per question
+export function QuizResultView({ result }: QuizResultViewProps) {
+  return (
+    <div>
+      <div className="text-center mb-6">
+        <p className="text-3xl font-bold text-gray-900">
+          {result.correctCount}
+          <span className="text-lg text-gray-400"> / {result.totalQuestions}</span>
+        </p>
+        <p className="text-muted-foreground mt-1">
+          {result.pointsEarned > 0 ? `${result.pointsEarned}P 획득!` : '아쉽지만 포인트를 받지 못했습니다'}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">{getQuizScoringLabel(result.scoringMode, result.passThreshold)}</p>
+      </div>
+
+      <div className="space-y-4">
+        {result.results.map((question, idx) => (
+          <div
+            key={question.questionId}
+            className={`p-4 rounded-xl border ${
+              question.isCorrect ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
+            }`}
+          >
+            <div className="flex items-start gap-2 mb-3">
+              {question.isCorrect ? (
+                <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+              )}
+              <p className="font-medium text-gray-900 flex-1">
+                {idx + 1}. {question.question}
+              </p>
+              <Badge color={question.isCorrect ? 'green' : 'red'} size="sm">
+                {question.isCorrect ? '정답' : '오답'}
+              </Badge>
+            </div>
+
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm pl-7">
+              <dt className="text-gray-500">내 답</dt>
+              <dd className={question.isCorrect ? 'text-gray-900' : 'text-red-700 line-through'}>
+                {formatAnswer(question, question.answer)}
+              </dd>
+              <dt className="text-gray-500">정답</dt>
+              <dd className="text-gray-900 font-medium">{formatAnswer(question, question.correctAnswer)}</dd>
+            </dl>
+
+            {question.explanation && (
+              <div className="flex gap-2 mt-3 ml-7 p-3 bg-white rounded-lg text-sm text-gray-700">
+                <Lightbulb className="w-4 h-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+                <p>{question.explanation}</p>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default QuizResultView;
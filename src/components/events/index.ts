@@ -0,0 +1,2 @@
+export { QuizResultView } from './QuizResultView';
+export { EventCountdown } from './EventCountdown';
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { FileSpreadsheet, FileText } from 'lucide-react';
+import { Button, Modal } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { DateRangePicker, type DateRange } from '@/components/sales';
+import { ApiError } from '@/services/api';
+import { downloadCsv, type CsvValue } from '@/lib/csv';
+import { downloadXlsx } from '@/lib/xlsx';
+import { kstDateString } from '@/types';
+
+export interface ExportTable {
+  headers: string[];
+  rows: CsvValue[][];
+}
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  // File name without extension; the date range is appended
+  filename: string;
+  load: (range: DateRange) => Promise<ExportTable>;
+}
+
+type ExportFormat = 'xlsx' | 'csv';
+
+const FORMATS: Array<{ id: ExportFormat; label: string; description: string; icon: typeof FileText }> = [
+  { id: 'xlsx', label: 'Excel (XLSX)', description: '엑셀에서 바로 열기', icon: FileSpreadsheet },
+  { id: 'csv', label: 'CSV', description: '다른 프로그램 호환용', icon: FileText },
+];
+
+// Date range + format picker for downloading a list as CSV or XLSX
+export function ExportModal({ isOpen, onClose, title, filename, load }: ExportModalProps) {
+  const toast = useToast();
+  const [range, setRange] = useState<DateRange>({ from: kstDateString(29), to: kstDateString() });
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { headers, rows } = await load(range);
+      if (rows.length === 0) {
+        toast.info('선택한 기간에 내역이 없습니다.');
+        return;
+      }
+
+      const name = `${filename}_${range.from}_${range.to}`;
+      if (format === 'xlsx') {
+        downloadXlsx(`${name}.xlsx`, title, headers, rows);
+      } else {
+        downloadCsv(`${name}.csv`, headers, rows);
+      }
+      toast.success(`${rows.length}건을 내보냈습니다.`);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '내보내기에 실패했습니다.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${title} 내보내기`} size="md">
+      <Modal.Body>
+        <div className="space-y-5">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">기간</p>
+            <DateRangePicker value={range} onChange={setRange} presets={[30, 90, 365]} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">파일 형식</p>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMATS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setFormat(option.id)}
+                  className={`flex items-center gap-3 p-3 rounded-xl border-2 text-left transition-colors ${
+                    format === option.id ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <option.icon className="w-5 h-5 text-gray-500" />
+                  <div>
+                    <p className="font-medium text-gray-900">{option.label}</p>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose}>
+          취소
+        </Button>
+        <Button onClick={handleExport} loading={isExporting}>
+          내보내기
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
+
+export default ExportModal;
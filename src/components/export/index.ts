@@ -0,0 +1,2 @@
+export { ExportModal } from './ExportModal';
+export type { ExportTable } from './ExportModal';
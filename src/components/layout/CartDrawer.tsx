@@ -1,28 +1,108 @@
-import { useState } from 'react';
-import { X, ShoppingCart, Trash2, Loader2, ShoppingBag, ArrowRight } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { X, ShoppingCart, Trash2, Loader2, ShoppingBag, ArrowRight, Heart, Ticket } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { useCartStore, useAuthStore } from '@/store';
+import { useCartStore, useAuthStore, useWishlistStore } from '@/store';
 import { Button, Modal } from '../common';
-import { formatPoints } from '@/types';
+import { formatPoints, type CouponPreview, type WishlistItem } from '@/types';
 import { api, ApiError } from '@/services/api';
 import { useToast } from '../common/Toast';
 
 export function CartDrawer() {
   const navigate = useNavigate();
-  const { isOpen, items, removeItem, clearCart, closeCart } = useCartStore();
+  const { isOpen, items, addItem, removeItem, closeCart } = useCartStore();
   const { user, updatePoints } = useAuthStore();
+  const wishlist = useWishlistStore();
   const toast = useToast();
 
   const [isCheckingOut, setIsCheckingOut] = useState(false);
   const [removingId, setRemovingId] = useState<string | null>(null);
+  const [movingId, setMovingId] = useState<string | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  const [wishlistItems, setWishlistItems] = useState<WishlistItem[]>([]);
+  // Track unchecked items so anything newly added to the cart starts out selected
+  const [deselectedIds, setDeselectedIds] = useState<string[]>([]);
+  // Per-item errors from the last checkout attempt, keyed by worksheetId
+  const [itemErrors, setItemErrors] = useState<Record<string, string>>({});
+  // Idempotency key for the current checkout attempt. It is kept across retries
+  // (e.g. after a dropped connection) so the server can return the original
+  // result instead of charging twice, and reset once a response arrives.
+  const checkoutKeyRef = useRef<string | null>(null);
+  const [couponInput, setCouponInput] = useState('');
+  // Code the buyer applied; the preview is refreshed whenever the selection changes
+  const [appliedCode, setAppliedCode] = useState<string | null>(null);
+  const [couponPreview, setCouponPreview] = useState<CouponPreview | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
+
+  // Refresh saved-for-later items each time the drawer opens
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    let isMounted = true;
+
+    api.wishlist
+      .list()
+      .then((data) => {
+        if (isMounted) setWishlistItems(data);
+      })
+      .catch((error) => console.error('Failed to fetch wishlist:', error));
+
+    return () => { isMounted = false; };
+  }, [isOpen, user]);
 
   // Filter out items where worksheet is null
   const validItems = items.filter(item => item.worksheet !== null);
-  const totalPrice = validItems.reduce((sum, item) => sum + (item.worksheet?.price ?? 0), 0);
+  const selectedItems = validItems.filter(item => !deselectedIds.includes(item.worksheetId));
+  const allSelected = selectedItems.length === validItems.length;
+  const totalPrice = selectedItems.reduce((sum, item) => sum + (item.worksheet?.price ?? 0), 0);
+  const discount = couponPreview?.valid ? couponPreview.discount : 0;
+  const payablePrice = totalPrice - discount;
   const userPoints = user?.points ?? 0;
-  const remainingPoints = userPoints - totalPrice;
+  const remainingPoints = userPoints - payablePrice;
   const canAfford = remainingPoints >= 0;
+  // Don't silently check out at full price when the applied code was rejected
+  const couponBlocked = !!appliedCode && !couponPreview?.valid;
+  const selectedKey = selectedItems.map((item) => item.worksheetId).join(',');
+
+  // Discount depends on which items are selected, so re-check the applied code
+  useEffect(() => {
+    if (!appliedCode || !selectedKey) {
+      setCouponPreview(null);
+      return;
+    }
+    let isMounted = true;
+
+    setIsApplyingCoupon(true);
+    api.coupons
+      .preview(appliedCode, selectedKey.split(','))
+      .then((preview) => {
+        if (isMounted) setCouponPreview(preview);
+      })
+      .catch((error) => {
+        if (isMounted) {
+          setCouponPreview({
+            valid: false,
+            error: error instanceof ApiError ? error.message : '쿠폰을 확인하지 못했습니다.',
+          });
+        }
+      })
+      .finally(() => {
+        if (isMounted) setIsApplyingCoupon(false);
+      });
+
+    return () => { isMounted = false; };
+  }, [appliedCode, selectedKey]);
+
+  const handleApplyCoupon = () => {
+    const code = couponInput.trim().toUpperCase();
+    if (!code) return;
+    checkoutKeyRef.current = null;
+    setAppliedCode(code);
+  };
+
+  const handleClearCoupon = () => {
+    checkoutKeyRef.current = null;
+    setAppliedCode(null);
+    setCouponInput('');
+  };
 
   const handleRemove = async (worksheetId: string) => {
     setRemovingId(worksheetId);
@@ -36,7 +116,60 @@ export function CartDrawer() {
     }
   };
 
+  const handleSaveForLater = async (worksheetId: string) => {
+    setMovingId(worksheetId);
+    try {
+      await api.wishlist.add(worksheetId);
+      await api.cart.remove(worksheetId);
+      removeItem(worksheetId);
+      wishlist.add(worksheetId);
+      setWishlistItems(await api.wishlist.list());
+      toast.success('찜 목록으로 옮겼습니다.');
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '찜 목록으로 옮기지 못했습니다.');
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  const handleMoveToCart = async (worksheetId: string) => {
+    setMovingId(worksheetId);
+    try {
+      const cartItem = await api.wishlist.moveToCart(worksheetId);
+      addItem(cartItem);
+      wishlist.remove(worksheetId);
+      setWishlistItems((prev) => prev.filter((item) => item.worksheetId !== worksheetId));
+      toast.success('장바구니로 옮겼습니다.');
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '장바구니로 옮기지 못했습니다.');
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  // Items already in the cart are not shown twice
+  const savedItems = wishlistItems.filter(
+    (item) => item.worksheet !== null && !items.some((i) => i.worksheetId === item.worksheetId)
+  );
+
+  const toggleSelected = (worksheetId: string) => {
+    checkoutKeyRef.current = null;
+    setDeselectedIds((prev) =>
+      prev.includes(worksheetId) ? prev.filter((id) => id !== worksheetId) : [...prev, worksheetId]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    checkoutKeyRef.current = null;
+    setDeselectedIds(allSelected ? validItems.map((item) => item.worksheetId) : []);
+  };
+
   const handleCheckout = async () => {
+    if (selectedItems.length === 0) {
+      toast.error('구매할 자료를 선택해주세요.');
+      return;
+    }
+
     if (!canAfford) {
       toast.error('포인트가 부족합니다.');
       return;
@@ -50,20 +183,45 @@ export function CartDrawer() {
     setIsCheckingOut(true);
 
     try {
-      const result = await api.purchases.create() as {
-        newBalance: number;
-        totalSpent: number;
-        downloads: Array<{ title: string }>;
-      };
+      if (!checkoutKeyRef.current) {
+        checkoutKeyRef.current = crypto.randomUUID();
+      }
+
+      const result = await api.purchases.create(
+        selectedItems.map((item) => item.worksheetId),
+        checkoutKeyRef.current,
+        couponPreview?.valid ? couponPreview.code : undefined
+      );
+      checkoutKeyRef.current = null;
+      if (result.couponCode) handleClearCoupon();
+
+      if (result.replayed) {
+        toast.info('이미 처리된 결제입니다. 기존 결제 결과를 불러왔습니다.');
+      }
 
       updatePoints(result.newBalance);
-      clearCart();
-      closeCart();
+      result.purchaseIds.forEach((worksheetId) => removeItem(worksheetId));
+      setItemErrors(
+        Object.fromEntries(result.failed.map((failure) => [failure.worksheetId, failure.message]))
+      );
+
+      if (result.failed.length > 0) {
+        // Keep the drawer open so the buyer can see which items failed and why
+        if (result.purchaseIds.length > 0) {
+          toast.info(
+            `${result.purchaseIds.length}개 구매 완료 (${formatPoints(result.totalSpent)} 사용), ${result.failed.length}개는 구매하지 못했습니다.`
+          );
+        } else {
+          toast.error('선택한 자료를 구매하지 못했습니다.');
+        }
+        return;
+      }
 
+      closeCart();
       toast.success(`구매 완료! ${formatPoints(result.totalSpent)} 사용`);
 
-      // Navigate to purchase success or my purchases
-      navigate('/my/purchases');
+      // Show the receipt for this order
+      navigate(result.orderId ? `/receipt/${result.orderId}` : '/my/purchases');
     } catch (error) {
       if (error instanceof ApiError) {
         toast.error(error.message);
@@ -109,7 +267,11 @@ export function CartDrawer() {
         {/* Content */}
         <div className="flex-1 overflow-auto">
           {validItems.length === 0 ? (
-            <div className="flex flex-col items-center justify-center h-full text-gray-500 p-8">
+            <div
+              className={`flex flex-col items-center justify-center text-gray-500 p-8 ${
+                savedItems.length > 0 ? 'py-12' : 'h-full'
+              }`}
+            >
               <div className="w-20 h-20 rounded-full bg-gray-100 flex items-center justify-center mb-5">
                 <ShoppingBag className="w-10 h-10 text-gray-300" />
               </div>
@@ -131,13 +293,33 @@ export function CartDrawer() {
             </div>
           ) : (
             <div className="p-4 space-y-3">
+              <label className="flex items-center gap-2 px-1 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={toggleSelectAll}
+                  className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                전체 선택 ({selectedItems.length}/{validItems.length})
+              </label>
               {validItems.map((item) => {
                 const worksheet = item.worksheet!;
+                const itemError = itemErrors[item.worksheetId];
                 return (
                   <div
                     key={item.id}
-                    className="flex gap-3 p-3 bg-gray-50 rounded-xl hover:bg-gray-100/80 transition-colors group"
+                    className={`flex gap-3 p-3 rounded-xl transition-colors group ${
+                      itemError ? 'bg-red-50 ring-1 ring-red-200' : 'bg-gray-50 hover:bg-gray-100/80'
+                    }`}
                   >
+                    <input
+                      type="checkbox"
+                      checked={!deselectedIds.includes(item.worksheetId)}
+                      onChange={() => toggleSelected(item.worksheetId)}
+                      aria-label={`${worksheet.title} 선택`}
+                      className="w-4 h-4 mt-1 shrink-0 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+
                     {/* Preview Image */}
                     <img
                       src={worksheet.previewImage}
@@ -156,39 +338,152 @@ export function CartDrawer() {
                       <p className="text-primary-600 font-semibold mt-2.5 text-sm">
                         {formatPoints(worksheet.price)}
                       </p>
+                      {itemError && (
+                        <p className="text-xs text-destructive mt-1">{itemError}</p>
+                      )}
                     </div>
 
-                    {/* Remove Button */}
-                    <button
-                      onClick={() => handleRemove(item.worksheetId)}
-                      disabled={removingId === item.worksheetId}
-                      className="p-2 h-fit rounded-lg hover:bg-gray-200 text-gray-400 hover:text-red-500
-                               transition-colors disabled:opacity-50 opacity-0 group-hover:opacity-100"
-                    >
-                      {removingId === item.worksheetId ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Trash2 className="w-4 h-4" />
-                      )}
-                    </button>
+                    {/* Actions */}
+                    <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => handleRemove(item.worksheetId)}
+                        disabled={removingId === item.worksheetId}
+                        className="p-2 h-fit rounded-lg hover:bg-gray-200 text-gray-400 hover:text-red-500
+                                 transition-colors disabled:opacity-50"
+                      >
+                        {removingId === item.worksheetId ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="w-4 h-4" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleSaveForLater(item.worksheetId)}
+                        disabled={movingId === item.worksheetId}
+                        title="나중에 구매"
+                        className="p-2 h-fit rounded-lg hover:bg-gray-200 text-gray-400 hover:text-red-500
+                                 transition-colors disabled:opacity-50"
+                      >
+                        {movingId === item.worksheetId ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Heart className="w-4 h-4" />
+                        )}
+                      </button>
+                    </div>
                   </div>
                 );
               })}
             </div>
           )}
+
+          {/* Saved for later */}
+          {savedItems.length > 0 && (
+            <div className="px-4 pb-4">
+              <h3 className="flex items-center gap-1.5 text-sm font-semibold text-gray-700 mb-3 pt-4 border-t border-gray-100">
+                <Heart className="w-4 h-4 text-red-500 fill-red-500" />
+                찜한 자료 ({savedItems.length})
+              </h3>
+              <div className="space-y-2">
+                {savedItems.map((item) => {
+                  const worksheet = item.worksheet!;
+                  const priceDropped = worksheet.price < item.priceAtAdd;
+                  return (
+                    <div key={item.id} className="flex items-center gap-3 p-2.5 rounded-xl border border-gray-100">
+                      <img
+                        src={worksheet.previewImage}
+                        alt={worksheet.title}
+                        className="w-10 h-12 object-cover rounded-md bg-gray-200"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{worksheet.title}</p>
+                        <p className="text-xs mt-0.5">
+                          <span className="font-semibold text-primary-600">{formatPoints(worksheet.price)}</span>
+                          {priceDropped && (
+                            <span className="ml-1.5 text-gray-400 line-through">
+                              {formatPoints(item.priceAtAdd)}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      <Button
+                        size="xs"
+                        variant="outline"
+                        onClick={() => handleMoveToCart(item.worksheetId)}
+                        loading={movingId === item.worksheetId}
+                      >
+                        담기
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
         {validItems.length > 0 && (
           <div className="border-t border-gray-100 p-5 space-y-4 bg-gradient-to-t from-gray-50 to-white">
+            {/* Coupon */}
+            <div>
+              {appliedCode ? (
+                <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-gray-50 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Ticket className="w-4 h-4 text-primary-500 shrink-0" />
+                    <span className="font-medium text-gray-900">{appliedCode}</span>
+                    {isApplyingCoupon ? (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />
+                    ) : couponPreview && !couponPreview.valid ? (
+                      <span className="text-xs text-destructive truncate">{couponPreview.error}</span>
+                    ) : couponPreview?.valid && couponPreview.description ? (
+                      <span className="text-xs text-muted-foreground truncate">{couponPreview.description}</span>
+                    ) : null}
+                  </div>
+                  <button
+                    onClick={handleClearCoupon}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="쿠폰 취소"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={couponInput}
+                    onChange={(e) => setCouponInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                    placeholder="쿠폰 코드"
+                    className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-200 rounded-lg uppercase
+                             focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <Button size="sm" variant="outline" onClick={handleApplyCoupon} disabled={!couponInput.trim()}>
+                    적용
+                  </Button>
+                </div>
+              )}
+            </div>
+
             {/* Summary */}
             <div className="space-y-2.5 text-sm">
               <div className="flex justify-between items-center">
-                <span className="text-muted-foreground">총 결제 금액</span>
+                <span className="text-muted-foreground">
+                  선택 상품 금액 ({selectedItems.length}개)
+                </span>
                 <span className="font-semibold text-gray-900">
                   {formatPoints(totalPrice)}
                 </span>
               </div>
+              {discount > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">쿠폰 할인</span>
+                  <span className="font-semibold text-red-500">
+                    -{formatPoints(discount)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-muted-foreground">보유 포인트</span>
                 <span className="font-semibold text-gray-900">
@@ -213,14 +508,16 @@ export function CartDrawer() {
             <Button
               fullWidth
               size="lg"
-              disabled={!canAfford || isCheckingOut}
+              disabled={!canAfford || isCheckingOut || isApplyingCoupon || couponBlocked || selectedItems.length === 0}
               loading={isCheckingOut}
               onClick={handleCheckout}
               className="rounded-xl"
             >
-              {canAfford
-                ? `${formatPoints(totalPrice)} 결제하기`
-                : '포인트 부족'}
+              {selectedItems.length === 0
+                ? '구매할 자료를 선택하세요'
+                : canAfford
+                  ? `${formatPoints(payablePrice)} 결제하기`
+                  : '포인트 부족'}
             </Button>
           </div>
         )}
@@ -240,12 +537,12 @@ export function CartDrawer() {
             </div>
             <p className="text-gray-700">
               <span className="font-bold text-primary-600 text-lg">
-                {formatPoints(totalPrice)}
+                {formatPoints(payablePrice)}
               </span>
               <span className="text-gray-500 text-sm ml-1">를 사용하여</span>
             </p>
             <p className="text-gray-900 font-medium mt-1">
-              {validItems.length}개의 워크시트를 구매하시겠습니까?
+              {selectedItems.length}개의 워크시트를 구매하시겠습니까?
             </p>
             <p className="text-sm text-muted-foreground mt-3 px-4 py-2 bg-gray-50 rounded-lg inline-block">
               구매 후 잔여 포인트: <span className="font-medium text-secondary-600">{formatPoints(remainingPoints)}</span>
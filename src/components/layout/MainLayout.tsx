@@ -1,8 +1,27 @@
+import { useEffect } from 'react';
 import { Outlet } from 'react-router-dom';
 import { Header } from './Header';
 import { CartDrawer } from './CartDrawer';
+import { useAuthStore, useWishlistStore } from '@/store';
+import { api } from '@/services/api';
 
 export function MainLayout() {
+  const { isAuthenticated } = useAuthStore();
+  const { setIds, clear } = useWishlistStore();
+
+  // Load wishlisted IDs once per session so hearts render correctly on every card
+  useEffect(() => {
+    if (!isAuthenticated) {
+      clear();
+      return;
+    }
+
+    api.wishlist
+      .list()
+      .then((items) => setIds(items.map((item) => item.worksheetId)))
+      .catch((error) => console.error('Failed to fetch wishlist:', error));
+  }, [isAuthenticated, setIds, clear]);
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <Header />
@@ -1,11 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { Bell, CheckCheck, Trash2, X, Trophy, Mail, FileEdit } from 'lucide-react';
+import { Bell, CheckCheck, Trash2, X, Trophy, Mail, FileEdit, FilePlus, UserMinus, TrendingDown, Gift, RotateCcw, Wallet } from 'lucide-react';
 import { api, ApiError } from '@/services/api';
 import { useToast } from '@/components/common/Toast';
 import { useAuthStore } from '@/store';
 
-type NotificationType = 'worksheet_update' | 'event' | 'message';
+type NotificationType = 'worksheet_update' | 'new_worksheet' | 'price_drop' | 'gift' | 'refund' | 'withdrawal' | 'event' | 'message';
 
 type Notification = {
   id: string;
@@ -17,10 +17,17 @@ type Notification = {
   createdAt: string;
   // Original data for different types
   worksheetId?: string | null;
+  sellerId?: string | null;
   eventId?: string;
   messageId?: string;
 };
 
+// Rows from the notifications table (as opposed to messages/events merged in here)
+const STORED_TYPES: NotificationType[] = ['worksheet_update', 'new_worksheet', 'price_drop', 'gift', 'refund', 'withdrawal'];
+
+const isStoredNotification = (notification: Notification) =>
+  STORED_TYPES.includes(notification.type);
+
 export function NotificationDropdown() {
   const navigate = useNavigate();
   const toast = useToast();
@@ -84,18 +91,19 @@ export function NotificationDropdown() {
     try {
       const allNotifications: Notification[] = [];
 
-      // 1. Worksheet update notifications
+      // 1. Worksheet notifications (updates, new uploads from followed sellers, wishlist price drops, gifts, refunds, withdrawals)
       try {
         const worksheetNotifs = await api.notifications.list();
         allNotifications.push(...worksheetNotifs.map(n => ({
           id: `ws_${n.id}`,
-          type: 'worksheet_update' as NotificationType,
+          type: (STORED_TYPES.includes(n.type as NotificationType) ? n.type : 'worksheet_update') as NotificationType,
           title: n.title,
           message: n.message,
           linkTo: n.worksheetId ? `/worksheet/${n.worksheetId}` : undefined,
           isRead: n.isRead,
           createdAt: n.createdAt,
           worksheetId: n.worksheetId,
+          sellerId: n.sellerId,
         })));
       } catch { /* ignore */ }
 
@@ -105,7 +113,9 @@ export function NotificationDropdown() {
         allNotifications.push(...messages.slice(0, 10).map(m => ({
           id: `msg_${m.id}`,
           type: 'message' as NotificationType,
-          title: m.messageType === 'notice' ? '📢 ' + m.title : '💬 ' + m.title,
+          title: m.messageType === 'notice'
+            ? '📢 ' + m.title
+            : m.messageType === 'gift' ? m.title : '💬 ' + m.title,
           message: m.content.slice(0, 100) + (m.content.length > 100 ? '...' : ''),
           linkTo: '/inbox',
           isRead: m.isRead,
@@ -154,7 +164,7 @@ export function NotificationDropdown() {
     // Mark as read based on type
     if (!notification.isRead) {
       try {
-        if (notification.type === 'worksheet_update' && notification.worksheetId) {
+        if (isStoredNotification(notification) && notification.worksheetId) {
           const originalId = notification.id.replace('ws_', '');
           await api.notifications.markAsRead(originalId);
         } else if (notification.type === 'message' && notification.messageId) {
@@ -202,7 +212,7 @@ export function NotificationDropdown() {
   const handleDelete = async (e: React.MouseEvent, notification: Notification) => {
     e.stopPropagation();
     try {
-      if (notification.type === 'worksheet_update') {
+      if (isStoredNotification(notification)) {
         const originalId = notification.id.replace('ws_', '');
         await api.notifications.delete(originalId);
       }
@@ -219,8 +229,35 @@ export function NotificationDropdown() {
     }
   };
 
+  const handleUnfollow = async (e: React.MouseEvent, notification: Notification) => {
+    e.stopPropagation();
+    if (!notification.sellerId) return;
+    try {
+      await api.follows.unfollow(notification.sellerId);
+      // Hide the unfollow action on every notification from this seller
+      setNotifications(prev =>
+        prev.map(n => n.sellerId === notification.sellerId ? { ...n, sellerId: null } : n)
+      );
+      toast.success('팔로우를 취소했습니다. 더 이상 새 자료 알림을 받지 않습니다.');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
   const getIcon = (type: NotificationType) => {
     switch (type) {
+      case 'new_worksheet':
+        return <FilePlus className="w-4 h-4 text-secondary-500" />;
+      case 'price_drop':
+        return <TrendingDown className="w-4 h-4 text-red-500" />;
+      case 'gift':
+        return <Gift className="w-4 h-4 text-pink-500" />;
+      case 'refund':
+        return <RotateCcw className="w-4 h-4 text-orange-500" />;
+      case 'withdrawal':
+        return <Wallet className="w-4 h-4 text-secondary-500" />;
       case 'event':
         return <Trophy className="w-4 h-4 text-yellow-500" />;
       case 'message':
@@ -333,11 +370,22 @@ export function NotificationDropdown() {
                           <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
                             {notification.message}
                           </p>
-                          <p className="text-xs text-gray-400 mt-1.5">
-                            {formatTimeAgo(notification.createdAt)}
-                          </p>
+                          <div className="flex items-center gap-2 mt-1.5">
+                            <p className="text-xs text-gray-400">
+                              {formatTimeAgo(notification.createdAt)}
+                            </p>
+                            {notification.type === 'new_worksheet' && notification.sellerId && (
+                              <button
+                                onClick={(e) => handleUnfollow(e, notification)}
+                                className="text-xs text-gray-400 hover:text-red-500 flex items-center gap-0.5 transition-colors"
+                              >
+                                <UserMinus className="w-3 h-3" />
+                                언팔로우
+                              </button>
+                            )}
+                          </div>
                         </div>
-                        {notification.type === 'worksheet_update' && (
+                        {isStoredNotification(notification) && (
                           <button
                             onClick={(e) => handleDelete(e, notification)}
                             className="shrink-0 p-1.5 rounded-lg hover:bg-gray-200 text-gray-400 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"
@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { X, Trophy, Bell, BellOff } from 'lucide-react';
 import { Button } from '@/components/common';
+import { EventCountdown } from '@/components/events';
 import { useAuthStore } from '@/store';
+import { useNow } from '@/hooks/useNow';
 import { api } from '@/services/api';
+import { getEventPhase } from '@/types';
 
 const DISMISS_KEY = 'event_notification_dismissed';
 const DISMISS_UNTIL_KEY = 'event_notification_dismissed_until';
@@ -12,6 +15,9 @@ interface ActiveEvent {
   id: string;
   title: string;
   type: string;
+  status: string;
+  startAt: string | null;
+  endAt: string | null;
   pointsReward: number;
 }
 
@@ -20,6 +26,9 @@ export function EventNotification() {
   const [events, setEvents] = useState<ActiveEvent[]>([]);
   const [isVisible, setIsVisible] = useState(false);
   const [isDismissedForever, setIsDismissedForever] = useState(false);
+  const now = useNow(isVisible ? 1000 : null);
+  // Drop events that end (or open up) while the popup is on screen
+  const visibleEvents = events.filter((e) => getEventPhase(e, now) !== 'ended');
 
   useEffect(() => {
     if (!isAuthenticated) return;
@@ -45,18 +54,29 @@ export function EventNotification() {
       sessionStorage.setItem('session_start', Date.now().toString());
     }
 
-    // Fetch active events
+    // Fetch active and upcoming events
     fetchEvents();
   }, [isAuthenticated]);
 
   const fetchEvents = async () => {
     try {
-      const result = await api.events.list('active');
+      const result = await api.events.list();
+
+      // Running events first, then the ones opening soonest
+      const candidates = result
+        .map((event) => ({ event, phase: getEventPhase(event) }))
+        .filter(({ phase }) => phase === 'active' || phase === 'upcoming')
+        .sort((a, b) =>
+          a.phase === b.phase
+            ? (a.event.startAt ?? '').localeCompare(b.event.startAt ?? '')
+            : a.phase === 'active' ? -1 : 1
+        )
+        .map(({ event }) => event);
 
       // Filter events user hasn't participated in
       const availableEvents: ActiveEvent[] = [];
 
-      for (const event of result.slice(0, 3)) { // Check up to 3 events
+      for (const event of candidates.slice(0, 3)) { // Check up to 3 events
         try {
           const detail = await api.events.get(event.id);
           if (!detail.participated) {
@@ -64,6 +84,9 @@ export function EventNotification() {
               id: event.id,
               title: event.title,
               type: event.type,
+              status: event.status,
+              startAt: event.startAt,
+              endAt: event.endAt,
               pointsReward: event.pointsReward,
             });
           }
@@ -116,7 +139,7 @@ export function EventNotification() {
     );
   }
 
-  if (!isVisible || events.length === 0) return null;
+  if (!isVisible || visibleEvents.length === 0) return null;
 
   return (
     <div className="fixed bottom-4 right-4 z-50 max-w-sm w-full mx-4 animate-slide-up">
@@ -137,7 +160,7 @@ export function EventNotification() {
 
         {/* Events */}
         <div className="p-4 space-y-3">
-          {events.map((event) => (
+          {visibleEvents.map((event) => (
             <Link
               key={event.id}
               to="/events"
@@ -158,6 +181,7 @@ export function EventNotification() {
                 <p className="text-sm text-primary-600 font-medium">
                   {event.pointsReward}P 획득 기회!
                 </p>
+                <EventCountdown event={event} now={now} className="text-xs" />
               </div>
             </Link>
           ))}
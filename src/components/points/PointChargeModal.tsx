@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { Coins, CheckCircle } from 'lucide-react';
+import { Button, Modal, Skeleton } from '@/components/common';
+import { useAuthStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import { getPaymentProvider, waitForPaymentResult } from '@/services/payment';
+import { formatPoints, type PointPackage } from '@/types';
+
+interface PointChargeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after points are credited so the caller can refresh its history
+  onCharged: () => void;
+}
+
+const formatWon = (amount: number) => `${amount.toLocaleString()}원`;
+
+export function PointChargeModal({ isOpen, onClose, onCharged }: PointChargeModalProps) {
+  const toast = useToast();
+  const { updatePoints } = useAuthStore();
+  const provider = getPaymentProvider();
+
+  const [packages, setPackages] = useState<PointPackage[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [testOutcome, setTestOutcome] = useState<'approve' | 'decline'>('approve');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPaying, setIsPaying] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let isMounted = true;
+
+    const fetchPackages = async () => {
+      setIsLoading(true);
+      try {
+        const data = await api.points.packages();
+        if (isMounted) {
+          setPackages(data);
+          setSelectedId((current) => current ?? data[0]?.id ?? null);
+        }
+      } catch (error) {
+        console.error('Failed to fetch point packages:', error);
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    fetchPackages();
+
+    return () => { isMounted = false; };
+  }, [isOpen]);
+
+  const selected = packages.find((p) => p.id === selectedId) || null;
+
+  const handleCharge = async () => {
+    if (!selected || !provider) return;
+
+    setIsPaying(true);
+    try {
+      const payment = await api.points.createPayment(selected.id, provider.id);
+      const result = await provider.requestPayment({
+        paymentId: payment.paymentId,
+        amount: payment.amount,
+        orderName: payment.orderName,
+        testOutcome: provider.isTest ? testOutcome : undefined,
+      });
+
+      if (result.status === 'cancelled') {
+        toast.info('결제를 취소했습니다.');
+        return;
+      }
+
+      if (result.status === 'declined') {
+        toast.error(`결제에 실패했습니다. ${result.reason}`);
+        return;
+      }
+
+      const confirmed = await waitForPaymentResult(payment.paymentId);
+
+      if (confirmed.status === 'paid') {
+        const { balance } = await api.points.getBalance();
+        updatePoints(balance);
+        toast.success(`${formatPoints(confirmed.points + confirmed.bonusPoints)} 충전되었습니다!`);
+        onCharged();
+        onClose();
+      } else if (confirmed.status === 'failed') {
+        toast.error(confirmed.failureReason || '결제에 실패했습니다.');
+      } else {
+        toast.info('결제 확인이 지연되고 있습니다. 잠시 후 포인트 내역을 확인해주세요.');
+        onClose();
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('결제 중 오류가 발생했습니다.');
+      }
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={isPaying ? () => {} : onClose} title="포인트 충전" size="md">
+      <Modal.Body>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton.Card key={i} className="h-16" />
+            ))}
+          </div>
+        ) : packages.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">현재 판매 중인 충전 상품이 없습니다.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {packages.map((pkg) => {
+                const isSelected = pkg.id === selectedId;
+                return (
+                  <button
+                    key={pkg.id}
+                    type="button"
+                    onClick={() => setSelectedId(pkg.id)}
+                    className={`w-full flex items-center justify-between p-4 rounded-xl border transition-colors ${
+                      isSelected
+                        ? 'border-primary-500 bg-primary-50'
+                        : 'border-gray-200 hover:border-primary-200'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {isSelected ? (
+                        <CheckCircle className="w-5 h-5 text-primary-600" />
+                      ) : (
+                        <Coins className="w-5 h-5 text-gray-400" />
+                      )}
+                      <div className="text-left">
+                        <p className="font-semibold text-gray-900">{formatPoints(pkg.points)}</p>
+                        {pkg.bonusPoints > 0 && (
+                          <p className="text-sm text-secondary-600">+{formatPoints(pkg.bonusPoints)} 보너스</p>
+                        )}
+                      </div>
+                    </div>
+                    <span className="font-semibold text-gray-900">{formatWon(pkg.price)}</span>
+                  </button>
+                );
+              })}
+            </div>
+
+            {!provider && (
+              <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+                결제 수단이 준비되지 않아 지금은 충전할 수 없습니다.
+              </div>
+            )}
+
+            {provider?.isTest && (
+              <div className="p-3 bg-yellow-50 rounded-lg text-sm">
+                <p className="font-medium text-yellow-800 mb-2">
+                  {provider.name} 모드 - 실제 결제가 이루어지지 않습니다
+                </p>
+                <div className="flex gap-4 text-yellow-900">
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="radio"
+                      checked={testOutcome === 'approve'}
+                      onChange={() => setTestOutcome('approve')}
+                    />
+                    승인
+                  </label>
+                  <label className="flex items-center gap-1.5">
+                    <input
+                      type="radio"
+                      checked={testOutcome === 'decline'}
+                      onChange={() => setTestOutcome('decline')}
+                    />
+                    거절
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose} disabled={isPaying}>
+          취소
+        </Button>
+        <Button onClick={handleCharge} loading={isPaying} disabled={!selected || !provider}>
+          {selected ? `${formatWon(selected.price)} 결제하기` : '결제하기'}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
+
+export default PointChargeModal;
@@ -0,0 +1 @@
+export { PointChargeModal } from './PointChargeModal';
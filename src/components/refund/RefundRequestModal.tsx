@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { Button, Modal } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  REFUND_REASON_LABELS,
+  formatPoints,
+  type RefundReasonType,
+} from '@/types';
+
+interface RefundRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called after the request is created so the caller can refresh its list
+  onRequested: () => void;
+  purchase: { id: string; title: string; price: number; hasFeedback: boolean } | null;
+}
+
+export function RefundRequestModal({ isOpen, onClose, onRequested, purchase }: RefundRequestModalProps) {
+  const toast = useToast();
+  const [reasonType, setReasonType] = useState<RefundReasonType>('broken_file');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReasonType('broken_file');
+      setReason('');
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async () => {
+    if (!purchase) return;
+
+    setIsSubmitting(true);
+    try {
+      await api.refunds.request(purchase.id, reasonType, reason);
+      toast.success('환불을 요청했습니다. 판매자의 응답을 기다려주세요.');
+      onRequested();
+      onClose();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('환불 요청에 실패했습니다.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="환불 요청" size="md">
+      <Modal.Body>
+        {purchase && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-sm text-gray-900 line-clamp-1">{purchase.title}</span>
+              <span className="font-semibold text-primary-600 shrink-0 ml-2">
+                {formatPoints(purchase.price)}
+              </span>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">사유</label>
+              <select
+                value={reasonType}
+                onChange={(e) => setReasonType(e.target.value as RefundReasonType)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {(Object.keys(REFUND_REASON_LABELS) as RefundReasonType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {REFUND_REASON_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">상세 내용</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={4}
+                maxLength={1000}
+                placeholder="어떤 문제가 있는지 구체적으로 적어주세요 (10자 이상)"
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+              />
+            </div>
+
+            <ul className="text-xs text-gray-500 space-y-1 list-disc list-inside">
+              <li>판매자가 수락하면 바로 환불되고 다운로드 권한이 회수됩니다.</li>
+              <li>판매자가 거절하면 관리자에게 이의를 제기할 수 있습니다.</li>
+              {purchase.hasFeedback && (
+                <li>후기 작성 보상(30P)은 환불 금액에서 차감됩니다.</li>
+              )}
+            </ul>
+          </div>
+        )}
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose}>
+          취소
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          loading={isSubmitting}
+          disabled={reason.trim().length < 10}
+        >
+          환불 요청
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
+
+export default RefundRequestModal;
@@ -0,0 +1,21 @@
+import { Badge } from '@/components/common';
+import { REFUND_STATUS_LABELS, type RefundStatus } from '@/types';
+
+const STATUS_COLORS: Record<RefundStatus, 'gray' | 'yellow' | 'red' | 'green' | 'purple'> = {
+  pending: 'yellow',
+  seller_rejected: 'red',
+  disputed: 'purple',
+  refunded: 'green',
+  rejected: 'gray',
+  cancelled: 'gray',
+};
+
+export function RefundStatusBadge({ status }: { status: RefundStatus }) {
+  return (
+    <Badge color={STATUS_COLORS[status]} size="sm">
+      {REFUND_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+export default RefundStatusBadge;
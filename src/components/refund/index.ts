@@ -0,0 +1,2 @@
+export { RefundStatusBadge } from './RefundStatusBadge';
+export { RefundRequestModal } from './RefundRequestModal';
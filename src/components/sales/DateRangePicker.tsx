@@ -0,0 +1,59 @@
+import { kstDateString } from '@/types';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  presets?: number[];
+}
+
+const inputClass =
+  'px-2 py-1.5 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+// Recent N days presets plus free from/to inputs (KST dates, inclusive)
+export function DateRangePicker({ value, onChange, presets = [7, 30, 90] }: DateRangePickerProps) {
+  const today = kstDateString();
+
+  const isPresetActive = (days: number) =>
+    value.to === today && value.from === kstDateString(days - 1);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {presets.map((days) => (
+        <button
+          key={days}
+          onClick={() => onChange({ from: kstDateString(days - 1), to: today })}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            isPresetActive(days) ? 'bg-primary-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+          }`}
+        >
+          최근 {days}일
+        </button>
+      ))}
+      <div className="flex items-center gap-1 ml-auto text-sm">
+        <input
+          type="date"
+          value={value.from}
+          max={value.to}
+          onChange={(e) => e.target.value && onChange({ ...value, from: e.target.value })}
+          className={inputClass}
+        />
+        <span className="text-gray-400">~</span>
+        <input
+          type="date"
+          value={value.to}
+          min={value.from}
+          max={today}
+          onChange={(e) => e.target.value && onChange({ ...value, to: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default DateRangePicker;
@@ -0,0 +1,66 @@
+import { DailyEarnings, formatPoints } from '@/types';
+
+interface RevenueChartProps {
+  daily: DailyEarnings[];
+}
+
+const formatDay = (date: string) => {
+  const [, month, day] = date.split('-');
+  return `${Number(month)}/${Number(day)}`;
+};
+
+// Daily revenue bars: net earnings stacked under the platform fee
+export function RevenueChart({ daily }: RevenueChartProps) {
+  const max = Math.max(...daily.map((d) => d.grossEarnings), 0);
+
+  if (daily.length === 0 || max === 0) {
+    return (
+      <div className="h-48 flex items-center justify-center text-sm text-gray-500">
+        선택한 기간에 판매 내역이 없습니다
+      </div>
+    );
+  }
+
+  const labelEvery = Math.ceil(daily.length / 7);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+        <span>최고 {formatPoints(max)}</span>
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-secondary-500" />
+            순수익
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm bg-red-200" />
+            수수료
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-px h-48 border-b border-gray-200">
+        {daily.map((day) => (
+          <div
+            key={day.date}
+            className="flex-1 h-full flex flex-col justify-end hover:opacity-80"
+            title={`${day.date} · ${day.salesCount}회 · 매출 ${formatPoints(day.grossEarnings)} · 순수익 ${formatPoints(day.netEarnings)}`}
+          >
+            <div className="bg-red-200" style={{ height: `${(day.platformFees / max) * 100}%` }} />
+            <div className="bg-secondary-500" style={{ height: `${(day.netEarnings / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-px mt-1">
+        {daily.map((day, index) => (
+          <div key={day.date} className="flex-1 text-[10px] text-gray-400 text-center overflow-visible whitespace-nowrap">
+            {index % labelEvery === 0 ? formatDay(day.date) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default RevenueChart;
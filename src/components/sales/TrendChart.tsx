@@ -0,0 +1,103 @@
+export interface TrendSeries {
+  label: string;
+  // SVG stroke color
+  color: string;
+  // One value per date; null leaves a gap in the line
+  values: Array<number | null>;
+}
+
+interface TrendChartProps {
+  dates: string[];
+  series: TrendSeries[];
+  // Fixed y-axis range, e.g. [1, 5] for ratings; otherwise 0..max
+  domain?: [number, number];
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+const formatDay = (date: string) => {
+  const [, month, day] = date.split('-');
+  return `${Number(month)}/${Number(day)}`;
+};
+
+// Multi-series line chart drawn with plain SVG
+export function TrendChart({ dates, series, domain, formatValue = String }: TrendChartProps) {
+  const allValues = series.flatMap((s) => s.values.filter((v): v is number => v !== null));
+  const [min, max] = domain ?? [0, Math.max(...allValues, 0)];
+
+  if (dates.length === 0 || allValues.length === 0 || max === min) {
+    return (
+      <div className="h-40 flex items-center justify-center text-sm text-gray-500">
+        선택한 기간에 데이터가 없습니다
+      </div>
+    );
+  }
+
+  const x = (index: number) => (dates.length === 1 ? WIDTH / 2 : (index / (dates.length - 1)) * WIDTH);
+  const y = (value: number) => HEIGHT - ((value - min) / (max - min)) * HEIGHT;
+
+  // Split each series into segments at null values
+  const toPaths = (values: Array<number | null>) => {
+    const paths: string[] = [];
+    let current = '';
+    values.forEach((value, index) => {
+      if (value === null) {
+        if (current) paths.push(current);
+        current = '';
+        return;
+      }
+      current += `${current ? 'L' : 'M'}${x(index).toFixed(1)},${y(value).toFixed(1)}`;
+    });
+    if (current) paths.push(current);
+    return paths;
+  };
+
+  const labelEvery = Math.ceil(dates.length / 7);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+        <span>최고 {formatValue(max)}</span>
+        <div className="flex items-center gap-3">
+          {series.map((s) => (
+            <span key={s.label} className="flex items-center gap-1">
+              <span className="w-2.5 h-0.5" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-40 border-b border-gray-200 overflow-visible"
+      >
+        {series.map((s) =>
+          toPaths(s.values).map((d, index) => (
+            <path
+              key={`${s.label}-${index}`}
+              d={d}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))
+        )}
+      </svg>
+
+      <div className="flex justify-between mt-1 text-[10px] text-gray-400">
+        {dates
+          .filter((_, index) => index % labelEvery === 0)
+          .map((date) => (
+            <span key={date}>{formatDay(date)}</span>
+          ))}
+      </div>
+    </div>
+  );
+}
+
+export default TrendChart;
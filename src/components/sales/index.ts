@@ -0,0 +1,5 @@
+export { RevenueChart } from './RevenueChart';
+export { TrendChart } from './TrendChart';
+export type { TrendSeries } from './TrendChart';
+export { DateRangePicker } from './DateRangePicker';
+export type { DateRange } from './DateRangePicker';
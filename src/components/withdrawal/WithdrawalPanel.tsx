@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react';
+import { Landmark, Wallet } from 'lucide-react';
+import { Button, Badge, Modal } from '@/components/common';
+import { useAuthStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  PayoutAccount,
+  WithdrawalRequest,
+  WithdrawalSummary,
+  WITHDRAWAL_STATUS_LABELS,
+  formatPoints,
+  formatDate,
+} from '@/types';
+
+const STATUS_COLORS: Record<WithdrawalRequest['status'], 'yellow' | 'blue' | 'green' | 'red'> = {
+  pending: 'yellow',
+  approved: 'blue',
+  paid: 'green',
+  rejected: 'red',
+};
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+// Seller earnings withdrawal: payout account, request form and history
+export function WithdrawalPanel() {
+  const toast = useToast();
+  const { updatePoints } = useAuthStore();
+
+  const [summary, setSummary] = useState<WithdrawalSummary | null>(null);
+  const [account, setAccount] = useState<PayoutAccount | null>(null);
+  const [requests, setRequests] = useState<WithdrawalRequest[]>([]);
+  const [amount, setAmount] = useState('');
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [showAccountModal, setShowAccountModal] = useState(false);
+  const [accountForm, setAccountForm] = useState({ bankName: '', accountHolder: '', accountNumber: '' });
+  const [isSavingAccount, setIsSavingAccount] = useState(false);
+
+  const fetchData = async () => {
+    try {
+      const [summaryData, accountData, requestsData] = await Promise.all([
+        api.withdrawals.summary(),
+        api.withdrawals.getAccount(),
+        api.withdrawals.mine(),
+      ]);
+      setSummary(summaryData);
+      setAccount(accountData);
+      setRequests(requestsData);
+    } catch (error) {
+      console.error('Failed to fetch withdrawals:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const hasOpenRequest = requests.some((r) => r.status === 'pending' || r.status === 'approved');
+  const parsedAmount = Number(amount);
+
+  const openAccountModal = () => {
+    setAccountForm({
+      bankName: account?.bankName || '',
+      accountHolder: account?.accountHolder || '',
+      accountNumber: '',
+    });
+    setShowAccountModal(true);
+  };
+
+  const handleSaveAccount = async () => {
+    setIsSavingAccount(true);
+    try {
+      await api.withdrawals.saveAccount(accountForm);
+      toast.success('정산 계좌를 저장했습니다.');
+      setShowAccountModal(false);
+      setAccount(await api.withdrawals.getAccount());
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '계좌 저장에 실패했습니다.');
+    } finally {
+      setIsSavingAccount(false);
+    }
+  };
+
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    try {
+      await api.withdrawals.request(parsedAmount);
+      const { balance } = await api.points.getBalance();
+      updatePoints(balance);
+      toast.success('출금을 신청했습니다. 관리자 확인 후 지급됩니다.');
+      setAmount('');
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '출금 신청에 실패했습니다.');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  if (!summary) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b bg-gray-50">
+        <Wallet className="w-4 h-4 text-gray-500" />
+        <h3 className="font-medium text-gray-900">수익 출금</h3>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">출금 가능</p>
+            <p className="text-xl font-bold text-secondary-600">{formatPoints(summary.withdrawable)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">지급 대기</p>
+            <p className="text-xl font-bold text-gray-900">{formatPoints(summary.pendingAmount)}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center gap-2 text-sm">
+            <Landmark className="w-4 h-4 text-gray-400" />
+            {account ? (
+              <span className="text-gray-700">
+                {account.bankName} ****{account.accountLast4} ({account.accountHolder})
+              </span>
+            ) : (
+              <span className="text-gray-500">등록된 정산 계좌가 없습니다</span>
+            )}
+          </div>
+          <Button size="sm" variant="outline" onClick={openAccountModal}>
+            {account ? '변경' : '등록'}
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={summary.minimum}
+            step={1000}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={`최소 ${formatPoints(summary.minimum)}`}
+            disabled={!account || hasOpenRequest}
+            className={inputClass}
+          />
+          <Button
+            variant="outline"
+            onClick={() => setAmount(String(summary.withdrawable))}
+            disabled={!account || hasOpenRequest || summary.withdrawable < summary.minimum}
+          >
+            전액
+          </Button>
+          <Button
+            onClick={handleRequest}
+            loading={isRequesting}
+            disabled={
+              !account ||
+              hasOpenRequest ||
+              parsedAmount < summary.minimum ||
+              parsedAmount > summary.withdrawable
+            }
+          >
+            출금 신청
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {hasOpenRequest
+            ? '처리 중인 출금 신청이 완료된 후 다시 신청할 수 있습니다.'
+            : '판매 수익만 출금할 수 있으며, 신청한 포인트는 처리될 때까지 사용할 수 없습니다.'}
+        </p>
+
+        {requests.length > 0 && (
+          <div className="divide-y border-t">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="font-medium text-gray-900">{formatPoints(request.amount)}</p>
+                  <p className="text-sm text-gray-500">
+                    {formatDate(request.createdAt)} · {request.bankName} ****{request.accountLast4}
+                  </p>
+                  {request.adminNote && (
+                    <p className="text-sm text-gray-600 mt-1">{request.adminNote}</p>
+                  )}
+                </div>
+                <Badge color={STATUS_COLORS[request.status]} size="sm">
+                  {WITHDRAWAL_STATUS_LABELS[request.status]}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={showAccountModal}
+        onClose={() => setShowAccountModal(false)}
+        title="정산 계좌"
+        size="sm"
+      >
+        <Modal.Body>
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">은행</label>
+              <input
+                type="text"
+                value={accountForm.bankName}
+                onChange={(e) => setAccountForm({ ...accountForm, bankName: e.target.value })}
+                placeholder="예: 국민은행"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">예금주</label>
+              <input
+                type="text"
+                value={accountForm.accountHolder}
+                onChange={(e) => setAccountForm({ ...accountForm, accountHolder: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">계좌번호</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="off"
+                value={accountForm.accountNumber}
+                onChange={(e) => setAccountForm({ ...accountForm, accountNumber: e.target.value })}
+                placeholder="- 없이 숫자만"
+                className={inputClass}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              계좌번호는 암호화되어 저장되며, 이후에는 끝 4자리만 표시됩니다.
+            </p>
+          </div>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setShowAccountModal(false)}>
+            취소
+          </Button>
+          <Button
+            onClick={handleSaveAccount}
+            loading={isSavingAccount}
+            disabled={!accountForm.bankName.trim() || !accountForm.accountHolder.trim() || !accountForm.accountNumber.trim()}
+          >
+            저장
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+}
+
+export default WithdrawalPanel;
@@ -0,0 +1 @@
+export { WithdrawalPanel } from './WithdrawalPanel';
@@ -0,0 +1,90 @@
+import { Link, useNavigate } from 'react-router-dom';
+import { Layers } from 'lucide-react';
+import { Badge } from '@/components/common';
+import { Bundle, GRADE_LABELS, SUBJECT_LABELS, formatPoints } from '@/types';
+
+export function BundleCard({ bundle }: { bundle: Bundle }) {
+  const navigate = useNavigate();
+
+  const handleSellerClick = (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    navigate(`/seller/${bundle.sellerId}`);
+  };
+
+  return (
+    <Link
+      to={`/bundle/${bundle.id}`}
+      className="group bg-white rounded-2xl border border-gray-100 overflow-hidden
+                 shadow-sm hover:shadow-lg hover:shadow-primary-500/5 hover:border-primary-100
+                 transition-all duration-300"
+    >
+      {/* Preview Image (stacked to read as a set) */}
+      <div className="aspect-[4/3] bg-gradient-to-br from-primary-50 to-gray-100 relative overflow-hidden">
+        {bundle.previewImage && (
+          <img
+            src={bundle.previewImage}
+            alt={bundle.title}
+            className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+          />
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-black/30 via-transparent to-transparent" />
+        <div className="absolute top-3 left-3 flex flex-wrap gap-1.5">
+          <Badge color="green" size="sm">
+            묶음 {bundle.itemCount}개
+          </Badge>
+          {bundle.grades.length === 1 && (
+            <Badge color="blue" size="sm">
+              {GRADE_LABELS[bundle.grades[0]]}
+            </Badge>
+          )}
+          {bundle.subjects.length === 1 && (
+            <Badge color="purple" size="sm">
+              {SUBJECT_LABELS[bundle.subjects[0]]}
+            </Badge>
+          )}
+        </div>
+        {bundle.discountRate > 0 && (
+          <span className="absolute top-3 right-3 px-2 py-1 rounded-lg bg-red-500 text-white text-xs font-bold">
+            {bundle.discountRate}% 할인
+          </span>
+        )}
+        <Layers className="absolute bottom-3 right-3 w-6 h-6 text-white drop-shadow" />
+      </div>
+
+      {/* Content */}
+      <div className="p-4">
+        <h3 className="font-semibold text-gray-900 line-clamp-2 mb-1.5 group-hover:text-primary-600 transition-colors leading-snug">
+          {bundle.title}
+        </h3>
+
+        {/* The whole card is a link, so the seller link navigates programmatically */}
+        <p className="mb-3">
+          <span
+            role="link"
+            tabIndex={0}
+            onClick={handleSellerClick}
+            onKeyDown={(e) => e.key === 'Enter' && handleSellerClick(e)}
+            className="text-sm text-muted-foreground hover:text-primary-600 hover:underline cursor-pointer"
+          >
+            {bundle.sellerNickname}
+          </span>
+        </p>
+
+        {/* Price */}
+        <div className="flex items-baseline gap-2 pt-3 border-t border-gray-50">
+          <span className="text-lg font-bold text-primary-600">
+            {formatPoints(bundle.price)}
+          </span>
+          {bundle.originalPrice > bundle.price && (
+            <span className="text-sm text-gray-400 line-through">
+              {formatPoints(bundle.originalPrice)}
+            </span>
+          )}
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+export default BundleCard;
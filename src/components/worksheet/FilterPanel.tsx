@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { Filter, ChevronDown } from 'lucide-react';
+import { Button, Badge, Select } from '@/components/common';
+import {
+  Grade,
+  Subject,
+  Category,
+  GRADE_LABELS,
+  SUBJECT_LABELS,
+  CATEGORY_LABELS,
+  type WorksheetFacets,
+} from '@/types';
+
+// Catalog sort keys understood by api.worksheets.list
+export type CatalogSort = 'relevance' | 'newest' | 'popular' | 'price_low' | 'price_high' | 'rating';
+
+export interface CatalogFilters {
+  grade?: Grade;
+  subject?: Subject;
+  category?: Category;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export const CATALOG_SORT_OPTIONS: { value: CatalogSort; label: string }[] = [
+  { value: 'relevance', label: '관련도순' },
+  { value: 'newest', label: '최신순' },
+  { value: 'popular', label: '인기순' },
+  { value: 'price_low', label: '가격 낮은순' },
+  { value: 'price_high', label: '가격 높은순' },
+  { value: 'rating', label: '평점순' },
+];
+
+// Append facet counts to option labels and disable options with no results.
+// The currently selected value stays enabled so the select can still display it.
+function withFacetCounts(
+  options: { value: string; label: string }[],
+  counts: Record<string, number> | undefined,
+  selected: string
+) {
+  if (!counts) return options;
+  return options.map((option) => {
+    if (!option.value) return option;
+    const count = counts[option.value] || 0;
+    return {
+      ...option,
+      label: `${option.label} (${count})`,
+      disabled: count === 0 && option.value !== selected,
+    };
+  });
+}
+
+export function FilterPanel({
+  filters,
+  facets,
+  onFilterChange,
+}: {
+  filters: CatalogFilters;
+  facets: WorksheetFacets | null;
+  onFilterChange: (filters: CatalogFilters) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const gradeOptions = [
+    { value: '', label: '전체 학년' },
+    ...withFacetCounts(
+      Object.entries(GRADE_LABELS).map(([value, label]) => ({ value, label })),
+      facets?.grade,
+      filters.grade || ''
+    ),
+  ];
+
+  const subjectOptions = [
+    { value: '', label: '전체 과목' },
+    ...withFacetCounts(
+      Object.entries(SUBJECT_LABELS).map(([value, label]) => ({ value, label })),
+      facets?.subject,
+      filters.subject || ''
+    ),
+  ];
+
+  const categoryOptions = [
+    { value: '', label: '전체 유형' },
+    ...withFacetCounts(
+      Object.entries(CATEGORY_LABELS).map(([value, label]) => ({ value, label })),
+      facets?.category,
+      filters.category || ''
+    ),
+  ];
+
+  const handlePriceChange = (value: string) => {
+    if (!value) {
+      onFilterChange({ ...filters, minPrice: undefined, maxPrice: undefined });
+    } else {
+      const [min, max] = value.split('-').map(Number);
+      onFilterChange({ ...filters, minPrice: min, maxPrice: max });
+    }
+  };
+
+  const getPriceValue = () => {
+    if (filters.minPrice === undefined && filters.maxPrice === undefined) return '';
+    return `${filters.minPrice || 0}-${filters.maxPrice || 500}`;
+  };
+
+  const priceRangeOptions = [
+    { value: '', label: '전체 가격' },
+    ...withFacetCounts(
+      [
+        { value: '0-100', label: '100P 이하' },
+        { value: '100-200', label: '100P ~ 200P' },
+        { value: '200-300', label: '200P ~ 300P' },
+        { value: '300-500', label: '300P ~ 500P' },
+      ],
+      facets?.price,
+      getPriceValue()
+    ),
+  ];
+
+  const activeFilterCount = [
+    filters.grade,
+    filters.subject,
+    filters.category,
+    filters.minPrice !== undefined || filters.maxPrice !== undefined,
+  ].filter(Boolean).length;
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+      {/* Mobile Toggle */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="lg:hidden flex items-center justify-between w-full p-4"
+      >
+        <div className="flex items-center gap-2">
+          <Filter className="w-5 h-5 text-gray-500" />
+          <span className="font-medium text-gray-900">필터</span>
+          {activeFilterCount > 0 && (
+            <Badge color="primary" size="sm">
+              {activeFilterCount}
+            </Badge>
+          )}
+        </div>
+        <ChevronDown
+          className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${
+            isOpen ? 'rotate-180' : ''
+          }`}
+        />
+      </button>
+
+      {/* Filter Content */}
+      <div className={`${isOpen ? 'block' : 'hidden'} lg:block p-4 lg:pt-4 space-y-4 border-t lg:border-t-0 border-gray-100`}>
+        <div className="hidden lg:flex items-center gap-2 pb-3 border-b border-gray-100">
+          <Filter className="w-4 h-4 text-gray-500" />
+          <span className="font-medium text-gray-900 text-sm">필터</span>
+        </div>
+
+        <Select
+          label="학년"
+          options={gradeOptions}
+          value={filters.grade || ''}
+          onChange={(value: string) =>
+            onFilterChange({
+              ...filters,
+              grade: value ? (value as Grade) : undefined,
+            })
+          }
+        />
+
+        <Select
+          label="과목"
+          options={subjectOptions}
+          value={filters.subject || ''}
+          onChange={(value: string) =>
+            onFilterChange({
+              ...filters,
+              subject: value ? (value as Subject) : undefined,
+            })
+          }
+        />
+
+        <Select
+          label="유형"
+          options={categoryOptions}
+          value={filters.category || ''}
+          onChange={(value: string) =>
+            onFilterChange({
+              ...filters,
+              category: value ? (value as Category) : undefined,
+            })
+          }
+        />
+
+        <Select
+          label="가격대"
+          options={priceRangeOptions}
+          value={getPriceValue()}
+          onChange={handlePriceChange}
+        />
+
+        {activeFilterCount > 0 && (
+          <Button
+            variant="outline"
+            fullWidth
+            size="sm"
+            onClick={() =>
+              onFilterChange({
+                grade: undefined,
+                subject: undefined,
+                category: undefined,
+                minPrice: undefined,
+                maxPrice: undefined,
+              })
+            }
+            className="mt-2"
+          >
+            필터 초기화
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default FilterPanel;
@@ -0,0 +1,163 @@
+import { useState, useRef, useEffect } from 'react';
+import { Gift, Search, UserCheck } from 'lucide-react';
+import { Button, Modal } from '@/components/common';
+import { useAuthStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import { formatPoints, type GiftRecipient } from '@/types';
+
+interface GiftModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worksheet: { id: string; title: string; price: number };
+}
+
+export function GiftModal({ isOpen, onClose, worksheet }: GiftModalProps) {
+  const toast = useToast();
+  const { user, updatePoints } = useAuthStore();
+
+  const [query, setQuery] = useState('');
+  const [recipient, setRecipient] = useState<GiftRecipient | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  // Reused if the request is retried, so a lost response can't charge twice
+  const giftKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setQuery('');
+      setRecipient(null);
+      setSearchError(null);
+      setMessage('');
+      giftKeyRef.current = null;
+    }
+  }, [isOpen]);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setSearchError(null);
+    setRecipient(null);
+    giftKeyRef.current = null;
+    try {
+      const found = await api.gifts.findRecipient(query);
+      if (found) {
+        setRecipient(found);
+      } else {
+        setSearchError('해당 닉네임 또는 이메일의 사용자를 찾을 수 없습니다.');
+      }
+    } catch (error) {
+      setSearchError(error instanceof ApiError ? error.message : '사용자 검색에 실패했습니다.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!recipient) return;
+
+    if ((user?.points ?? 0) < worksheet.price) {
+      toast.error('포인트가 부족합니다.');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      if (!giftKeyRef.current) {
+        giftKeyRef.current = crypto.randomUUID();
+      }
+
+      const result = await api.gifts.send({
+        worksheetId: worksheet.id,
+        recipientId: recipient.id,
+        message,
+        idempotencyKey: giftKeyRef.current,
+      });
+      giftKeyRef.current = null;
+
+      updatePoints(result.newBalance);
+      toast.success(
+        result.replayed
+          ? '이미 처리된 선물입니다.'
+          : `${result.recipientNickname}님에게 선물했습니다! ${formatPoints(result.totalSpent)} 사용`
+      );
+      onClose();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('선물하기에 실패했습니다.');
+      }
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="선물하기" size="md">
+      <Modal.Body>
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+            <Gift className="w-5 h-5 text-primary-500 shrink-0" />
+            <span className="flex-1 text-sm text-gray-900 line-clamp-1">{worksheet.title}</span>
+            <span className="font-semibold text-primary-600">{formatPoints(worksheet.price)}</span>
+          </div>
+
+          <form onSubmit={handleSearch}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">받는 사람</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="닉네임 또는 이메일"
+                className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <Button type="submit" variant="outline" loading={isSearching}>
+                <Search className="w-4 h-4" />
+              </Button>
+            </div>
+            {recipient && (
+              <p className="flex items-center gap-1.5 mt-2 text-sm text-secondary-600">
+                <UserCheck className="w-4 h-4" />
+                {recipient.nickname}님{recipient.maskedEmail && ` (${recipient.maskedEmail})`}에게 보냅니다
+              </p>
+            )}
+            {searchError && <p className="mt-2 text-sm text-red-500">{searchError}</p>}
+          </form>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">메시지 (선택)</label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={200}
+              rows={3}
+              placeholder="함께 보낼 메시지를 입력하세요"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+            />
+            <p className="text-xs text-gray-400 text-right">{message.length}/200</p>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            보유 포인트 {formatPoints(user?.points ?? 0)} · 받는 사람의 구매 내역에 바로 추가됩니다.
+          </p>
+        </div>
+      </Modal.Body>
+      <Modal.Footer>
+        <Button variant="outline" onClick={onClose}>
+          취소
+        </Button>
+        <Button onClick={handleSend} loading={isSending} disabled={!recipient}>
+          {formatPoints(worksheet.price)} 선물하기
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+}
+
+export default GiftModal;
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Heart, Loader2 } from 'lucide-react';
+import { useAuthStore, useWishlistStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+
+interface WishlistButtonProps {
+  worksheetId: string;
+  // 'overlay' sits on top of a card image, 'button' is a labelled action button
+  variant?: 'overlay' | 'button';
+  className?: string;
+}
+
+export function WishlistButton({ worksheetId, variant = 'overlay', className = '' }: WishlistButtonProps) {
+  const { isAuthenticated } = useAuthStore();
+  const { add, remove, isInWishlist } = useWishlistStore();
+  const toast = useToast();
+  const [isToggling, setIsToggling] = useState(false);
+
+  const wishlisted = isInWishlist(worksheetId);
+
+  const handleToggle = async (e: React.MouseEvent) => {
+    // Cards are wrapped in a Link
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!isAuthenticated) {
+      toast.error('로그인이 필요합니다.');
+      return;
+    }
+
+    setIsToggling(true);
+    try {
+      if (wishlisted) {
+        await api.wishlist.remove(worksheetId);
+        remove(worksheetId);
+        toast.success('찜 목록에서 삭제했습니다.');
+      } else {
+        await api.wishlist.add(worksheetId);
+        add(worksheetId);
+        toast.success('찜 목록에 추가했습니다.');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('찜하기에 실패했습니다.');
+      }
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
+  const icon = isToggling ? (
+    <Loader2 className="w-4 h-4 animate-spin" />
+  ) : (
+    <Heart className={`w-4 h-4 ${wishlisted ? 'fill-red-500 text-red-500' : ''}`} />
+  );
+
+  if (variant === 'button') {
+    return (
+      <button
+        onClick={handleToggle}
+        disabled={isToggling}
+        aria-pressed={wishlisted}
+        className={`inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl border text-sm font-medium
+                    transition-colors disabled:opacity-50 ${
+                      wishlisted
+                        ? 'border-red-200 bg-red-50 text-red-600 hover:bg-red-100'
+                        : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+                    } ${className}`}
+      >
+        {icon}
+        {wishlisted ? '찜 해제' : '찜하기'}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={isToggling}
+      aria-label={wishlisted ? '찜 해제' : '찜하기'}
+      aria-pressed={wishlisted}
+      className={`w-8 h-8 rounded-full bg-white/90 backdrop-blur-sm shadow-sm flex items-center justify-center
+                  text-gray-500 hover:text-red-500 hover:bg-white transition-colors disabled:opacity-50 ${className}`}
+    >
+      {icon}
+    </button>
+  );
+}
+
+export default WishlistButton;
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ShoppingCart, Star, Loader2 } from 'lucide-react';
+import { Button, Badge, Highlight } from '@/components/common';
+import { useCartStore, useAuthStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import { WishlistButton } from './WishlistButton';
+import { Worksheet, GRADE_LABELS, SUBJECT_LABELS, formatPoints } from '@/types';
+
+export function WorksheetCard({ worksheet }: { worksheet: Worksheet }) {
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuthStore();
+  const { addItem, isInCart } = useCartStore();
+  const toast = useToast();
+  const [isAdding, setIsAdding] = useState(false);
+
+  const inCart = isInCart(worksheet.id);
+
+  const handleAddToCart = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!isAuthenticated) {
+      toast.error('로그인이 필요합니다.');
+      return;
+    }
+
+    if (inCart) {
+      toast.info('이미 장바구니에 담긴 상품입니다.');
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const cartItem = await api.cart.add(worksheet.id);
+      addItem(cartItem);
+      toast.success('장바구니에 담았습니다.');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('장바구니 담기에 실패했습니다.');
+      }
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleSellerClick = (e: React.SyntheticEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    navigate(`/seller/${worksheet.sellerId}`);
+  };
+
+  return (
+    <Link
+      to={`/worksheet/${worksheet.id}`}
+      className="group bg-white rounded-2xl border border-gray-100 overflow-hidden
+                 shadow-sm hover:shadow-lg hover:shadow-primary-500/5 hover:border-primary-100
+                 transition-all duration-300"
+    >
+      {/* Preview Image */}
+      <div className="aspect-[4/3] bg-gradient-to-br from-gray-50 to-gray-100 relative overflow-hidden">
+        <img
+          src={worksheet.previewImage}
+          alt={worksheet.title}
+          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+        />
+        {/* Gradient overlay */}
+        <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+        {/* Badges */}
+        <div className="absolute top-3 left-3 flex flex-wrap gap-1.5">
+          <Badge color="blue" size="sm">
+            {GRADE_LABELS[worksheet.grade]}
+          </Badge>
+          <Badge color="purple" size="sm">
+            {SUBJECT_LABELS[worksheet.subject]}
+          </Badge>
+        </div>
+        <WishlistButton worksheetId={worksheet.id} className="absolute top-3 right-3" />
+      </div>
+
+      {/* Content */}
+      <div className="p-4">
+        <h3 className="font-semibold text-gray-900 line-clamp-2 mb-1.5 group-hover:text-primary-600 transition-colors leading-snug">
+          {worksheet.highlight ? <Highlight text={worksheet.highlight.title} /> : worksheet.title}
+        </h3>
+
+        {worksheet.highlight?.description && (
+          <p className="text-xs text-gray-500 line-clamp-2 mb-1.5">
+            <Highlight text={worksheet.highlight.description} />
+          </p>
+        )}
+
+        {/* The whole card is a link, so the seller link navigates programmatically */}
+        <p className="mb-3">
+          <span
+            role="link"
+            tabIndex={0}
+            onClick={handleSellerClick}
+            onKeyDown={(e) => e.key === 'Enter' && handleSellerClick(e)}
+            className="text-sm text-muted-foreground hover:text-primary-600 hover:underline cursor-pointer"
+          >
+            {worksheet.sellerNickname}
+          </span>
+        </p>
+
+        {/* Rating */}
+        <div className="flex items-center gap-1.5 mb-3">
+          <div className="flex items-center gap-0.5">
+            <Star className="w-4 h-4 text-yellow-400 fill-yellow-400" />
+            <span className="text-sm font-semibold text-gray-900">
+              {worksheet.averageRating.toFixed(1)}
+            </span>
+          </div>
+          <span className="text-sm text-muted-foreground">
+            ({worksheet.reviewCount})
+          </span>
+        </div>
+
+        {/* Price & Cart */}
+        <div className="flex items-center justify-between pt-3 border-t border-gray-50">
+          <div>
+            <span className="text-lg font-bold text-primary-600">
+              {formatPoints(worksheet.price)}
+            </span>
+          </div>
+          <Button
+            size="icon"
+            variant={inCart ? 'outline' : 'primary'}
+            onClick={handleAddToCart}
+            disabled={isAdding || inCart}
+            className="w-9 h-9 rounded-xl"
+          >
+            {isAdding ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <ShoppingCart className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+export default WorksheetCard;
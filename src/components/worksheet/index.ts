@@ -0,0 +1,6 @@
+export { WorksheetCard } from './WorksheetCard';
+export { BundleCard } from './BundleCard';
+export { WishlistButton } from './WishlistButton';
+export { GiftModal } from './GiftModal';
+export { FilterPanel, CATALOG_SORT_OPTIONS } from './FilterPanel';
+export type { CatalogFilters, CatalogSort } from './FilterPanel';
@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+
+// Current time (ms) re-rendered every `intervalMs`, for countdowns.
+// Pass null to pause the timer (e.g. nothing on screen needs ticking).
+export function useNow(intervalMs: number | null = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (intervalMs === null) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
+
+export default useNow;
@@ -0,0 +1,23 @@
+// CSV download helpers
+// Prefixed with a UTF-8 BOM so Excel opens Korean text correctly
+import { downloadBlob } from './download';
+
+export type CsvValue = string | number | null | undefined;
+
+// Text that a spreadsheet would read as a formula (=, +, -, @, tab, CR) gets a leading quote.
+// Numbers are left alone so negative amounts stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: CsvValue) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+export function downloadCsv(filename: string, headers: string[], rows: CsvValue[][]) {
+  downloadBlob(filename, new Blob(['\uFEFF' + toCsv(headers, rows)], { type: 'text/csv;charset=utf-8' }));
+}
@@ -0,0 +1,23 @@
+// Opaque pagination cursor: [sort value, id] of the last row on the page
+export type Cursor = [string | number, string | number];
+
+export function encodeCursor(value: string | number, id: string | number): string {
+  return btoa(JSON.stringify([value, id]));
+}
+
+// null when the cursor wasn't produced by encodeCursor
+export function decodeCursor(cursor: string): Cursor | null {
+  try {
+    const parsed: unknown = JSON.parse(atob(cursor));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      parsed.every((part) => typeof part === 'string' || typeof part === 'number')
+    ) {
+      return parsed as Cursor;
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
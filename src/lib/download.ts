@@ -0,0 +1,16 @@
+// Trigger a browser download for generated content
+// The link has to be in the document for Firefox, and revoking the URL right after click()
+// can cancel larger downloads in Firefox/Safari, so it is released a little later.
+const REVOKE_DELAY_MS = 60000;
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
@@ -0,0 +1,99 @@
+// Minimal image-only PDF writer (no dependencies)
+// Each page is a JPEG drawn over the whole A4 page. Pages are rendered on a canvas
+// first, so Korean text uses the same web font as the screen and no font has to be embedded.
+import { downloadBlob } from './download';
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  // Pixel size of the JPEG
+  width: number;
+  height: number;
+}
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const encoder = new TextEncoder();
+
+export function toPdf(pages: PdfImagePage[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page / content / image per page
+  const pageId = (i: number) => 3 + i * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // The second line (% + high bytes) marks the file as binary for transfer tools
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageId(i)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const content = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Im0 Do Q`;
+
+    beginObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`
+    );
+
+    beginObject(id + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(id + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  // Cross-reference entries are exactly 20 bytes each
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach((chunk) => {
+    result.set(chunk, position);
+    position += chunk.length;
+  });
+  return result;
+}
+
+export function canvasToPdfPage(canvas: HTMLCanvasElement): PdfImagePage {
+  const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+  const binary = atob(base64);
+  const jpeg = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) jpeg[i] = binary.charCodeAt(i);
+  return { jpeg, width: canvas.width, height: canvas.height };
+}
+
+export function downloadPdf(filename: string, canvases: HTMLCanvasElement[]) {
+  downloadBlob(filename, new Blob([toPdf(canvases.map(canvasToPdfPage))], { type: 'application/pdf' }));
+}
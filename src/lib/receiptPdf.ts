@@ -0,0 +1,168 @@
+// Receipt PDF: draws the same content as ReceiptPage onto A4 canvases, then packs them with pdf.ts
+import { OrderReceipt, formatPoints } from '@/types';
+import { downloadPdf, PDF_PAGE_WIDTH, PDF_PAGE_HEIGHT } from './pdf';
+
+export const formatReceiptDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('ko-KR', {
+    timeZone: 'Asia/Seoul',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// 150 dpi A4
+const WIDTH = 1240;
+const HEIGHT = Math.round((WIDTH * PDF_PAGE_HEIGHT) / PDF_PAGE_WIDTH);
+const MARGIN = 100;
+const RIGHT = WIDTH - MARGIN;
+const ROW_HEIGHT = 52;
+const NOTE_HEIGHT = 30;
+// Room kept at the bottom of the last page for the totals
+const TOTALS_HEIGHT = 360;
+
+// Table columns: title and seller are left-aligned, amounts right-aligned at these x positions
+const COLUMNS = { title: MARGIN, seller: MARGIN + 470, listPrice: RIGHT - 290, discount: RIGHT - 150, paid: RIGHT };
+
+const COLORS = { text: '#111827', muted: '#6b7280', faint: '#9ca3af', line: '#d1d5db', divider: '#f3f4f6' };
+
+const fontFamily = () => getComputedStyle(document.body).fontFamily || 'sans-serif';
+
+// Shortens text with an ellipsis so it fits in maxWidth
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+function createPage() {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.textBaseline = 'alphabetic';
+  return { canvas, ctx };
+}
+
+export function renderReceiptPages(receipt: OrderReceipt): HTMLCanvasElement[] {
+  const family = fontFamily();
+  const pages: HTMLCanvasElement[] = [];
+  let { canvas, ctx } = createPage();
+  pages.push(canvas);
+
+  const text = (
+    value: string,
+    x: number,
+    y: number,
+    options: { size?: number; bold?: boolean; color?: string; align?: CanvasTextAlign; maxWidth?: number } = {}
+  ) => {
+    ctx.font = `${options.bold ? 700 : 400} ${options.size ?? 24}px ${family}`;
+    ctx.fillStyle = options.color ?? COLORS.text;
+    ctx.textAlign = options.align ?? 'left';
+    ctx.fillText(options.maxWidth ? fitText(ctx, value, options.maxWidth) : value, x, y);
+  };
+
+  const line = (y: number, color: string, width = 2) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(MARGIN, y, RIGHT - MARGIN, width);
+  };
+
+  const tableHeader = (y: number) => {
+    const options = { size: 22, color: COLORS.muted };
+    text('자료', COLUMNS.title, y, options);
+    text('판매자', COLUMNS.seller, y, options);
+    text('정가', COLUMNS.listPrice, y, { ...options, align: 'right' });
+    text('할인', COLUMNS.discount, y, { ...options, align: 'right' });
+    text('결제', COLUMNS.paid, y, { ...options, align: 'right' });
+    line(y + 16, COLORS.line);
+    return y + 16 + ROW_HEIGHT;
+  };
+
+  // Header
+  let y = MARGIN + 40;
+  text('구매 영수증', MARGIN, y, { size: 44, bold: true });
+  text(receipt.orderNumber, RIGHT, y - 10, { size: 24, bold: true, align: 'right' });
+  y += 40;
+  text('학습장터', MARGIN, y, { size: 24, color: COLORS.muted });
+  text(formatReceiptDateTime(receipt.createdAt), RIGHT, y - 10, { size: 22, color: COLORS.muted, align: 'right' });
+  y += 24;
+  line(y, COLORS.text, 4);
+  y += 60;
+
+  const info: [string, string][] = [['구매자', receipt.buyerNickname]];
+  if (receipt.bundleTitle) info.push(['묶음 상품', receipt.bundleTitle]);
+  if (receipt.couponCode) info.push(['적용 쿠폰', receipt.couponCode]);
+  info.forEach(([label, value]) => {
+    text(label, MARGIN, y, { color: COLORS.muted });
+    text(value, RIGHT, y, { align: 'right', maxWidth: RIGHT - MARGIN - 200 });
+    y += 38;
+  });
+  y += 30;
+
+  // Items, continued on new pages when they don't fit
+  y = tableHeader(y);
+  receipt.items.forEach((item, index) => {
+    const note = item.recipientNickname
+      ? `${item.recipientNickname}님에게 선물`
+      : item.giftFromNickname
+      ? `${item.giftFromNickname}님의 선물`
+      : null;
+    const rowHeight = ROW_HEIGHT + (note ? NOTE_HEIGHT : 0);
+    const isLast = index === receipt.items.length - 1;
+
+    if (y + rowHeight + (isLast ? TOTALS_HEIGHT : 0) > HEIGHT - MARGIN) {
+      ({ canvas, ctx } = createPage());
+      pages.push(canvas);
+      y = tableHeader(MARGIN + 40);
+    }
+
+    text(item.title, COLUMNS.title, y, { maxWidth: COLUMNS.seller - COLUMNS.title - 20 });
+    if (note) text(note, COLUMNS.title, y + NOTE_HEIGHT, { size: 20, color: COLORS.muted });
+    text(item.sellerNickname, COLUMNS.seller, y, {
+      color: COLORS.muted,
+      maxWidth: COLUMNS.listPrice - COLUMNS.seller - 140,
+    });
+    text(formatPoints(item.listPrice), COLUMNS.listPrice, y, { color: COLORS.muted, align: 'right' });
+    text(item.discount > 0 ? `-${formatPoints(item.discount)}` : '-', COLUMNS.discount, y, {
+      color: COLORS.muted,
+      align: 'right',
+    });
+    text(formatPoints(item.paid), COLUMNS.paid, y, { align: 'right' });
+    line(y + rowHeight - ROW_HEIGHT + 18, COLORS.divider);
+    y += rowHeight;
+  });
+
+  // Totals
+  y += 10;
+  line(y - 30, COLORS.line);
+  y += 20;
+  const total = (label: string, value: string, bold = false) => {
+    text(label, MARGIN, y, { color: bold ? COLORS.text : COLORS.muted, bold, size: bold ? 28 : 24 });
+    text(value, RIGHT, y, { align: 'right', bold, size: bold ? 28 : 24 });
+    y += bold ? 50 : 40;
+  };
+  total('상품 금액', formatPoints(receipt.subtotal));
+  if (receipt.discount > 0) total('할인', `-${formatPoints(receipt.discount)}`);
+  total('사용 포인트', formatPoints(receipt.pointsUsed), true);
+  if (receipt.refundedAmount > 0) total('환불', `-${formatPoints(receipt.refundedAmount)}`);
+  if (receipt.balanceAfter !== null) total('결제 후 잔여 포인트', formatPoints(receipt.balanceAfter));
+
+  y += 40;
+  const footer =
+    (receipt.isPayer ? '본 영수증은 포인트 사용 내역 확인용입니다.' : '선물 받은 자료로, 결제 금액이 없습니다.') +
+    (receipt.refundedAmount > 0 ? ' 환불된 자료는 목록에 표시되지 않습니다.' : '');
+  text(footer, MARGIN, y, { size: 20, color: COLORS.faint, maxWidth: RIGHT - MARGIN });
+
+  return pages;
+}
+
+export async function downloadReceiptPdf(receipt: OrderReceipt) {
+  // Draw with the page's web font rather than a fallback
+  await document.fonts?.ready;
+  downloadPdf(`영수증_${receipt.orderNumber}.pdf`, renderReceiptPages(receipt));
+}
@@ -15,15 +15,38 @@ import {
   CheckCircle,
   ChevronDown,
   Sparkles,
+  Ticket,
+  RotateCcw,
+  Wallet,
+  Percent,
+  Scale,
+  List,
+  CalendarDays,
 } from 'lucide-react';
 import { Button, Badge } from '@/components/common';
-import { QuizGenerator } from '@/components/admin';
+import {
+  QuizGenerator,
+  CouponManager,
+  RefundManager,
+  WithdrawalManager,
+  FeeManager,
+  PointLedgerManager,
+  EventCalendar,
+} from '@/components/admin';
 import { useToast } from '@/components/common/Toast';
 import { useAuthStore } from '@/store';
 import { api, ApiError } from '@/services/api';
-import { GRADE_LABELS } from '@/types';
-
-type Tab = 'events' | 'messages' | 'comments' | 'inquiries';
+import {
+  GRADE_LABELS,
+  GRADE_GROUP_LABELS,
+  QUIZ_SCORING_MODE_LABELS,
+  EventAudienceSize,
+  GradeGroup,
+  QuizScoringMode,
+  formatKstDateTime,
+} from '@/types';
+
+type Tab = 'events' | 'messages' | 'comments' | 'inquiries' | 'coupons' | 'refunds' | 'withdrawals' | 'fees' | 'ledger';
 type EventType = 'quiz' | 'first_come' | 'comment';
 
 interface Event {
@@ -35,6 +58,7 @@ interface Event {
   pointsReward: number;
   maxParticipants: number | null;
   currentParticipants: number;
+  targetGrades: GradeGroup[] | null;
   startAt: string | null;
   endAt: string | null;
   createdAt: string;
@@ -74,7 +98,9 @@ export function AdminPage() {
 
   // Events state
   const [events, setEvents] = useState<Event[]>([]);
+  const [eventView, setEventView] = useState<'list' | 'calendar'>('list');
   const [showEventForm, setShowEventForm] = useState(false);
+  const [audienceSize, setAudienceSize] = useState<EventAudienceSize | null>(null);
   const [eventForm, setEventForm] = useState({
     title: '',
     description: '',
@@ -83,6 +109,11 @@ export function AdminPage() {
     maxParticipants: 100,
     startAt: '',
     endAt: '',
+    // Empty = every user
+    targetGrades: [] as GradeGroup[],
+    // Quiz event specific
+    scoringMode: 'all_or_nothing' as QuizScoringMode,
+    passThreshold: 60,
     // Comment event specific
     reviewCriteria: '',
     minLength: 20,
@@ -139,7 +170,7 @@ export function AdminPage() {
       try {
         switch (activeTab) {
           case 'events':
-            const eventResult = await api.events.list();
+            const eventResult = await api.admin.getEvents();
             setEvents(eventResult);
             break;
           case 'inquiries':
@@ -154,6 +185,25 @@ export function AdminPage() {
     fetchData();
   }, [activeTab, isAdmin]);
 
+  // Preview how many users the selected target grades reach
+  useEffect(() => {
+    if (!isAdmin || !showEventForm) return;
+
+    let cancelled = false;
+    async function fetchAudienceSize() {
+      try {
+        const result = await api.admin.getEventAudienceSize(eventForm.targetGrades);
+        if (!cancelled) setAudienceSize(result);
+      } catch (error) {
+        console.error('Failed to fetch audience size:', error);
+      }
+    }
+    fetchAudienceSize();
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdmin, showEventForm, eventForm.targetGrades]);
+
   // Fetch comments when event is selected
   useEffect(() => {
     if (!isAdmin || activeTab !== 'comments' || !selectedEventId) return;
@@ -192,6 +242,15 @@ export function AdminPage() {
       return;
     }
 
+    if (
+      eventForm.type === 'quiz' &&
+      eventForm.scoringMode === 'threshold' &&
+      (eventForm.passThreshold < 1 || eventForm.passThreshold > 100)
+    ) {
+      toast.error('기준 정답률은 1~100% 사이로 입력해주세요.');
+      return;
+    }
+
     try {
       await api.admin.createEvent({
         title: eventForm.title,
@@ -200,9 +259,12 @@ export function AdminPage() {
           : eventForm.description,
         type: eventForm.type,
         pointsReward: eventForm.pointsReward,
+        scoringMode: eventForm.type === 'quiz' ? eventForm.scoringMode : undefined,
+        passThreshold: eventForm.type === 'quiz' ? eventForm.passThreshold : undefined,
         maxParticipants: eventForm.type === 'first_come' ? eventForm.maxParticipants : undefined,
         startAt: eventForm.startAt,
         endAt: eventForm.endAt,
+        targetGrades: eventForm.targetGrades,
         minLength: eventForm.type === 'comment' ? eventForm.minLength : undefined,
         minPoints: eventForm.type === 'comment' ? eventForm.minPoints : undefined,
         maxPoints: eventForm.type === 'comment' ? eventForm.maxPoints : undefined,
@@ -218,6 +280,9 @@ export function AdminPage() {
         maxParticipants: 100,
         startAt: '',
         endAt: '',
+        targetGrades: [],
+        scoringMode: 'all_or_nothing',
+        passThreshold: 60,
         reviewCriteria: '',
         minLength: 20,
         minPoints: 10,
@@ -225,7 +290,7 @@ export function AdminPage() {
       });
 
       // Refresh events
-      const eventResult = await api.events.list();
+      const eventResult = await api.admin.getEvents();
       setEvents(eventResult);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -236,9 +301,13 @@ export function AdminPage() {
 
   const handleActivateEvent = async (eventId: string) => {
     try {
-      await api.admin.activateEvent(eventId);
-      toast.success('이벤트가 활성화되었습니다.');
-      const eventResult = await api.events.list();
+      const result = await api.admin.activateEvent(eventId);
+      toast.success(
+        result.status === 'scheduled'
+          ? '이벤트가 예약되었습니다. 시작 시각에 자동으로 진행됩니다.'
+          : '이벤트가 활성화되었습니다.'
+      );
+      const eventResult = await api.admin.getEvents();
       setEvents(eventResult);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -251,7 +320,7 @@ export function AdminPage() {
     try {
       await api.admin.endEvent(eventId);
       toast.success('이벤트가 종료되었습니다.');
-      const eventResult = await api.events.list();
+      const eventResult = await api.admin.getEvents();
       setEvents(eventResult);
     } catch (error) {
       if (error instanceof ApiError) {
@@ -323,6 +392,11 @@ export function AdminPage() {
     { id: 'messages', label: '메시지 발송', icon: <Send className="w-4 h-4" /> },
     { id: 'comments', label: '댓글 승인', icon: <MessageSquare className="w-4 h-4" /> },
     { id: 'inquiries', label: '문의 관리', icon: <Users className="w-4 h-4" /> },
+    { id: 'coupons', label: '쿠폰 관리', icon: <Ticket className="w-4 h-4" /> },
+    { id: 'refunds', label: '환불 중재', icon: <RotateCcw className="w-4 h-4" /> },
+    { id: 'withdrawals', label: '출금 관리', icon: <Wallet className="w-4 h-4" /> },
+    { id: 'fees', label: '수수료 설정', icon: <Percent className="w-4 h-4" /> },
+    { id: 'ledger', label: '포인트 정합성', icon: <Scale className="w-4 h-4" /> },
   ];
 
   // Get comment events for the dropdown
@@ -367,10 +441,28 @@ export function AdminPage() {
             <div className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-lg font-semibold text-gray-900">이벤트 목록</h2>
-                <Button onClick={() => setShowEventForm(true)}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  새 이벤트
-                </Button>
+                <div className="flex items-center gap-2">
+                  <div className="flex rounded-lg border border-gray-200 overflow-hidden">
+                    <button
+                      onClick={() => setEventView('list')}
+                      className={`px-3 py-2 ${eventView === 'list' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50'}`}
+                      title="목록"
+                    >
+                      <List className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setEventView('calendar')}
+                      className={`px-3 py-2 ${eventView === 'calendar' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50'}`}
+                      title="달력"
+                    >
+                      <CalendarDays className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <Button onClick={() => setShowEventForm(true)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    새 이벤트
+                  </Button>
+                </div>
               </div>
 
               {/* Event Form Modal */}
@@ -494,6 +586,91 @@ export function AdminPage() {
                         </div>
                       </div>
 
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          대상 학년
+                        </label>
+                        <div className="flex flex-wrap gap-2">
+                          {(Object.entries(GRADE_GROUP_LABELS) as [GradeGroup, string][]).map(([value, label]) => {
+                            const selected = eventForm.targetGrades.includes(value);
+                            return (
+                              <button
+                                key={value}
+                                type="button"
+                                onClick={() =>
+                                  setEventForm({
+                                    ...eventForm,
+                                    targetGrades: selected
+                                      ? eventForm.targetGrades.filter((g) => g !== value)
+                                      : [...eventForm.targetGrades, value],
+                                  })
+                                }
+                                className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                                  selected
+                                    ? 'bg-primary-500 border-primary-500 text-white'
+                                    : 'bg-white border-gray-200 text-gray-600 hover:border-primary-300'
+                                }`}
+                              >
+                                {label}
+                                {audienceSize && (
+                                  <span className={selected ? 'text-white/80' : 'text-gray-400'}>
+                                    {' '}{audienceSize.byGrade[value] ?? 0}
+                                  </span>
+                                )}
+                              </button>
+                            );
+                          })}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">
+                          {eventForm.targetGrades.length === 0
+                            ? '선택하지 않으면 전체 회원 대상'
+                            : '관심 학년이 하나라도 겹치는 회원만 참여'}
+                          {audienceSize &&
+                            ` · 예상 대상 ${audienceSize.audience.toLocaleString()}명 / 전체 ${audienceSize.totalUsers.toLocaleString()}명`}
+                        </p>
+                      </div>
+
+                      {/* Quiz Event Specific Fields */}
+                      {eventForm.type === 'quiz' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              채점 방식
+                            </label>
+                            <select
+                              value={eventForm.scoringMode}
+                              onChange={(e) =>
+                                setEventForm({ ...eventForm, scoringMode: e.target.value as QuizScoringMode })
+                              }
+                              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            >
+                              {(Object.keys(QUIZ_SCORING_MODE_LABELS) as QuizScoringMode[]).map((mode) => (
+                                <option key={mode} value={mode}>
+                                  {QUIZ_SCORING_MODE_LABELS[mode]}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          {eventForm.scoringMode === 'threshold' && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                기준 정답률 (%)
+                              </label>
+                              <input
+                                type="number"
+                                min={1}
+                                max={100}
+                                value={eventForm.passThreshold}
+                                onChange={(e) =>
+                                  setEventForm({ ...eventForm, passThreshold: Number(e.target.value) })
+                                }
+                                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                              />
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       {/* Comment Event Specific Fields */}
                       {eventForm.type === 'comment' && (
                         <>
@@ -569,100 +746,113 @@ export function AdminPage() {
               )}
 
               {/* Events List */}
-              <div className="space-y-4">
-                {events.length === 0 ? (
-                  <div className="text-center py-12">
-                    <Trophy className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-                    <p className="text-gray-500">등록된 이벤트가 없습니다.</p>
-                  </div>
-                ) : (
-                  events.map((event) => (
-                    <div
-                      key={event.id}
-                      className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
-                    >
-                      <div className="flex items-center gap-4">
-                        <div
-                          className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                            event.type === 'quiz'
-                              ? 'bg-purple-100 text-purple-600'
-                              : event.type === 'first_come'
-                              ? 'bg-yellow-100 text-yellow-600'
-                              : 'bg-blue-100 text-blue-600'
-                          }`}
-                        >
-                          {event.type === 'quiz' ? (
-                            <Gift className="w-5 h-5" />
-                          ) : event.type === 'first_come' ? (
-                            <Clock className="w-5 h-5" />
-                          ) : (
-                            <MessageSquare className="w-5 h-5" />
-                          )}
-                        </div>
-                        <div>
-                          <div className="flex items-center gap-2">
-                            <h4 className="font-medium text-gray-900">{event.title}</h4>
-                            <Badge
-                              color={
-                                event.status === 'active'
-                                  ? 'green'
+              {eventView === 'calendar' ? (
+                <EventCalendar events={events} />
+              ) : (
+                <div className="space-y-4">
+                  {events.length === 0 ? (
+                    <div className="text-center py-12">
+                      <Trophy className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                      <p className="text-gray-500">등록된 이벤트가 없습니다.</p>
+                    </div>
+                  ) : (
+                    events.map((event) => (
+                      <div
+                        key={event.id}
+                        className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
+                      >
+                        <div className="flex items-center gap-4">
+                          <div
+                            className={`w-10 h-10 rounded-lg flex items-center justify-center ${
+                              event.type === 'quiz'
+                                ? 'bg-purple-100 text-purple-600'
+                                : event.type === 'first_come'
+                                ? 'bg-yellow-100 text-yellow-600'
+                                : 'bg-blue-100 text-blue-600'
+                            }`}
+                          >
+                            {event.type === 'quiz' ? (
+                              <Gift className="w-5 h-5" />
+                            ) : event.type === 'first_come' ? (
+                              <Clock className="w-5 h-5" />
+                            ) : (
+                              <MessageSquare className="w-5 h-5" />
+                            )}
+                          </div>
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <h4 className="font-medium text-gray-900">{event.title}</h4>
+                              <Badge
+                                color={
+                                  event.status === 'active'
+                                    ? 'green'
+                                    : event.status === 'ended'
+                                    ? 'gray'
+                                    : 'yellow'
+                                }
+                                size="sm"
+                              >
+                                {event.status === 'active'
+                                  ? '진행중'
                                   : event.status === 'ended'
-                                  ? 'gray'
-                                  : 'yellow'
-                              }
-                              size="sm"
-                            >
-                              {event.status === 'active'
-                                ? '진행중'
-                                : event.status === 'ended'
-                                ? '종료'
-                                : '대기'}
-                            </Badge>
+                                  ? '종료'
+                                  : event.status === 'scheduled'
+                                  ? '예약'
+                                  : '대기'}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {event.pointsReward}P | 참여: {event.currentParticipants}
+                              {event.maxParticipants && `/${event.maxParticipants}`}명
+                              {event.targetGrades?.length
+                                ? ` | ${event.targetGrades.map((g) => GRADE_GROUP_LABELS[g]).join(', ')}`
+                                : ' | 전체 대상'}
+                              {(event.startAt || event.endAt) &&
+                                ` | ${event.startAt ? formatKstDateTime(event.startAt) : ''} ~ ${
+                                  event.endAt ? formatKstDateTime(event.endAt) : ''
+                                }`}
+                            </p>
                           </div>
-                          <p className="text-sm text-muted-foreground">
-                            {event.pointsReward}P | 참여: {event.currentParticipants}
-                            {event.maxParticipants && `/${event.maxParticipants}`}명
-                          </p>
                         </div>
-                      </div>
 
-                      <div className="flex gap-2">
-                        {event.type === 'quiz' && (event.status === 'draft' || event.status === 'scheduled') && (
-                          <Button
-                            size="sm"
-                            variant="secondary"
-                            onClick={() => {
-                              setSelectedQuizEventId(event.id);
-                              setShowQuizGenerator(true);
-                            }}
-                          >
-                            <Sparkles className="w-3 h-3 mr-1" />
-                            문제 생성
-                          </Button>
-                        )}
-                        {(event.status === 'draft' || event.status === 'scheduled') && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleActivateEvent(event.id)}
-                          >
-                            활성화
-                          </Button>
-                        )}
-                        {event.status === 'active' && (
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleEndEvent(event.id)}
-                          >
-                            종료
-                          </Button>
-                        )}
+                        <div className="flex gap-2">
+                          {event.type === 'quiz' && (event.status === 'draft' || event.status === 'scheduled') && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => {
+                                setSelectedQuizEventId(event.id);
+                                setShowQuizGenerator(true);
+                              }}
+                            >
+                              <Sparkles className="w-3 h-3 mr-1" />
+                              문제 생성
+                            </Button>
+                          )}
+                          {(event.status === 'draft' || event.status === 'scheduled') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleActivateEvent(event.id)}
+                            >
+                              활성화
+                            </Button>
+                          )}
+                          {event.status === 'active' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleEndEvent(event.id)}
+                            >
+                              종료
+                            </Button>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  ))
-                )}
-              </div>
+                    ))
+                  )}
+                </div>
+              )}
 
               {/* Quiz Generator Modal */}
               {showQuizGenerator && selectedQuizEventId && (
@@ -891,6 +1081,13 @@ export function AdminPage() {
               </div>
             </div>
           )}
+
+          {/* Coupons Tab */}
+          {activeTab === 'coupons' && <CouponManager />}
+          {activeTab === 'refunds' && <RefundManager />}
+          {activeTab === 'withdrawals' && <WithdrawalManager />}
+          {activeTab === 'fees' && <FeeManager />}
+          {activeTab === 'ledger' && <PointLedgerManager />}
         </div>
       </div>
     </div>
@@ -0,0 +1,343 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Layers, CheckCircle, ShoppingBag, Star } from 'lucide-react';
+import { Button, Badge, Modal, Skeleton } from '@/components/common';
+import { useCartStore, useAuthStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  Bundle,
+  GRADE_LABELS,
+  SUBJECT_LABELS,
+  formatPoints,
+  formatDate,
+} from '@/types';
+
+export function BundleDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  const { isAuthenticated, user, updatePoints } = useAuthStore();
+  const { removeItem } = useCartStore();
+
+  const [bundle, setBundle] = useState<Bundle | null>(null);
+  const [ownedIds, setOwnedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPurchasing, setIsPurchasing] = useState(false);
+  const [showConfirmModal, setShowConfirmModal] = useState(false);
+  // Reused if the request is retried, so a lost response can't charge twice
+  const purchaseKeyRef = useRef<string | null>(null);
+
+  const isOwner = bundle && user?.id === bundle.sellerId;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchData = async () => {
+      if (!id) return;
+
+      setIsLoading(true);
+      try {
+        const bundleData = await api.bundles.get(id);
+        if (!isMounted) return;
+        setBundle(bundleData);
+
+        if (isAuthenticated) {
+          const owned = await api.purchases.ownedIds(
+            (bundleData.worksheets || []).map((w) => w.id)
+          );
+          if (isMounted) setOwnedIds(owned);
+        }
+      } catch (error) {
+        console.error('Failed to fetch bundle:', error);
+        if (isMounted) {
+          toast.error('묶음 상품을 불러오는데 실패했습니다.');
+          navigate('/');
+        }
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    fetchData();
+
+    return () => { isMounted = false; };
+  }, [id, isAuthenticated]);
+
+  const worksheets = bundle?.worksheets || [];
+  const remaining = worksheets.filter((w) => !ownedIds.includes(w.id));
+  const remainingOriginal = remaining.reduce((sum, w) => sum + w.price, 0);
+  // Mirrors purchase_bundle: the bundle price shrinks in proportion to what is already owned
+  const payablePrice = bundle && bundle.originalPrice > 0
+    ? Math.min(remainingOriginal, Math.floor((bundle.price * remainingOriginal) / bundle.originalPrice))
+    : 0;
+
+  const handlePurchaseClick = () => {
+    if (!isAuthenticated) {
+      toast.error('로그인이 필요합니다.');
+      navigate('/auth');
+      return;
+    }
+
+    if ((user?.points ?? 0) < payablePrice) {
+      toast.error('포인트가 부족합니다.');
+      return;
+    }
+
+    setShowConfirmModal(true);
+  };
+
+  const confirmPurchase = async () => {
+    if (!bundle) return;
+
+    setShowConfirmModal(false);
+    setIsPurchasing(true);
+
+    try {
+      if (!purchaseKeyRef.current) {
+        purchaseKeyRef.current = crypto.randomUUID();
+      }
+
+      const result = await api.bundles.purchase(bundle.id, purchaseKeyRef.current);
+      purchaseKeyRef.current = null;
+
+      if (result.replayed) {
+        toast.info('이미 처리된 결제입니다. 기존 결제 결과를 불러왔습니다.');
+      }
+
+      updatePoints(result.newBalance);
+      result.purchaseIds.forEach((worksheetId) => removeItem(worksheetId));
+
+      if (result.purchaseIds.length === 0) {
+        toast.info('묶음의 모든 자료를 이미 구매했습니다.');
+        setOwnedIds(worksheets.map((w) => w.id));
+        return;
+      }
+
+      toast.success(`구매 완료! ${formatPoints(result.totalSpent)} 사용`);
+      navigate('/my/purchases');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('구매 중 오류가 발생했습니다.');
+      }
+    } finally {
+      setIsPurchasing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-8">
+        <Skeleton.Text className="w-24 h-8 mb-6" />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Skeleton.Card />
+          <div className="space-y-4">
+            <Skeleton.Text className="h-8" />
+            <Skeleton.Text className="h-6 w-2/3" />
+            <Skeleton.Text className="h-24" />
+            <Skeleton.Card />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!bundle) {
+    return null;
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      {/* Back Button */}
+      <button
+        onClick={() => navigate(-1)}
+        className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-6 transition-colors"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>뒤로 가기</span>
+      </button>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Preview Image */}
+        <div className="space-y-4">
+          <div className="aspect-[4/3] bg-gray-100 rounded-xl overflow-hidden relative">
+            {bundle.previewImage && (
+              <img
+                src={bundle.previewImage}
+                alt={bundle.title}
+                className="w-full h-full object-cover"
+              />
+            )}
+            <Layers className="absolute bottom-4 right-4 w-8 h-8 text-white drop-shadow" />
+          </div>
+
+          {/* Badges */}
+          <div className="flex flex-wrap gap-2">
+            <Badge color="green">묶음 {bundle.itemCount}개</Badge>
+            {bundle.grades.map((grade) => (
+              <Badge key={grade} color="blue">{GRADE_LABELS[grade]}</Badge>
+            ))}
+            {bundle.subjects.map((subject) => (
+              <Badge key={subject} color="purple">{SUBJECT_LABELS[subject]}</Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Info */}
+        <div className="space-y-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              {bundle.title}
+            </h1>
+            <Link
+              to={`/seller/${bundle.sellerId}`}
+              className="text-gray-600 hover:text-primary-600 transition-colors"
+            >
+              {bundle.sellerNickname}
+            </Link>
+            <p className="text-sm text-gray-500 mt-1">{formatDate(bundle.createdAt)}</p>
+          </div>
+
+          {bundle.description && (
+            <div className="prose prose-gray max-w-none">
+              <p className="text-gray-600 whitespace-pre-wrap">
+                {bundle.description}
+              </p>
+            </div>
+          )}
+
+          {/* Price & Action */}
+          <div className="bg-gray-50 rounded-xl p-6 space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-500">개별 구매 시</span>
+              <span className="text-gray-400 line-through">{formatPoints(bundle.originalPrice)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-gray-600">
+                묶음 가격
+                {bundle.discountRate > 0 && (
+                  <span className="ml-2 text-sm font-semibold text-red-500">{bundle.discountRate}% 할인</span>
+                )}
+              </span>
+              <span className="text-2xl font-bold text-primary-600">
+                {formatPoints(bundle.price)}
+              </span>
+            </div>
+
+            {ownedIds.length > 0 && remaining.length > 0 && (
+              <div className="flex items-center justify-between text-sm bg-white rounded-lg px-3 py-2">
+                <span className="text-gray-600">
+                  이미 구매한 {ownedIds.length}개 제외 결제 금액
+                </span>
+                <span className="font-semibold text-primary-600">{formatPoints(payablePrice)}</span>
+              </div>
+            )}
+
+            {isOwner ? (
+              <div className="flex items-center gap-2 text-primary-600">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-medium">내가 등록한 묶음</span>
+              </div>
+            ) : remaining.length === 0 ? (
+              <div className="flex items-center gap-2 text-secondary-600">
+                <CheckCircle className="w-5 h-5" />
+                <span className="font-medium">묶음의 모든 자료를 구매했습니다</span>
+              </div>
+            ) : (
+              <Button
+                fullWidth
+                size="lg"
+                onClick={handlePurchaseClick}
+                loading={isPurchasing}
+              >
+                <ShoppingBag className="w-5 h-5 mr-2" />
+                묶음 구매하기
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Included Worksheets */}
+      <div className="mt-12">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">
+          포함된 자료 ({worksheets.length})
+        </h2>
+        <div className="space-y-3">
+          {worksheets.map((worksheet, index) => {
+            const owned = ownedIds.includes(worksheet.id);
+            return (
+              <Link
+                key={worksheet.id}
+                to={`/worksheet/${worksheet.id}`}
+                className="flex items-center gap-4 bg-white rounded-xl border border-gray-200 p-4 hover:border-primary-200 hover:shadow-sm transition-all"
+              >
+                <span className="w-6 text-center text-sm font-semibold text-gray-400">{index + 1}</span>
+                <img
+                  src={worksheet.previewImage}
+                  alt={worksheet.title}
+                  className="w-16 h-20 object-cover rounded-lg bg-gray-100"
+                />
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-medium text-gray-900 line-clamp-1">{worksheet.title}</h3>
+                  <div className="flex items-center gap-3 mt-1 text-sm text-gray-500">
+                    <span className="flex items-center gap-1">
+                      <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                      {worksheet.averageRating.toFixed(1)}
+                    </span>
+                    <span>{worksheet.pageCount}페이지</span>
+                  </div>
+                </div>
+                {owned ? (
+                  <Badge color="gray" size="sm">구매함</Badge>
+                ) : (
+                  <span className="text-sm text-gray-500">{formatPoints(worksheet.price)}</span>
+                )}
+              </Link>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Purchase Confirm Modal */}
+      <Modal
+        isOpen={showConfirmModal}
+        onClose={() => setShowConfirmModal(false)}
+        title="구매 확인"
+        size="sm"
+      >
+        <Modal.Body>
+          <div className="text-center py-2">
+            <div className="w-16 h-16 rounded-full bg-primary-50 flex items-center justify-center mx-auto mb-4">
+              <Layers className="w-8 h-8 text-primary-500" />
+            </div>
+            <p className="text-gray-700">
+              <span className="font-bold text-primary-600 text-lg">
+                {formatPoints(payablePrice)}
+              </span>
+              를 사용하여
+              <br />
+              자료 {remaining.length}개를 구매하시겠습니까?
+            </p>
+            {ownedIds.length > 0 && (
+              <p className="text-sm text-gray-500 mt-2">
+                이미 구매한 {ownedIds.length}개는 제외됩니다.
+              </p>
+            )}
+          </div>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setShowConfirmModal(false)}>
+            취소
+          </Button>
+          <Button onClick={confirmPurchase}>확인</Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+}
+
+export default BundleDetailPage;
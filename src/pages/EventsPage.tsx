@@ -13,8 +13,19 @@ import {
 } from 'lucide-react';
 import { Button, Badge } from '@/components/common';
 import { useToast } from '@/components/common/Toast';
+import { QuizResultView, EventCountdown } from '@/components/events';
 import { useAuthStore } from '@/store';
+import { useNow } from '@/hooks/useNow';
 import { api, ApiError } from '@/services/api';
+import {
+  GRADE_GROUP_LABELS,
+  GradeGroup,
+  QuizResult,
+  QuizScoringMode,
+  getQuizScoringLabel,
+  getEventPhase,
+  formatKstDateTime,
+} from '@/types';
 
 interface Event {
   id: string;
@@ -27,9 +38,17 @@ interface Event {
   maxParticipants: number | null;
   currentParticipants: number;
   pointsReward: number;
+  scoringMode: QuizScoringMode;
+  passThreshold: number | null;
   missionType: string | null;
 }
 
+interface ListedEvent extends Event {
+  targetGrades: GradeGroup[] | null;
+  // Restricted to grade groups the user is interested in
+  matchesInterests: boolean;
+}
+
 interface EventDetail extends Event {
   questions?: Array<{
     id: string;
@@ -45,22 +64,35 @@ export function EventsPage() {
   const toast = useToast();
   const navigate = useNavigate();
   const { isAuthenticated, updatePoints } = useAuthStore();
-  const [events, setEvents] = useState<Event[]>([]);
+  const [events, setEvents] = useState<ListedEvent[]>([]);
+  const [interests, setInterests] = useState<GradeGroup[]>([]);
+  const [isSavingInterests, setIsSavingInterests] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedEvent, setSelectedEvent] = useState<EventDetail | null>(null);
   const [showModal, setShowModal] = useState(false);
 
   // Quiz state
   const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Comment state
   const [comment, setComment] = useState('');
 
+  // Ticks the countdowns; phases are derived from start/end times so cards move
+  // between sections on time without waiting for the server-side status sync
+  const now = useNow();
+  const activeEvents = events.filter((e) => getEventPhase(e, now) === 'active');
+  const upcomingEvents = events
+    .filter((e) => getEventPhase(e, now) === 'upcoming')
+    .sort((a, b) => (a.startAt ?? '').localeCompare(b.startAt ?? ''));
+  const selectedPhase = selectedEvent ? getEventPhase(selectedEvent, now) : null;
+
   useEffect(() => {
     async function fetchEvents() {
       try {
-        const result = await api.events.list('active');
+        // Active and scheduled (upcoming) events
+        const result = await api.events.list();
         setEvents(result);
       } catch (error) {
         console.error('Failed to fetch events:', error);
@@ -69,7 +101,32 @@ export function EventsPage() {
       }
     }
     fetchEvents();
-  }, []);
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    api.interests.get().then(setInterests).catch(() => setInterests([]));
+  }, [isAuthenticated]);
+
+  // Interests decide which grade-targeted events are listed (and can be joined)
+  const handleToggleInterest = async (grade: GradeGroup) => {
+    const next = interests.includes(grade)
+      ? interests.filter((g) => g !== grade)
+      : [...interests, grade];
+
+    setIsSavingInterests(true);
+    try {
+      await api.interests.update(next);
+      setInterests(next);
+      setEvents(await api.events.list());
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setIsSavingInterests(false);
+    }
+  };
 
   const handleSelectEvent = async (event: Event) => {
     if (!isAuthenticated) {
@@ -80,7 +137,11 @@ export function EventsPage() {
 
     try {
       const detail = await api.events.get(event.id);
+      const result = detail.type === 'quiz' && detail.participated
+        ? await api.events.getQuizResult(event.id)
+        : null;
       setSelectedEvent(detail);
+      setQuizResult(result);
       setShowModal(true);
       setAnswers({});
       setComment('');
@@ -94,6 +155,7 @@ export function EventsPage() {
   const handleCloseModal = () => {
     setShowModal(false);
     setSelectedEvent(null);
+    setQuizResult(null);
     setAnswers({});
     setComment('');
   };
@@ -120,9 +182,10 @@ export function EventsPage() {
         if (result.newBalance) {
           updatePoints(result.newBalance);
         }
-        handleCloseModal();
+        // Show graded answers and explanations instead of closing
+        setQuizResult(result);
         // Refresh events
-        const updated = await api.events.list('active');
+        const updated = await api.events.list();
         setEvents(updated);
       }
     } catch (error) {
@@ -151,7 +214,7 @@ export function EventsPage() {
         }
         handleCloseModal();
         // Refresh events
-        const updated = await api.events.list('active');
+        const updated = await api.events.list();
         setEvents(updated);
       } else {
         toast.error(result.error || '참여에 실패했습니다.');
@@ -179,7 +242,7 @@ export function EventsPage() {
         toast.success('참여 완료! 관리자 승인 후 포인트가 지급됩니다.');
         handleCloseModal();
         // Refresh events
-        const updated = await api.events.list('active');
+        const updated = await api.events.list();
         setEvents(updated);
       } else {
         toast.error(result.error || '참여에 실패했습니다.');
@@ -219,6 +282,94 @@ export function EventsPage() {
     }
   };
 
+  const renderEventCard = (event: ListedEvent, isUpcoming: boolean) => (
+    <div
+      key={event.id}
+      className={`bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden transition-shadow ${
+        isUpcoming ? 'opacity-75' : 'hover:shadow-lg cursor-pointer'
+      }`}
+      onClick={isUpcoming ? undefined : () => handleSelectEvent(event)}
+    >
+      {/* Header */}
+      <div
+        className={`bg-gradient-to-r ${getEventColor(
+          event.type
+        )} p-4 text-white`}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {getEventIcon(event.type)}
+            <Badge color="gray" size="sm" className="bg-white/20 text-white border-0">
+              {event.type === 'quiz'
+                ? '퀴즈'
+                : event.type === 'first_come'
+                ? '선착순'
+                : '댓글'}
+            </Badge>
+          </div>
+          <div className="flex items-center gap-1">
+            <Star className="w-4 h-4 fill-white" />
+            <span className="font-bold">{event.pointsReward}P</span>
+          </div>
+        </div>
+      </div>
+
+      {event.matchesInterests && event.targetGrades && (
+        <div className="px-4 pt-3 flex flex-wrap items-center gap-1">
+          <Badge color="purple" size="sm">맞춤</Badge>
+          <span className="text-xs text-muted-foreground">
+            {event.targetGrades.map((g) => GRADE_GROUP_LABELS[g]).join(', ')} 대상
+          </span>
+        </div>
+      )}
+
+      {/* Content */}
+      <div className="p-4">
+        <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">
+          {event.title}
+        </h3>
+        {event.description && (
+          <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
+            {event.description}
+          </p>
+        )}
+
+        {/* Stats */}
+        <div className="flex items-center justify-between text-sm">
+          {isUpcoming ? (
+            <span className="text-muted-foreground">
+              {event.startAt && `${formatKstDateTime(event.startAt)} 시작`}
+            </span>
+          ) : (
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <Users className="w-4 h-4" />
+              <span>
+                {event.currentParticipants}
+                {event.maxParticipants && `/${event.maxParticipants}`}명 참여
+              </span>
+            </div>
+          )}
+          {!isUpcoming && event.type === 'first_come' && event.maxParticipants && (
+            <Badge
+              color={
+                event.currentParticipants >= event.maxParticipants
+                  ? 'red'
+                  : 'green'
+              }
+              size="sm"
+            >
+              {event.currentParticipants >= event.maxParticipants
+                ? '마감'
+                : `${event.maxParticipants - event.currentParticipants}명 남음`}
+            </Badge>
+          )}
+        </div>
+
+        <EventCountdown event={event} now={now} className="mt-3 text-sm" />
+      </div>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -241,8 +392,34 @@ export function EventsPage() {
           </p>
         </div>
 
+        {/* Interests */}
+        {isAuthenticated && (
+          <div className="mb-8 p-4 bg-white rounded-2xl border border-gray-100">
+            <p className="text-sm font-medium text-gray-900 mb-1">관심 학년</p>
+            <p className="text-xs text-muted-foreground mb-3">
+              관심 학년을 설정하면 해당 학년 대상 이벤트도 볼 수 있어요
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.entries(GRADE_GROUP_LABELS) as [GradeGroup, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => handleToggleInterest(value)}
+                  disabled={isSavingInterests}
+                  className={`px-3 py-1.5 rounded-full text-sm border transition-colors disabled:opacity-60 ${
+                    interests.includes(value)
+                      ? 'bg-primary-500 border-primary-500 text-white'
+                      : 'bg-white border-gray-200 text-gray-600 hover:border-primary-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Events Grid */}
-        {events.length === 0 ? (
+        {activeEvents.length === 0 && upcomingEvents.length === 0 ? (
           <div className="text-center py-16 bg-white rounded-2xl border border-gray-100">
             <Trophy className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
@@ -251,75 +428,24 @@ export function EventsPage() {
             <p className="text-gray-500">곧 새로운 이벤트가 시작됩니다!</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {events.map((event) => (
-              <div
-                key={event.id}
-                className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
-                onClick={() => handleSelectEvent(event)}
-              >
-                {/* Header */}
-                <div
-                  className={`bg-gradient-to-r ${getEventColor(
-                    event.type
-                  )} p-4 text-white`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      {getEventIcon(event.type)}
-                      <Badge color="gray" size="sm" className="bg-white/20 text-white border-0">
-                        {event.type === 'quiz'
-                          ? '퀴즈'
-                          : event.type === 'first_come'
-                          ? '선착순'
-                          : '댓글'}
-                      </Badge>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Star className="w-4 h-4 fill-white" />
-                      <span className="font-bold">{event.pointsReward}P</span>
-                    </div>
-                  </div>
+          <div className="space-y-10">
+            {activeEvents.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">진행 중인 이벤트</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {activeEvents.map((event) => renderEventCard(event, false))}
                 </div>
-
-                {/* Content */}
-                <div className="p-4">
-                  <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">
-                    {event.title}
-                  </h3>
-                  {event.description && (
-                    <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                      {event.description}
-                    </p>
-                  )}
-
-                  {/* Stats */}
-                  <div className="flex items-center justify-between text-sm">
-                    <div className="flex items-center gap-1 text-muted-foreground">
-                      <Users className="w-4 h-4" />
-                      <span>
-                        {event.currentParticipants}
-                        {event.maxParticipants && `/${event.maxParticipants}`}명 참여
-                      </span>
-                    </div>
-                    {event.type === 'first_come' && event.maxParticipants && (
-                      <Badge
-                        color={
-                          event.currentParticipants >= event.maxParticipants
-                            ? 'red'
-                            : 'green'
-                        }
-                        size="sm"
-                      >
-                        {event.currentParticipants >= event.maxParticipants
-                          ? '마감'
-                          : `${event.maxParticipants - event.currentParticipants}명 남음`}
-                      </Badge>
-                    )}
-                  </div>
+              </section>
+            )}
+
+            {upcomingEvents.length > 0 && (
+              <section>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">오픈 예정</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {upcomingEvents.map((event) => renderEventCard(event, true))}
                 </div>
-              </div>
-            ))}
+              </section>
+            )}
           </div>
         )}
 
@@ -351,11 +477,26 @@ export function EventsPage() {
                 {selectedEvent.description && (
                   <p className="text-white/80 mt-2">{selectedEvent.description}</p>
                 )}
+                {!quizResult && !selectedEvent.participated && selectedEvent.endAt && (
+                  <EventCountdown
+                    event={selectedEvent}
+                    now={now}
+                    className="mt-3 text-sm px-2 py-1 bg-white rounded-lg"
+                  />
+                )}
               </div>
 
               {/* Modal Content */}
               <div className="p-6">
-                {selectedEvent.participated ? (
+                {quizResult ? (
+                  // Quiz Result
+                  <div>
+                    <QuizResultView result={quizResult} />
+                    <Button onClick={handleCloseModal} fullWidth className="mt-6">
+                      확인
+                    </Button>
+                  </div>
+                ) : selectedEvent.participated ? (
                   <div className="text-center py-8">
                     <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
                     <h3 className="text-lg font-semibold text-gray-900 mb-2">
@@ -368,6 +509,19 @@ export function EventsPage() {
                       확인
                     </Button>
                   </div>
+                ) : selectedPhase === 'ended' ? (
+                  <div className="text-center py-8">
+                    <Clock className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                      종료된 이벤트입니다
+                    </h3>
+                    <p className="text-muted-foreground">
+                      다음 이벤트를 기대해주세요!
+                    </p>
+                    <Button onClick={handleCloseModal} className="mt-4">
+                      확인
+                    </Button>
+                  </div>
                 ) : selectedEvent.type === 'quiz' && selectedEvent.questions ? (
                   // Quiz Event
                   <div>
@@ -380,6 +534,10 @@ export function EventsPage() {
                       <span className="text-primary-600 font-medium">
                         최대 {selectedEvent.pointsReward}P 획득
                       </span>
+                      <span className="text-muted-foreground">|</span>
+                      <span className="text-sm text-muted-foreground">
+                        {getQuizScoringLabel(selectedEvent.scoringMode, selectedEvent.passThreshold)}
+                      </span>
                     </div>
 
                     <div className="space-y-6">
@@ -1,317 +1,36 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Link } from 'react-router-dom';
-import { Search, Filter, ChevronDown, ShoppingCart, Star, Loader2, Sparkles, BookOpen } from 'lucide-react';
-import { Button, Badge, Select, Skeleton } from '@/components/common';
+import { Search, Sparkles, BookOpen, Layers } from 'lucide-react';
+import { Button, Select, Skeleton } from '@/components/common';
 import { DailyRewards } from '@/components/daily';
-import { useCartStore, useAuthStore } from '@/store';
-import { useToast } from '@/components/common/Toast';
-import { api, ApiError } from '@/services/api';
 import {
-  Worksheet,
-  Grade,
-  Subject,
-  Category,
-  GRADE_LABELS,
-  SUBJECT_LABELS,
-  CATEGORY_LABELS,
-  formatPoints,
-} from '@/types';
-
-type SortOption = 'newest' | 'popular' | 'price_low' | 'price_high' | 'rating';
-
-interface WorksheetFilters {
-  grade?: Grade;
-  subject?: Subject;
-  category?: Category;
-  minPrice?: number;
-  maxPrice?: number;
-}
-
-const SORT_OPTIONS: { value: SortOption; label: string }[] = [
-  { value: 'newest', label: '최신순' },
-  { value: 'popular', label: '인기순' },
-  { value: 'price_low', label: '가격 낮은순' },
-  { value: 'price_high', label: '가격 높은순' },
-  { value: 'rating', label: '평점순' },
-];
-
-function WorksheetCard({ worksheet }: { worksheet: Worksheet }) {
-  const { isAuthenticated } = useAuthStore();
-  const { addItem, isInCart } = useCartStore();
-  const toast = useToast();
-  const [isAdding, setIsAdding] = useState(false);
-
-  const inCart = isInCart(worksheet.id);
-
-  const handleAddToCart = async (e: React.MouseEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    if (!isAuthenticated) {
-      toast.error('로그인이 필요합니다.');
-      return;
-    }
-
-    if (inCart) {
-      toast.info('이미 장바구니에 담긴 상품입니다.');
-      return;
-    }
-
-    setIsAdding(true);
-    try {
-      const cartItem = await api.cart.add(worksheet.id);
-      addItem(cartItem);
-      toast.success('장바구니에 담았습니다.');
-    } catch (error) {
-      if (error instanceof ApiError) {
-        toast.error(error.message);
-      } else {
-        toast.error('장바구니 담기에 실패했습니다.');
-      }
-    } finally {
-      setIsAdding(false);
-    }
-  };
-
-  return (
-    <Link
-      to={`/worksheet/${worksheet.id}`}
-      className="group bg-white rounded-2xl border border-gray-100 overflow-hidden
-                 shadow-sm hover:shadow-lg hover:shadow-primary-500/5 hover:border-primary-100
-                 transition-all duration-300"
-    >
-      {/* Preview Image */}
-      <div className="aspect-[4/3] bg-gradient-to-br from-gray-50 to-gray-100 relative overflow-hidden">
-        <img
-          src={worksheet.previewImage}
-          alt={worksheet.title}
-          className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
-        />
-        {/* Gradient overlay */}
-        <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
-        {/* Badges */}
-        <div className="absolute top-3 left-3 flex flex-wrap gap-1.5">
-          <Badge color="blue" size="sm">
-            {GRADE_LABELS[worksheet.grade]}
-          </Badge>
-          <Badge color="purple" size="sm">
-            {SUBJECT_LABELS[worksheet.subject]}
-          </Badge>
-        </div>
-      </div>
-
-      {/* Content */}
-      <div className="p-4">
-        <h3 className="font-semibold text-gray-900 line-clamp-2 mb-1.5 group-hover:text-primary-600 transition-colors leading-snug">
-          {worksheet.title}
-        </h3>
-
-        <p className="text-sm text-muted-foreground mb-3">{worksheet.sellerNickname}</p>
-
-        {/* Rating */}
-        <div className="flex items-center gap-1.5 mb-3">
-          <div className="flex items-center gap-0.5">
-            <Star className="w-4 h-4 text-yellow-400 fill-yellow-400" />
-            <span className="text-sm font-semibold text-gray-900">
-              {worksheet.averageRating.toFixed(1)}
-            </span>
-          </div>
-          <span className="text-sm text-muted-foreground">
-            ({worksheet.reviewCount})
-          </span>
-        </div>
-
-        {/* Price & Cart */}
-        <div className="flex items-center justify-between pt-3 border-t border-gray-50">
-          <div>
-            <span className="text-lg font-bold text-primary-600">
-              {formatPoints(worksheet.price)}
-            </span>
-          </div>
-          <Button
-            size="icon"
-            variant={inCart ? 'outline' : 'primary'}
-            onClick={handleAddToCart}
-            disabled={isAdding || inCart}
-            className="w-9 h-9 rounded-xl"
-          >
-            {isAdding ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <ShoppingCart className="w-4 h-4" />
-            )}
-          </Button>
-        </div>
-      </div>
-    </Link>
-  );
-}
-
-function FilterPanel({
-  filters,
-  onFilterChange,
-}: {
-  filters: WorksheetFilters;
-  onFilterChange: (filters: WorksheetFilters) => void;
-}) {
-  const [isOpen, setIsOpen] = useState(false);
-
-  const gradeOptions = [
-    { value: '', label: '전체 학년' },
-    ...Object.entries(GRADE_LABELS).map(([value, label]) => ({ value, label })),
-  ];
-
-  const subjectOptions = [
-    { value: '', label: '전체 과목' },
-    ...Object.entries(SUBJECT_LABELS).map(([value, label]) => ({ value, label })),
-  ];
-
-  const categoryOptions = [
-    { value: '', label: '전체 유형' },
-    ...Object.entries(CATEGORY_LABELS).map(([value, label]) => ({ value, label })),
-  ];
-
-  const priceRangeOptions = [
-    { value: '', label: '전체 가격' },
-    { value: '0-100', label: '100P 이하' },
-    { value: '100-200', label: '100P ~ 200P' },
-    { value: '200-300', label: '200P ~ 300P' },
-    { value: '300-500', label: '300P ~ 500P' },
-  ];
-
-  const handlePriceChange = (value: string) => {
-    if (!value) {
-      onFilterChange({ ...filters, minPrice: undefined, maxPrice: undefined });
-    } else {
-      const [min, max] = value.split('-').map(Number);
-      onFilterChange({ ...filters, minPrice: min, maxPrice: max });
-    }
-  };
-
-  const getPriceValue = () => {
-    if (filters.minPrice === undefined && filters.maxPrice === undefined) return '';
-    return `${filters.minPrice || 0}-${filters.maxPrice || 500}`;
-  };
-
-  const activeFilterCount = [
-    filters.grade,
-    filters.subject,
-    filters.category,
-    filters.minPrice !== undefined || filters.maxPrice !== undefined,
-  ].filter(Boolean).length;
-
-  return (
-    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
-      {/* Mobile Toggle */}
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        className="lg:hidden flex items-center justify-between w-full p-4"
-      >
-        <div className="flex items-center gap-2">
-          <Filter className="w-5 h-5 text-gray-500" />
-          <span className="font-medium text-gray-900">필터</span>
-          {activeFilterCount > 0 && (
-            <Badge color="primary" size="sm">
-              {activeFilterCount}
-            </Badge>
-          )}
-        </div>
-        <ChevronDown
-          className={`w-5 h-5 text-gray-400 transition-transform duration-200 ${
-            isOpen ? 'rotate-180' : ''
-          }`}
-        />
-      </button>
-
-      {/* Filter Content */}
-      <div className={`${isOpen ? 'block' : 'hidden'} lg:block p-4 lg:pt-4 space-y-4 border-t lg:border-t-0 border-gray-100`}>
-        <div className="hidden lg:flex items-center gap-2 pb-3 border-b border-gray-100">
-          <Filter className="w-4 h-4 text-gray-500" />
-          <span className="font-medium text-gray-900 text-sm">필터</span>
-        </div>
-
-        <Select
-          label="학년"
-          options={gradeOptions}
-          value={filters.grade || ''}
-          onChange={(value: string) =>
-            onFilterChange({
-              ...filters,
-              grade: value ? (value as Grade) : undefined,
-            })
-          }
-        />
-
-        <Select
-          label="과목"
-          options={subjectOptions}
-          value={filters.subject || ''}
-          onChange={(value: string) =>
-            onFilterChange({
-              ...filters,
-              subject: value ? (value as Subject) : undefined,
-            })
-          }
-        />
-
-        <Select
-          label="유형"
-          options={categoryOptions}
-          value={filters.category || ''}
-          onChange={(value: string) =>
-            onFilterChange({
-              ...filters,
-              category: value ? (value as Category) : undefined,
-            })
-          }
-        />
-
-        <Select
-          label="가격대"
-          options={priceRangeOptions}
-          value={getPriceValue()}
-          onChange={handlePriceChange}
-        />
-
-        {activeFilterCount > 0 && (
-          <Button
-            variant="outline"
-            fullWidth
-            size="sm"
-            onClick={() =>
-              onFilterChange({
-                grade: undefined,
-                subject: undefined,
-                category: undefined,
-                minPrice: undefined,
-                maxPrice: undefined,
-              })
-            }
-            className="mt-2"
-          >
-            필터 초기화
-          </Button>
-        )}
-      </div>
-    </div>
-  );
-}
+  WorksheetCard,
+  BundleCard,
+  FilterPanel,
+  CATALOG_SORT_OPTIONS,
+  type CatalogSort,
+  type CatalogFilters,
+} from '@/components/worksheet';
+import { api } from '@/services/api';
+import { Worksheet, type Bundle, type WorksheetFacets } from '@/types';
 
 export function HomePage() {
   const [worksheets, setWorksheets] = useState<Worksheet[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
-  const [sort, setSort] = useState<SortOption>('newest');
-  const [filters, setFilters] = useState<WorksheetFilters>({});
+  const [activeSearch, setActiveSearch] = useState('');
+  const [sort, setSort] = useState<CatalogSort>('newest');
+  const [filters, setFilters] = useState<CatalogFilters>({});
   const [page, setPage] = useState(1);
   const [total, setTotal] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
+  const [facets, setFacets] = useState<WorksheetFacets | null>(null);
+  const [bundles, setBundles] = useState<Bundle[]>([]);
   const limit = 12;
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const isMountedRef = useRef(true);
 
-  const fetchWorksheets = useCallback(async (currentPage: number, currentSort: string, currentFilters: WorksheetFilters, currentSearch: string) => {
+  const fetchWorksheets = useCallback(async (currentPage: number, currentSort: string, currentFilters: CatalogFilters, currentSearch: string) => {
     // Cancel previous request
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -333,9 +52,10 @@ export function HomePage() {
       // Only update state if component is still mounted
       if (isMountedRef.current) {
         console.log('[HomePage] API result:', result);
+        setActiveSearch(currentSearch.trim());
         setWorksheets(result.worksheets);
-        setTotal(result.total);
-        setTotalPages(result.totalPages);
+        setTotal(result.pagination.totalCount);
+        setTotalPages(result.pagination.totalPages);
       }
     } catch (error) {
       console.error('[HomePage] Failed to fetch worksheets:', error);
@@ -363,12 +83,66 @@ export function HomePage() {
     };
   }, [page, sort, filters, fetchWorksheets]);
 
+  // Facet counts only depend on the search and filters, not on page/sort
+  useEffect(() => {
+    let isMounted = true;
+
+    api.worksheets
+      .facets({ search: activeSearch || undefined, ...filters })
+      .then((result) => {
+        if (isMounted) setFacets(result);
+      })
+      .catch((error) => {
+        // Counts are a hint only; keep the panel usable without them
+        console.error('[HomePage] Failed to fetch facets:', error);
+        if (isMounted) setFacets(null);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [filters, activeSearch]);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    api.bundles
+      .list({ limit: 3 })
+      .then((result) => {
+        if (isMounted) setBundles(result);
+      })
+      .catch((error) => {
+        console.error('[HomePage] Failed to fetch bundles:', error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Bundles are only featured on the unfiltered first page
+  const showBundles = bundles.length > 0 && page === 1 && !activeSearch && Object.values(filters).every((v) => v === undefined);
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     setPage(1);
+    // Switch to relevance ranking for a new search; the sort change triggers the fetch
+    if (searchQuery.trim() && !activeSearch && sort === 'newest') {
+      setSort('relevance');
+      return;
+    }
+    if (!searchQuery.trim() && sort === 'relevance') {
+      setSort('newest');
+      return;
+    }
     fetchWorksheets(1, sort, filters, searchQuery);
   };
 
+  // Relevance only makes sense while a search is active
+  const sortOptions = activeSearch
+    ? CATALOG_SORT_OPTIONS
+    : CATALOG_SORT_OPTIONS.filter((option) => option.value !== 'relevance');
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
@@ -410,11 +184,26 @@ export function HomePage() {
           {/* Filter Sidebar */}
           <aside className="lg:w-64 shrink-0 space-y-4">
             <DailyRewards />
-            <FilterPanel filters={filters} onFilterChange={setFilters} />
+            <FilterPanel filters={filters} facets={facets} onFilterChange={setFilters} />
           </aside>
 
           {/* Main Content */}
           <main className="flex-1 min-w-0">
+            {/* Bundle Deals */}
+            {showBundles && (
+              <section className="mb-8">
+                <div className="flex items-center gap-2 mb-4">
+                  <Layers className="w-5 h-5 text-primary-500" />
+                  <h2 className="text-lg font-semibold text-gray-900">묶음 할인</h2>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-5">
+                  {bundles.map((bundle) => (
+                    <BundleCard key={bundle.id} bundle={bundle} />
+                  ))}
+                </div>
+              </section>
+            )}
+
             {/* Sort & Results Count */}
             <div className="flex items-center justify-between mb-5 gap-4">
               <div className="flex items-center gap-2">
@@ -424,9 +213,9 @@ export function HomePage() {
                 </p>
               </div>
               <Select
-                options={SORT_OPTIONS}
+                options={sortOptions}
                 value={sort}
-                onChange={(value: string) => setSort(value as SortOption)}
+                onChange={(value: string) => setSort(value as CatalogSort)}
                 className="w-36"
               />
             </div>
@@ -8,6 +8,7 @@ import {
   Bell,
   MessageSquare,
   Reply,
+  Gift,
 } from 'lucide-react';
 import { Badge } from '@/components/common';
 import { useAuthStore } from '@/store';
@@ -88,6 +89,8 @@ export function InboxPage() {
         return <Bell className="w-4 h-4" />;
       case 'inquiry_reply':
         return <Reply className="w-4 h-4" />;
+      case 'gift':
+        return <Gift className="w-4 h-4" />;
       default:
         return <MessageSquare className="w-4 h-4" />;
     }
@@ -101,6 +104,8 @@ export function InboxPage() {
         return '답변';
       case 'inquiry':
         return '문의';
+      case 'gift':
+        return '선물';
       default:
         return '메시지';
     }
@@ -14,19 +14,46 @@ import {
   Edit2,
   Check,
   X,
+  Users,
+  UserMinus,
+  Heart,
+  ShoppingCart,
+  Layers,
+  Plus,
+  Gift,
+  RotateCcw,
+  TrendingUp,
+  Receipt,
 } from 'lucide-react';
 import { Button, Badge, Skeleton, Modal } from '@/components/common';
-import { useAuthStore } from '@/store';
+import { useAuthStore, useCartStore, useWishlistStore } from '@/store';
 import { useToast } from '@/components/common/Toast';
+import { RefundRequestModal, RefundStatusBadge } from '@/components/refund';
+import { PointChargeModal } from '@/components/points';
+import { WithdrawalPanel } from '@/components/withdrawal';
+import { ExportModal } from '@/components/export';
+import { RevenueChart, TrendChart, DateRangePicker, type DateRange } from '@/components/sales';
 import { api, ApiError } from '@/services/api';
+import { downloadCsv } from '@/lib/csv';
 import {
+  Bundle,
+  EarningsBreakdown,
   Purchase,
+  PurchaseOrder,
+  RefundRequest,
+  SellerAnalytics,
+  SellerEarningsReport,
   Worksheet,
   PointTransaction,
+  FollowedSeller,
+  WishlistItem,
+  REFUND_REASON_LABELS,
   GRADE_LABELS,
   SUBJECT_LABELS,
   formatPoints,
   formatDate,
+  formatKstDateTime,
+  kstDateString,
 } from '@/types';
 
 // Tab Navigation
@@ -37,8 +64,12 @@ function TabNav() {
     { path: '/my', label: '대시보드', icon: User, exact: true },
     { path: '/my/purchases', label: '구매 내역', icon: ShoppingBag },
     { path: '/my/worksheets', label: '내 자료', icon: FileText },
+    { path: '/my/bundles', label: '묶음 상품', icon: Layers },
     { path: '/my/sales', label: '판매 현황', icon: BarChart3 },
+    { path: '/my/analytics', label: '판매 분석', icon: TrendingUp },
     { path: '/my/points', label: '포인트', icon: Coins },
+    { path: '/my/wishlist', label: '찜 목록', icon: Heart },
+    { path: '/my/following', label: '팔로잉', icon: Users },
   ];
 
   const isActive = (path: string, exact?: boolean) => {
@@ -75,12 +106,10 @@ function DashboardPage() {
   const { user, logout, updateNickname } = useAuthStore();
   const navigate = useNavigate();
   const toast = useToast();
-  const [summary, setSummary] = useState<{
+  const [summary, setSummary] = useState<(EarningsBreakdown & {
     purchaseCount: number;
     worksheetCount: number;
-    totalSales: number;
-    totalEarnings: number;
-  } | null>(null);
+  }) | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditingNickname, setIsEditingNickname] = useState(false);
   const [newNickname, setNewNickname] = useState(user?.nickname || '');
@@ -262,7 +291,7 @@ function DashboardPage() {
         >
           <BarChart3 className="w-8 h-8 text-green-500 mb-2" />
           <p className="text-2xl font-bold text-gray-900">
-            {summary?.totalSales || 0}
+            {summary?.salesCount || 0}
           </p>
           <p className="text-sm text-gray-500">총 판매 횟수</p>
         </Link>
@@ -272,9 +301,9 @@ function DashboardPage() {
         >
           <Coins className="w-8 h-8 text-yellow-500 mb-2" />
           <p className="text-2xl font-bold text-gray-900">
-            {formatPoints(summary?.totalEarnings || 0)}
+            {formatPoints(summary?.netEarnings || 0)}
           </p>
-          <p className="text-sm text-gray-500">총 수익</p>
+          <p className="text-sm text-gray-500">순수익 (수수료 차감)</p>
         </Link>
       </div>
 
@@ -326,28 +355,77 @@ function DashboardPage() {
 
 // Purchases Page
 function PurchasesPage() {
-  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [refunds, setRefunds] = useState<RefundRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [refundTarget, setRefundTarget] = useState<Purchase | null>(null);
+  const [updatingRefundId, setUpdatingRefundId] = useState<string | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
   const toast = useToast();
 
+  const fetchData = async () => {
+    try {
+      const [ordersData, refundsData] = await Promise.all([
+        api.purchases.orders(),
+        api.refunds.mine(),
+      ]);
+      setOrders(ordersData);
+      setRefunds(refundsData);
+    } catch (error) {
+      console.error('Failed to fetch purchases:', error);
+    }
+  };
+
   useEffect(() => {
     let isMounted = true;
 
-    const fetchPurchases = async () => {
+    const fetchOrders = async () => {
       try {
-        const data = await api.purchases.list();
-        if (isMounted) setPurchases(data);
+        const [ordersData, refundsData] = await Promise.all([
+          api.purchases.orders(),
+          api.refunds.mine(),
+        ]);
+        if (isMounted) {
+          setOrders(ordersData);
+          setRefunds(refundsData);
+        }
       } catch (error) {
         console.error('Failed to fetch purchases:', error);
       } finally {
         if (isMounted) setIsLoading(false);
       }
     };
-    fetchPurchases();
+    fetchOrders();
 
     return () => { isMounted = false; };
   }, []);
 
+  // Cancelled requests don't block a new one, so only the latest open request matters
+  const activeRefunds = new Map(
+    refunds
+      .filter((r) => r.purchaseId && r.status !== 'cancelled')
+      .map((r) => [r.purchaseId!, r])
+  );
+  const openRefunds = refunds.filter((r) => r.status !== 'cancelled');
+
+  const handleRefundAction = async (request: RefundRequest, action: 'escalate' | 'cancel') => {
+    setUpdatingRefundId(request.id);
+    try {
+      if (action === 'escalate') {
+        await api.refunds.escalate(request.id);
+        toast.success('관리자에게 이의를 제기했습니다.');
+      } else {
+        await api.refunds.cancel(request.id);
+        toast.success('환불 요청을 취소했습니다.');
+      }
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '처리에 실패했습니다.');
+    } finally {
+      setUpdatingRefundId(null);
+    }
+  };
+
   const handleDownload = async (worksheetId: string) => {
     try {
       const result = await api.purchases.download(worksheetId);
@@ -368,7 +446,7 @@ function PurchasesPage() {
     );
   }
 
-  if (purchases.length === 0) {
+  if (orders.length === 0 && openRefunds.length === 0) {
     return (
       <div className="text-center py-16">
         <ShoppingBag className="w-16 h-16 mx-auto text-gray-300 mb-4" />
@@ -385,64 +463,217 @@ function PurchasesPage() {
     );
   }
 
-  // Filter out purchases where worksheet is null
-  const validPurchases = purchases.filter(p => p.worksheet !== null);
-
   return (
     <div className="space-y-4">
-      {validPurchases.map((purchase) => {
-        const worksheet = purchase.worksheet!;
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={() => setShowExportModal(true)}>
+          <Download className="w-4 h-4 mr-1" />
+          구매 내역 내보내기
+        </Button>
+      </div>
+
+      {openRefunds.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+            <RotateCcw className="w-4 h-4 text-gray-500" />
+            <h3 className="font-semibold text-gray-900">환불 요청 내역</h3>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {openRefunds.map((request) => (
+              <div key={request.id} className="p-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-900 line-clamp-1">{request.worksheetTitle}</span>
+                  <RefundStatusBadge status={request.status} />
+                </div>
+                <p className="text-sm text-gray-500">
+                  {REFUND_REASON_LABELS[request.reasonType]} · {formatDate(request.createdAt)}
+                  {request.refundedAmount !== null && ` · ${formatPoints(request.refundedAmount)} 환불`}
+                </p>
+                {request.sellerResponse && (
+                  <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+                    판매자: {request.sellerResponse}
+                  </p>
+                )}
+                {request.adminNote && (
+                  <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-3 py-2">
+                    관리자: {request.adminNote}
+                  </p>
+                )}
+                {(request.status === 'pending' || request.status === 'seller_rejected') && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={updatingRefundId === request.id}
+                      onClick={() => handleRefundAction(request, 'cancel')}
+                    >
+                      요청 취소
+                    </Button>
+                    {request.status === 'seller_rejected' && (
+                      <Button
+                        size="sm"
+                        loading={updatingRefundId === request.id}
+                        onClick={() => handleRefundAction(request, 'escalate')}
+                      >
+                        이의 제기
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {orders.map((order) => {
+        // Filter out purchases where worksheet is null
+        const validPurchases = order.purchases.filter(p => p.worksheet !== null);
         return (
           <div
-            key={purchase.id}
-            className="bg-white rounded-xl border border-gray-200 p-4"
+            key={order.id}
+            className="bg-white rounded-xl border border-gray-200 overflow-hidden"
           >
-            <div className="flex gap-4">
-              <img
-                src={worksheet.previewImage}
-                alt={worksheet.title}
-                className="w-20 h-24 object-cover rounded-lg bg-gray-100"
-              />
-              <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border-b border-gray-200 text-sm">
+              <div className="flex items-center gap-2 text-gray-600">
+                <Calendar className="w-4 h-4" />
+                <span>{formatDate(order.createdAt)}</span>
+                <span className="text-gray-300">·</span>
+                <span>{order.purchases.length}개</span>
+                {order.bundleTitle && (
+                  <>
+                    <span className="text-gray-300">·</span>
+                    <span className="flex items-center gap-1 text-primary-600">
+                      <Layers className="w-4 h-4" />
+                      {order.bundleTitle}
+                    </span>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {order.discount > 0 && (
+                  <Badge color="red" size="sm">
+                    {order.bundleTitle ? '묶음' : '쿠폰'} -{formatPoints(order.discount)}
+                  </Badge>
+                )}
+                <span className="font-semibold text-gray-900">
+                  {formatPoints(order.totalSpent)}
+                </span>
                 <Link
-                  to={`/worksheet/${purchase.worksheetId}`}
-                  className="font-medium text-gray-900 hover:text-primary-600 transition-colors line-clamp-1"
+                  to={`/receipt/${order.id}`}
+                  className="flex items-center gap-1 text-gray-500 hover:text-primary-600"
+                  title="영수증"
                 >
-                  {worksheet.title}
+                  <Receipt className="w-4 h-4" />
+                  <span className="hidden sm:inline">영수증</span>
                 </Link>
-                <p className="text-sm text-gray-500 mt-1">
-                  {worksheet.sellerNickname}
-                </p>
-                <div className="flex items-center gap-2 mt-2 text-sm text-gray-500">
-                  <Calendar className="w-4 h-4" />
-                  <span>{formatDate(purchase.purchasedAt)}</span>
-                </div>
-                <div className="flex items-center justify-between mt-3">
-                  <span className="font-semibold text-primary-600">
-                    {formatPoints(purchase.price)}
-                  </span>
-                  <div className="flex items-center gap-2">
-                    {!purchase.hasFeedback && (
-                      <Link to={`/worksheet/${purchase.worksheetId}`}>
-                        <Button size="sm" variant="outline">
-                          후기 작성
-                        </Button>
+              </div>
+            </div>
+
+            <div className="divide-y divide-gray-100">
+              {validPurchases.map((purchase) => {
+                const worksheet = purchase.worksheet!;
+                return (
+                  <div key={purchase.id} className="flex gap-4 p-4">
+                    <img
+                      src={worksheet.previewImage}
+                      alt={worksheet.title}
+                      className="w-16 h-20 object-cover rounded-lg bg-gray-100"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        to={`/worksheet/${purchase.worksheetId}`}
+                        className="font-medium text-gray-900 hover:text-primary-600 transition-colors line-clamp-1"
+                      >
+                        {worksheet.title}
                       </Link>
-                    )}
-                    <Button
-                      size="sm"
-                      onClick={() => handleDownload(purchase.worksheetId)}
-                    >
-                      <Download className="w-4 h-4 mr-1" />
-                      다운로드
-                    </Button>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {worksheet.sellerNickname}
+                      </p>
+                      {purchase.giftFromNickname && (
+                        <p className="flex items-center gap-1 text-sm text-pink-600 mt-1">
+                          <Gift className="w-4 h-4 shrink-0" />
+                          <span className="line-clamp-1">
+                            {purchase.giftFromNickname}님의 선물
+                            {purchase.giftMessage && ` · "${purchase.giftMessage}"`}
+                          </span>
+                        </p>
+                      )}
+                      <div className="flex items-center justify-between mt-3">
+                        <span className="font-semibold text-primary-600">
+                          {purchase.giftFromNickname ? '선물 받음' : formatPoints(purchase.price)}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          {activeRefunds.has(purchase.id) ? (
+                            <RefundStatusBadge status={activeRefunds.get(purchase.id)!.status} />
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setRefundTarget(purchase)}
+                            >
+                              환불 요청
+                            </Button>
+                          )}
+                          {!purchase.hasFeedback && (
+                            <Link to={`/worksheet/${purchase.worksheetId}`}>
+                              <Button size="sm" variant="outline">
+                                후기 작성
+                              </Button>
+                            </Link>
+                          )}
+                          <Button
+                            size="sm"
+                            onClick={() => handleDownload(purchase.worksheetId)}
+                          >
+                            <Download className="w-4 h-4 mr-1" />
+                            다운로드
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
+                );
+              })}
             </div>
           </div>
         );
       })}
+
+      <RefundRequestModal
+        isOpen={refundTarget !== null}
+        onClose={() => setRefundTarget(null)}
+        onRequested={fetchData}
+        purchase={refundTarget && {
+          id: refundTarget.id,
+          title: refundTarget.worksheet?.title ?? '',
+          price: refundTarget.price,
+          hasFeedback: refundTarget.hasFeedback,
+        }}
+      />
+
+      <ExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        title="구매 내역"
+        filename="구매내역"
+        load={async (range) => ({
+          headers: ['구매일시', '주문번호', '자료명', '할인', '결제 포인트', '비고'],
+          rows: (await api.purchases.list(range)).map((p) => [
+            formatKstDateTime(p.purchasedAt),
+            p.orderId,
+            p.worksheet?.title ?? '삭제된 자료',
+            p.discount,
+            // Gifts were paid by the sender
+            p.giftFromNickname ? 0 : p.price,
+            p.giftFromNickname
+              ? `${p.giftFromNickname}님의 선물`
+              : p.bundleTitle
+                ? `묶음: ${p.bundleTitle}`
+                : null,
+          ]),
+        })}
+      />
     </div>
   );
 }
@@ -543,29 +774,545 @@ function MyWorksheetsPage() {
   );
 }
 
+// My Bundles Page
+function MyBundlesPage() {
+  const toast = useToast();
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [worksheets, setWorksheets] = useState<Worksheet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [price, setPrice] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const fetchBundles = async () => {
+    try {
+      setBundles(await api.bundles.mine());
+    } catch (error) {
+      console.error('Failed to fetch bundles:', error);
+    }
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchData = async () => {
+      try {
+        const [bundlesData, worksheetsData] = await Promise.all([
+          api.bundles.mine(),
+          api.my.worksheets(),
+        ]);
+        if (isMounted) {
+          setBundles(bundlesData);
+          setWorksheets(worksheetsData.filter((w) => w.status === 'approved'));
+        }
+      } catch (error) {
+        console.error('Failed to fetch bundles:', error);
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    fetchData();
+
+    return () => { isMounted = false; };
+  }, []);
+
+  const originalPrice = worksheets
+    .filter((w) => selectedIds.includes(w.id))
+    .reduce((sum, w) => sum + w.price, 0);
+
+  const toggleWorksheet = (worksheetId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(worksheetId) ? prev.filter((wid) => wid !== worksheetId) : [...prev, worksheetId]
+    );
+  };
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setPrice(0);
+    setSelectedIds([]);
+  };
+
+  const handleCreate = async () => {
+    if (price >= originalPrice) {
+      toast.error(`묶음 가격은 정가 합계(${formatPoints(originalPrice)})보다 낮아야 합니다.`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await api.bundles.create({ title, description, price, worksheetIds: selectedIds });
+      toast.success('묶음 상품을 등록했습니다.');
+      setShowCreateModal(false);
+      resetForm();
+      fetchBundles();
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('묶음 상품 등록에 실패했습니다.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleStatus = async (bundle: Bundle) => {
+    const nextStatus = bundle.status === 'approved' ? 'hidden' : 'approved';
+    try {
+      await api.bundles.setStatus(bundle.id, nextStatus);
+      setBundles((prev) => prev.map((b) => (b.id === bundle.id ? { ...b, status: nextStatus } : b)));
+      toast.success(nextStatus === 'hidden' ? '판매를 중지했습니다.' : '판매를 재개했습니다.');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton.Card key={i} className="h-32" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          시리즈 자료를 묶어 할인된 가격으로 판매하세요
+        </p>
+        <Button
+          size="sm"
+          onClick={() => setShowCreateModal(true)}
+          disabled={worksheets.length < 2}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          묶음 만들기
+        </Button>
+      </div>
+
+      {bundles.length === 0 ? (
+        <div className="text-center py-16">
+          <Layers className="w-16 h-16 mx-auto text-gray-300 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            등록한 묶음 상품이 없습니다
+          </h3>
+          <p className="text-gray-500">
+            판매 중인 자료가 2개 이상이면 묶음을 만들 수 있습니다
+          </p>
+        </div>
+      ) : (
+        bundles.map((bundle) => (
+          <div
+            key={bundle.id}
+            className="flex items-center gap-4 bg-white rounded-xl border border-gray-200 p-4"
+          >
+            <Link to={`/bundle/${bundle.id}`} className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <h3 className="font-medium text-gray-900 line-clamp-1 hover:text-primary-600">
+                  {bundle.title}
+                </h3>
+                {bundle.status === 'hidden' && (
+                  <Badge color="gray" size="sm">판매 중지</Badge>
+                )}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                자료 {bundle.itemCount}개 · {formatPoints(bundle.originalPrice)} →{' '}
+                <span className="font-semibold text-primary-600">{formatPoints(bundle.price)}</span>
+                {bundle.discountRate > 0 && ` (${bundle.discountRate}% 할인)`}
+              </p>
+            </Link>
+            <Button size="sm" variant="outline" onClick={() => handleToggleStatus(bundle)}>
+              {bundle.status === 'hidden' ? '판매 재개' : '판매 중지'}
+            </Button>
+          </div>
+        ))
+      )}
+
+      {/* Create Bundle Modal */}
+      <Modal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        title="묶음 만들기"
+        size="lg"
+      >
+        <Modal.Body>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">제목</label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={100}
+                placeholder="예: 3학년 1학기 분수 단원 전체"
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">설명</label>
+              <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                포함할 자료 ({selectedIds.length}개 선택)
+              </label>
+              <div className="max-h-56 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {worksheets.map((worksheet) => (
+                  <label
+                    key={worksheet.id}
+                    className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(worksheet.id)}
+                      onChange={() => toggleWorksheet(worksheet.id)}
+                      className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="flex-1 text-sm text-gray-900 line-clamp-1">{worksheet.title}</span>
+                    <span className="text-sm text-gray-500">{formatPoints(worksheet.price)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">묶음 가격 (P)</label>
+              <input
+                type="number"
+                min={1}
+                value={price || ''}
+                onChange={(e) => setPrice(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                정가 합계 {formatPoints(originalPrice)}
+                {price > 0 && originalPrice > price &&
+                  ` · ${Math.round((1 - price / originalPrice) * 100)}% 할인`}
+              </p>
+            </div>
+          </div>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setShowCreateModal(false)}>
+            취소
+          </Button>
+          <Button
+            onClick={handleCreate}
+            loading={isSaving}
+            disabled={selectedIds.length < 2 || price <= 0 || title.trim().length < 2}
+          >
+            등록
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+}
+
+// Wishlist Page
+function WishlistPage() {
+  const toast = useToast();
+  const { addItem } = useCartStore();
+  const wishlist = useWishlistStore();
+  const [items, setItems] = useState<WishlistItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchWishlist = async () => {
+      try {
+        const data = await api.wishlist.list();
+        if (isMounted) setItems(data);
+      } catch (error) {
+        console.error('Failed to fetch wishlist:', error);
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    fetchWishlist();
+
+    return () => { isMounted = false; };
+  }, []);
+
+  const handleRemove = async (worksheetId: string) => {
+    try {
+      await api.wishlist.remove(worksheetId);
+      wishlist.remove(worksheetId);
+      setItems((prev) => prev.filter((item) => item.worksheetId !== worksheetId));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  const handleMoveToCart = async (worksheetId: string) => {
+    setMovingId(worksheetId);
+    try {
+      const cartItem = await api.wishlist.moveToCart(worksheetId);
+      addItem(cartItem);
+      wishlist.remove(worksheetId);
+      setItems((prev) => prev.filter((item) => item.worksheetId !== worksheetId));
+      toast.success('장바구니로 옮겼습니다.');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    } finally {
+      setMovingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton.Card key={i} className="h-32" />
+        ))}
+      </div>
+    );
+  }
+
+  const validItems = items.filter((item) => item.worksheet !== null);
+
+  if (validItems.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <Heart className="w-16 h-16 mx-auto text-gray-300 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          찜한 자료가 없습니다
+        </h3>
+        <p className="text-gray-500 mb-4">
+          마음에 드는 자료를 찜해두고 나중에 구매하세요
+        </p>
+        <Link to="/">
+          <Button>자료 둘러보기</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {validItems.map((item) => {
+        const worksheet = item.worksheet!;
+        const priceDropped = worksheet.price < item.priceAtAdd;
+        return (
+          <div
+            key={item.id}
+            className="flex gap-4 bg-white rounded-xl border border-gray-200 p-4"
+          >
+            <Link to={`/worksheet/${worksheet.id}`} className="shrink-0">
+              <img
+                src={worksheet.previewImage}
+                alt={worksheet.title}
+                className="w-20 h-24 object-cover rounded-lg bg-gray-100"
+              />
+            </Link>
+            <div className="flex-1 min-w-0">
+              <Link
+                to={`/worksheet/${worksheet.id}`}
+                className="font-medium text-gray-900 line-clamp-1 hover:text-primary-600"
+              >
+                {worksheet.title}
+              </Link>
+              <p className="text-sm text-gray-500 mt-1">
+                {worksheet.sellerNickname} · {formatDate(item.addedAt)} 찜
+              </p>
+              <div className="flex items-center gap-2 mt-2">
+                <span className="font-semibold text-primary-600">
+                  {formatPoints(worksheet.price)}
+                </span>
+                {priceDropped && (
+                  <>
+                    <span className="text-sm text-gray-400 line-through">
+                      {formatPoints(item.priceAtAdd)}
+                    </span>
+                    <Badge color="red" size="sm">가격 인하</Badge>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-col gap-2 shrink-0">
+              <Button
+                size="sm"
+                onClick={() => handleMoveToCart(item.worksheetId)}
+                loading={movingId === item.worksheetId}
+              >
+                <ShoppingCart className="w-4 h-4 mr-1" />
+                장바구니
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleRemove(item.worksheetId)}>
+                삭제
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Following Page
+function FollowingPage() {
+  const toast = useToast();
+  const [sellers, setSellers] = useState<FollowedSeller[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchFollowing = async () => {
+      try {
+        const data = await api.follows.list();
+        if (isMounted) setSellers(data);
+      } catch (error) {
+        console.error('Failed to fetch following:', error);
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    fetchFollowing();
+
+    return () => { isMounted = false; };
+  }, []);
+
+  const handleUnfollow = async (sellerId: string) => {
+    try {
+      await api.follows.unfollow(sellerId);
+      setSellers((prev) => prev.filter((s) => s.sellerId !== sellerId));
+      toast.success('팔로우를 취소했습니다.');
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton.Card key={i} className="h-20" />
+        ))}
+      </div>
+    );
+  }
+
+  if (sellers.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <Users className="w-16 h-16 mx-auto text-gray-300 mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          팔로우한 판매자가 없습니다
+        </h3>
+        <p className="text-gray-500 mb-4">
+          판매자를 팔로우하면 새 자료가 등록될 때 알림을 받을 수 있습니다
+        </p>
+        <Link to="/">
+          <Button>자료 둘러보기</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {sellers.map((seller) => (
+        <div
+          key={seller.sellerId}
+          className="flex items-center gap-4 bg-white rounded-xl border border-gray-200 p-4"
+        >
+          <Link to={`/seller/${seller.sellerId}`} className="flex items-center gap-4 flex-1 min-w-0">
+            <div className="w-12 h-12 rounded-full bg-primary-100 flex items-center justify-center overflow-hidden shrink-0">
+              {seller.avatarUrl ? (
+                <img src={seller.avatarUrl} alt={seller.nickname} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-lg font-bold text-primary-600">
+                  {seller.nickname.charAt(0)}
+                </span>
+              )}
+            </div>
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">{seller.nickname}</p>
+              <p className="text-sm text-gray-500">{formatDate(seller.followedAt)} 팔로우</p>
+            </div>
+          </Link>
+          <Button variant="outline" size="sm" onClick={() => handleUnfollow(seller.sellerId)}>
+            <UserMinus className="w-4 h-4 mr-1" />
+            언팔로우
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // Sales Page
 function SalesPage() {
-  const [sales, setSales] = useState<{
-    totalSales: number;
-    totalEarnings: number;
-    worksheets: Array<{
-      worksheetId: string;
-      title: string;
-      salesCount: number;
-      earnings: number;
-    }>;
-  } | null>(null);
+  const [sales, setSales] = useState<SellerEarningsReport | null>(null);
+  const [range, setRange] = useState<DateRange>({ from: kstDateString(29), to: kstDateString() });
+  const [refunds, setRefunds] = useState<RefundRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [rejectTarget, setRejectTarget] = useState<RefundRequest | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const toast = useToast();
+
+  const fetchData = async () => {
+    try {
+      const [salesData, refundsData] = await Promise.all([
+        api.my.sales(range),
+        api.refunds.received(),
+      ]);
+      setSales(salesData);
+      setRefunds(refundsData);
+    } catch (error) {
+      console.error('Failed to fetch sales:', error);
+    }
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchRefunds = async () => {
+      try {
+        const refundsData = await api.refunds.received();
+        if (isMounted) setRefunds(refundsData);
+      } catch (error) {
+        console.error('Failed to fetch refunds:', error);
+      }
+    };
+    fetchRefunds();
+
+    return () => { isMounted = false; };
+  }, []);
 
   useEffect(() => {
     let isMounted = true;
 
     const fetchSales = async () => {
       try {
-        const data = await api.my.sales();
-        if (isMounted) setSales(data);
+        const salesData = await api.my.sales(range);
+        if (isMounted) setSales(salesData);
       } catch (error) {
         console.error('Failed to fetch sales:', error);
+        if (isMounted && error instanceof ApiError) toast.error(error.message);
       } finally {
         if (isMounted) setIsLoading(false);
       }
@@ -573,7 +1320,28 @@ function SalesPage() {
     fetchSales();
 
     return () => { isMounted = false; };
-  }, []);
+  }, [range.from, range.to]);
+
+  const pendingRefunds = refunds.filter((r) => r.status === 'pending');
+
+  const handleRespond = async (request: RefundRequest, accept: boolean) => {
+    setRespondingId(request.id);
+    try {
+      const result = await api.refunds.respond(request.id, accept, accept ? undefined : rejectReason);
+      if (result.status === 'refunded') {
+        toast.success(`환불을 수락했습니다. ${formatPoints(result.refundedAmount)}가 회수됩니다.`);
+      } else {
+        toast.success('환불 요청을 거절했습니다.');
+      }
+      setRejectTarget(null);
+      setRejectReason('');
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof ApiError ? error.message : '처리에 실패했습니다.');
+    } finally {
+      setRespondingId(null);
+    }
+  };
 
   if (isLoading) {
     return (
@@ -589,22 +1357,96 @@ function SalesPage() {
 
   return (
     <div className="space-y-6">
+      <DateRangePicker value={range} onChange={setRange} />
+
       {/* Summary */}
-      <div className="grid grid-cols-2 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-xl border border-gray-200 p-4">
-          <p className="text-sm text-gray-500 mb-1">총 판매 횟수</p>
+          <p className="text-sm text-gray-500 mb-1">판매 횟수</p>
           <p className="text-2xl font-bold text-gray-900">
-            {sales?.totalSales || 0}회
+            {sales?.salesCount || 0}회
           </p>
         </div>
         <div className="bg-white rounded-xl border border-gray-200 p-4">
-          <p className="text-sm text-gray-500 mb-1">총 수익</p>
+          <p className="text-sm text-gray-500 mb-1">매출</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {formatPoints(sales?.grossEarnings || 0)}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-sm text-gray-500 mb-1">플랫폼 수수료</p>
+          <p className="text-2xl font-bold text-red-500">
+            -{formatPoints(sales?.platformFees || 0)}
+          </p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-sm text-gray-500 mb-1">순수익</p>
           <p className="text-2xl font-bold text-secondary-600">
-            {formatPoints(sales?.totalEarnings || 0)}
+            {formatPoints(sales?.netEarnings || 0)}
           </p>
         </div>
       </div>
 
+      {/* Daily Revenue */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="px-4 py-3 border-b bg-gray-50">
+          <h3 className="font-medium text-gray-900">일별 매출</h3>
+        </div>
+        <div className="p-4">
+          <RevenueChart daily={sales?.daily || []} />
+        </div>
+      </div>
+
+      <WithdrawalPanel />
+
+      {/* Refund Requests */}
+      {pendingRefunds.length > 0 && (
+        <div className="bg-white rounded-xl border border-yellow-200 overflow-hidden">
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-yellow-200 bg-yellow-50">
+            <RotateCcw className="w-4 h-4 text-yellow-600" />
+            <h3 className="font-medium text-gray-900">
+              응답 대기 중인 환불 요청 ({pendingRefunds.length})
+            </h3>
+          </div>
+          <div className="divide-y">
+            {pendingRefunds.map((request) => (
+              <div key={request.id} className="px-4 py-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-gray-900 line-clamp-1">{request.worksheetTitle}</p>
+                  <span className="text-sm text-gray-500 shrink-0">{formatPoints(request.amount)}</span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  {request.buyerNickname} · {REFUND_REASON_LABELS[request.reasonType]} · {formatDate(request.createdAt)}
+                </p>
+                <p className="text-sm text-gray-700 bg-gray-50 rounded-lg px-3 py-2 whitespace-pre-wrap">
+                  {request.reason}
+                </p>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={respondingId === request.id}
+                    onClick={() => {
+                      setRejectReason('');
+                      setRejectTarget(request);
+                    }}
+                  >
+                    거절
+                  </Button>
+                  <Button
+                    size="sm"
+                    loading={respondingId === request.id}
+                    onClick={() => handleRespond(request, true)}
+                  >
+                    환불 수락
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Sales by Worksheet */}
       <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
         <div className="px-4 py-3 border-b bg-gray-50">
@@ -625,17 +1467,248 @@ function SalesPage() {
                 <div>
                   <p className="font-medium text-gray-900">{item.title}</p>
                   <p className="text-sm text-gray-500">
-                    {item.salesCount}회 판매
+                    {item.salesCount}회 판매 · 현재 가격 {formatPoints(item.price)}
                   </p>
                 </div>
-                <span className="font-semibold text-secondary-600">
-                  +{formatPoints(item.earnings)}
-                </span>
+                <div className="text-right">
+                  <span className="font-semibold text-secondary-600">
+                    +{formatPoints(item.netEarnings)}
+                  </span>
+                  {item.platformFees > 0 && (
+                    <p className="text-xs text-gray-400">
+                      매출 {formatPoints(item.grossEarnings)} · 수수료 {formatPoints(item.platformFees)}
+                    </p>
+                  )}
+                </div>
               </Link>
             ))}
           </div>
         )}
       </div>
+
+      {/* Reject Refund Modal */}
+      <Modal
+        isOpen={rejectTarget !== null}
+        onClose={() => setRejectTarget(null)}
+        title="환불 요청 거절"
+        size="md"
+      >
+        <Modal.Body>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              거절 사유는 구매자에게 전달되며, 구매자가 이의를 제기하면 관리자가 최종 판단합니다.
+            </p>
+            <textarea
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              rows={4}
+              maxLength={1000}
+              placeholder="거절 사유를 입력하세요"
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none"
+            />
+          </div>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button variant="outline" onClick={() => setRejectTarget(null)}>
+            취소
+          </Button>
+          <Button
+            variant="danger"
+            disabled={!rejectReason.trim()}
+            loading={respondingId === rejectTarget?.id}
+            onClick={() => rejectTarget && handleRespond(rejectTarget, false)}
+          >
+            거절하기
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+}
+
+// Analytics Page
+const formatRate = (numerator: number, denominator: number) =>
+  denominator > 0 ? `${((numerator / denominator) * 100).toFixed(1)}%` : '-';
+
+function AnalyticsPage() {
+  const [analytics, setAnalytics] = useState<SellerAnalytics | null>(null);
+  const [range, setRange] = useState<DateRange>({ from: kstDateString(29), to: kstDateString() });
+  const [isLoading, setIsLoading] = useState(true);
+  const toast = useToast();
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchAnalytics = async () => {
+      try {
+        const data = await api.my.analytics(range);
+        if (isMounted) setAnalytics(data);
+      } catch (error) {
+        console.error('Failed to fetch analytics:', error);
+        if (isMounted && error instanceof ApiError) toast.error(error.message);
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+    fetchAnalytics();
+
+    return () => { isMounted = false; };
+  }, [range.from, range.to]);
+
+  const exportDaily = () => {
+    if (!analytics) return;
+    downloadCsv(
+      `판매분석_일별_${range.from}_${range.to}.csv`,
+      ['날짜', '조회수', '장바구니', '구매', '신규 후기', '누적 후기', '평균 평점'],
+      analytics.daily.map((d) => [
+        d.date, d.views, d.cartAdds, d.purchases, d.newReviews, d.totalReviews, d.averageRating,
+      ])
+    );
+  };
+
+  const exportWorksheets = () => {
+    if (!analytics) return;
+    downloadCsv(
+      `판매분석_자료별_${range.from}_${range.to}.csv`,
+      ['자료명', '조회수', '장바구니', '구매', '장바구니 전환율', '구매 전환율'],
+      analytics.worksheets.map((w) => [
+        w.title, w.views, w.cartAdds, w.purchases,
+        formatRate(w.cartAdds, w.views), formatRate(w.purchases, w.views),
+      ])
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <Skeleton.Card className="h-24" />
+          <Skeleton.Card className="h-24" />
+          <Skeleton.Card className="h-24" />
+        </div>
+        <Skeleton.Card className="h-64" />
+      </div>
+    );
+  }
+
+  const totals = analytics?.totals || { views: 0, cartAdds: 0, purchases: 0 };
+  const daily = analytics?.daily || [];
+  const dates = daily.map((d) => d.date);
+
+  return (
+    <div className="space-y-6">
+      <DateRangePicker value={range} onChange={setRange} />
+
+      {/* Funnel */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-sm text-gray-500 mb-1">조회</p>
+          <p className="text-2xl font-bold text-gray-900">{totals.views.toLocaleString()}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-sm text-gray-500 mb-1">장바구니</p>
+          <p className="text-2xl font-bold text-gray-900">{totals.cartAdds.toLocaleString()}</p>
+          <p className="text-xs text-gray-400">조회 대비 {formatRate(totals.cartAdds, totals.views)}</p>
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <p className="text-sm text-gray-500 mb-1">구매</p>
+          <p className="text-2xl font-bold text-secondary-600">{totals.purchases.toLocaleString()}</p>
+          <p className="text-xs text-gray-400">조회 대비 {formatRate(totals.purchases, totals.views)}</p>
+        </div>
+      </div>
+
+      {/* Funnel Trend */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b bg-gray-50">
+          <h3 className="font-medium text-gray-900">일별 추이</h3>
+          <Button size="sm" variant="ghost" onClick={exportDaily} disabled={daily.length === 0}>
+            <Download className="w-4 h-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+        <div className="p-4">
+          <TrendChart
+            dates={dates}
+            series={[
+              { label: '조회', color: '#6366F1', values: daily.map((d) => d.views) },
+              { label: '장바구니', color: '#F59E0B', values: daily.map((d) => d.cartAdds) },
+              { label: '구매', color: '#10B981', values: daily.map((d) => d.purchases) },
+            ]}
+          />
+        </div>
+      </div>
+
+      {/* Review Trend */}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <h3 className="font-medium text-gray-900 mb-3">평균 평점</h3>
+          <TrendChart
+            dates={dates}
+            domain={[1, 5]}
+            formatValue={(v) => v.toFixed(1)}
+            series={[{ label: '누적 평균', color: '#F59E0B', values: daily.map((d) => d.averageRating) }]}
+          />
+        </div>
+        <div className="bg-white rounded-xl border border-gray-200 p-4">
+          <h3 className="font-medium text-gray-900 mb-3">후기 수</h3>
+          <TrendChart
+            dates={dates}
+            series={[{ label: '누적 후기', color: '#6366F1', values: daily.map((d) => d.totalReviews) }]}
+          />
+        </div>
+      </div>
+
+      {/* Funnel by Worksheet */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b bg-gray-50">
+          <h3 className="font-medium text-gray-900">자료별 전환</h3>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={exportWorksheets}
+            disabled={!analytics || analytics.worksheets.length === 0}
+          >
+            <Download className="w-4 h-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+        {!analytics || analytics.worksheets.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            등록한 자료가 없습니다
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-gray-500 border-b">
+                <tr>
+                  <th className="text-left font-medium px-4 py-2">자료</th>
+                  <th className="text-right font-medium px-4 py-2">조회</th>
+                  <th className="text-right font-medium px-4 py-2">장바구니</th>
+                  <th className="text-right font-medium px-4 py-2">구매</th>
+                  <th className="text-right font-medium px-4 py-2">구매 전환율</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {analytics.worksheets.map((item) => (
+                  <tr key={item.worksheetId} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <Link to={`/worksheet/${item.worksheetId}`} className="font-medium text-gray-900 hover:text-primary-600">
+                        {item.title}
+                      </Link>
+                    </td>
+                    <td className="text-right px-4 py-3">{item.views.toLocaleString()}</td>
+                    <td className="text-right px-4 py-3">{item.cartAdds.toLocaleString()}</td>
+                    <td className="text-right px-4 py-3">{item.purchases.toLocaleString()}</td>
+                    <td className="text-right px-4 py-3 font-medium text-secondary-600">
+                      {formatRate(item.purchases, item.views)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -645,6 +1718,16 @@ function PointsPage() {
   const { user } = useAuthStore();
   const [transactions, setTransactions] = useState<PointTransaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [showChargeModal, setShowChargeModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+
+  const refreshTransactions = async () => {
+    try {
+      setTransactions(await api.points.getTransactions());
+    } catch (error) {
+      console.error('Failed to fetch transactions:', error);
+    }
+  };
 
   useEffect(() => {
     let isMounted = true;
@@ -665,25 +1748,65 @@ function PointsPage() {
   }, []);
 
   const getTypeLabel = (type: PointTransaction['type']) => {
-    const labels: Record<string, string> = {
+    const labels: Record<PointTransaction['type'], string> = {
       signup_bonus: '가입 보너스',
-      signup: '가입 보너스',
       purchase: '자료 구매',
       sale: '판매 수익',
       feedback_refund: '후기 작성 보상',
       admin_charge: '관리자 충전',
+      attendance: '출석 체크',
+      attendance_bonus: '연속 출석 보너스',
+      roulette: '룰렛 당첨',
+      quiz: '퀴즈 이벤트',
+      first_come: '선착순 이벤트',
+      first_come_event: '선착순 이벤트',
+      comment_event: '댓글 이벤트',
+      event: '이벤트 참여',
+      review: '리뷰 보상',
+      upload: '자료 등록 보상',
+      admin_grant: '관리자 지급',
+      admin_deduct: '관리자 차감',
+      coupon_discount: '쿠폰 할인',
+      gift_sent: '선물 보냄',
+      gift_received: '선물 받음',
+      purchase_refund: '구매 환불',
+      sale_refund: '판매 환불 회수',
+      point_charge: '포인트 충전',
+      withdrawal_hold: '출금 신청',
+      withdrawal_release: '출금 반려 반환',
+      platform_fee: '판매 수수료',
     };
     return labels[type] || type;
   };
 
   const getTypeColor = (type: PointTransaction['type']) => {
-    const colors: Record<string, string> = {
+    const colors: Record<PointTransaction['type'], string> = {
       signup_bonus: 'text-blue-600',
-      signup: 'text-blue-600',
       purchase: 'text-red-600',
       sale: 'text-secondary-600',
       feedback_refund: 'text-secondary-600',
       admin_charge: 'text-purple-600',
+      attendance: 'text-blue-600',
+      attendance_bonus: 'text-blue-600',
+      roulette: 'text-yellow-600',
+      quiz: 'text-yellow-600',
+      first_come: 'text-yellow-600',
+      first_come_event: 'text-yellow-600',
+      comment_event: 'text-yellow-600',
+      event: 'text-yellow-600',
+      review: 'text-secondary-600',
+      upload: 'text-secondary-600',
+      admin_grant: 'text-purple-600',
+      admin_deduct: 'text-red-600',
+      coupon_discount: 'text-secondary-600',
+      gift_sent: 'text-red-600',
+      gift_received: 'text-pink-600',
+      purchase_refund: 'text-secondary-600',
+      sale_refund: 'text-red-600',
+      point_charge: 'text-blue-600',
+      withdrawal_hold: 'text-gray-600',
+      withdrawal_release: 'text-secondary-600',
+      platform_fee: 'text-gray-600',
     };
     return colors[type] || 'text-gray-600';
   };
@@ -702,15 +1825,25 @@ function PointsPage() {
   return (
     <div className="space-y-6">
       {/* Balance Card */}
-      <div className="bg-gradient-to-r from-primary-600 to-primary-500 rounded-xl p-6 text-white">
-        <p className="text-primary-100 mb-1">보유 포인트</p>
-        <p className="text-3xl font-bold">{formatPoints(user?.points || 0)}</p>
+      <div className="flex items-center justify-between bg-gradient-to-r from-primary-600 to-primary-500 rounded-xl p-6 text-white">
+        <div>
+          <p className="text-primary-100 mb-1">보유 포인트</p>
+          <p className="text-3xl font-bold">{formatPoints(user?.points || 0)}</p>
+        </div>
+        <Button variant="outline" onClick={() => setShowChargeModal(true)}>
+          <Plus className="w-4 h-4 mr-1" />
+          충전하기
+        </Button>
       </div>
 
       {/* Transaction History */}
       <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
-        <div className="px-4 py-3 border-b bg-gray-50">
+        <div className="flex items-center justify-between px-4 py-3 border-b bg-gray-50">
           <h3 className="font-medium text-gray-900">포인트 내역</h3>
+          <Button size="sm" variant="ghost" onClick={() => setShowExportModal(true)}>
+            <Download className="w-4 h-4 mr-1" />
+            내보내기
+          </Button>
         </div>
         {transactions.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
@@ -745,6 +1878,29 @@ function PointsPage() {
           </div>
         )}
       </div>
+
+      <PointChargeModal
+        isOpen={showChargeModal}
+        onClose={() => setShowChargeModal(false)}
+        onCharged={refreshTransactions}
+      />
+
+      <ExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        title="포인트 내역"
+        filename="포인트내역"
+        load={async (range) => ({
+          headers: ['일시', '구분', '내용', '변동 포인트', '잔액'],
+          rows: (await api.points.getTransactions(range)).map((t) => [
+            formatKstDateTime(t.createdAt),
+            getTypeLabel(t.type),
+            t.description,
+            t.amount,
+            t.balance,
+          ]),
+        })}
+      />
     </div>
   );
 }
@@ -759,8 +1915,12 @@ export function MyPage() {
           <Route index element={<DashboardPage />} />
           <Route path="purchases" element={<PurchasesPage />} />
           <Route path="worksheets" element={<MyWorksheetsPage />} />
+          <Route path="bundles" element={<MyBundlesPage />} />
           <Route path="sales" element={<SalesPage />} />
+          <Route path="analytics" element={<AnalyticsPage />} />
           <Route path="points" element={<PointsPage />} />
+          <Route path="wishlist" element={<WishlistPage />} />
+          <Route path="following" element={<FollowingPage />} />
         </Routes>
       </div>
     </div>
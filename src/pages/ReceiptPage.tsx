@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Download, Printer, Receipt } from 'lucide-react';
+import { Button, Skeleton } from '@/components/common';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import { downloadReceiptPdf, formatReceiptDateTime } from '@/lib/receiptPdf';
+import { OrderReceipt, formatPoints } from '@/types';
+
+// Print-optimized purchase receipt, also downloadable as a PDF file generated in the browser
+export function ReceiptPage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const [receipt, setReceipt] = useState<OrderReceipt | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchReceipt = async () => {
+      if (!orderId) return;
+      try {
+        const data = await api.purchases.receipt(orderId);
+        if (isMounted) setReceipt(data);
+      } catch (error) {
+        console.error('Failed to fetch receipt:', error);
+        if (isMounted) {
+          setErrorMessage(error instanceof ApiError ? error.message : '영수증을 불러오지 못했습니다.');
+        }
+      }
+    };
+    fetchReceipt();
+
+    return () => { isMounted = false; };
+  }, [orderId]);
+
+  useEffect(() => {
+    if (receipt) document.title = `영수증 ${receipt.orderNumber}`;
+  }, [receipt]);
+
+  const handleDownloadPdf = async () => {
+    if (!receipt) return;
+    setIsGeneratingPdf(true);
+    try {
+      await downloadReceiptPdf(receipt);
+    } catch (error) {
+      console.error('Failed to generate receipt PDF:', error);
+      toast.error('PDF를 만들지 못했습니다. 인쇄 메뉴를 이용해주세요.');
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 print:bg-white print:py-0">
+      <div className="max-w-2xl mx-auto px-4 print:max-w-none print:px-0">
+        {/* Toolbar */}
+        <div className="flex items-center justify-between mb-4 print:hidden">
+          <Button variant="ghost" onClick={() => navigate('/my/purchases')}>
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            구매 내역
+          </Button>
+          {receipt && (
+            <div className="flex items-center gap-2">
+              <Button variant="outline" onClick={() => window.print()}>
+                <Printer className="w-4 h-4 mr-1" />
+                인쇄
+              </Button>
+              <Button onClick={handleDownloadPdf} loading={isGeneratingPdf}>
+                <Download className="w-4 h-4 mr-1" />
+                PDF 다운로드
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {errorMessage ? (
+          <div className="bg-white rounded-xl p-12 text-center">
+            <Receipt className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">{errorMessage}</p>
+          </div>
+        ) : !receipt ? (
+          <Skeleton.Card className="h-96" />
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm p-8 print:shadow-none print:rounded-none print:p-0">
+            <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4 mb-6">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">구매 영수증</h1>
+                <p className="text-sm text-gray-500 mt-1">학습장터</p>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-mono font-semibold text-gray-900">{receipt.orderNumber}</p>
+                <p className="text-gray-500">{formatReceiptDateTime(receipt.createdAt)}</p>
+              </div>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-y-1 text-sm mb-6">
+              <dt className="text-gray-500">구매자</dt>
+              <dd className="text-gray-900 text-right">{receipt.buyerNickname}</dd>
+              {receipt.bundleTitle && (
+                <>
+                  <dt className="text-gray-500">묶음 상품</dt>
+                  <dd className="text-gray-900 text-right">{receipt.bundleTitle}</dd>
+                </>
+              )}
+              {receipt.couponCode && (
+                <>
+                  <dt className="text-gray-500">적용 쿠폰</dt>
+                  <dd className="text-gray-900 text-right font-mono">{receipt.couponCode}</dd>
+                </>
+              )}
+            </dl>
+
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="border-b border-gray-300 text-gray-500">
+                  <th className="text-left font-medium py-2">자료</th>
+                  <th className="text-left font-medium py-2">판매자</th>
+                  <th className="text-right font-medium py-2">정가</th>
+                  <th className="text-right font-medium py-2">할인</th>
+                  <th className="text-right font-medium py-2">결제</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {receipt.items.map((item) => (
+                  <tr key={item.purchaseId} className="break-inside-avoid">
+                    <td className="py-2 pr-2 text-gray-900">
+                      {item.title}
+                      {item.recipientNickname && (
+                        <span className="block text-xs text-gray-500">{item.recipientNickname}님에게 선물</span>
+                      )}
+                      {item.giftFromNickname && (
+                        <span className="block text-xs text-gray-500">{item.giftFromNickname}님의 선물</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 text-gray-600">{item.sellerNickname}</td>
+                    <td className="py-2 text-right text-gray-600">{formatPoints(item.listPrice)}</td>
+                    <td className="py-2 text-right text-gray-600">
+                      {item.discount > 0 ? `-${formatPoints(item.discount)}` : '-'}
+                    </td>
+                    <td className="py-2 text-right text-gray-900">{formatPoints(item.paid)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <dl className="border-t border-gray-300 pt-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-500">상품 금액</dt>
+                <dd className="text-gray-900">{formatPoints(receipt.subtotal)}</dd>
+              </div>
+              {receipt.discount > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">할인</dt>
+                  <dd className="text-gray-900">-{formatPoints(receipt.discount)}</dd>
+                </div>
+              )}
+              <div className="flex justify-between text-base font-bold pt-2">
+                <dt className="text-gray-900">사용 포인트</dt>
+                <dd className="text-gray-900">{formatPoints(receipt.pointsUsed)}</dd>
+              </div>
+              {receipt.refundedAmount > 0 && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">환불</dt>
+                  <dd className="text-gray-900">-{formatPoints(receipt.refundedAmount)}</dd>
+                </div>
+              )}
+              {receipt.balanceAfter !== null && (
+                <div className="flex justify-between">
+                  <dt className="text-gray-500">결제 후 잔여 포인트</dt>
+                  <dd className="text-gray-900">{formatPoints(receipt.balanceAfter)}</dd>
+                </div>
+              )}
+            </dl>
+
+            <p className="text-xs text-gray-400 mt-8">
+              {receipt.isPayer
+                ? '본 영수증은 포인트 사용 내역 확인용입니다.'
+                : '선물 받은 자료로, 결제 금액이 없습니다.'}
+              {receipt.refundedAmount > 0 && ' 환불된 자료는 목록에 표시되지 않습니다.'}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ReceiptPage;
@@ -0,0 +1,375 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { ArrowLeft, Star, ShoppingBag, BookOpen, Calendar, Search, Users, UserPlus, UserCheck, Layers } from 'lucide-react';
+import { Button, Select, Skeleton } from '@/components/common';
+import {
+  WorksheetCard,
+  BundleCard,
+  FilterPanel,
+  CATALOG_SORT_OPTIONS,
+  type CatalogSort,
+  type CatalogFilters,
+} from '@/components/worksheet';
+import { useAuthStore } from '@/store';
+import { useToast } from '@/components/common/Toast';
+import { api, ApiError } from '@/services/api';
+import {
+  Worksheet,
+  formatDate,
+  type Bundle,
+  type SellerProfile,
+  type WorksheetFacets,
+} from '@/types';
+
+const SORT_OPTIONS = CATALOG_SORT_OPTIONS.filter((option) => option.value !== 'relevance');
+
+export function SellerPage() {
+  const { id } = useParams<{ id: string }>();
+  const toast = useToast();
+  const { isAuthenticated, user } = useAuthStore();
+
+  const [seller, setSeller] = useState<SellerProfile | null>(null);
+  const [isSellerLoading, setIsSellerLoading] = useState(true);
+  const [isTogglingFollow, setIsTogglingFollow] = useState(false);
+  const [worksheets, setWorksheets] = useState<Worksheet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sort, setSort] = useState<CatalogSort>('newest');
+  const [filters, setFilters] = useState<CatalogFilters>({});
+  const [facets, setFacets] = useState<WorksheetFacets | null>(null);
+  const [bundles, setBundles] = useState<Bundle[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const limit = 12;
+
+  useEffect(() => {
+    if (!id) return;
+    let isMounted = true;
+
+    setIsSellerLoading(true);
+    api.sellers
+      .get(id)
+      .then((result) => {
+        if (isMounted) setSeller(result);
+      })
+      .catch((error) => {
+        console.error('[SellerPage] Failed to fetch seller:', error);
+        if (isMounted) setSeller(null);
+      })
+      .finally(() => {
+        if (isMounted) setIsSellerLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [id]);
+
+  useEffect(() => {
+    if (!id) return;
+    let isMounted = true;
+
+    const fetchWorksheets = async () => {
+      setIsLoading(true);
+      try {
+        const result = await api.worksheets.list({
+          page,
+          limit,
+          sort,
+          sellerId: id,
+          ...filters,
+        });
+        if (isMounted) {
+          setWorksheets(result.worksheets);
+          setTotal(result.pagination.totalCount);
+          setTotalPages(result.pagination.totalPages);
+        }
+      } catch (error) {
+        console.error('[SellerPage] Failed to fetch worksheets:', error);
+        if (isMounted) {
+          setWorksheets([]);
+          setTotal(0);
+          setTotalPages(0);
+        }
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    fetchWorksheets();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [id, page, sort, filters]);
+
+  useEffect(() => {
+    if (!id) return;
+    let isMounted = true;
+
+    api.worksheets
+      .facets({ sellerId: id, ...filters })
+      .then((result) => {
+        if (isMounted) setFacets(result);
+      })
+      .catch((error) => {
+        console.error('[SellerPage] Failed to fetch facets:', error);
+        if (isMounted) setFacets(null);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [id, filters]);
+
+  useEffect(() => {
+    if (!id) return;
+    let isMounted = true;
+
+    api.bundles
+      .list({ sellerId: id })
+      .then((result) => {
+        if (isMounted) setBundles(result);
+      })
+      .catch((error) => {
+        console.error('[SellerPage] Failed to fetch bundles:', error);
+        if (isMounted) setBundles([]);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [id]);
+
+  const handleToggleFollow = async () => {
+    if (!seller) return;
+    if (!isAuthenticated) {
+      toast.error('로그인이 필요합니다.');
+      return;
+    }
+
+    setIsTogglingFollow(true);
+    try {
+      if (seller.isFollowing) {
+        await api.follows.unfollow(seller.id);
+        setSeller({ ...seller, isFollowing: false, followerCount: Math.max(0, seller.followerCount - 1) });
+        toast.success('팔로우를 취소했습니다.');
+      } else {
+        await api.follows.follow(seller.id);
+        setSeller({ ...seller, isFollowing: true, followerCount: seller.followerCount + 1 });
+        toast.success('팔로우했습니다. 새 자료가 등록되면 알려드릴게요.');
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        toast.error(error.message);
+      } else {
+        toast.error('팔로우 처리에 실패했습니다.');
+      }
+    } finally {
+      setIsTogglingFollow(false);
+    }
+  };
+
+  const handleFilterChange = (next: CatalogFilters) => {
+    setFilters(next);
+    setPage(1);
+  };
+
+  if (!isSellerLoading && !seller) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-16 text-center">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">판매자를 찾을 수 없습니다</h2>
+        <Link to="/" className="text-primary-600 hover:underline">
+          홈으로 돌아가기
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-50 to-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          전체 자료
+        </Link>
+
+        {/* Seller Profile */}
+        {isSellerLoading || !seller ? (
+          <Skeleton.Card className="h-36 mb-8" />
+        ) : (
+          <div className="bg-white rounded-3xl border border-gray-100 shadow-sm p-6 sm:p-8 mb-8">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+              <div className="w-20 h-20 rounded-full bg-primary-100 flex items-center justify-center overflow-hidden shrink-0">
+                {seller.avatarUrl ? (
+                  <img src={seller.avatarUrl} alt={seller.nickname} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-3xl font-bold text-primary-600">
+                    {seller.nickname.charAt(0)}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <h1 className="text-2xl font-bold text-gray-900 mb-1">{seller.nickname}</h1>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500">
+                  <span className="flex items-center gap-1.5">
+                    <Calendar className="w-4 h-4" />
+                    {formatDate(seller.joinedAt)} 가입
+                  </span>
+                  <span className="flex items-center gap-1.5">
+                    <Users className="w-4 h-4" />
+                    팔로워 {seller.followerCount.toLocaleString()}
+                  </span>
+                </div>
+                {user?.id !== seller.id && (
+                  <Button
+                    size="sm"
+                    variant={seller.isFollowing ? 'outline' : 'primary'}
+                    onClick={handleToggleFollow}
+                    loading={isTogglingFollow}
+                    className="mt-3"
+                  >
+                    {seller.isFollowing ? (
+                      <>
+                        <UserCheck className="w-4 h-4 mr-1" />
+                        팔로잉
+                      </>
+                    ) : (
+                      <>
+                        <UserPlus className="w-4 h-4 mr-1" />
+                        팔로우
+                      </>
+                    )}
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 sm:gap-8 text-center">
+                <div>
+                  <div className="flex items-center justify-center gap-1 text-gray-400 mb-1">
+                    <BookOpen className="w-4 h-4" />
+                    <span className="text-xs">자료</span>
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{seller.worksheetCount}</p>
+                </div>
+                <div>
+                  <div className="flex items-center justify-center gap-1 text-gray-400 mb-1">
+                    <ShoppingBag className="w-4 h-4" />
+                    <span className="text-xs">총 판매</span>
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">{seller.totalSales.toLocaleString()}</p>
+                </div>
+                <div>
+                  <div className="flex items-center justify-center gap-1 text-gray-400 mb-1">
+                    <Star className="w-4 h-4" />
+                    <span className="text-xs">평점</span>
+                  </div>
+                  <p className="text-xl font-bold text-gray-900">
+                    {seller.averageRating.toFixed(1)}
+                    <span className="text-sm font-normal text-gray-500 ml-1">
+                      ({seller.reviewCount})
+                    </span>
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Filter Sidebar */}
+          <aside className="lg:w-64 shrink-0">
+            <FilterPanel filters={filters} facets={facets} onFilterChange={handleFilterChange} />
+          </aside>
+
+          {/* Worksheets */}
+          <main className="flex-1 min-w-0">
+            {bundles.length > 0 && (
+              <section className="mb-8">
+                <div className="flex items-center gap-2 mb-4">
+                  <Layers className="w-5 h-5 text-primary-500" />
+                  <h2 className="text-lg font-semibold text-gray-900">묶음 상품</h2>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-5">
+                  {bundles.map((bundle) => (
+                    <BundleCard key={bundle.id} bundle={bundle} />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <div className="flex items-center justify-between mb-5 gap-4">
+              <p className="text-gray-600">
+                총 <span className="font-semibold text-gray-900">{total}</span>개
+              </p>
+              <Select
+                options={SORT_OPTIONS}
+                value={sort}
+                onChange={(value: string) => {
+                  setSort(value as CatalogSort);
+                  setPage(1);
+                }}
+                className="w-36"
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-5">
+                {[...Array(6)].map((_, i) => (
+                  <Skeleton.Card key={i} />
+                ))}
+              </div>
+            ) : worksheets.length === 0 ? (
+              <div className="text-center py-16 px-4">
+                <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-gray-100 flex items-center justify-center">
+                  <Search className="w-10 h-10 text-gray-300" />
+                </div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                  등록된 자료가 없습니다
+                </h3>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-5">
+                  {worksheets.map((worksheet) => (
+                    <WorksheetCard key={worksheet.id} worksheet={worksheet} />
+                  ))}
+                </div>
+
+                {totalPages > 1 && (
+                  <div className="flex justify-center items-center mt-10 gap-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page === 1}
+                      onClick={() => setPage((p) => p - 1)}
+                    >
+                      이전
+                    </Button>
+                    <span className="text-sm text-gray-600">
+                      {page} / {totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={page === totalPages}
+                      onClick={() => setPage((p) => p + 1)}
+                    >
+                      다음
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SellerPage;
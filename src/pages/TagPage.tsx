@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { Hash, ArrowLeft, Search } from 'lucide-react';
+import { Button, Select, Skeleton } from '@/components/common';
+import { WorksheetCard, CATALOG_SORT_OPTIONS } from '@/components/worksheet';
+import { api } from '@/services/api';
+import { Worksheet, TagMatchMode } from '@/types';
+
+const SORT_OPTIONS = CATALOG_SORT_OPTIONS.filter((option) => option.value !== 'relevance');
+
+// /tags/:tag — several tags can be combined with commas (/tags/분수,덧셈?mode=all)
+export function TagPage() {
+  const { tag = '' } = useParams<{ tag: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const tags = tag.split(',').map((t) => t.trim()).filter(Boolean);
+  const tagKey = tags.join(',');
+  const mode: TagMatchMode = searchParams.get('mode') === 'all' ? 'all' : 'any';
+
+  const [worksheets, setWorksheets] = useState<Worksheet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [sort, setSort] = useState('newest');
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const limit = 12;
+
+  // Keyset pagination keeps "더 보기" stable even while new worksheets are uploaded
+  const fetchPage = useCallback(
+    (cursor?: string) =>
+      api.worksheets.list({
+        limit,
+        sort,
+        cursor,
+        tags: tagKey.split(','),
+        tagMode: mode,
+      }),
+    [tagKey, mode, sort]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchWorksheets = async () => {
+      setIsLoading(true);
+      try {
+        const result = await fetchPage();
+        if (isMounted) {
+          setWorksheets(result.worksheets);
+          setTotal(result.pagination.totalCount);
+          setNextCursor(result.pagination.nextCursor ?? null);
+        }
+      } catch (error) {
+        console.error('[TagPage] Failed to fetch worksheets:', error);
+        if (isMounted) {
+          setWorksheets([]);
+          setTotal(0);
+          setNextCursor(null);
+        }
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    if (tagKey) fetchWorksheets();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [tagKey, fetchPage]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const result = await fetchPage(nextCursor);
+      setWorksheets((prev) => [...prev, ...result.worksheets]);
+      setNextCursor(result.pagination.nextCursor ?? null);
+    } catch (error) {
+      console.error('[TagPage] Failed to load more worksheets:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleModeChange = (value: TagMatchMode) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === 'all') {
+      next.set('mode', 'all');
+    } else {
+      next.delete('mode');
+    }
+    setSearchParams(next);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+      <Link
+        to="/"
+        className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        전체 자료
+      </Link>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <div className="flex flex-wrap items-center gap-2 mb-1">
+            {tags.map((t) => (
+              <h1 key={t} className="inline-flex items-center text-2xl font-bold text-gray-900">
+                <Hash className="w-6 h-6 text-primary-500" />
+                {t}
+              </h1>
+            ))}
+          </div>
+          <p className="text-gray-600">
+            총 <span className="font-semibold text-gray-900">{total}</span>개
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {tags.length > 1 && (
+            <div className="flex rounded-lg border border-gray-200 p-0.5 bg-white">
+              {(['any', 'all'] as TagMatchMode[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => handleModeChange(value)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    mode === value ? 'bg-primary-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {value === 'any' ? '하나라도 포함' : '모두 포함'}
+                </button>
+              ))}
+            </div>
+          )}
+          <Select
+            options={SORT_OPTIONS}
+            value={sort}
+            onChange={(value: string) => setSort(value)}
+            className="w-36"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+          {[...Array(8)].map((_, i) => (
+            <Skeleton.Card key={i} />
+          ))}
+        </div>
+      ) : worksheets.length === 0 ? (
+        <div className="text-center py-16 px-4">
+          <div className="w-20 h-20 mx-auto mb-6 rounded-full bg-gray-100 flex items-center justify-center">
+            <Search className="w-10 h-10 text-gray-300" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            이 태그의 자료가 없습니다
+          </h3>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-5">
+            {worksheets.map((worksheet) => (
+              <WorksheetCard key={worksheet.id} worksheet={worksheet} />
+            ))}
+          </div>
+
+          {nextCursor && (
+            <div className="flex justify-center mt-10">
+              <Button variant="outline" onClick={handleLoadMore} loading={isLoadingMore}>
+                더 보기
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TagPage;
@@ -9,7 +9,7 @@ import {
   CheckCircle,
   Loader2,
 } from 'lucide-react';
-import { Button, Input, Select } from '@/components/common';
+import { Button, Input, Select, TagInput } from '@/components/common';
 import { useToast } from '@/components/common/Toast';
 import { api, ApiError } from '@/services/api';
 import { useAuthStore } from '@/store/authStore';
@@ -30,8 +30,12 @@ interface UploadForm {
   category: Category;
   price: number;
   pageCount: number;
+  tags: string[];
 }
 
+const fetchTagSuggestions = (prefix: string) =>
+  api.worksheets.tags(prefix).then((tags) => tags.map((t) => t.tag));
+
 const PRICE_OPTIONS = [
   { value: 100, label: '100P' },
   { value: 150, label: '150P' },
@@ -70,6 +74,7 @@ export function UploadPage() {
       category: 'worksheet',
       price: 200,
       pageCount: 1,
+      tags: [],
     },
   });
 
@@ -395,6 +400,15 @@ export function UploadPage() {
           />
         </div>
 
+        {/* Tags */}
+        <TagInput
+          label="태그"
+          hint="검색과 분류에 사용됩니다. 예: 분수, 받아쓰기, 단원평가"
+          value={watch('tags')}
+          onChange={(tags) => setValue('tags', tags)}
+          fetchSuggestions={fetchTagSuggestions}
+        />
+
         {/* Page Count & Price */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
           <Input
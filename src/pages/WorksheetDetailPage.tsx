@@ -20,9 +20,11 @@ import {
   ChevronUp,
   ChevronLeft,
   ChevronRight,
+  Gift,
 } from 'lucide-react';
-import { Button, Badge, Modal, Skeleton } from '@/components/common';
+import { Button, Badge, Modal, Skeleton, TagInput } from '@/components/common';
 import { Rating } from '@/components/common/Rating';
+import { WishlistButton, GiftModal } from '@/components/worksheet';
 import { useCartStore, useAuthStore } from '@/store';
 import { useToast } from '@/components/common/Toast';
 import { api, ApiError } from '@/services/api';
@@ -36,6 +38,9 @@ import {
   formatDate,
 } from '@/types';
 
+const fetchTagSuggestions = (prefix: string) =>
+  api.worksheets.tags(prefix).then((tags) => tags.map((t) => t.tag));
+
 export function WorksheetDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -51,6 +56,7 @@ export function WorksheetDetailPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [showGiftModal, setShowGiftModal] = useState(false);
 
   // Feedback modal state
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
@@ -63,6 +69,7 @@ export function WorksheetDetailPage() {
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editPrice, setEditPrice] = useState(100);
+  const [editTags, setEditTags] = useState<string[]>([]);
   const [editChangeComment, setEditChangeComment] = useState('');
   const [isSubmittingEdit, setIsSubmittingEdit] = useState(false);
   const [editWorksheetFile, setEditWorksheetFile] = useState<File | null>(null);
@@ -139,6 +146,11 @@ export function WorksheetDetailPage() {
     return () => { isMounted = false; };
   }, [id, isAuthenticated]);
 
+  // Seller analytics: one view per visit (deduplicated server-side)
+  useEffect(() => {
+    if (id) api.worksheets.trackView(id);
+  }, [id]);
+
   const handleAddToCart = async () => {
     if (!worksheet) return;
 
@@ -195,6 +207,7 @@ export function WorksheetDetailPage() {
     setEditTitle(worksheet.title);
     setEditDescription(worksheet.description);
     setEditPrice(worksheet.price);
+    setEditTags(worksheet.tags || []);
     setEditChangeComment('');
     setEditWorksheetFile(null);
     setEditPreviewImage(null);
@@ -231,6 +244,7 @@ export function WorksheetDetailPage() {
         title?: string;
         description?: string;
         price?: number;
+        tags?: string[];
         fileUrl?: string;
         previewImage?: string;
       } = {};
@@ -244,6 +258,9 @@ export function WorksheetDetailPage() {
       if (editPrice !== worksheet.price) {
         updateData.price = editPrice;
       }
+      if (editTags.join(',') !== (worksheet.tags || []).join(',')) {
+        updateData.tags = editTags;
+      }
 
       // Upload new worksheet file if provided
       if (editWorksheetFile) {
@@ -276,6 +293,7 @@ export function WorksheetDetailPage() {
         title: updateData.title ?? prev.title,
         description: updateData.description ?? prev.description,
         price: updateData.price ?? prev.price,
+        tags: updateData.tags ?? prev.tags,
         fileUrl: updateData.fileUrl ?? prev.fileUrl,
         previewImage: updateData.previewImage ?? prev.previewImage,
         updatedAt: new Date().toISOString(),
@@ -428,6 +446,21 @@ export function WorksheetDetailPage() {
             <Badge color="purple">{SUBJECT_LABELS[worksheet.subject]}</Badge>
             <Badge color="green">{CATEGORY_LABELS[worksheet.category]}</Badge>
           </div>
+
+          {/* Tags */}
+          {worksheet.tags?.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {worksheet.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  to={`/tags/${encodeURIComponent(tag)}`}
+                  className="px-2.5 py-1 rounded-full bg-gray-100 text-sm text-gray-600 hover:bg-primary-50 hover:text-primary-700 transition-colors"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Info */}
@@ -437,7 +470,7 @@ export function WorksheetDetailPage() {
               {worksheet.title}
             </h1>
             <Link
-              to={`/?seller=${worksheet.sellerId}`}
+              to={`/seller/${worksheet.sellerId}`}
               className="text-gray-600 hover:text-primary-600 transition-colors"
             >
               {worksheet.sellerNickname}
@@ -541,15 +574,36 @@ export function WorksheetDetailPage() {
                 )}
               </div>
             ) : (
+              <div className="flex gap-2">
+                <Button
+                  fullWidth
+                  size="lg"
+                  onClick={handleAddToCart}
+                  loading={isAddingToCart}
+                  disabled={inCart}
+                >
+                  <ShoppingCart className="w-5 h-5 mr-2" />
+                  {inCart ? '장바구니에 담김' : '장바구니에 담기'}
+                </Button>
+                <WishlistButton worksheetId={worksheet.id} variant="button" className="shrink-0" />
+              </div>
+            )}
+
+            {!isOwner && (
               <Button
                 fullWidth
-                size="lg"
-                onClick={handleAddToCart}
-                loading={isAddingToCart}
-                disabled={inCart}
+                variant="outline"
+                onClick={() => {
+                  if (!isAuthenticated) {
+                    toast.error('로그인이 필요합니다.');
+                    navigate('/auth');
+                    return;
+                  }
+                  setShowGiftModal(true);
+                }}
               >
-                <ShoppingCart className="w-5 h-5 mr-2" />
-                {inCart ? '장바구니에 담김' : '장바구니에 담기'}
+                <Gift className="w-5 h-5 mr-2" />
+                선물하기
               </Button>
             )}
           </div>
@@ -721,6 +775,13 @@ export function WorksheetDetailPage() {
         )}
       </section>
 
+      {/* Gift Modal */}
+      <GiftModal
+        isOpen={showGiftModal}
+        onClose={() => setShowGiftModal(false)}
+        worksheet={worksheet}
+      />
+
       {/* Feedback Modal */}
       <Modal
         isOpen={showFeedbackModal}
@@ -822,6 +883,13 @@ export function WorksheetDetailPage() {
               />
             </div>
 
+            <TagInput
+              label="태그"
+              value={editTags}
+              onChange={setEditTags}
+              fetchSuggestions={fetchTagSuggestions}
+            />
+
             {/* Preview Image Upload */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1,12 +1,92 @@
 import { supabase } from '@/lib/supabase';
+import { encodeCursor, decodeCursor, type Cursor } from '@/lib/cursor';
 import type { Database } from '@/types/database';
+import {
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  type Bundle,
+  type Coupon,
+  type CouponDiscountType,
+  type CouponPreview,
+  type DailyEarnings,
+  type EarningsBreakdown,
+  type OrderReceipt,
+  type PaginationInfo,
+  type PlatformFeeRule,
+  type PayoutAccount,
+  type PointPackage,
+  type PointPayment,
+  type PointReconciliation,
+  type PointTransactionType,
+  type PurchaseFailure,
+  type PurchaseOrder,
+  type PurchaseResponse,
+  type QuizQuestion,
+  type QuizResult,
+  type QuizScoringMode,
+  type QuizSubmitResult,
+  type RefundReasonType,
+  type RefundRequest,
+  type SellerAnalytics,
+  type SellerEarningsReport,
+  type SellerProfile,
+  type SellerTier,
+  type SellerTierEntry,
+  type EventAudienceSize,
+  type FollowedSeller,
+  type GiftRecipient,
+  type GiftResponse,
+  type GradeGroup,
+  type WishlistItem,
+  type WithdrawalRequest,
+  type WithdrawalSummary,
+  type TagMatchMode,
+  type Worksheet,
+  type WorksheetEarnings,
+  type WorksheetFacets,
+} from '@/types';
 
 // Re-use types from database.ts
 type WorksheetCardRow = Database['public']['Views']['worksheet_cards']['Row'];
+type BundleCardRow = Database['public']['Views']['bundle_cards']['Row'];
+type RefundRequestRow = Database['public']['Tables']['refund_requests']['Row'] & {
+  buyer: { nickname: string } | null;
+  seller: { nickname: string } | null;
+};
+type WithdrawalRequestRow = Omit<
+  Database['public']['Tables']['withdrawal_requests']['Row'],
+  'account_number_encrypted'
+> & {
+  seller: { nickname: string } | null;
+};
 type ProfilesUpdate = Database['public']['Tables']['profiles']['Update'];
 type WorksheetsInsert = Database['public']['Tables']['worksheets']['Insert'];
 type WorksheetsUpdate = Database['public']['Tables']['worksheets']['Update'];
 type CartItemsInsert = Database['public']['Tables']['cart_items']['Insert'];
+type WishlistItemsInsert = Database['public']['Tables']['wishlist_items']['Insert'];
+// events is not in database.ts yet
+type EventRow = {
+  id: string;
+  type: string;
+  title: string;
+  description: string | null;
+  status: string;
+  start_at: string | null;
+  end_at: string | null;
+  max_participants: number | null;
+  current_participants: number;
+  target_grades: GradeGroup[] | null;
+  quiz_type: string | null;
+  difficulty: string | null;
+  points_reward: number;
+  scoring_mode: QuizScoringMode;
+  pass_threshold: number | null;
+  mission_type: string | null;
+  min_length: number | null;
+  min_points: number | null;
+  max_points: number | null;
+  created_at: string;
+};
 
 export class ApiError extends Error {
   constructor(
@@ -19,11 +99,6 @@ export class ApiError extends Error {
   }
 }
 
-// Utility: Escape special characters for LIKE/ILIKE queries
-function escapeLikePattern(pattern: string): string {
-  return pattern.replace(/[%_\\]/g, '\\$&');
-}
-
 // Utility: Validate price range
 function validatePrice(price: number): void {
   if (price < 100 || price > 500) {
@@ -38,6 +113,23 @@ function validateRating(rating: number): void {
   }
 }
 
+// Utility: Normalize and validate worksheet tags ("#분수 " → "분수", duplicates removed)
+function normalizeTags(tags: string[]): string[] {
+  const normalized = Array.from(new Set(
+    tags
+      .map(tag => tag.replace(/^#+/, '').replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+  ));
+
+  if (normalized.length > MAX_TAGS) {
+    throw new ApiError(`태그는 최대 ${MAX_TAGS}개까지 입력할 수 있습니다.`, 400, 'TOO_MANY_TAGS');
+  }
+  if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new ApiError(`태그는 ${MAX_TAG_LENGTH}자 이하로 입력해주세요.`, 400, 'INVALID_TAG');
+  }
+  return normalized;
+}
+
 // Utility: Sanitize error message for client
 function sanitizeErrorMessage(error: { message?: string; code?: string }): string {
   // Don't expose internal database errors to client
@@ -60,6 +152,275 @@ function sanitizeErrorMessage(error: { message?: string; code?: string }): strin
   return error.message || '알 수 없는 오류가 발생했습니다.';
 }
 
+// Utility: Sort column + direction for catalog sort options (shared by offset and keyset pagination)
+function getKeysetOrder(sort?: string): { column: 'created_at' | 'sales_count' | 'price' | 'average_rating'; ascending: boolean } {
+  switch (sort) {
+    case 'popular':
+      return { column: 'sales_count', ascending: false };
+    case 'price_low':
+      return { column: 'price', ascending: true };
+    case 'price_high':
+      return { column: 'price', ascending: false };
+    case 'rating':
+      return { column: 'average_rating', ascending: false };
+    case 'newest':
+    case 'relevance': // relevance only applies to search; fall back to newest
+    default:
+      return { column: 'created_at', ascending: false };
+  }
+}
+
+// Utility: Decode a catalog cursor, rejecting anything encodeCursor didn't produce
+function readCursor(cursor: string): Cursor {
+  const parsed = decodeCursor(cursor);
+  if (!parsed) throw new ApiError('잘못된 페이지 커서입니다.', 400, 'INVALID_CURSOR');
+  return parsed;
+}
+
+// Utility: Map a worksheet_cards row to the camelCase shape used by the UI
+function toWorksheet(w: WorksheetCardRow) {
+  return {
+    id: w.id,
+    sellerId: w.seller_id,
+    sellerNickname: w.seller_nickname,
+    title: w.title,
+    description: w.description,
+    price: w.price,
+    grade: w.grade,
+    subject: w.subject,
+    category: w.category,
+    tags: w.tags,
+    fileUrl: w.file_url,
+    previewImage: w.preview_image,
+    previewImages: [w.preview_image],
+    pageCount: w.page_count,
+    downloadCount: w.download_count,
+    salesCount: w.sales_count,
+    averageRating: Number(w.average_rating),
+    reviewCount: w.review_count,
+    status: w.status,
+    createdAt: w.created_at,
+    updatedAt: w.updated_at,
+  };
+}
+
+// Utility: Map a bundle_cards row to the camelCase shape used by the UI
+function toBundle(b: BundleCardRow): Bundle {
+  return {
+    id: b.id,
+    sellerId: b.seller_id,
+    sellerNickname: b.seller_nickname,
+    title: b.title,
+    description: b.description,
+    price: b.price,
+    originalPrice: b.original_price,
+    discountRate: b.original_price > 0
+      ? Math.max(0, Math.round((1 - b.price / b.original_price) * 100))
+      : 0,
+    itemCount: b.item_count,
+    grades: b.grades,
+    subjects: b.subjects,
+    previewImage: b.preview_image,
+    status: b.status,
+    createdAt: b.created_at,
+  };
+}
+
+// Utility: Map a refund_requests row (joined with buyer/seller nicknames)
+const REFUND_REQUEST_SELECT = `
+  *,
+  buyer:profiles!refund_requests_buyer_id_fkey(nickname),
+  seller:profiles!refund_requests_seller_id_fkey(nickname)
+`;
+
+function toRefundRequest(r: RefundRequestRow): RefundRequest {
+  return {
+    id: r.id,
+    purchaseId: r.purchase_id,
+    worksheetId: r.worksheet_id,
+    worksheetTitle: r.worksheet_title,
+    buyerNickname: r.buyer?.nickname || '알 수 없음',
+    sellerNickname: r.seller?.nickname || '알 수 없음',
+    amount: r.amount,
+    reasonType: r.reason_type,
+    reason: r.reason,
+    status: r.status,
+    sellerResponse: r.seller_response,
+    adminNote: r.admin_note,
+    refundedAmount: r.refunded_amount,
+    createdAt: r.created_at,
+    resolvedAt: r.resolved_at,
+  };
+}
+
+// The encrypted account number is never selected; admins fetch it one request at a time
+const WITHDRAWAL_REQUEST_SELECT = `
+  id, user_id, amount, bank_name, account_holder, account_last4, status,
+  admin_note, reviewed_by, reviewed_at, paid_at, created_at,
+  seller:profiles!withdrawal_requests_user_id_fkey(nickname)
+`;
+
+function toWithdrawalRequest(r: WithdrawalRequestRow): WithdrawalRequest {
+  return {
+    id: r.id,
+    userId: r.user_id,
+    sellerNickname: r.seller?.nickname || '알 수 없음',
+    amount: r.amount,
+    bankName: r.bank_name,
+    accountHolder: r.account_holder,
+    accountLast4: r.account_last4,
+    status: r.status,
+    adminNote: r.admin_note,
+    createdAt: r.created_at,
+    reviewedAt: r.reviewed_at,
+    paidAt: r.paid_at,
+  };
+}
+
+function toEvent(e: EventRow) {
+  return {
+    id: e.id,
+    type: e.type,
+    title: e.title,
+    description: e.description,
+    status: e.status,
+    startAt: e.start_at,
+    endAt: e.end_at,
+    maxParticipants: e.max_participants,
+    currentParticipants: e.current_participants,
+    targetGrades: e.target_grades,
+    quizType: e.quiz_type,
+    difficulty: e.difficulty,
+    pointsReward: e.points_reward,
+    scoringMode: e.scoring_mode,
+    passThreshold: e.pass_threshold,
+    missionType: e.mission_type,
+    minLength: e.min_length,
+    minPoints: e.min_points,
+    maxPoints: e.max_points,
+    createdAt: e.created_at,
+  };
+}
+
+// Utility: Map the JSON returned by purchase_worksheets / purchase_bundle
+function toPurchaseResponse(result: {
+  success: boolean;
+  orderId: string | null;
+  replayed?: boolean;
+  subtotal: number;
+  discount: number;
+  couponCode: string | null;
+  totalSpent: number;
+  newBalance: number;
+  purchases: Array<{ worksheetId: string; title: string; price: number }>;
+  failed: PurchaseFailure[];
+}): PurchaseResponse {
+  return {
+    orderId: result.orderId,
+    replayed: result.replayed ?? false,
+    subtotal: result.subtotal ?? result.totalSpent,
+    discount: result.discount ?? 0,
+    couponCode: result.couponCode ?? null,
+    purchaseIds: result.purchases.map(p => p.worksheetId),
+    totalSpent: result.totalSpent,
+    newBalance: result.newBalance,
+    downloads: result.purchases.map(p => ({
+      worksheetId: p.worksheetId,
+      title: p.title,
+      downloadUrl: '#', // URL would come from storage
+    })),
+    failed: result.failed || [],
+  };
+}
+
+// Utility: created_at bounds for an inclusive KST date range (YYYY-MM-DD)
+function kstRangeBounds(range: { from: string; to: string }) {
+  const end = new Date(`${range.to}T00:00:00+09:00`);
+  end.setDate(end.getDate() + 1);
+  return { start: `${range.from}T00:00:00+09:00`, end: end.toISOString() };
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// Utility: Fetch every row of a query page by page. PostgREST caps each response
+// (max-rows, 1000 by default), so long export ranges would otherwise be cut off silently.
+// Keeps going until an empty page so a lower server cap can't end it early.
+async function fetchAllRows(
+  page: (from: number, to: number) => PromiseLike<{
+    data: unknown[] | null;
+    error: { message?: string; code?: string } | null;
+  }>
+): Promise<unknown[]> {
+  const rows: unknown[] = [];
+
+  for (;;) {
+    const { data, error } = await page(rows.length, rows.length + EXPORT_PAGE_SIZE - 1);
+    if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+    if (!data || data.length === 0) return rows;
+    rows.push(...data);
+  }
+}
+
+// Utility: Per-tab visitor ID so anonymous views can be deduplicated
+function getViewerSessionId(): string | null {
+  try {
+    let sessionId = sessionStorage.getItem('viewer_session_id');
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem('viewer_session_id', sessionId);
+    }
+    return sessionId;
+  } catch {
+    return null;
+  }
+}
+
+// Utility: Current user's interest grade groups, empty when signed out
+async function fetchUserGradeGroups(): Promise<GradeGroup[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data, error } = await supabase
+    .from('user_interests')
+    .select('grade_group')
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.warn('Interests fetch failed:', error);
+    return [];
+  }
+
+  return ((data || []) as { grade_group: GradeGroup }[]).map(i => i.grade_group);
+}
+
+// Utility: Seller earnings report from actual purchase prices (refunded sales excluded)
+async function fetchSellerEarnings(range?: { from: string; to: string }): Promise<SellerEarningsReport> {
+  type EarningsResult = {
+    from: string | null;
+    to: string | null;
+    totals: EarningsBreakdown;
+    worksheets: WorksheetEarnings[];
+    daily: DailyEarnings[];
+  };
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('get_seller_earnings', {
+    p_from: range?.from ?? null,
+    p_to: range?.to ?? null,
+  });
+
+  if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+
+  const result = data as EarningsResult;
+  return {
+    ...result.totals,
+    from: result.from,
+    to: result.to,
+    worksheets: result.worksheets,
+    daily: result.daily,
+  };
+}
+
 
 // API methods
 export const api = {
@@ -210,21 +571,84 @@ export const api = {
       category?: string;
       minPrice?: number;
       maxPrice?: number;
-    }) => {
+      tags?: string[];
+      tagMode?: TagMatchMode;
+      sellerId?: string;
+      // Keyset pagination: nextCursor from the previous page (page is ignored)
+      cursor?: string;
+      // 'estimated' uses the planner row estimate, cheaper on large tables
+      count?: 'exact' | 'estimated';
+    }): Promise<{ worksheets: Worksheet[]; pagination: PaginationInfo }> => {
       const page = params?.page || 1;
       const limit = params?.limit || 12;
       const offset = (page - 1) * limit;
 
-      // Note: Temporarily removed { count: 'exact' } to debug hanging query
+      // Full-text search: ranked results with highlighted snippets (see add-worksheet-search.sql)
+      const searchText = params?.search?.trim();
+      if (searchText) {
+        const after = params?.cursor ? readCursor(params.cursor) : null;
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data, error } = await (supabase as any).rpc('search_worksheets', {
+          p_query: searchText,
+          p_sort: params?.sort || 'relevance',
+          p_grade: params?.grade || null,
+          p_subject: params?.subject || null,
+          p_category: params?.category || null,
+          p_min_price: params?.minPrice ?? null,
+          p_max_price: params?.maxPrice ?? null,
+          p_tags: params?.tags?.length ? params.tags : null,
+          p_tag_mode: params?.tagMode || 'any',
+          p_seller_id: params?.sellerId || null,
+          p_limit: limit + 1,
+          p_offset: after ? 0 : offset,
+          p_after_key: after ? Number(after[0]) : null,
+          p_after_id: after ? String(after[1]) : null,
+        });
+
+        if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+        type SearchWorksheetRow = WorksheetCardRow & {
+          rank: number;
+          sort_key: number;
+          title_highlight: string;
+          description_highlight: string;
+          total_count: number;
+        };
+
+        // One extra row is fetched to know whether another page exists
+        const rows = (data || []) as SearchWorksheetRow[];
+        const pageRows = rows.slice(0, limit);
+        const last = pageRows[pageRows.length - 1];
+        const total = rows.length > 0 ? Number(rows[0].total_count) : 0;
+
+        return {
+          worksheets: pageRows.map(w => ({
+            ...toWorksheet(w),
+            relevance: w.rank,
+            highlight: {
+              title: w.title_highlight,
+              description: w.description_highlight,
+            },
+          })),
+          pagination: {
+            currentPage: after ? null : page,
+            totalPages: Math.ceil(total / limit) || 1,
+            totalCount: total,
+            limit,
+            // Keyset on (sort_key, id), same as the catalog cursor
+            nextCursor: rows.length > limit && last ? encodeCursor(last.sort_key, last.id) : null,
+          },
+        };
+      }
+
       let query = supabase
         .from('worksheet_cards')
-        .select('*')
+        .select('*', { count: params?.count || 'exact' })
         .eq('status', 'approved');
 
-      // Apply filters (escape special characters to prevent SQL injection)
-      if (params?.search) {
-        const safeSearch = escapeLikePattern(params.search);
-        query = query.or(`title.ilike.%${safeSearch}%,description.ilike.%${safeSearch}%`);
+      // Apply filters
+      if (params?.sellerId) {
+        query = query.eq('seller_id', params.sellerId);
       }
       if (params?.grade) {
         query = query.eq('grade', params.grade);
@@ -241,89 +665,106 @@ export const api = {
       if (params?.maxPrice !== undefined) {
         query = query.lte('price', params.maxPrice);
       }
+      if (params?.tags?.length) {
+        query = params.tagMode === 'all'
+          ? query.contains('tags', params.tags)
+          : query.overlaps('tags', params.tags);
+      }
 
-      // Apply sorting
-      switch (params?.sort) {
-        case 'popular':
-          query = query.order('sales_count', { ascending: false });
-          break;
-        case 'price_low':
-          query = query.order('price', { ascending: true });
-          break;
-        case 'price_high':
-          query = query.order('price', { ascending: false });
-          break;
-        case 'rating':
-          query = query.order('average_rating', { ascending: false });
-          break;
-        case 'newest':
-        default:
-          query = query.order('created_at', { ascending: false });
+      // Apply sorting (id breaks ties so pages never overlap or skip rows)
+      const { column, ascending } = getKeysetOrder(params?.sort);
+      query = query
+        .order(column, { ascending })
+        .order('id', { ascending });
+
+      // Apply pagination: keyset when a cursor is given, offset otherwise
+      if (params?.cursor) {
+        const [lastValue, lastId] = readCursor(params.cursor);
+        const op = ascending ? 'gt' : 'lt';
+        query = query
+          .or(`${column}.${op}."${lastValue}",and(${column}.eq."${lastValue}",id.${op}.${lastId})`)
+          .limit(limit + 1);
+      } else {
+        query = query.range(offset, offset + limit);
       }
 
-      // Apply pagination
-      query = query.range(offset, offset + limit - 1);
+      const { data, error, count } = await query;
 
-      // Debug: Log query start time
-      console.log('[api.worksheets.list] Starting query at:', new Date().toISOString());
-      console.log('[api.worksheets.list] Query params:', { page, limit, offset, sort: params?.sort, search: params?.search });
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
 
-      let data, error, count;
-      try {
-        const result = await query;
-        data = result.data;
-        error = result.error;
-        count = result.count;
-        console.log('[api.worksheets.list] Query completed successfully');
-      } catch (queryError) {
-        console.error('[api.worksheets.list] Query threw exception:', queryError);
-        throw new ApiError('쿼리 실행 중 오류가 발생했습니다.', 500);
-      }
+      // One extra row is fetched to know whether another page exists
+      const rows = (data || []) as WorksheetCardRow[];
+      const hasMore = rows.length > limit;
+      const pageRows = rows.slice(0, limit);
+      const last = pageRows[pageRows.length - 1];
+      const total = count ?? pageRows.length;
 
-      // Debug log
-      console.log('[api.worksheets.list] Response received at:', new Date().toISOString());
-      console.log('[api.worksheets.list] Response:', { data, error, count });
+      return {
+        worksheets: pageRows.map(toWorksheet),
+        pagination: {
+          currentPage: params?.cursor ? null : page,
+          totalPages: Math.ceil(total / limit) || 1,
+          totalCount: total,
+          limit,
+          isEstimate: params?.count === 'estimated',
+          nextCursor: hasMore && last ? encodeCursor(last[column], last.id) : null,
+        },
+      };
+    },
 
-      if (error) {
-        console.error('[api.worksheets.list] Error:', error);
-        throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
-      }
+    // Per-option result counts for the filter panel (see add-worksheet-facets.sql)
+    facets: async (params?: {
+      search?: string;
+      grade?: string;
+      subject?: string;
+      category?: string;
+      minPrice?: number;
+      maxPrice?: number;
+      tags?: string[];
+      tagMode?: TagMatchMode;
+      sellerId?: string;
+    }): Promise<WorksheetFacets> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('worksheet_facets', {
+        p_query: params?.search?.trim() || null,
+        p_grade: params?.grade || null,
+        p_subject: params?.subject || null,
+        p_category: params?.category || null,
+        p_min_price: params?.minPrice ?? null,
+        p_max_price: params?.maxPrice ?? null,
+        p_tags: params?.tags?.length ? params.tags : null,
+        p_tag_mode: params?.tagMode || 'any',
+        p_seller_id: params?.sellerId || null,
+      });
 
-      // Transform to match expected format
-      const worksheets = ((data || []) as WorksheetCardRow[]).map(w => ({
-        id: w.id,
-        sellerId: w.seller_id,
-        sellerNickname: w.seller_nickname,
-        title: w.title,
-        description: w.description,
-        price: w.price,
-        grade: w.grade,
-        subject: w.subject,
-        category: w.category,
-        tags: w.tags,
-        fileUrl: w.file_url,
-        previewImage: w.preview_image,
-        previewImages: [w.preview_image],
-        pageCount: w.page_count,
-        downloadCount: w.download_count,
-        salesCount: w.sales_count,
-        averageRating: Number(w.average_rating),
-        reviewCount: w.review_count,
-        status: w.status,
-        createdAt: w.created_at,
-        updatedAt: w.updated_at,
-      }));
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
 
-      // Note: count is null because we removed { count: 'exact' } - using data length as fallback
-      const total = count ?? worksheets.length;
+      const result = data as WorksheetFacets | null;
       return {
-        worksheets,
-        total,
-        totalPages: Math.ceil(total / limit) || 1,
-        page,
+        grade: result?.grade || {},
+        subject: result?.subject || {},
+        category: result?.category || {},
+        price: result?.price || {},
+        total: Number(result?.total || 0),
       };
     },
 
+    // Tag autocomplete: existing tags starting with prefix, most used first
+    tags: async (prefix = '', limit = 10) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('search_tags', {
+        p_prefix: prefix.replace(/^#+/, '').trim(),
+        p_limit: limit,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      return ((data || []) as { tag: string; usage_count: number }[]).map(t => ({
+        tag: t.tag,
+        count: Number(t.usage_count),
+      }));
+    },
+
     get: async (id: string) => {
       const { data, error } = await supabase
         .from('worksheet_cards')
@@ -333,31 +774,7 @@ export const api = {
 
       if (error || !data) throw new ApiError('워크시트를 찾을 수 없습니다.', 404);
 
-      const w = data as WorksheetCardRow;
-
-      return {
-        id: w.id,
-        sellerId: w.seller_id,
-        sellerNickname: w.seller_nickname,
-        title: w.title,
-        description: w.description,
-        price: w.price,
-        grade: w.grade,
-        subject: w.subject,
-        category: w.category,
-        tags: w.tags,
-        fileUrl: w.file_url,
-        previewImage: w.preview_image,
-        previewImages: [w.preview_image],
-        pageCount: w.page_count,
-        downloadCount: w.download_count,
-        salesCount: w.sales_count,
-        averageRating: Number(w.average_rating),
-        reviewCount: w.review_count,
-        status: w.status,
-        createdAt: w.created_at,
-        updatedAt: w.updated_at,
-      };
+      return toWorksheet(data as WorksheetCardRow);
     },
 
     create: async (data: {
@@ -367,6 +784,7 @@ export const api = {
       category: string;
       grade: string;
       subject: string;
+      tags?: string[];
       pageCount?: number;
       fileUrl?: string;
       previewImage?: string;
@@ -395,6 +813,7 @@ export const api = {
         grade: data.grade,
         subject: data.subject,
         category: data.category,
+        tags: normalizeTags(data.tags || []),
         page_count: data.pageCount || 1,
         file_url: data.fileUrl || '',
         preview_image: data.previewImage || '',
@@ -417,6 +836,7 @@ export const api = {
       title: string;
       description: string;
       price: number;
+      tags: string[];
       fileUrl: string;
       previewImage: string;
     }>, changeComment?: string) => {
@@ -426,7 +846,7 @@ export const api = {
       // Verify ownership
       const { data: existing } = await supabase
         .from('worksheets')
-        .select('seller_id, title, description, price, file_url, preview_image')
+        .select('seller_id, title, description, price, tags, file_url, preview_image')
         .eq('id', id)
         .maybeSingle();
 
@@ -437,6 +857,7 @@ export const api = {
         title: string;
         description: string;
         price: number;
+        tags: string[] | null;
         file_url: string;
         preview_image: string;
       };
@@ -459,6 +880,8 @@ export const api = {
         throw new ApiError('설명은 최소 10자 이상이어야 합니다.', 400, 'INVALID_DESCRIPTION');
       }
 
+      const tags = data.tags !== undefined ? normalizeTags(data.tags) : undefined;
+
       // Build change log entry
       const changes: string[] = [];
       if (data.title && data.title !== existingData.title) {
@@ -470,6 +893,9 @@ export const api = {
       if (data.price !== undefined && data.price !== existingData.price) {
         changes.push(`가격: ${existingData.price}P → ${data.price}P`);
       }
+      if (tags && tags.join(',') !== (existingData.tags || []).join(',')) {
+        changes.push('태그 변경');
+      }
       if (data.fileUrl && data.fileUrl !== existingData.file_url) {
         changes.push('워크시트 파일 변경');
       }
@@ -484,6 +910,7 @@ export const api = {
       if (data.title !== undefined) updateData.title = data.title;
       if (data.description !== undefined) updateData.description = data.description;
       if (data.price !== undefined) updateData.price = data.price;
+      if (tags !== undefined) updateData.tags = tags;
       if (data.fileUrl !== undefined) updateData.file_url = data.fileUrl;
       if (data.previewImage !== undefined) updateData.preview_image = data.previewImage;
 
@@ -575,6 +1002,246 @@ export const api = {
       if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
       return data as { success: boolean; notifiedCount: number };
     },
+
+    // Record a detail page view for seller analytics (best effort, never throws)
+    trackView: async (worksheetId: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any).rpc('track_worksheet_view', {
+        p_worksheet_id: worksheetId,
+        p_session_id: getViewerSessionId(),
+      });
+
+      if (error) console.error('Failed to track view:', error);
+    },
+  },
+
+  // Bundles (see add-bundles.sql)
+  bundles: {
+    list: async (params?: { sellerId?: string; limit?: number }): Promise<Bundle[]> => {
+      let query = supabase
+        .from('bundle_cards')
+        .select('*')
+        .eq('status', 'approved')
+        .gt('item_count', 1)
+        .order('created_at', { ascending: false })
+        .limit(params?.limit || 12);
+
+      if (params?.sellerId) {
+        query = query.eq('seller_id', params.sellerId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as BundleCardRow[]).map(toBundle);
+    },
+
+    // Bundle with its worksheets (in bundle order)
+    get: async (id: string): Promise<Bundle> => {
+      const { data, error } = await supabase
+        .from('bundle_cards')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error || !data) throw new ApiError('묶음 상품을 찾을 수 없습니다.', 404);
+
+      const { data: items, error: itemsError } = await supabase
+        .from('bundle_items')
+        .select('worksheet_id, position')
+        .eq('bundle_id', id)
+        .order('position');
+
+      if (itemsError) throw new ApiError(sanitizeErrorMessage(itemsError), 500, itemsError.code);
+
+      const worksheetIds = ((items || []) as { worksheet_id: string }[]).map(i => i.worksheet_id);
+      const { data: worksheets, error: worksheetsError } = await supabase
+        .from('worksheet_cards')
+        .select('*')
+        .in('id', worksheetIds)
+        .eq('status', 'approved');
+
+      if (worksheetsError) throw new ApiError(sanitizeErrorMessage(worksheetsError), 500, worksheetsError.code);
+
+      const byId = new Map(((worksheets || []) as WorksheetCardRow[]).map(w => [w.id, toWorksheet(w)]));
+
+      return {
+        ...toBundle(data as BundleCardRow),
+        worksheets: worksheetIds.flatMap(wid => byId.get(wid) ?? []),
+      };
+    },
+
+    // Bundle price has no 100~500P limit but must be below the sum of the worksheet prices
+    create: async (data: {
+      title: string;
+      description: string;
+      price: number;
+      worksheetIds: string[];
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      if (!data.title || data.title.trim().length < 2 || data.title.length > 100) {
+        throw new ApiError('제목은 2~100자 사이여야 합니다.', 400, 'INVALID_TITLE');
+      }
+
+      if (new Set(data.worksheetIds).size < 2) {
+        throw new ApiError('묶음에는 자료가 2개 이상 필요합니다.', 400, 'TOO_FEW_ITEMS');
+      }
+
+      if (!Number.isInteger(data.price) || data.price <= 0) {
+        throw new ApiError('묶음 가격을 올바르게 입력해주세요.', 400, 'INVALID_PRICE');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data: bundleId, error } = await (supabase as any).rpc('create_bundle', {
+        p_title: data.title.trim(),
+        p_description: data.description.trim(),
+        p_price: data.price,
+        p_worksheet_ids: data.worksheetIds,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { id: bundleId as string };
+    },
+
+    // Seller's own bundles, including hidden ones
+    mine: async (): Promise<Bundle[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { data, error } = await supabase
+        .from('bundle_cards')
+        .select('*')
+        .eq('seller_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as BundleCardRow[]).map(toBundle);
+    },
+
+    setStatus: async (bundleId: string, status: 'approved' | 'hidden') => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.from('bundles') as any)
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq('id', bundleId)
+        .eq('seller_id', user.id);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+    },
+
+    // Buys every worksheet in the bundle the buyer doesn't own yet; owned ones come back in `failed`
+    // and the bundle price is reduced in proportion. Same idempotency rules as purchases.create.
+    purchase: async (bundleId: string, idempotencyKey: string): Promise<PurchaseResponse> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('purchase_bundle', {
+        p_user_id: user.id,
+        p_bundle_id: bundleId,
+        p_idempotency_key: idempotencyKey,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return toPurchaseResponse(data);
+    },
+  },
+
+  // Sellers (public storefront)
+  sellers: {
+    get: async (id: string): Promise<SellerProfile> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_seller_profile', {
+        p_seller_id: id,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      const result = data as (SellerProfile & { success: true }) | { success: false; error: string };
+      if (!result.success) {
+        throw new ApiError(result.error || '판매자를 찾을 수 없습니다.', 404);
+      }
+
+      return {
+        id: result.id,
+        nickname: result.nickname,
+        avatarUrl: result.avatarUrl,
+        role: result.role,
+        joinedAt: result.joinedAt,
+        worksheetCount: result.worksheetCount,
+        totalSales: result.totalSales,
+        averageRating: Number(result.averageRating),
+        reviewCount: result.reviewCount,
+        followerCount: result.followerCount ?? 0,
+        isFollowing: result.isFollowing ?? false,
+      };
+    },
+  },
+
+  // Seller follows (new_worksheet notifications are created by a DB trigger)
+  follows: {
+    follow: async (sellerId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+      if (user.id === sellerId) {
+        throw new ApiError('자기 자신은 팔로우할 수 없습니다.', 400, 'SELF_FOLLOW');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.from('seller_follows') as any)
+        .insert({ follower_id: user.id, seller_id: sellerId });
+
+      // Already following is not an error
+      if (error && error.code !== '23505') {
+        throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      }
+      return { success: true };
+    },
+
+    unfollow: async (sellerId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { error } = await supabase
+        .from('seller_follows')
+        .delete()
+        .eq('follower_id', user.id)
+        .eq('seller_id', sellerId);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return { success: true };
+    },
+
+    // Sellers the current user follows
+    list: async (): Promise<FollowedSeller[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { data, error } = await supabase
+        .from('seller_follows')
+        .select('seller_id, created_at, seller:profiles!seller_follows_seller_id_fkey(nickname, avatar_url)')
+        .eq('follower_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      type FollowRow = {
+        seller_id: string;
+        created_at: string;
+        seller: { nickname: string; avatar_url: string | null } | null;
+      };
+
+      return ((data || []) as FollowRow[]).map(f => ({
+        sellerId: f.seller_id,
+        nickname: f.seller?.nickname || '알 수 없음',
+        avatarUrl: f.seller?.avatar_url || null,
+        followedAt: f.created_at,
+      }));
+    },
   },
 
   // Notifications
@@ -604,6 +1271,7 @@ export const api = {
         message: string;
         worksheet_id: string | null;
         edit_history_id: string | null;
+        seller_id: string | null;
         is_read: boolean;
         created_at: string;
       };
@@ -616,6 +1284,7 @@ export const api = {
         message: n.message,
         worksheetId: n.worksheet_id,
         editHistoryId: n.edit_history_id,
+        sellerId: n.seller_id,
         isRead: n.is_read,
         createdAt: n.created_at,
       }));
@@ -885,19 +1554,18 @@ export const api = {
     },
   },
 
-  // Purchases
-  purchases: {
-    list: async () => {
+  // Wishlist (saved for later, separate from the cart)
+  wishlist: {
+    list: async (): Promise<WishlistItem[]> => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new ApiError('인증이 필요합니다.', 401);
 
       const { data, error } = await supabase
-        .from('purchases')
+        .from('wishlist_items')
         .select(`
           id,
           worksheet_id,
-          price,
-          has_feedback,
+          price_at_add,
           created_at,
           worksheets (
             id,
@@ -909,19 +1577,19 @@ export const api = {
             review_count,
             grade,
             subject,
-            category
+            category,
+            seller:profiles!worksheets_seller_id_fkey(nickname)
           )
         `)
-        .eq('buyer_id', user.id)
+        .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
       if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
 
-      type PurchaseResult = {
+      type WishlistItemResult = {
         id: string;
         worksheet_id: string;
-        price: number;
-        has_feedback: boolean;
+        price_at_add: number;
         created_at: string;
         worksheets: {
           id: string;
@@ -934,21 +1602,215 @@ export const api = {
           grade: string;
           subject: string;
           category: string;
+          seller: { nickname: string } | null;
         } | null;
       };
 
-      return ((data || []) as PurchaseResult[]).map(p => {
-        const ws = p.worksheets;
+      return ((data || []) as WishlistItemResult[]).map(item => {
+        const ws = item.worksheets;
         return {
-          id: p.id,
-          buyerId: user.id,
-          worksheetId: p.worksheet_id,
+          id: item.id,
+          userId: user.id,
+          worksheetId: item.worksheet_id,
+          priceAtAdd: item.price_at_add,
+          addedAt: item.created_at,
+          worksheet: ws ? {
+            id: ws.id,
+            title: ws.title,
+            price: ws.price,
+            sellerNickname: ws.seller?.nickname || '',
+            previewImage: ws.preview_image,
+            downloadCount: ws.download_count,
+            averageRating: Number(ws.average_rating),
+            reviewCount: ws.review_count,
+            grade: ws.grade,
+            subject: ws.subject,
+            category: ws.category,
+          } : null,
+        };
+      });
+    },
+
+    add: async (worksheetId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { data: worksheetData } = await supabase
+        .from('worksheets')
+        .select('price')
+        .eq('id', worksheetId)
+        .maybeSingle();
+
+      if (!worksheetData) throw new ApiError('워크시트를 찾을 수 없습니다.', 404);
+
+      const insertData: WishlistItemsInsert = {
+        user_id: user.id,
+        worksheet_id: worksheetId,
+        price_at_add: (worksheetData as { price: number }).price,
+      };
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.from('wishlist_items') as any).insert(insertData);
+
+      // Already wishlisted — treat as success so the toggle stays idempotent
+      if (error && error.code !== '23505') {
+        throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      }
+      return { success: true };
+    },
+
+    remove: async (worksheetId: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { error } = await supabase
+        .from('wishlist_items')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('worksheet_id', worksheetId);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return { success: true };
+    },
+
+    // Move a wishlisted worksheet into the cart (cart checks purchased/own-worksheet rules)
+    moveToCart: async (worksheetId: string) => {
+      const cartItem = await api.cart.add(worksheetId);
+      await api.wishlist.remove(worksheetId);
+      return cartItem;
+    },
+  },
+
+  // Coupons (buyer side — management lives under admin)
+  coupons: {
+    // Check a code against the selected items without redeeming it
+    preview: async (code: string, worksheetIds: string[]): Promise<CouponPreview> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('preview_coupon', {
+        p_code: code.trim(),
+        p_worksheet_ids: worksheetIds,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      const result = data as {
+        valid: boolean;
+        error?: string;
+        code?: string;
+        description?: string;
+        eligibleSubtotal?: number;
+        discount?: number;
+      };
+
+      if (!result.valid) {
+        return { valid: false, error: result.error || '사용할 수 없는 쿠폰입니다.' };
+      }
+
+      return {
+        valid: true,
+        code: result.code!,
+        description: result.description || '',
+        eligibleSubtotal: result.eligibleSubtotal ?? 0,
+        discount: result.discount ?? 0,
+      };
+    },
+  },
+
+  // Purchases
+  purchases: {
+    // Optional KST date range (inclusive) for exports
+    list: async (range?: { from: string; to: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const buildQuery = () => {
+        let query = supabase
+          .from('purchases')
+          .select(`
+            id,
+            worksheet_id,
+            price,
+            has_feedback,
+            order_id,
+            discount,
+            bundle_id,
+            gift_message,
+            created_at,
+            bundles ( title ),
+            gifter:profiles!purchases_gift_from_fkey ( nickname ),
+            worksheets (
+              id,
+              title,
+              price,
+              preview_image,
+              download_count,
+              average_rating,
+              review_count,
+              grade,
+              subject,
+              category
+            )
+          `)
+          .eq('buyer_id', user.id)
+          .order('created_at', { ascending: false })
+          .order('id');
+
+        if (range) {
+          const { start, end } = kstRangeBounds(range);
+          query = query.gte('created_at', start).lt('created_at', end);
+        }
+        return query;
+      };
+
+      const data = await fetchAllRows((from, to) => buildQuery().range(from, to));
+
+      type PurchaseResult = {
+        id: string;
+        worksheet_id: string;
+        price: number;
+        has_feedback: boolean;
+        order_id: string | null;
+        discount: number;
+        bundle_id: string | null;
+        gift_message: string | null;
+        created_at: string;
+        bundles: { title: string } | null;
+        gifter: { nickname: string } | null;
+        worksheets: {
+          id: string;
+          title: string;
+          price: number;
+          preview_image: string;
+          download_count: number;
+          average_rating: number;
+          review_count: number;
+          grade: string;
+          subject: string;
+          category: string;
+        } | null;
+      };
+
+      return (data as PurchaseResult[]).map(p => {
+        const ws = p.worksheets;
+        return {
+          id: p.id,
+          buyerId: user.id,
+          worksheetId: p.worksheet_id,
           price: p.price,
           pointsSpent: p.price,
           pointsRefunded: p.has_feedback ? 30 : 0,
           feedbackGiven: p.has_feedback,
           hasFeedback: p.has_feedback,
           purchasedAt: p.created_at,
+          orderId: p.order_id,
+          discount: p.discount ?? 0,
+          bundleId: p.bundle_id ?? null,
+          bundleTitle: p.bundles?.title ?? null,
+          giftFromNickname: p.gifter?.nickname ?? null,
+          giftMessage: p.gift_message ?? null,
           worksheet: ws ? {
             id: ws.id,
             title: ws.title,
@@ -966,35 +1828,72 @@ export const api = {
       });
     },
 
-    create: async () => {
+    // Receipt for an order id (or purchase id for purchases made before orders existed)
+    receipt: async (orderId: string): Promise<OrderReceipt> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_order_receipt', {
+        p_order_id: orderId,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as OrderReceipt;
+    },
+
+    // Group purchases by checkout (newest first)
+    orders: async (): Promise<PurchaseOrder[]> => {
+      const purchases = await api.purchases.list();
+      const orders = new Map<string, PurchaseOrder>();
+
+      for (const purchase of purchases) {
+        const key = purchase.orderId ?? `legacy_${purchase.id}`;
+        // Gifts were paid by the sender
+        const spent = purchase.giftFromNickname ? 0 : purchase.price;
+        const order = orders.get(key);
+        if (order) {
+          order.purchases.push(purchase);
+          order.totalSpent += spent;
+          order.discount += purchase.discount;
+        } else {
+          orders.set(key, {
+            id: purchase.orderId ?? purchase.id,
+            totalSpent: spent,
+            discount: purchase.discount,
+            createdAt: purchase.purchasedAt,
+            bundleTitle: purchase.bundleTitle,
+            purchases: [purchase],
+          });
+        }
+      }
+
+      return [...orders.values()];
+    },
+
+    // Buy only the given worksheets; items that can't be bought come back in `failed`.
+    // Retrying with the same idempotencyKey returns the original result instead of charging again.
+    create: async (
+      worksheetIds: string[],
+      idempotencyKey: string,
+      couponCode?: string
+    ): Promise<PurchaseResponse> => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new ApiError('인증이 필요합니다.', 401);
 
+      if (worksheetIds.length === 0) {
+        throw new ApiError('구매할 자료를 선택해주세요.', 400);
+      }
+
       // Note: Type assertion needed due to Supabase client generic typing limitations
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const { data, error } = await (supabase as any).rpc('purchase_worksheets', {
         p_user_id: user.id,
+        p_worksheet_ids: worksheetIds,
+        p_idempotency_key: idempotencyKey,
+        p_coupon_code: couponCode || null,
       });
 
       if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
 
-      const result = data as {
-        success: boolean;
-        totalSpent: number;
-        newBalance: number;
-        purchases: Array<{ worksheetId: string; title: string; price: number }>;
-      };
-
-      return {
-        purchaseIds: result.purchases.map(p => p.worksheetId),
-        totalSpent: result.totalSpent,
-        newBalance: result.newBalance,
-        downloads: result.purchases.map(p => ({
-          worksheetId: p.worksheetId,
-          title: p.title,
-          downloadUrl: '#', // URL would come from storage
-        })),
-      };
+      return toPurchaseResponse(data);
     },
 
     download: async (worksheetId: string) => {
@@ -1037,6 +1936,21 @@ export const api = {
       return { downloadUrl: fileUrl };
     },
 
+    // Which of the given worksheets the current user already bought
+    ownedIds: async (worksheetIds: string[]): Promise<string[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || worksheetIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('purchases')
+        .select('worksheet_id')
+        .eq('buyer_id', user.id)
+        .in('worksheet_id', worksheetIds);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as { worksheet_id: string }[]).map(p => p.worksheet_id);
+    },
+
     check: async (worksheetId: string) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return { purchased: false, hasFeedback: false };
@@ -1055,6 +1969,233 @@ export const api = {
     },
   },
 
+  // Refund requests (see add-refunds.sql)
+  refunds: {
+    request: async (purchaseId: string, reasonType: RefundReasonType, reason: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      if (reason.trim().length < 10) {
+        throw new ApiError('환불 사유를 10자 이상 입력해주세요.', 400, 'INVALID_REASON');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('request_refund', {
+        p_purchase_id: purchaseId,
+        p_reason_type: reasonType,
+        p_reason: reason.trim(),
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { id: data as string };
+    },
+
+    // Requests the current user made as a buyer
+    mine: async (): Promise<RefundRequest[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { data, error } = await supabase
+        .from('refund_requests')
+        .select(REFUND_REQUEST_SELECT)
+        .eq('buyer_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as unknown as RefundRequestRow[]).map(toRefundRequest);
+    },
+
+    // Requests against the current user's sales
+    received: async (): Promise<RefundRequest[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { data, error } = await supabase
+        .from('refund_requests')
+        .select(REFUND_REQUEST_SELECT)
+        .eq('seller_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as unknown as RefundRequestRow[]).map(toRefundRequest);
+    },
+
+    // Seller: accepting refunds immediately; rejecting requires a reason
+    respond: async (requestId: string, accept: boolean, response?: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('respond_refund', {
+        p_request_id: requestId,
+        p_accept: accept,
+        p_response: response?.trim() || null,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as { status: 'refunded' | 'seller_rejected'; refundedAmount: number };
+    },
+
+    // Buyer: send a seller-rejected request to admin arbitration
+    escalate: async (requestId: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any).rpc('update_refund_request', {
+        p_request_id: requestId,
+        p_action: 'escalate',
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { success: true };
+    },
+
+    cancel: async (requestId: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any).rpc('update_refund_request', {
+        p_request_id: requestId,
+        p_action: 'cancel',
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { success: true };
+    },
+  },
+
+  // Seller earnings withdrawal (see add-withdrawals.sql)
+  withdrawals: {
+    summary: async (): Promise<WithdrawalSummary> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_withdrawal_summary');
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return data as WithdrawalSummary;
+    },
+
+    getAccount: async (): Promise<PayoutAccount | null> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_payout_account');
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return (data as PayoutAccount | null) || null;
+    },
+
+    // The account number is encrypted server-side; only the last 4 digits come back
+    saveAccount: async (account: { bankName: string; accountHolder: string; accountNumber: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any).rpc('save_payout_account', {
+        p_bank_name: account.bankName,
+        p_account_holder: account.accountHolder,
+        p_account_number: account.accountNumber,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { success: true };
+    },
+
+    // Points are deducted (held) immediately and returned if the request is rejected
+    request: async (amount: number) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      if (!Number.isInteger(amount) || amount <= 0) {
+        throw new ApiError('출금 금액을 확인해주세요.', 400, 'INVALID_AMOUNT');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('request_withdrawal', {
+        p_amount: amount,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { id: data as string };
+    },
+
+    mine: async (): Promise<WithdrawalRequest[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const { data, error } = await supabase
+        .from('withdrawal_requests')
+        .select(WITHDRAWAL_REQUEST_SELECT)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as unknown as WithdrawalRequestRow[]).map(toWithdrawalRequest);
+    },
+  },
+
+  // Gifts (see add-gifts.sql)
+  gifts: {
+    // Exact login email or (unique) nickname match; only a masked email is returned
+    findRecipient: async (query: string): Promise<GiftRecipient | null> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      if (!query.trim()) return null;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('find_gift_recipient', {
+        p_query: query.trim(),
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      const result = data as { found: boolean; id?: string; nickname?: string; maskedEmail?: string | null };
+      if (!result.found || !result.id) return null;
+      if (result.id === user.id) {
+        throw new ApiError('본인에게는 선물할 수 없습니다.', 400, 'CANNOT_GIFT_SELF');
+      }
+      return { id: result.id, nickname: result.nickname || '', maskedEmail: result.maskedEmail ?? null };
+    },
+
+    // Same rules as api.cart.add, checked for the recipient. Retrying with the same
+    // idempotencyKey returns the original result instead of charging again.
+    send: async (data: {
+      worksheetId: string;
+      recipientId: string;
+      message?: string;
+      idempotencyKey: string;
+    }): Promise<GiftResponse> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      if (data.recipientId === user.id) {
+        throw new ApiError('본인에게는 선물할 수 없습니다.', 400, 'CANNOT_GIFT_SELF');
+      }
+
+      if (data.message && data.message.length > 200) {
+        throw new ApiError('메시지는 200자 이하로 입력해주세요.', 400, 'INVALID_MESSAGE');
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data: result, error } = await (supabase as any).rpc('gift_worksheet', {
+        p_user_id: user.id,
+        p_recipient_id: data.recipientId,
+        p_worksheet_id: data.worksheetId,
+        p_message: data.message?.trim() || null,
+        p_idempotency_key: data.idempotencyKey,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+
+      const gift = result as {
+        orderId: string;
+        recipientNickname: string;
+        totalSpent: number;
+        newBalance: number;
+        replayed?: boolean;
+      };
+
+      return {
+        orderId: gift.orderId,
+        recipientNickname: gift.recipientNickname,
+        totalSpent: gift.totalSpent,
+        newBalance: gift.newBalance,
+        replayed: gift.replayed ?? false,
+      };
+    },
+  },
+
   // Feedbacks
   feedbacks: {
     create: async (data: { worksheetId?: string; rating: number; comment: string }) => {
@@ -1189,17 +2330,27 @@ export const api = {
       return { balance: (profile as { points: number } | null)?.points || 0 };
     },
 
-    getTransactions: async () => {
+    // Optional KST date range (inclusive) for exports
+    getTransactions: async (range?: { from: string; to: string }) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new ApiError('인증이 필요합니다.', 401);
 
-      const { data, error } = await supabase
-        .from('point_transactions')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+      const buildQuery = () => {
+        let query = supabase
+          .from('point_transactions')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .order('id');
 
-      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+        if (range) {
+          const { start, end } = kstRangeBounds(range);
+          query = query.gte('created_at', start).lt('created_at', end);
+        }
+        return query;
+      };
+
+      const data = await fetchAllRows((from, to) => buildQuery().range(from, to));
 
       type TransactionRow = {
         id: string;
@@ -1212,10 +2363,10 @@ export const api = {
         created_at: string;
       };
 
-      return ((data || []) as TransactionRow[]).map(t => ({
+      return (data as TransactionRow[]).map(t => ({
         id: t.id,
         userId: t.user_id,
-        type: t.type,
+        type: t.type as PointTransactionType,
         amount: t.amount,
         balance: t.balance,
         description: t.description,
@@ -1223,6 +2374,78 @@ export const api = {
         createdAt: t.created_at,
       }));
     },
+
+    // Point top-up (see add-point-charge.sql and services/payment.ts)
+    packages: async (): Promise<PointPackage[]> => {
+      const { data, error } = await supabase
+        .from('point_packages')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      type PackageRow = Database['public']['Tables']['point_packages']['Row'];
+      return ((data || []) as PackageRow[]).map((p) => ({
+        id: p.id,
+        name: p.name,
+        points: p.points,
+        bonusPoints: p.bonus_points,
+        price: p.price,
+      }));
+    },
+
+    // Creates a pending payment; the amount comes from the package on the server
+    createPayment: async (packageId: string, provider: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('create_point_payment', {
+        p_package_id: packageId,
+        p_provider: provider,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as { paymentId: string; amount: number; points: number; orderName: string };
+    },
+
+    getPayment: async (paymentId: string): Promise<PointPayment> => {
+      const { data, error } = await supabase
+        .from('point_payments')
+        .select('*')
+        .eq('id', paymentId)
+        .single();
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      const p = data as Database['public']['Tables']['point_payments']['Row'];
+      return {
+        id: p.id,
+        packageId: p.package_id,
+        provider: p.provider,
+        amount: p.amount,
+        points: p.points,
+        bonusPoints: p.bonus_points,
+        status: p.status,
+        failureReason: p.failure_reason,
+        createdAt: p.created_at,
+        completedAt: p.completed_at,
+      };
+    },
+
+    // Stands in for the provider webhook when using the fake provider
+    confirmTestPayment: async (paymentId: string, approved: boolean, failureReason?: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('confirm_fake_point_payment', {
+        p_payment_id: paymentId,
+        p_approved: approved,
+        p_failure_reason: failureReason ?? null,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as { status: PointPayment['status']; replayed: boolean; newBalance?: number };
+    },
   },
 
   // My page
@@ -1239,65 +2462,27 @@ export const api = {
 
       if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
 
-      return ((data || []) as WorksheetCardRow[]).map(w => ({
-        id: w.id,
-        sellerId: w.seller_id,
-        sellerNickname: w.seller_nickname,
-        title: w.title,
-        description: w.description,
-        price: w.price,
-        grade: w.grade,
-        subject: w.subject,
-        category: w.category,
-        tags: w.tags,
-        fileUrl: w.file_url,
-        previewImage: w.preview_image,
-        previewImages: [w.preview_image],
-        pageCount: w.page_count,
-        downloadCount: w.download_count,
-        salesCount: w.sales_count,
-        averageRating: Number(w.average_rating),
-        reviewCount: w.review_count,
-        status: w.status,
-        createdAt: w.created_at,
-        updatedAt: w.updated_at,
-      }));
+      return ((data || []) as WorksheetCardRow[]).map(toWorksheet);
     },
 
-    sales: async () => {
+    // Earnings for a KST date range (inclusive); all-time when omitted
+    sales: async (range?: { from: string; to: string }): Promise<SellerEarningsReport> => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new ApiError('인증이 필요합니다.', 401);
 
-      // Get worksheets with their sales
-      const { data: worksheets, error } = await supabase
-        .from('worksheets')
-        .select('id, title, sales_count, price')
-        .eq('seller_id', user.id);
-
-      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
-
-      type WorksheetSalesRow = {
-        id: string;
-        title: string;
-        sales_count: number;
-        price: number;
-      };
-
-      const worksheetStats = ((worksheets || []) as WorksheetSalesRow[]).map(w => ({
-        worksheetId: w.id,
-        title: w.title,
-        salesCount: w.sales_count,
-        earnings: w.sales_count * w.price,
-      }));
+      return fetchSellerEarnings(range);
+    },
 
-      const totalSales = worksheetStats.reduce((sum, w) => sum + w.salesCount, 0);
-      const totalEarnings = worksheetStats.reduce((sum, w) => sum + w.earnings, 0);
+    // Views → cart → purchase funnel and review trend for a KST date range (inclusive)
+    analytics: async (range: { from: string; to: string }): Promise<SellerAnalytics> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_seller_analytics', {
+        p_from: range.from,
+        p_to: range.to,
+      });
 
-      return {
-        totalSales,
-        totalEarnings,
-        worksheets: worksheetStats,
-      };
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as SellerAnalytics;
     },
 
     summary: async () => {
@@ -1323,27 +2508,16 @@ export const api = {
         .select('*', { count: 'exact', head: true })
         .eq('buyer_id', user.id);
 
-      // Get sales stats
-      const { data: worksheets } = await supabase
-        .from('worksheets')
-        .select('sales_count, price')
-        .eq('seller_id', user.id);
-
-      type WorksheetStatsRow = {
-        sales_count: number;
-        price: number;
-      };
-
-      const worksheetData = (worksheets || []) as WorksheetStatsRow[];
-      const totalSales = worksheetData.reduce((sum, w) => sum + w.sales_count, 0);
-      const totalEarnings = worksheetData.reduce((sum, w) => sum + w.sales_count * w.price, 0);
+      const { salesCount, grossEarnings, platformFees, netEarnings } = await fetchSellerEarnings();
 
       return {
         points: (profile as { points: number } | null)?.points || 0,
         purchaseCount: purchaseCount || 0,
         worksheetCount: worksheetCount || 0,
-        totalSales,
-        totalEarnings,
+        salesCount,
+        grossEarnings,
+        platformFees,
+        netEarnings,
       };
     },
   },
@@ -1684,7 +2858,7 @@ export const api = {
 
   // Events
   events: {
-    // List active events
+    // List active events visible to the current user (target_grades vs user_interests is enforced by RLS)
     list: async (status?: 'active' | 'scheduled' | 'ended') => {
       let query = supabase
         .from('events')
@@ -1697,51 +2871,16 @@ export const api = {
         query = query.in('status', ['active', 'scheduled']);
       }
 
-      const { data, error } = await query;
+      const [{ data, error }, interests] = await Promise.all([query, fetchUserGradeGroups()]);
 
       if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
 
-      type EventRow = {
-        id: string;
-        type: string;
-        title: string;
-        description: string | null;
-        status: string;
-        start_at: string | null;
-        end_at: string | null;
-        max_participants: number | null;
-        current_participants: number;
-        target_grades: string[] | null;
-        quiz_type: string | null;
-        difficulty: string | null;
-        points_reward: number;
-        mission_type: string | null;
-        min_length: number | null;
-        min_points: number | null;
-        max_points: number | null;
-        created_at: string;
-      };
+      const events = ((data || []) as EventRow[]).map(toEvent);
 
-      return ((data || []) as EventRow[]).map(e => ({
-        id: e.id,
-        type: e.type,
-        title: e.title,
-        description: e.description,
-        status: e.status,
-        startAt: e.start_at,
-        endAt: e.end_at,
-        maxParticipants: e.max_participants,
-        currentParticipants: e.current_participants,
-        targetGrades: e.target_grades,
-        quizType: e.quiz_type,
-        difficulty: e.difficulty,
-        pointsReward: e.points_reward,
-        missionType: e.mission_type,
-        minLength: e.min_length,
-        minPoints: e.min_points,
-        maxPoints: e.max_points,
-        createdAt: e.created_at,
-      }));
+      // Events aimed at the user's interests go first
+      return events
+        .map(e => ({ ...e, matchesInterests: !!e.targetGrades?.some(g => interests.includes(g)) }))
+        .sort((a, b) => Number(b.matchesInterests) - Number(a.matchesInterests));
     },
 
     // Get event detail with questions (for quiz)
@@ -1754,37 +2893,18 @@ export const api = {
 
       if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
 
-      // Get questions if quiz event
-      let questions: Array<{
-        id: string;
-        question: string;
-        questionType: string;
-        choices: Record<string, string> | null;
-        orderNum: number;
-      }> = [];
+      // Get questions if quiz event (answers stay on the server until submission)
+      let questions: QuizQuestion[] = [];
 
       if ((event as { type: string }).type === 'quiz') {
-        const { data: questionsData } = await supabase
-          .from('quiz_questions')
-          .select('id, question, question_type, choices, order_num')
-          .eq('event_id', eventId)
-          .order('order_num');
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { data: questionsData, error: questionsError } = await (supabase as any).rpc('get_quiz_questions', {
+          p_event_id: eventId,
+        });
 
-        type QuestionRow = {
-          id: string;
-          question: string;
-          question_type: string;
-          choices: Record<string, string> | null;
-          order_num: number;
-        };
+        if (questionsError) throw new ApiError(sanitizeErrorMessage(questionsError), 500, questionsError.code);
 
-        questions = ((questionsData || []) as QuestionRow[]).map(q => ({
-          id: q.id,
-          question: q.question,
-          questionType: q.question_type,
-          choices: q.choices,
-          orderNum: q.order_num,
-        }));
+        questions = (questionsData || []) as QuizQuestion[];
       }
 
       // Check if user already participated
@@ -1813,6 +2933,8 @@ export const api = {
         max_participants: number | null;
         current_participants: number;
         points_reward: number;
+        scoring_mode: QuizScoringMode;
+        pass_threshold: number | null;
         mission_type: string | null;
       };
 
@@ -1827,6 +2949,8 @@ export const api = {
         maxParticipants: e.max_participants,
         currentParticipants: e.current_participants,
         pointsReward: e.points_reward,
+        scoringMode: e.scoring_mode,
+        passThreshold: e.pass_threshold,
         missionType: e.mission_type,
         questions,
         participated,
@@ -1852,108 +2976,29 @@ export const api = {
       };
     },
 
-    // Submit quiz answers
-    submitQuiz: async (eventId: string, answers: Record<string, string>) => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new ApiError('인증이 필요합니다.', 401);
-
-      // Get event and questions
-      const { data: event } = await supabase
-        .from('events')
-        .select('*, quiz_questions(*)')
-        .eq('id', eventId)
-        .single();
-
-      if (!event) throw new ApiError('이벤트를 찾을 수 없습니다.', 404);
-
-      const eventData = event as {
-        status: string;
-        points_reward: number;
-        quiz_questions: Array<{
-          id: string;
-          correct_answer: string;
-        }>;
-      };
-
-      if (eventData.status !== 'active') {
-        throw new ApiError('진행 중인 이벤트가 아닙니다.', 400);
-      }
-
-      // Check if already participated
-      const { data: existing } = await supabase
-        .from('event_participations')
-        .select('id')
-        .eq('event_id', eventId)
-        .eq('user_id', user.id)
-        .maybeSingle();
-
-      if (existing) throw new ApiError('이미 참여했습니다.', 400);
-
-      // Check answers
-      let correctCount = 0;
-      const questions = eventData.quiz_questions;
-
-      for (const q of questions) {
-        if (answers[q.id] === q.correct_answer) {
-          correctCount++;
-        }
-      }
-
-      const isCorrect = correctCount === questions.length;
-      const pointsEarned = isCorrect ? eventData.points_reward : 0;
-
-      // Record participation
+    // Submit quiz answers (graded and paid out server-side, see add-quiz-grading.sql)
+    submitQuiz: async (eventId: string, answers: Record<string, string>): Promise<QuizSubmitResult> => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase.from('event_participations') as any).insert({
-        event_id: eventId,
-        user_id: user.id,
-        is_correct: isCorrect,
-        submitted_answer: JSON.stringify(answers),
-        points_earned: pointsEarned,
+      const { data, error } = await (supabase as any).rpc('submit_quiz', {
+        p_event_id: eventId,
+        p_answers: answers,
       });
 
-      // Update event participants
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase.from('events') as any)
-        .update({ current_participants: (event as { current_participants: number }).current_participants + 1 })
-        .eq('id', eventId);
-
-      // Give points if correct
-      let newBalance = 0;
-      if (isCorrect) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('points')
-          .eq('id', user.id)
-          .single();
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
 
-        newBalance = ((profile as { points: number } | null)?.points || 0) + pointsEarned;
+      return data as QuizSubmitResult;
+    },
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase.from('profiles') as any)
-          .update({ points: newBalance })
-          .eq('id', user.id);
+    // Review my graded answers (null if not participated)
+    getQuizResult: async (eventId: string): Promise<QuizResult | null> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_quiz_result', {
+        p_event_id: eventId,
+      });
 
-        // Record transaction
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase.from('point_transactions') as any).insert({
-          user_id: user.id,
-          type: 'quiz',
-          amount: pointsEarned,
-          balance: newBalance,
-          description: `퀴즈 이벤트 정답: ${(event as { title: string }).title}`,
-          related_id: eventId,
-        });
-      }
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
 
-      return {
-        success: true,
-        isCorrect,
-        correctCount,
-        totalQuestions: questions.length,
-        pointsEarned,
-        newBalance,
-      };
+      return (data as QuizResult | null) ?? null;
     },
   },
 
@@ -1963,20 +3008,10 @@ export const api = {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new ApiError('인증이 필요합니다.', 401);
 
-      const { data, error } = await supabase
-        .from('user_interests')
-        .select('grade_group')
-        .eq('user_id', user.id);
-
-      if (error) {
-        console.warn('Interests fetch failed:', error);
-        return [];
-      }
-
-      return ((data || []) as { grade_group: string }[]).map(i => i.grade_group);
+      return fetchUserGradeGroups();
     },
 
-    update: async (grades: string[]) => {
+    update: async (grades: GradeGroup[]) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new ApiError('인증이 필요합니다.', 401);
 
@@ -2156,16 +3191,11 @@ export const api = {
   admin: {
     // Check if current user is admin
     isAdmin: async () => {
+      // Login email, same as public.is_admin() (profiles.email is user-editable)
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return false;
 
-      const { data } = await supabase
-        .from('profiles')
-        .select('email')
-        .eq('id', user.id)
-        .single();
-
-      return (data as { email: string } | null)?.email === 'skypeople41@gmail.com';
+      return user.email?.toLowerCase() === 'skypeople41@gmail.com' && !!user.email_confirmed_at;
     },
 
     // Create event
@@ -2176,10 +3206,12 @@ export const api = {
       startAt?: string;
       endAt?: string;
       maxParticipants?: number;
-      targetGrades?: string[];
+      targetGrades?: GradeGroup[];
       quizType?: 'ox' | 'multiple_choice';
       difficulty?: 'easy' | 'normal' | 'hard';
       pointsReward: number;
+      scoringMode?: QuizScoringMode;
+      passThreshold?: number;
       missionType?: 'button_only' | 'comment_required';
       minLength?: number;
       minPoints?: number;
@@ -2198,10 +3230,12 @@ export const api = {
           start_at: eventData.startAt,
           end_at: eventData.endAt,
           max_participants: eventData.maxParticipants,
-          target_grades: eventData.targetGrades,
+          target_grades: eventData.targetGrades?.length ? eventData.targetGrades : null,
           quiz_type: eventData.quizType,
           difficulty: eventData.difficulty,
           points_reward: eventData.pointsReward,
+          scoring_mode: eventData.scoringMode,
+          pass_threshold: eventData.scoringMode === 'threshold' ? eventData.passThreshold : null,
           mission_type: eventData.missionType,
           min_length: eventData.minLength,
           min_points: eventData.minPoints,
@@ -2244,15 +3278,37 @@ export const api = {
       return { success: true };
     },
 
+    // List all events regardless of status or targeting
+    getEvents: async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as EventRow[]).map(toEvent);
+    },
+
+    // Users an event would reach with the given target grade groups (empty = everyone)
+    getEventAudienceSize: async (targetGrades: GradeGroup[]): Promise<EventAudienceSize> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_event_audience_size', {
+        p_target_grades: targetGrades.length > 0 ? targetGrades : null,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as EventAudienceSize;
+    },
+
     // Activate event
-    activateEvent: async (eventId: string) => {
+    activateEvent: async (eventId: string): Promise<{ success: boolean; status: 'active' | 'scheduled'; startAt: string }> => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { error } = await (supabase.from('events') as any)
-        .update({ status: 'active', start_at: new Date().toISOString() })
-        .eq('id', eventId);
+      const { data, error } = await (supabase as any).rpc('activate_event', {
+        p_event_id: eventId,
+      });
 
-      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
-      return { success: true };
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data;
     },
 
     // End event
@@ -2266,7 +3322,258 @@ export const api = {
       return { success: true };
     },
 
+    // List all coupons (newest first)
+    getCoupons: async (): Promise<Coupon[]> => {
+      const { data, error } = await supabase
+        .from('coupons')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      type CouponRow = {
+        id: string;
+        code: string;
+        description: string;
+        discount_type: CouponDiscountType;
+        discount_value: number;
+        max_discount: number | null;
+        min_spend: number;
+        subject: string | null;
+        grade: string | null;
+        usage_limit: number | null;
+        per_user_limit: number;
+        used_count: number;
+        starts_at: string;
+        expires_at: string | null;
+        is_active: boolean;
+        created_at: string;
+      };
+
+      return ((data || []) as CouponRow[]).map(c => ({
+        id: c.id,
+        code: c.code,
+        description: c.description,
+        discountType: c.discount_type,
+        discountValue: c.discount_value,
+        maxDiscount: c.max_discount,
+        minSpend: c.min_spend,
+        subject: c.subject,
+        grade: c.grade,
+        usageLimit: c.usage_limit,
+        perUserLimit: c.per_user_limit,
+        usedCount: c.used_count,
+        startsAt: c.starts_at,
+        expiresAt: c.expires_at,
+        isActive: c.is_active,
+        createdAt: c.created_at,
+      }));
+    },
+
+    // Create coupon
+    createCoupon: async (couponData: {
+      code: string;
+      description?: string;
+      discountType: CouponDiscountType;
+      discountValue: number;
+      maxDiscount?: number;
+      minSpend?: number;
+      subject?: string;
+      grade?: string;
+      usageLimit?: number;
+      perUserLimit?: number;
+      startsAt?: string;
+      expiresAt?: string;
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new ApiError('인증이 필요합니다.', 401);
+
+      const code = couponData.code.trim().toUpperCase();
+      if (!/^[A-Z0-9_-]{3,30}$/.test(code)) {
+        throw new ApiError('쿠폰 코드는 영문 대문자, 숫자, -, _ 로 3~30자여야 합니다.', 400);
+      }
+      if (!Number.isInteger(couponData.discountValue) || couponData.discountValue <= 0) {
+        throw new ApiError('할인 값은 1 이상의 정수여야 합니다.', 400);
+      }
+      if (couponData.discountType === 'percent' && couponData.discountValue > 100) {
+        throw new ApiError('할인율은 100%를 넘을 수 없습니다.', 400);
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.from('coupons') as any)
+        .insert({
+          code,
+          description: couponData.description || '',
+          discount_type: couponData.discountType,
+          discount_value: couponData.discountValue,
+          max_discount: couponData.maxDiscount || null,
+          min_spend: couponData.minSpend || 0,
+          subject: couponData.subject || null,
+          grade: couponData.grade || null,
+          usage_limit: couponData.usageLimit || null,
+          per_user_limit: couponData.perUserLimit || 1,
+          starts_at: couponData.startsAt || new Date().toISOString(),
+          expires_at: couponData.expiresAt || null,
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new ApiError('이미 존재하는 쿠폰 코드입니다.', 409, error.code);
+        throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      }
+      return data;
+    },
+
+    // Enable / disable coupon
+    setCouponActive: async (couponId: string, isActive: boolean) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase.from('coupons') as any)
+        .update({ is_active: isActive })
+        .eq('id', couponId);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return { success: true };
+    },
+
     // Send message to users
+    // Open refund requests first (disputed, then awaiting seller), then resolved ones
+    getRefundRequests: async (): Promise<RefundRequest[]> => {
+      const { data, error } = await supabase
+        .from('refund_requests')
+        .select(REFUND_REQUEST_SELECT)
+        .neq('status', 'cancelled')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      const priority: Record<string, number> = { disputed: 0, seller_rejected: 1, pending: 2 };
+      return ((data || []) as unknown as RefundRequestRow[])
+        .map(toRefundRequest)
+        .sort((a, b) => (priority[a.status] ?? 3) - (priority[b.status] ?? 3));
+    },
+
+    resolveRefund: async (requestId: string, approve: boolean, note?: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('resolve_refund', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as { status: 'refunded' | 'rejected'; refundedAmount: number };
+    },
+
+    getWithdrawals: async (status?: WithdrawalRequest['status']): Promise<WithdrawalRequest[]> => {
+      let query = supabase
+        .from('withdrawal_requests')
+        .select(WITHDRAWAL_REQUEST_SELECT)
+        .order('created_at', { ascending: true })
+        .limit(200);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+      return ((data || []) as unknown as WithdrawalRequestRow[]).map(toWithdrawalRequest);
+    },
+
+    // Batch review; requests not in a valid state for the action are skipped
+    reviewWithdrawals: async (requestIds: string[], action: 'approve' | 'pay' | 'reject', note?: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('review_withdrawals', {
+        p_request_ids: requestIds,
+        p_action: action,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as { processed: number };
+    },
+
+    // Decrypted account number for making the transfer (approved requests only)
+    getWithdrawalAccountNumber: async (requestId: string) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_withdrawal_account_number', {
+        p_request_id: requestId,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return data as string;
+    },
+
+    getFeeRules: async (): Promise<PlatformFeeRule[]> => {
+      const { data, error } = await supabase
+        .from('platform_fee_rules')
+        .select('*')
+        .order('scope')
+        .order('target');
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      type FeeRuleRow = Database['public']['Tables']['platform_fee_rules']['Row'];
+      return ((data || []) as FeeRuleRow[]).map((r) => ({
+        id: r.id,
+        scope: r.scope,
+        target: r.target,
+        rate: Number(r.rate),
+        updatedAt: r.updated_at,
+      }));
+    },
+
+    // rate = null removes a tier/category override
+    setFeeRule: async (scope: PlatformFeeRule['scope'], target: string | null, rate: number | null) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any).rpc('set_platform_fee_rule', {
+        p_scope: scope,
+        p_target: target,
+        p_rate: rate,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { success: true };
+    },
+
+    // Nickname search for the tier picker; several members can share a nickname
+    searchSellers: async (query: string): Promise<SellerTierEntry[]> => {
+      if (!query.trim()) return [];
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, nickname, seller_tier, created_at')
+        .ilike('nickname', `%${query.trim().replace(/[\\%_]/g, '\\$&')}%`)
+        .order('nickname')
+        .order('created_at')
+        .limit(20);
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 500, error.code);
+
+      type SellerRow = { id: string; nickname: string; seller_tier: SellerTier; created_at: string };
+      return ((data || []) as SellerRow[]).map((p) => ({
+        id: p.id,
+        nickname: p.nickname,
+        sellerTier: p.seller_tier,
+        createdAt: p.created_at,
+      }));
+    },
+
+    setSellerTier: async (userId: string, tier: SellerTier) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any).rpc('set_seller_tier', {
+        p_user_id: userId,
+        p_tier: tier,
+      });
+
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
+      return { success: true };
+    },
+
     sendMessage: async (data: {
       recipientType: 'all' | 'grade_group' | 'individual';
       recipientId?: string;
@@ -2402,63 +3709,30 @@ export const api = {
       }));
     },
 
-    // Approve/reject comment participation
+    // Approve/reject comment participation (points are paid by the RPC)
     approveCommentParticipation: async (participationId: string, approved: boolean, adjustedScore?: number) => {
-      const { data: participation } = await supabase
-        .from('event_participations')
-        .select('*, events(*)')
-        .eq('id', participationId)
-        .single();
-
-      if (!participation) throw new ApiError('참여 기록을 찾을 수 없습니다.', 404);
-
-      const p = participation as {
-        user_id: string;
-        ai_score: number;
-        events: { min_points: number; max_points: number; title: string; id: string };
-      };
-
-      const score = adjustedScore ?? p.ai_score ?? 0;
-      const minP = p.events.min_points || 10;
-      const maxP = p.events.max_points || 50;
-      const pointsEarned = approved ? Math.round((score / 100) * (maxP - minP) + minP) : 0;
-
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabase.from('event_participations') as any)
-        .update({
-          admin_approved: approved,
-          admin_adjusted_score: adjustedScore,
-          points_earned: pointsEarned,
-        })
-        .eq('id', participationId);
+      const { data, error } = await (supabase as any).rpc('approve_comment_participation', {
+        p_participation_id: participationId,
+        p_approved: approved,
+        p_adjusted_score: adjustedScore ?? null,
+      });
 
-      // Give points if approved
-      if (approved && pointsEarned > 0) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('points')
-          .eq('id', p.user_id)
-          .single();
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
 
-        const newBalance = ((profile as { points: number } | null)?.points || 0) + pointsEarned;
+      return data as { success: boolean; pointsEarned: number };
+    },
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase.from('profiles') as any)
-          .update({ points: newBalance })
-          .eq('id', p.user_id);
+    // Compare profiles.points with the point ledger per user
+    getPointReconciliation: async (onlyDrift = true): Promise<PointReconciliation> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase as any).rpc('get_point_reconciliation', {
+        p_only_drift: onlyDrift,
+      });
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        await (supabase.from('point_transactions') as any).insert({
-          user_id: p.user_id,
-          type: 'comment_event',
-          amount: pointsEarned,
-          balance: newBalance,
-          description: `댓글 이벤트: ${p.events.title}`,
-          related_id: p.events.id,
-        });
-      }
+      if (error) throw new ApiError(sanitizeErrorMessage(error), 400, error.code);
 
-      return { success: true, pointsEarned };
+      return data as PointReconciliation;
     },
   },
 };
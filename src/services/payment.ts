@@ -0,0 +1,105 @@
+// 결제 서비스 - 포인트 충전 결제사 연동
+//
+// 결제 승인 결과는 클라이언트가 아니라 결제사 웹훅(confirm_point_payment)으로 확정됩니다.
+// 클라이언트는 결제창을 띄운 뒤 point_payments 상태가 바뀔 때까지 기다리기만 합니다.
+
+import { api } from './api';
+import type { PointPayment } from '@/types';
+
+export interface PaymentRequest {
+  paymentId: string;   // point_payments.id (결제사 주문 번호로 사용)
+  amount: number;      // 원
+  orderName: string;
+  // 테스트 결제사 전용: 승인/거절 시뮬레이션 (실제 결제사는 무시)
+  testOutcome?: 'approve' | 'decline';
+}
+
+export type PaymentResult =
+  | { status: 'approved' }
+  | { status: 'declined'; reason: string }
+  | { status: 'cancelled' };
+
+export interface PaymentProvider {
+  id: string;
+  name: string;
+  isTest: boolean;
+  // 결제창을 띄우고 사용자의 결제 결과를 반환 (포인트 적립은 웹훅에서)
+  requestPayment(request: PaymentRequest): Promise<PaymentResult>;
+}
+
+// =====================================================
+// 가짜 결제사 (로컬 개발/테스트용)
+// 결제창 대신 잠시 대기한 뒤, 실제 결제사처럼 웹훅을 비동기로 보냄
+// DB 에 app.fake_payments = 'on' 설정 필요 (add-point-charge.sql 참고)
+// =====================================================
+
+const FAKE_APPROVAL_DELAY_MS = 800;
+const FAKE_WEBHOOK_DELAY_MS = 1200;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const fakePaymentProvider: PaymentProvider = {
+  id: 'fake',
+  name: '테스트 결제',
+  isTest: true,
+
+  requestPayment: async (request) => {
+    await delay(FAKE_APPROVAL_DELAY_MS);
+
+    const approved = request.testOutcome !== 'decline';
+    const result: PaymentResult = approved
+      ? { status: 'approved' }
+      : { status: 'declined', reason: '카드사 승인 거절 (테스트)' };
+
+    // 웹훅은 결제 결과 응답과 별개로 늦게 도착할 수 있음
+    setTimeout(() => {
+      const reason = result.status === 'declined' ? result.reason : undefined;
+      api.points.confirmTestPayment(request.paymentId, approved, reason).catch((error) => {
+        console.error('[FakePayment] 웹훅 처리 실패:', error);
+      });
+    }, FAKE_WEBHOOK_DELAY_MS);
+
+    return result;
+  },
+};
+
+// =====================================================
+// 결제사 선택
+// VITE_PAYMENT_PROVIDER 로 지정 (개발 서버에서만 기본값 fake)
+// 지정하지 않은 배포 빌드에서는 결제사가 없음 (테스트 결제가 실수로 노출되지 않도록)
+// 실제 결제사는 이 인터페이스를 구현해 아래 목록에 추가
+// =====================================================
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [fakePaymentProvider.id]: fakePaymentProvider,
+};
+
+export function getPaymentProvider(): PaymentProvider | null {
+  const id = import.meta.env.VITE_PAYMENT_PROVIDER || (import.meta.env.DEV ? fakePaymentProvider.id : undefined);
+  if (!id) return null;
+
+  const provider = PROVIDERS[id];
+
+  if (!provider) {
+    console.warn(`[Payment] 알 수 없는 결제사 "${id}"`);
+    return null;
+  }
+
+  return provider;
+}
+
+// 웹훅으로 결제 상태가 확정될 때까지 대기 (시간 초과 시 마지막 상태 반환)
+export async function waitForPaymentResult(
+  paymentId: string,
+  { timeoutMs = 15000, intervalMs = 1000 } = {}
+): Promise<PointPayment> {
+  const deadline = Date.now() + timeoutMs;
+  let payment = await api.points.getPayment(paymentId);
+
+  while (payment.status === 'pending' && Date.now() < deadline) {
+    await delay(intervalMs);
+    payment = await api.points.getPayment(paymentId);
+  }
+
+  return payment;
+}
@@ -1,2 +1,3 @@
 export { useAuthStore } from './authStore';
 export { useCartStore } from './cartStore';
+export { useWishlistStore } from './wishlistStore';
@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+
+// Only the IDs are kept client-side so hearts can render on any card;
+// the full list (with prices) is fetched from api.wishlist.list() where needed.
+interface WishlistState {
+  worksheetIds: string[];
+
+  // Actions
+  setIds: (worksheetIds: string[]) => void;
+  add: (worksheetId: string) => void;
+  remove: (worksheetId: string) => void;
+  clear: () => void;
+  isInWishlist: (worksheetId: string) => boolean;
+}
+
+export const useWishlistStore = create<WishlistState>((set, get) => ({
+  worksheetIds: [],
+
+  setIds: (worksheetIds) => set({ worksheetIds }),
+
+  add: (worksheetId) =>
+    set((state) => {
+      if (state.worksheetIds.includes(worksheetId)) {
+        return state;
+      }
+      return { worksheetIds: [...state.worksheetIds, worksheetId] };
+    }),
+
+  remove: (worksheetId) =>
+    set((state) => ({
+      worksheetIds: state.worksheetIds.filter((id) => id !== worksheetId),
+    })),
+
+  clear: () => set({ worksheetIds: [] }),
+
+  isInWishlist: (worksheetId) => get().worksheetIds.includes(worksheetId),
+}));
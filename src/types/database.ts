@@ -17,6 +17,7 @@ export interface Database {
           role: 'teacher' | 'parent' | 'admin';
           points: number;
           avatar_url: string | null;
+          seller_tier: 'standard' | 'pro' | 'partner';
           created_at: string;
           updated_at: string;
         };
@@ -120,6 +121,141 @@ export interface Database {
           worksheet_id?: string;
         };
       };
+      wishlist_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          worksheet_id: string;
+          price_at_add: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          worksheet_id: string;
+          price_at_add?: number;
+          created_at?: string;
+        };
+        Update: {
+          price_at_add?: number;
+        };
+      };
+      refund_requests: {
+        Row: {
+          id: string;
+          purchase_id: string | null;
+          buyer_id: string;
+          seller_id: string;
+          worksheet_id: string | null;
+          worksheet_title: string;
+          amount: number;
+          reason_type: 'broken_file' | 'misdescribed' | 'duplicate' | 'other';
+          reason: string;
+          status: 'pending' | 'seller_rejected' | 'disputed' | 'refunded' | 'rejected' | 'cancelled';
+          seller_response: string | null;
+          seller_responded_at: string | null;
+          admin_note: string | null;
+          refunded_amount: number | null;
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      point_packages: {
+        Row: {
+          id: string;
+          name: string;
+          points: number;
+          bonus_points: number;
+          price: number;
+          is_active: boolean;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      point_payments: {
+        Row: {
+          id: string;
+          user_id: string;
+          package_id: string | null;
+          provider: string;
+          provider_payment_id: string | null;
+          amount: number;
+          points: number;
+          bonus_points: number;
+          status: 'pending' | 'paid' | 'failed';
+          failure_reason: string | null;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: never;
+        Update: never;
+      };
+      platform_fee_rules: {
+        Row: {
+          id: string;
+          scope: 'default' | 'tier' | 'category';
+          target: string | null;
+          rate: number;
+          updated_by: string | null;
+          updated_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      withdrawal_requests: {
+        Row: {
+          id: string;
+          user_id: string;
+          amount: number;
+          bank_name: string;
+          account_holder: string;
+          account_number_encrypted: string;
+          account_last4: string;
+          status: 'pending' | 'approved' | 'paid' | 'rejected';
+          admin_note: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          paid_at: string | null;
+          created_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+      bundles: {
+        Row: {
+          id: string;
+          seller_id: string;
+          title: string;
+          description: string;
+          price: number;
+          status: 'approved' | 'hidden';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: never;
+        Update: {
+          title?: string;
+          description?: string;
+          price?: number;
+          status?: 'approved' | 'hidden';
+          updated_at?: string;
+        };
+      };
+      bundle_items: {
+        Row: {
+          bundle_id: string;
+          worksheet_id: string;
+          position: number;
+        };
+        Insert: never;
+        Update: never;
+      };
       purchases: {
         Row: {
           id: string;
@@ -127,6 +263,11 @@ export interface Database {
           worksheet_id: string;
           price: number;
           has_feedback: boolean;
+          order_id: string | null;
+          discount: number;
+          bundle_id: string | null;
+          gift_from: string | null;
+          gift_message: string | null;
           created_at: string;
         };
         Insert: {
@@ -135,6 +276,7 @@ export interface Database {
           worksheet_id: string;
           price: number;
           has_feedback?: boolean;
+          order_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -169,7 +311,7 @@ export interface Database {
         Row: {
           id: string;
           user_id: string;
-          type: 'signup_bonus' | 'purchase' | 'sale' | 'feedback_refund' | 'admin_charge';
+          type: 'signup_bonus' | 'purchase' | 'sale' | 'feedback_refund' | 'admin_charge' | 'attendance' | 'attendance_bonus' | 'roulette' | 'quiz' | 'first_come' | 'first_come_event' | 'comment_event' | 'event' | 'review' | 'upload' | 'admin_grant' | 'admin_deduct' | 'coupon_discount' | 'gift_sent' | 'gift_received' | 'purchase_refund' | 'sale_refund' | 'point_charge' | 'withdrawal_hold' | 'withdrawal_release' | 'platform_fee';
           amount: number;
           balance: number;
           description: string;
@@ -179,7 +321,7 @@ export interface Database {
         Insert: {
           id?: string;
           user_id: string;
-          type: 'signup_bonus' | 'purchase' | 'sale' | 'feedback_refund' | 'admin_charge';
+          type: 'signup_bonus' | 'purchase' | 'sale' | 'feedback_refund' | 'admin_charge' | 'attendance' | 'attendance_bonus' | 'roulette' | 'quiz' | 'first_come' | 'first_come_event' | 'comment_event' | 'event' | 'review' | 'upload' | 'admin_grant' | 'admin_deduct' | 'coupon_discount' | 'gift_sent' | 'gift_received' | 'purchase_refund' | 'sale_refund' | 'point_charge' | 'withdrawal_hold' | 'withdrawal_release' | 'platform_fee';
           amount: number;
           balance: number;
           description: string;
@@ -214,10 +356,164 @@ export interface Database {
           updated_at: string;
         };
       };
+      bundle_cards: {
+        Row: {
+          id: string;
+          seller_id: string;
+          seller_nickname: string;
+          title: string;
+          description: string;
+          price: number;
+          status: string;
+          item_count: number;
+          original_price: number;
+          grades: string[];
+          subjects: string[];
+          preview_image: string;
+          created_at: string;
+          updated_at: string;
+        };
+      };
     };
     Functions: {
+      submit_quiz: {
+        Args: { p_event_id: string; p_answers: Json };
+        Returns: Json;
+      };
+      get_quiz_questions: {
+        Args: { p_event_id: string };
+        Returns: Json;
+      };
+      get_quiz_result: {
+        Args: { p_event_id: string };
+        Returns: Json;
+      };
+      activate_event: {
+        Args: { p_event_id: string };
+        Returns: Json;
+      };
+      get_event_audience_size: {
+        Args: { p_target_grades: string[] | null };
+        Returns: Json;
+      };
+      approve_comment_participation: {
+        Args: { p_participation_id: string; p_approved: boolean; p_adjusted_score: number | null };
+        Returns: Json;
+      };
+      get_point_reconciliation: {
+        Args: { p_only_drift: boolean };
+        Returns: Json;
+      };
+      get_order_receipt: {
+        Args: { p_order_id: string };
+        Returns: Json;
+      };
+      track_worksheet_view: {
+        Args: { p_worksheet_id: string; p_session_id: string | null };
+        Returns: undefined;
+      };
+      get_seller_analytics: {
+        Args: { p_from: string; p_to: string };
+        Returns: Json;
+      };
+      get_seller_earnings: {
+        Args: { p_from: string | null; p_to: string | null };
+        Returns: Json;
+      };
+      set_platform_fee_rule: {
+        Args: { p_scope: 'default' | 'tier' | 'category'; p_target: string | null; p_rate: number | null };
+        Returns: undefined;
+      };
+      set_seller_tier: {
+        Args: { p_user_id: string; p_tier: 'standard' | 'pro' | 'partner' };
+        Returns: string;
+      };
+      get_payout_account: {
+        Args: Record<string, never>;
+        Returns: { bankName: string; accountHolder: string; accountLast4: string; updatedAt: string } | null;
+      };
+      save_payout_account: {
+        Args: { p_bank_name: string; p_account_holder: string; p_account_number: string };
+        Returns: undefined;
+      };
+      get_withdrawal_summary: {
+        Args: Record<string, never>;
+        Returns: { withdrawable: number; minimum: number; pendingAmount: number };
+      };
+      request_withdrawal: {
+        Args: { p_amount: number };
+        Returns: string;
+      };
+      review_withdrawals: {
+        Args: { p_request_ids: string[]; p_action: 'approve' | 'pay' | 'reject'; p_note?: string | null };
+        Returns: { processed: number };
+      };
+      get_withdrawal_account_number: {
+        Args: { p_request_id: string };
+        Returns: string;
+      };
+      create_point_payment: {
+        Args: { p_package_id: string; p_provider: string };
+        Returns: { paymentId: string; amount: number; points: number; orderName: string };
+      };
+      confirm_fake_point_payment: {
+        Args: { p_payment_id: string; p_approved: boolean; p_failure_reason?: string | null };
+        Returns: { status: 'pending' | 'paid' | 'failed'; replayed: boolean; newBalance?: number };
+      };
+      create_bundle: {
+        Args: {
+          p_title: string;
+          p_description: string;
+          p_price: number;
+          p_worksheet_ids: string[];
+        };
+        Returns: string;
+      };
+      request_refund: {
+        Args: { p_purchase_id: string; p_reason_type: string; p_reason: string };
+        Returns: string;
+      };
+      respond_refund: {
+        Args: { p_request_id: string; p_accept: boolean; p_response: string | null };
+        Returns: Json;
+      };
+      update_refund_request: {
+        Args: { p_request_id: string; p_action: 'escalate' | 'cancel' };
+        Returns: undefined;
+      };
+      resolve_refund: {
+        Args: { p_request_id: string; p_approve: boolean; p_note: string | null };
+        Returns: Json;
+      };
+      find_gift_recipient: {
+        Args: { p_query: string };
+        Returns: Json;
+      };
+      gift_worksheet: {
+        Args: {
+          p_user_id: string;
+          p_recipient_id: string;
+          p_worksheet_id: string;
+          p_message: string | null;
+          p_idempotency_key: string;
+        };
+        Returns: Json;
+      };
+      purchase_bundle: {
+        Args: { p_user_id: string; p_bundle_id: string; p_idempotency_key: string };
+        Returns: Json;
+      };
       purchase_worksheets: {
-        Args: { p_user_id: string };
+        Args: {
+          p_user_id: string;
+          p_worksheet_ids: string[];
+          p_idempotency_key: string;
+          p_coupon_code?: string | null;
+        };
+        Returns: Json;
+      };
+      preview_coupon: {
+        Args: { p_code: string; p_worksheet_ids: string[] };
         Returns: Json;
       };
       submit_feedback: {
@@ -229,6 +525,53 @@ export interface Database {
         };
         Returns: Json;
       };
+      search_worksheets: {
+        Args: {
+          p_query: string;
+          p_sort?: string;
+          p_grade?: string | null;
+          p_subject?: string | null;
+          p_category?: string | null;
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_tags?: string[] | null;
+          p_tag_mode?: string;
+          p_seller_id?: string | null;
+          p_limit?: number;
+          p_offset?: number;
+          p_after_key?: number | null;
+          p_after_id?: string | null;
+        };
+        Returns: (Database['public']['Views']['worksheet_cards']['Row'] & {
+          rank: number;
+          sort_key: number;
+          title_highlight: string;
+          description_highlight: string;
+          total_count: number;
+        })[];
+      };
+      worksheet_facets: {
+        Args: {
+          p_query?: string | null;
+          p_grade?: string | null;
+          p_subject?: string | null;
+          p_category?: string | null;
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_tags?: string[] | null;
+          p_tag_mode?: string;
+          p_seller_id?: string | null;
+        };
+        Returns: Json;
+      };
+      search_tags: {
+        Args: { p_prefix?: string; p_limit?: number };
+        Returns: { tag: string; usage_count: number }[];
+      };
+      get_seller_profile: {
+        Args: { p_seller_id: string };
+        Returns: Json;
+      };
     };
   };
 }
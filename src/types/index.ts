@@ -6,6 +6,9 @@ export type Grade =
   | 'high_1' | 'high_2' | 'high_3'
   | 'etc';
 
+// Coarser grade buckets used for user interests and event targeting (user_interests.grade_group)
+export type GradeGroup = 'elementary_1_2' | 'elementary_3_4' | 'elementary_5_6' | 'middle' | 'high';
+
 // === Subject Types ===
 export type Subject =
   | 'korean' | 'math' | 'english' | 'science'
@@ -22,13 +25,34 @@ export type UserRole = 'user' | 'admin' | 'teacher' | 'parent';
 export type WorksheetStatus = 'pending' | 'approved' | 'rejected';
 
 // === Point Transaction Type ===
+// Must match the point_transactions type CHECK (add-point-ledger.sql)
 export type PointTransactionType =
   | 'signup_bonus'
-  | 'signup'
   | 'purchase'
   | 'sale'
   | 'feedback_refund'
-  | 'admin_charge';
+  | 'admin_charge'
+  | 'attendance'
+  | 'attendance_bonus'
+  | 'roulette'
+  | 'quiz'
+  | 'first_come'
+  | 'first_come_event'
+  | 'comment_event'
+  | 'event'
+  | 'review'
+  | 'upload'
+  | 'admin_grant'
+  | 'admin_deduct'
+  | 'coupon_discount'
+  | 'gift_sent'
+  | 'gift_received'
+  | 'purchase_refund'
+  | 'sale_refund'
+  | 'point_charge'
+  | 'withdrawal_hold'
+  | 'withdrawal_release'
+  | 'platform_fee';
 
 // === Rating ===
 export type Rating = 1 | 2 | 3 | 4 | 5;
@@ -53,6 +77,28 @@ export interface PublicUser {
   profileImage?: string;
 }
 
+// Public seller storefront info (api.sellers.get)
+export interface SellerProfile {
+  id: string;
+  nickname: string;
+  avatarUrl: string | null;
+  role: string;
+  joinedAt: string;
+  worksheetCount: number;
+  totalSales: number;
+  averageRating: number;
+  reviewCount: number;
+  followerCount: number;
+  isFollowing: boolean;
+}
+
+export interface FollowedSeller {
+  sellerId: string;
+  nickname: string;
+  avatarUrl: string | null;
+  followedAt: string;
+}
+
 // === Worksheet ===
 export interface Worksheet {
   id: string;
@@ -76,8 +122,21 @@ export interface Worksheet {
   status: string;
   createdAt: string;
   updatedAt: string;
+  // Present only on full-text search results
+  relevance?: number;
+  highlight?: SearchHighlight;
 }
 
+// Matched fragments from full-text search.
+// Highlighted ranges are wrapped in HIGHLIGHT_START / HIGHLIGHT_END.
+export interface SearchHighlight {
+  title: string;
+  description: string;
+}
+
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
 // Worksheet card for list display
 export interface WorksheetCard {
   id: string;
@@ -91,6 +150,7 @@ export interface WorksheetCard {
   grade: string;
   subject: string;
   category: string;
+  highlight?: SearchHighlight;
 }
 
 // === Cart Item ===
@@ -102,6 +162,16 @@ export interface CartItem {
   addedAt: string;
 }
 
+// === Wishlist Item ===
+export interface WishlistItem {
+  id: string;
+  userId: string;
+  worksheetId: string;
+  worksheet: WorksheetCard | null;
+  priceAtAdd: number;
+  addedAt: string;
+}
+
 // === Purchase ===
 export interface Purchase {
   id: string;
@@ -114,6 +184,118 @@ export interface Purchase {
   feedbackGiven: boolean;
   hasFeedback: boolean;
   purchasedAt: string;
+  // null for purchases made before orders existed
+  orderId: string | null;
+  // Coupon or bundle discount allocated to this item (price is already net of it)
+  discount: number;
+  // Set when bought as part of a bundle
+  bundleId: string | null;
+  bundleTitle: string | null;
+  // Set when another user bought this as a gift
+  giftFromNickname: string | null;
+  giftMessage: string | null;
+}
+
+// === Bundle ===
+// A seller's worksheets sold together below the sum of their prices
+export interface Bundle {
+  id: string;
+  sellerId: string;
+  sellerNickname: string;
+  title: string;
+  description: string;
+  price: number;
+  // Sum of the included worksheets' own prices
+  originalPrice: number;
+  discountRate: number;
+  itemCount: number;
+  grades: string[];
+  subjects: string[];
+  previewImage: string;
+  status: string;
+  createdAt: string;
+  // Present only on the detail page
+  worksheets?: Worksheet[];
+}
+
+// === Coupon ===
+export type CouponDiscountType = 'percent' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string;
+  discountType: CouponDiscountType;
+  // Percent (1-100) or points, depending on discountType
+  discountValue: number;
+  maxDiscount: number | null;
+  minSpend: number;
+  subject: string | null;
+  grade: string | null;
+  usageLimit: number | null;
+  perUserLimit: number;
+  usedCount: number;
+  startsAt: string;
+  expiresAt: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// Result of applying a code to the selected cart items (before checkout)
+export type CouponPreview =
+  | {
+      valid: true;
+      code: string;
+      description: string;
+      eligibleSubtotal: number;
+      discount: number;
+    }
+  | { valid: false; error: string };
+
+// === Purchase Order ===
+// One checkout; purchases made before orders existed become single-item orders
+export interface PurchaseOrder {
+  id: string;
+  totalSpent: number;
+  discount: number;
+  createdAt: string;
+  bundleTitle: string | null;
+  purchases: Purchase[];
+}
+
+// === Receipt ===
+export interface ReceiptItem {
+  purchaseId: string;
+  worksheetId: string;
+  title: string;
+  sellerNickname: string;
+  // Price before discount; paid is what was charged for this item
+  listPrice: number;
+  discount: number;
+  paid: number;
+  // Set on the sender's receipt for a gift
+  recipientNickname: string | null;
+  // Set on the recipient's receipt for a gift
+  giftFromNickname: string | null;
+}
+
+export interface OrderReceipt {
+  orderId: string;
+  orderNumber: string;
+  createdAt: string;
+  buyerNickname: string;
+  // false when viewing a gift received from someone else
+  isPayer: boolean;
+  bundleTitle: string | null;
+  couponCode: string | null;
+  subtotal: number;
+  discount: number;
+  pointsUsed: number;
+  // Items refunded after checkout are no longer listed
+  refundedAmount: number;
+  // null for gifts received and purchases made before orders existed
+  balanceAfter: number | null;
+  items: ReceiptItem[];
 }
 
 // === Feedback ===
@@ -132,7 +314,7 @@ export interface Feedback {
 export interface PointTransaction {
   id: string;
   userId: string;
-  type: string; // PointTransactionType
+  type: PointTransactionType;
   amount: number; // positive for credit, negative for debit
   balance: number;
   relatedId?: string | null;
@@ -140,12 +322,46 @@ export interface PointTransaction {
   createdAt: string;
 }
 
+// === Point Ledger Reconciliation (admin) ===
+// drift = points - ledgerSum; non-zero means points changed outside the ledger
+export interface PointReconciliationUser {
+  userId: string;
+  nickname: string;
+  email: string;
+  points: number;
+  ledgerSum: number;
+  drift: number;
+  lastBalance: number | null;
+  // The latest transaction's balance differs from the current points
+  balanceMismatch: boolean;
+  transactionCount: number;
+  lastTransactionAt: string | null;
+}
+
+export interface PointReconciliation {
+  checkedAt: string;
+  summary: {
+    userCount: number;
+    driftCount: number;
+    mismatchCount: number;
+    totalPoints: number;
+    totalLedger: number;
+    totalDrift: number;
+  };
+  users: PointReconciliationUser[];
+}
+
 // === API Response Types ===
 export interface PaginationInfo {
-  currentPage: number;
+  // null for cursor requests, which have no page number
+  currentPage: number | null;
   totalPages: number;
   totalCount: number;
   limit: number;
+  // totalCount is the planner estimate rather than an exact count
+  isEstimate?: boolean;
+  // Pass as `cursor` to fetch the following page; null on the last page
+  nextCursor?: string | null;
 }
 
 export interface WorksheetsResponse {
@@ -166,7 +382,29 @@ export interface CartResponse {
   };
 }
 
+export type PurchaseFailureReason =
+  | 'NOT_FOUND'
+  | 'NOT_APPROVED'
+  | 'OWN_WORKSHEET'
+  | 'ALREADY_PURCHASED';
+
+// An item that was selected for checkout but could not be bought
+export interface PurchaseFailure {
+  worksheetId: string;
+  title?: string;
+  reason: PurchaseFailureReason;
+  message: string;
+}
+
 export interface PurchaseResponse {
+  // null when nothing could be bought
+  orderId: string | null;
+  // Price total before the coupon; totalSpent is what was actually charged
+  subtotal: number;
+  discount: number;
+  couponCode: string | null;
+  // true when the idempotency key was already used and the original result is returned
+  replayed: boolean;
   purchaseIds: string[];
   totalSpent: number;
   newBalance: number;
@@ -175,6 +413,190 @@ export interface PurchaseResponse {
     title: string;
     downloadUrl: string;
   }>;
+  failed: PurchaseFailure[];
+}
+
+// === Refund ===
+export type RefundReasonType = 'broken_file' | 'misdescribed' | 'duplicate' | 'other';
+
+// pending → (seller) refunded | seller_rejected → (buyer) disputed → (admin) refunded | rejected
+export type RefundStatus =
+  | 'pending'
+  | 'seller_rejected'
+  | 'disputed'
+  | 'refunded'
+  | 'rejected'
+  | 'cancelled';
+
+export interface RefundRequest {
+  id: string;
+  // null once refunded (the purchase row is removed)
+  purchaseId: string | null;
+  worksheetId: string | null;
+  worksheetTitle: string;
+  buyerNickname: string;
+  sellerNickname: string;
+  amount: number;
+  reasonType: RefundReasonType;
+  reason: string;
+  status: RefundStatus;
+  sellerResponse: string | null;
+  adminNote: string | null;
+  refundedAmount: number | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+// === Point Charge ===
+export interface PointPackage {
+  id: string;
+  name: string;
+  points: number;
+  bonusPoints: number;
+  // KRW charged by the payment provider
+  price: number;
+}
+
+export type PointPaymentStatus = 'pending' | 'paid' | 'failed';
+
+export interface PointPayment {
+  id: string;
+  packageId: string | null;
+  provider: string;
+  amount: number;
+  points: number;
+  bonusPoints: number;
+  status: PointPaymentStatus;
+  failureReason: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+// === Withdrawal ===
+export interface PayoutAccount {
+  bankName: string;
+  accountHolder: string;
+  // The full number is only stored encrypted on the server
+  accountLast4: string;
+  updatedAt: string;
+}
+
+export interface WithdrawalSummary {
+  // Sale earnings not yet withdrawn, capped by the current balance
+  withdrawable: number;
+  minimum: number;
+  pendingAmount: number;
+}
+
+export type WithdrawalStatus = 'pending' | 'approved' | 'paid' | 'rejected';
+
+export interface WithdrawalRequest {
+  id: string;
+  userId: string;
+  sellerNickname: string;
+  amount: number;
+  bankName: string;
+  accountHolder: string;
+  accountLast4: string;
+  status: WithdrawalStatus;
+  adminNote: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  paidAt: string | null;
+}
+
+// === Platform Fee ===
+export type SellerTier = 'standard' | 'pro' | 'partner';
+
+// Member row for the admin tier picker (nicknames can repeat, so it's chosen by id)
+export interface SellerTierEntry {
+  id: string;
+  nickname: string;
+  sellerTier: SellerTier;
+  createdAt: string;
+}
+
+// Resolution order: seller tier rule, then category rule, then the default
+export interface PlatformFeeRule {
+  id: string;
+  scope: 'default' | 'tier' | 'category';
+  // null for the default rule
+  target: string | null;
+  rate: number;
+  updatedAt: string;
+}
+
+// Gross is what buyers paid (after discounts); net is gross minus platform fees
+export interface EarningsBreakdown {
+  salesCount: number;
+  grossEarnings: number;
+  platformFees: number;
+  netEarnings: number;
+}
+
+export interface WorksheetEarnings extends EarningsBreakdown {
+  worksheetId: string;
+  title: string;
+  // Current list price; gross reflects what was actually paid at the time
+  price: number;
+}
+
+export interface DailyEarnings extends EarningsBreakdown {
+  // YYYY-MM-DD in KST
+  date: string;
+}
+
+// from/to are null for the all-time report, which has no daily series
+export interface SellerEarningsReport extends EarningsBreakdown {
+  from: string | null;
+  to: string | null;
+  worksheets: WorksheetEarnings[];
+  daily: DailyEarnings[];
+}
+
+// === Seller Analytics ===
+// Views are deduplicated per visitor within 30 minutes; purchases exclude refunds
+export interface FunnelStats {
+  views: number;
+  cartAdds: number;
+  purchases: number;
+}
+
+export interface WorksheetFunnel extends FunnelStats {
+  worksheetId: string;
+  title: string;
+}
+
+export interface DailyAnalytics extends FunnelStats {
+  date: string;
+  newReviews: number;
+  // Cumulative up to and including this day
+  totalReviews: number;
+  averageRating: number | null;
+}
+
+export interface SellerAnalytics {
+  from: string;
+  to: string;
+  totals: FunnelStats;
+  worksheets: WorksheetFunnel[];
+  daily: DailyAnalytics[];
+}
+
+// === Gift ===
+export interface GiftRecipient {
+  id: string;
+  nickname: string;
+  // e.g. "ab***@example.com", to tell same-looking recipients apart before paying
+  maskedEmail: string | null;
+}
+
+export interface GiftResponse {
+  orderId: string;
+  recipientNickname: string;
+  totalSpent: number;
+  newBalance: number;
+  replayed: boolean;
 }
 
 export interface FeedbackResponse {
@@ -183,8 +605,66 @@ export interface FeedbackResponse {
   newBalance: number;
 }
 
+// === Quiz Event ===
+// Questions as shown before submission (no correct answer / explanation)
+export interface QuizQuestion {
+  id: string;
+  question: string;
+  questionType: 'ox' | 'multiple_choice';
+  choices: Record<string, string> | null;
+  orderNum: number;
+}
+
+export interface QuizQuestionResult {
+  questionId: string;
+  question: string;
+  questionType: 'ox' | 'multiple_choice';
+  choices: Record<string, string> | null;
+  answer: string | null;
+  correctAnswer: string;
+  isCorrect: boolean;
+  explanation: string | null;
+}
+
+// all_or_nothing: full reward only for a perfect score
+// per_question: reward prorated by correct answers
+// threshold: full reward when the correct rate reaches passThreshold (%)
+export type QuizScoringMode = 'all_or_nothing' | 'per_question' | 'threshold';
+
+export interface QuizResult {
+  // Passed under the event's scoring mode
+  isCorrect: boolean;
+  correctCount: number;
+  totalQuestions: number;
+  pointsEarned: number;
+  scoringMode: QuizScoringMode;
+  passThreshold: number | null;
+  results: QuizQuestionResult[];
+}
+
+export interface QuizSubmitResult extends QuizResult {
+  success: boolean;
+  newBalance: number;
+}
+
+// === Event Schedule ===
+// Mirrors event_phase() in add-event-schedule.sql: evaluated from start/end times,
+// so an event opens or closes on time even before the status column is synced
+export type EventPhase = 'draft' | 'upcoming' | 'active' | 'ended';
+
+// === Event Targeting ===
+export interface EventAudienceSize {
+  // Users with at least one matching interest (every user when untargeted)
+  audience: number;
+  totalUsers: number;
+  byGrade: Partial<Record<GradeGroup, number>>;
+}
+
 // === Filter Types ===
-export type SortOption = 'popular' | 'latest' | 'rating' | 'price_low' | 'price_high';
+export type SortOption = 'relevance' | 'popular' | 'latest' | 'rating' | 'price_low' | 'price_high';
+
+// 'any' = has at least one of the tags, 'all' = has every tag
+export type TagMatchMode = 'any' | 'all';
 
 export interface WorksheetFilters {
   grade?: Grade;
@@ -192,12 +672,24 @@ export interface WorksheetFilters {
   category?: Category;
   minPrice?: number;
   maxPrice?: number;
+  tags?: string[];
+  tagMode?: TagMatchMode;
   sort?: SortOption;
   search?: string;
   page?: number;
   limit?: number;
 }
 
+// Result counts per filter option, keyed by option value.
+// Each facet is counted with every other active filter applied.
+export interface WorksheetFacets {
+  grade: Record<string, number>;
+  subject: Record<string, number>;
+  category: Record<string, number>;
+  price: Record<string, number>; // keys: '0-100', '100-200', ...
+  total: number;
+}
+
 // === Form Types ===
 export interface SignupForm {
   email: string;
@@ -269,6 +761,7 @@ export const CATEGORIES: { value: Category; label: string }[] = [
 ];
 
 export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: '관련도순' },
   { value: 'popular', label: '인기순' },
   { value: 'latest', label: '최신순' },
   { value: 'rating', label: '평점순' },
@@ -276,6 +769,9 @@ export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: 'price_high', label: '가격 높은순' },
 ];
 
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 20;
+
 // === Label Maps (for easy lookup) ===
 export const GRADE_LABELS: Record<string, string> = {
   elementary_1: '초등 1학년',
@@ -312,6 +808,49 @@ export const CATEGORY_LABELS: Record<string, string> = {
   etc: '기타',
 };
 
+export const REFUND_REASON_LABELS: Record<RefundReasonType, string> = {
+  broken_file: '파일 오류 (열리지 않음/손상)',
+  misdescribed: '설명과 다른 내용',
+  duplicate: '중복 구매',
+  other: '기타',
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  pending: '판매자 확인 중',
+  seller_rejected: '판매자 거절',
+  disputed: '관리자 검토 중',
+  refunded: '환불 완료',
+  rejected: '환불 불가',
+  cancelled: '요청 취소',
+};
+
+export const SELLER_TIER_LABELS: Record<SellerTier, string> = {
+  standard: '일반',
+  pro: '프로',
+  partner: '파트너',
+};
+
+export const GRADE_GROUP_LABELS: Record<GradeGroup, string> = {
+  elementary_1_2: '초등 1~2학년',
+  elementary_3_4: '초등 3~4학년',
+  elementary_5_6: '초등 5~6학년',
+  middle: '중학생',
+  high: '고등학생',
+};
+
+export const QUIZ_SCORING_MODE_LABELS: Record<QuizScoringMode, string> = {
+  all_or_nothing: '모두 맞히면 지급',
+  per_question: '맞힌 문제만큼 지급',
+  threshold: '기준 정답률 이상 지급',
+};
+
+export const WITHDRAWAL_STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  pending: '검토 중',
+  approved: '지급 대기',
+  paid: '지급 완료',
+  rejected: '반려',
+};
+
 // === Helper functions ===
 export function getGradeLabel(grade: Grade): string {
   return GRADE_LABELS[grade] ?? grade;
@@ -325,6 +864,37 @@ export function getCategoryLabel(category: Category): string {
   return CATEGORY_LABELS[category] ?? category;
 }
 
+export function getQuizScoringLabel(mode: QuizScoringMode, passThreshold: number | null): string {
+  return mode === 'threshold' && passThreshold !== null
+    ? `정답률 ${passThreshold}% 이상 지급`
+    : QUIZ_SCORING_MODE_LABELS[mode];
+}
+
+export function getEventPhase(
+  event: { status: string; startAt: string | null; endAt: string | null },
+  now: number = Date.now()
+): EventPhase {
+  if (event.status === 'draft') return 'draft';
+  if (event.status === 'ended') return 'ended';
+  if (event.endAt && now >= new Date(event.endAt).getTime()) return 'ended';
+  if (event.startAt && now < new Date(event.startAt).getTime()) return 'upcoming';
+  if (event.status === 'scheduled' && !event.startAt) return 'upcoming';
+  return 'active';
+}
+
+// Remaining time until a deadline: "2일 3시간", "3시간 12분", "04:05"
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}일 ${hours}시간`;
+  if (hours > 0) return `${hours}시간 ${minutes}분`;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
 export function formatPoints(points: number): string {
   return `${points.toLocaleString()}P`;
 }
@@ -354,3 +924,15 @@ export function formatRelativeTime(dateString: string): string {
 
   return formatDate(dateString);
 }
+
+// YYYY-MM-DD in KST, `daysAgo` days before today
+export function kstDateString(daysAgo = 0): string {
+  const kst = new Date(Date.now() + 9 * 3600000 - daysAgo * 86400000);
+  return kst.toISOString().slice(0, 10);
+}
+
+// "YYYY-MM-DD HH:mm" in KST, for exports
+export function formatKstDateTime(dateString: string): string {
+  const kst = new Date(new Date(dateString).getTime() + 9 * 3600000);
+  return kst.toISOString().slice(0, 16).replace('T', ' ');
+}
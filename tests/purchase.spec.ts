@@ -0,0 +1,112 @@
+import { test, expect, Page } from '@playwright/test';
+
+const BASE_URL = 'http://localhost:5173';
+
+// 선물 받을 회원 (닉네임 또는 이메일). 없으면 선물 테스트는 건너뜀
+const GIFT_RECIPIENT = process.env.E2E_GIFT_RECIPIENT;
+
+async function login(page: Page) {
+  await page.goto(`${BASE_URL}/auth`);
+  await page.waitForLoadState('networkidle');
+  await page.fill('input[type="email"], input[name="email"]', 'teacher1@test.com');
+  await page.fill('input[type="password"], input[name="password"]', 'test1234');
+  await page.click('button[type="submit"]');
+  await page.waitForURL((url) => !url.pathname.startsWith('/auth'), { timeout: 10000 });
+  await page.waitForLoadState('networkidle');
+}
+
+// 아직 구매하지 않은 남의 자료 상세 페이지로 이동 (없으면 null)
+async function openPurchasableWorksheet(page: Page) {
+  await page.goto(BASE_URL);
+  await page.waitForLoadState('networkidle');
+  await page.waitForSelector('a[href^="/worksheet/"]', { timeout: 10000 });
+
+  const hrefs = await page
+    .locator('a[href^="/worksheet/"]')
+    .evaluateAll((links) => [...new Set(links.map((link) => link.getAttribute('href')!))]);
+
+  for (const href of hrefs.slice(0, 12)) {
+    await page.goto(`${BASE_URL}${href}`);
+    await page.waitForLoadState('networkidle');
+    if (await page.getByRole('button', { name: /^장바구니에 담/ }).isVisible()) {
+      console.log('구매 가능한 자료:', href);
+      return href;
+    }
+  }
+  return null;
+}
+
+test.describe.serial('구매 / 선물 / 환불 흐름', () => {
+  test.beforeEach(async ({ page }) => {
+    await login(page);
+  });
+
+  test('장바구니 결제', async ({ page }) => {
+    const href = await openPurchasableWorksheet(page);
+    test.skip(!href, '구매할 수 있는 자료가 없음');
+
+    const addButton = page.getByRole('button', { name: '장바구니에 담기' });
+    if (await addButton.isVisible()) {
+      await addButton.click();
+      await expect(page.getByText('장바구니에 담았습니다.')).toBeVisible();
+    }
+
+    // 헤더의 장바구니 버튼
+    await page.locator('header button:has(svg.lucide-shopping-cart)').click();
+    const checkoutButton = page.getByRole('button', { name: /결제하기$/ });
+    await expect(checkoutButton).toBeEnabled();
+    await checkoutButton.click();
+
+    await expect(page.getByText('개의 워크시트를 구매하시겠습니까?')).toBeVisible();
+    await page.getByRole('button', { name: '확인', exact: true }).click();
+    await expect(page.getByText(/구매 완료/).first()).toBeVisible({ timeout: 10000 });
+
+    await page.goto(`${BASE_URL}${href}`);
+    await page.waitForLoadState('networkidle');
+    await page.screenshot({ path: 'tests/screenshots/purchase-01-checkout.png', fullPage: true });
+    await expect(page.getByText('구매 완료', { exact: true })).toBeVisible();
+    await expect(page.getByRole('button', { name: /다운로드/ }).first()).toBeVisible();
+    console.log('✅ 결제 후 다운로드 가능');
+  });
+
+  test('선물하기', async ({ page }) => {
+    test.skip(!GIFT_RECIPIENT, 'E2E_GIFT_RECIPIENT가 설정되지 않음');
+
+    const href = await openPurchasableWorksheet(page);
+    test.skip(!href, '선물할 수 있는 자료가 없음');
+
+    await page.getByRole('button', { name: '선물하기' }).click();
+    await page.fill('input[placeholder="닉네임 또는 이메일"]', GIFT_RECIPIENT!);
+    await page.press('input[placeholder="닉네임 또는 이메일"]', 'Enter');
+    await expect(page.getByText(/님.*에게 보냅니다/)).toBeVisible({ timeout: 10000 });
+
+    await page.fill('textarea[placeholder="함께 보낼 메시지를 입력하세요"]', 'e2e 선물 테스트');
+    await page.getByRole('button', { name: /선물하기$/ }).last().click();
+    await expect(page.getByText(/에게 선물했습니다/)).toBeVisible({ timeout: 10000 });
+
+    await page.screenshot({ path: 'tests/screenshots/purchase-02-gift.png', fullPage: true });
+    console.log('✅ 선물 완료');
+  });
+
+  test('환불 요청', async ({ page }) => {
+    await page.goto(`${BASE_URL}/my/purchases`);
+    await page.waitForLoadState('networkidle');
+
+    const refundButton = page.getByRole('button', { name: '환불 요청', exact: true }).first();
+    test.skip(!(await refundButton.isVisible()), '환불 요청할 수 있는 구매 내역이 없음');
+    await refundButton.click();
+
+    const submitButton = page.getByRole('button', { name: '환불 요청', exact: true }).last();
+    // 사유는 10자 이상이어야 요청 가능
+    await page.fill('textarea[placeholder^="어떤 문제가 있는지"]', '짧음');
+    await expect(submitButton).toBeDisabled();
+    await page.fill('textarea[placeholder^="어떤 문제가 있는지"]', 'e2e 테스트용 환불 요청입니다.');
+    await submitButton.click();
+
+    await expect(page.getByText('환불을 요청했습니다. 판매자의 응답을 기다려주세요.')).toBeVisible({ timeout: 10000 });
+    await expect(page.getByText('환불 요청 내역')).toBeVisible();
+
+    await page.screenshot({ path: 'tests/screenshots/purchase-03-refund.png', fullPage: true });
+    console.log('✅ 환불 요청 완료');
+  });
+});
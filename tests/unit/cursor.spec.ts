@@ -0,0 +1,29 @@
+import { test, expect } from '@playwright/test';
+import { encodeCursor, decodeCursor } from '../../src/lib/cursor';
+
+test.describe('페이지 커서', () => {
+  test('인코딩한 값을 그대로 복원', () => {
+    const id = '4f1c2d3e-0000-4000-8000-000000000001';
+    expect(decodeCursor(encodeCursor('2026-10-01T09:00:00+00:00', id))).toEqual(['2026-10-01T09:00:00+00:00', id]);
+    expect(decodeCursor(encodeCursor(1500, id))).toEqual([1500, id]);
+    // 검색 커서는 실수 정렬 키 (관련도 점수, 음수 가격)
+    expect(decodeCursor(encodeCursor(0.123456789012345, id))).toEqual([0.123456789012345, id]);
+    expect(decodeCursor(encodeCursor(-3000, id))).toEqual([-3000, id]);
+  });
+
+  test('커서는 URL 에 넣을 수 있는 불투명 문자열', () => {
+    const cursor = encodeCursor(42, 'abc');
+    expect(cursor).toMatch(/^[A-Za-z0-9+/=]+$/);
+    expect(cursor).not.toContain('42');
+  });
+
+  test('encodeCursor 가 만들지 않은 값은 거부', () => {
+    expect(decodeCursor('')).toBeNull();
+    expect(decodeCursor('not base64 !!')).toBeNull();
+    expect(decodeCursor(btoa('{"value":1}'))).toBeNull();
+    expect(decodeCursor(btoa('[1]'))).toBeNull();
+    expect(decodeCursor(btoa('[1, 2, 3]'))).toBeNull();
+    expect(decodeCursor(btoa('[{"or":"x"}, "id"]'))).toBeNull();
+    expect(decodeCursor(btoa('[null, "id"]'))).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import { crc32 } from 'node:zlib';
+import { toCsv } from '../../src/lib/csv';
+import { toXlsx } from '../../src/lib/xlsx';
+
+// Reads the stored (uncompressed) entries of a ZIP written by toXlsx
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let offset = 0;
+
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    expect(view.getUint16(offset + 8, true)).toBe(0); // stored
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const data = zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    expect(crc32(data)).toBe(crc);
+    files[name] = decoder.decode(data);
+    offset += 30 + nameLength + size;
+  }
+
+  // End of central directory: entry count and central directory offset
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  expect(view.getUint16(end + 10, true)).toBe(Object.keys(files).length);
+  expect(view.getUint32(end + 16, true)).toBe(offset);
+  expect(view.getUint32(offset, true)).toBe(0x02014b50);
+
+  return files;
+}
+
+test.describe('CSV 내보내기', () => {
+  test('쉼표 / 따옴표 / 줄바꿈이 있는 값은 따옴표로 감쌈', () => {
+    const csv = toCsv(['제목', '메모'], [
+      ['분수, 덧셈', 'say "hi"'],
+      ['두 줄\n메모', null],
+      ['일반', undefined],
+    ]);
+    expect(csv).toBe(['제목,메모', '"분수, 덧셈","say ""hi"""', '"두 줄\n메모",', '일반,'].join('\r\n'));
+  });
+
+  test('수식으로 읽힐 수 있는 텍스트는 작은따옴표를 붙임', () => {
+    const csv = toCsv(['값'], [['=SUM(A1:A9)'], ['+82 10'], ['-발췌'], ['@cmd'], ['\t탭'], ['\r캐리지']]);
+    const rows = csv.split('\r\n').slice(1);
+    expect(rows).toEqual(["'=SUM(A1:A9)", "'+82 10", "'-발췌", "'@cmd", "'\t탭", `"'\r캐리지"`]);
+  });
+
+  test('숫자는 그대로 (음수 금액도 숫자로 유지)', () => {
+    expect(toCsv(['금액', '잔액'], [[-1500, 0], [2000, 3500]])).toBe('금액,잔액\r\n-1500,0\r\n2000,3500');
+  });
+});
+
+test.describe('XLSX 내보내기', () => {
+  test('필요한 파트를 모두 담은 ZIP', () => {
+    const files = readZip(toXlsx('포인트 내역', ['일시', '금액'], [['2026-10-01', 100]]));
+    expect(Object.keys(files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(files['xl/workbook.xml']).toContain('<sheet name="포인트 내역"');
+  });
+
+  test('숫자는 값 셀, 텍스트는 수식이 아닌 인라인 문자열', () => {
+    const sheet = readZip(toXlsx('Sheet', ['설명', '금액'], [['=HYPERLINK("x")', -1500], ['<b>&', 0]]))[
+      'xl/worksheets/sheet1.xml'
+    ];
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">설명</t></is></c>');
+    expect(sheet).toContain('<c r="A2" s="0" t="inlineStr"><is><t xml:space="preserve">=HYPERLINK(&quot;x&quot;)</t></is></c>');
+    expect(sheet).toContain('<c r="B2" s="0"><v>-1500</v></c>');
+    expect(sheet).toContain('<t xml:space="preserve">&lt;b&gt;&amp;</t>');
+    expect(sheet).toContain('<c r="B3" s="0"><v>0</v></c>');
+    expect(sheet).not.toContain('<f>');
+  });
+
+  test('빈 값은 셀을 만들지 않고, 27번째 열은 AA', () => {
+    const headers = Array.from({ length: 27 }, (_, i) => `h${i}`);
+    const sheet = readZip(toXlsx('Sheet', headers, [[null, undefined, '']]))['xl/worksheets/sheet1.xml'];
+    expect(sheet).toContain('<c r="AA1" s="1" t="inlineStr">');
+    expect(sheet).toContain('<row r="2"></row>');
+  });
+});
@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test';
+import { toPdf, PdfImagePage } from '../../src/lib/pdf';
+
+// A fake JPEG payload: the writer copies the bytes as they are
+const page = (size: number): PdfImagePage => ({
+  jpeg: new Uint8Array(size).map((_, i) => (i * 37) & 0xff),
+  width: 1240,
+  height: 1754,
+});
+
+// latin1 keeps one character per byte, so string offsets equal byte offsets
+const asText = (pdf: Uint8Array) => Buffer.from(pdf).toString('latin1');
+
+test.describe('PDF 생성', () => {
+  test('헤더와 끝 표시', () => {
+    const text = asText(toPdf([page(10)]));
+    expect(text.startsWith('%PDF-1.4\n%')).toBe(true);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  test('xref 오프셋이 각 객체 시작을 가리킴', () => {
+    const text = asText(toPdf([page(100), page(2000), page(0)]));
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)?.[1]);
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+
+    const [, count] = /^xref\n0 (\d+)\n/.exec(text.slice(startxref)) ?? [];
+    expect(Number(count)).toBe(2 + 3 * 3 + 1);
+    expect(text).toContain(`/Size ${count} /Root 1 0 R`);
+
+    const entries = text.slice(startxref).split('\n').slice(2, 2 + Number(count));
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    entries.slice(1).forEach((entry, i) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + `${i + 1} 0 obj\n`.length)).toBe(`${i + 1} 0 obj\n`);
+    });
+  });
+
+  test('페이지 수와 이미지 크기', () => {
+    const pages = [page(50), page(60)];
+    const text = asText(toPdf(pages));
+    expect(text).toContain('/Type /Pages /Kids [3 0 R 6 0 R] /Count 2');
+    expect(text.match(/\/Type \/Page /g)).toHaveLength(2);
+    expect(text).toContain('/Width 1240 /Height 1754');
+    expect(text).toContain('/Filter /DCTDecode /Length 60');
+  });
+});